@@ -7,14 +7,20 @@ import fs from 'fs';
 import config from './utils/config';
 import { logger } from './utils/logger';
 import { errorHandler } from './middleware/validation';
+import { processorService } from './services/processor';
+import { UploadMiddleware } from './middleware/upload';
+import { checkMediaTools } from './utils/media';
 
 // Routes
 import healthRouter from './routes/health';
 import uploadRouter from './routes/upload';
 import summariesRouter from './routes/summaries';
+import templatesRouter from './routes/templates';
 
 const app = express();
 
+const UPLOAD_CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
 // Trust proxy for accurate IP addresses
 app.set('trust proxy', 1);
 
@@ -86,6 +92,7 @@ if (!fs.existsSync(config.uploadDir)) {
 app.use('/api/health', healthRouter);
 app.use('/api/upload', uploadRouter);
 app.use('/api/summaries', summariesRouter);
+app.use('/api/templates', templatesRouter);
 
 // Root endpoint
 app.get('/', (req, res) => {
@@ -96,7 +103,8 @@ app.get('/', (req, res) => {
     endpoints: {
       health: '/api/health',
       upload: '/api/upload',
-      summaries: '/api/summaries'
+      summaries: '/api/summaries',
+      templates: '/api/templates'
     },
     documentation: '/api/docs'
   });
@@ -118,7 +126,8 @@ app.get('/api/docs', (req, res) => {
           options: {
             lang: 'language code (optional)',
             detail: 'brief|standard|deep',
-            timestamps: 'boolean'
+            timestamps: 'boolean',
+            templateId: 'summary template to follow (optional)'
           }
         }
       },
@@ -126,6 +135,10 @@ app.get('/api/docs', (req, res) => {
         description: 'Get processing job status',
         authentication: 'required'
       },
+      'GET /api/upload/status/:jobId/stream': {
+        description: 'Stream job progress as Server-Sent Events (progress, transcript, completed, failed)',
+        authentication: 'required'
+      },
       'GET /api/summaries': {
         description: 'List user summaries with pagination',
         authentication: 'required',
@@ -143,6 +156,22 @@ app.get('/api/docs', (req, res) => {
         description: 'Delete a summary',
         authentication: 'required'
       },
+      'GET /api/templates': {
+        description: 'List summary templates',
+        authentication: 'required'
+      },
+      'POST /api/templates': {
+        description: 'Create a summary template with named sections, instructions and item counts',
+        authentication: 'required'
+      },
+      'PUT /api/templates/:id': {
+        description: 'Replace a summary template',
+        authentication: 'required'
+      },
+      'DELETE /api/templates/:id': {
+        description: 'Delete a summary template',
+        authentication: 'required'
+      },
       'GET /api/health': {
         description: 'API health check',
         authentication: 'none'
@@ -161,6 +190,7 @@ app.use('*', (req, res) => {
       'GET /api/health',
       'POST /api/upload',
       'GET /api/upload/status/:jobId',
+      'GET /api/upload/status/:jobId/stream',
       'GET /api/summaries',
       'GET /api/summaries/:id'
     ]
@@ -206,6 +236,23 @@ const server = app.listen(config.port, () => {
     cors: config.corsOrigins,
     uploadDir: config.uploadDir
   });
+
+  // Uploads can be neither validated nor processed without ffmpeg and ffprobe
+  checkMediaTools()
+    .then(() => {
+      // Resume jobs persisted by a previous run
+      processorService.recoverJobs();
+
+      // Remove stale uploads and abandoned resumable upload sessions
+      setInterval(() => UploadMiddleware.cleanupOldFiles(), UPLOAD_CLEANUP_INTERVAL_MS).unref();
+    })
+    .catch(error => {
+      logger.logError(
+        error instanceof Error ? error : new Error(String(error)),
+        'Media tools unavailable: install ffmpeg and ffprobe or set FFMPEG_PATH and FFPROBE_PATH'
+      );
+      process.exit(1);
+    });
 });
 
 export default app;
@@ -0,0 +1,111 @@
+import fs from 'fs';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { EventEmitter } from 'events';
+import { describe, expect, it, jest } from '@jest/globals';
+import express, { NextFunction, Request, Response } from 'express';
+import config from '../utils/config';
+import { sineWav } from '../test/audio';
+import { uploadSingle, validateFile } from './upload';
+
+const MP3_HEADER = Buffer.from([0xff, 0xfb, 0x90, 0x64, ...Array(28).fill(0)]);
+
+// Enough of a response for the middleware: a status, a JSON body and 'finish'
+function fakeResponse(): Response & { body?: unknown } {
+  const res = Object.assign(new EventEmitter(), {
+    statusCode: 200,
+    locals: {},
+    body: undefined as unknown,
+    status(code: number) {
+      res.statusCode = code;
+      return res;
+    },
+    json(body: unknown) {
+      res.body = body;
+      res.emit('finish');
+      return res;
+    }
+  });
+  return res as unknown as Response & { body?: unknown };
+}
+
+function upload(name: string, content: Buffer): Request {
+  const filePath = path.join(config.uploadDir, name);
+  fs.writeFileSync(filePath, content);
+  return {
+    body: {},
+    file: { path: filePath, filename: name, size: content.length } as Express.Multer.File
+  } as Request;
+}
+
+describe('validateFile', () => {
+  it('accepts valid audio and records its metadata', async () => {
+    const req = upload('valid.mp3', MP3_HEADER);
+    const res = fakeResponse();
+    const next = jest.fn<NextFunction>();
+
+    await validateFile(req, res, next);
+
+    expect(next).toHaveBeenCalledWith();
+    expect(res.locals.audioMetadata).toMatchObject({ format: 'mp3', duration: 12.5 });
+    expect(fs.existsSync(req.file!.path)).toBe(true);
+  });
+
+  it('rejects and deletes a file that is not audio', async () => {
+    const req = upload('fake.mp3', Buffer.from('just some text, nothing to hear here'));
+    const res = fakeResponse();
+
+    await validateFile(req, res, jest.fn<NextFunction>());
+
+    expect(res.statusCode).toBe(400);
+    expect(fs.existsSync(req.file!.path)).toBe(false);
+  });
+
+  it('deletes an accepted file when a later handler rejects the request', async () => {
+    const req = upload('rejected-later.mp3', MP3_HEADER);
+    const res = fakeResponse();
+
+    await validateFile(req, res, jest.fn<NextFunction>());
+    res.status(429).json({ error: 'Too Many Requests' });
+
+    expect(fs.existsSync(req.file!.path)).toBe(false);
+  });
+
+  it('keeps an accepted file when the request succeeds', async () => {
+    const req = upload('accepted.mp3', MP3_HEADER);
+    const res = fakeResponse();
+
+    await validateFile(req, res, jest.fn<NextFunction>());
+    res.status(202).json({ jobId: 'job-1' });
+
+    expect(fs.existsSync(req.file!.path)).toBe(true);
+  });
+});
+
+describe('multipart uploads', () => {
+  it('accepts real audio whatever type the client declares', async () => {
+    const app = express();
+    app.post('/upload', uploadSingle, validateFile, (req: Request, res: Response) => {
+      res.json({ filename: req.file?.filename, metadata: res.locals.audioMetadata });
+    });
+    const server = app.listen(0, '127.0.0.1');
+    await new Promise(resolve => server.once('listening', resolve));
+
+    try {
+      const form = new FormData();
+      form.append('file', new Blob([sineWav(1)], { type: 'application/octet-stream' }), 'recording.wav');
+
+      const response = await fetch(`http://127.0.0.1:${(server.address() as AddressInfo).port}/upload`, {
+        method: 'POST',
+        body: form
+      });
+      const body = await response.json() as { filename: string; metadata: { format: string } };
+
+      expect(response.status).toBe(200);
+      expect(body.metadata.format).toBe('wav');
+      expect(fs.existsSync(path.join(config.uploadDir, body.filename))).toBe(true);
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+});
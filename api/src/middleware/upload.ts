@@ -5,6 +5,9 @@ import { Request, Response, NextFunction } from 'express';
 import config from '../utils/config';
 import { logger } from '../utils/logger';
 import { AuthRequest } from '../types';
+import { uploadSessionService } from '../services/uploadSessions';
+import { MediaValidationError, mediaValidationService } from '../services/mediaValidation';
+import { processorService } from '../services/processor';
 
 export class UploadMiddleware {
   
@@ -45,30 +48,12 @@ export class UploadMiddleware {
   }
 
   /**
-   * File filter function
-   */
-  private static fileFilter(req: Request, file: Express.Multer.File, cb: multer.FileFilterCallback) {
-    // Check if file type is allowed
-    if (config.allowedFileTypes.includes(file.mimetype)) {
-      cb(null, true);
-    } else {
-      logger.logUpload('File type rejected', {
-        mimetype: file.mimetype,
-        originalName: file.originalname,
-        allowedTypes: config.allowedFileTypes
-      });
-      
-      cb(new Error(`File type ${file.mimetype} is not allowed. Allowed types: ${config.allowedFileTypes.join(', ')}`));
-    }
-  }
-
-  /**
-   * Create multer upload middleware
+   * Create multer upload middleware. Any declared type is accepted here;
+   * validateUploadedFile checks what the file really is.
    */
   static createUploadMiddleware() {
     return multer({
       storage: UploadMiddleware.createStorage(),
-      fileFilter: UploadMiddleware.fileFilter,
       limits: {
         fileSize: config.maxFileSize,
         files: 1, // Only allow one file at a time
@@ -149,12 +134,20 @@ export class UploadMiddleware {
   }
 
   /**
-   * Validate uploaded file
+   * Validate uploaded file. Its content is checked as well, since the MIME
+   * type is whatever the client claimed; the probed metadata is left in
+   * `res.locals.audioMetadata` for the job.
    */
   static validateUploadedFile() {
-    return (req: Request, res: Response, next: NextFunction) => {
+    return async (req: Request, res: Response, next: NextFunction) => {
       const file = req.file;
       
+      // URL uploads carry no file
+      if (!file && req.body?.type === 'url') {
+        next();
+        return;
+      }
+
       if (!file) {
         res.status(400).json({
           error: 'Validation Error',
@@ -165,6 +158,13 @@ export class UploadMiddleware {
         return;
       }
 
+      // Whichever later handler rejects the request, the file goes with it
+      res.on('finish', () => {
+        if (res.statusCode >= 400) {
+          UploadMiddleware.deleteFile(file.path);
+        }
+      });
+
       // Additional file validation
       const errors: string[] = [];
 
@@ -188,6 +188,20 @@ export class UploadMiddleware {
         errors.push('Cannot validate uploaded file');
       }
 
+      if (errors.length === 0) {
+        try {
+          res.locals.audioMetadata = await mediaValidationService.validate(file.path);
+        } catch (error) {
+          if (!(error instanceof MediaValidationError)) {
+            // The file was never accepted, so it must not outlive the request
+            UploadMiddleware.deleteFile(file.path);
+            next(error);
+            return;
+          }
+          errors.push(error.message);
+        }
+      }
+
       if (errors.length > 0) {
         // Clean up invalid file
         if (fs.existsSync(file.path)) {
@@ -201,7 +215,7 @@ export class UploadMiddleware {
 
         res.status(400).json({
           error: 'Validation Error',
-          message: 'File validation failed',
+          message: `File validation failed: ${errors.join('; ')}`,
           details: errors,
           statusCode: 400,
           timestamp: new Date().toISOString()
@@ -213,6 +227,35 @@ export class UploadMiddleware {
     };
   }
 
+  /**
+   * Parse the JSON-encoded `options` field of multipart uploads, since
+   * multipart form fields can only carry strings
+   */
+  static parseMultipartOptions() {
+    return (req: Request, res: Response, next: NextFunction) => {
+      if (typeof req.body?.options !== 'string') {
+        next();
+        return;
+      }
+
+      try {
+        req.body.options = JSON.parse(req.body.options);
+        next();
+      } catch {
+        if (req.file && fs.existsSync(req.file.path)) {
+          fs.unlinkSync(req.file.path);
+        }
+
+        res.status(400).json({
+          error: 'Validation Error',
+          message: 'options must be a JSON object',
+          statusCode: 400,
+          timestamp: new Date().toISOString()
+        });
+      }
+    };
+  }
+
   /**
    * Clean up uploaded files on error
    */
@@ -304,20 +347,26 @@ export class UploadMiddleware {
   }
 
   /**
-   * Clean up old files (should be run periodically)
+   * Clean up old files and abandoned resumable upload sessions (should be
+   * run periodically). Files a live job or checkpoint refers to are kept
+   * however old they are.
    */
   static cleanupOldFiles(maxAgeMs: number = 24 * 60 * 60 * 1000): number {
     let deletedCount = 0;
     
     try {
+      deletedCount += uploadSessionService.expireSessions();
+
       const files = fs.readdirSync(config.uploadDir);
+      const inUse = processorService.filesInUse();
       const now = Date.now();
       
       for (const file of files) {
         const filePath = path.join(config.uploadDir, file);
         const stats = fs.statSync(filePath);
         
-        if (now - stats.mtime.getTime() > maxAgeMs) {
+        // Upload sessions live in a subdirectory and expire on their own schedule
+        if (stats.isFile() && now - stats.mtime.getTime() > maxAgeMs && !inUse.has(path.resolve(filePath))) {
           if (UploadMiddleware.deleteFile(filePath)) {
             deletedCount++;
           }
@@ -342,6 +391,7 @@ export class UploadMiddleware {
 // Export commonly used middleware
 export const uploadSingle = UploadMiddleware.singleFileUpload();
 export const validateFile = UploadMiddleware.validateUploadedFile();
+export const parseOptions = UploadMiddleware.parseMultipartOptions();
 export const cleanupOnError = UploadMiddleware.cleanupOnError();
 
 export default UploadMiddleware;
@@ -54,7 +54,7 @@ export class ValidationMiddleware {
    */
   static validateQuery(rules: ValidationRule[]) {
     return (req: Request, res: Response, next: NextFunction): void => {
-      const errors = ValidationMiddleware.validateObject(req.query, rules);
+      const errors = ValidationMiddleware.validateObject(ValidationMiddleware.coerceQuery(req.query, rules), rules);
       
       if (errors.length > 0) {
         const errorResponse: ErrorResponse = {
@@ -74,6 +74,27 @@ export class ValidationMiddleware {
     };
   }
 
+  /**
+   * Query strings only carry strings; convert number and boolean fields
+   * so they can be checked like body values
+   */
+  static coerceQuery(query: Record<string, unknown>, rules: ValidationRule[]): Record<string, unknown> {
+    const coerced = { ...query };
+
+    for (const rule of rules) {
+      const value = coerced[rule.field];
+      if (typeof value !== 'string' || value === '') continue;
+
+      if (rule.type === 'number') {
+        coerced[rule.field] = Number(value);
+      } else if (rule.type === 'boolean' && (value === 'true' || value === 'false')) {
+        coerced[rule.field] = value === 'true';
+      }
+    }
+
+    return coerced;
+  }
+
   /**
    * Validate an object against rules
    */
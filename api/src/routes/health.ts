@@ -3,7 +3,8 @@ import os from 'os';
 import fs from 'fs';
 import { HealthStatus } from '../types';
 import { logger } from '../utils/logger';
-import { openaiService } from '../services/openai';
+import { transcriptionProvider, summarizationProvider } from '../services/providers';
+import { circuitStatuses } from '../utils/circuitBreaker';
 import config from '../utils/config';
 
 const router = Router();
@@ -39,22 +40,26 @@ router.get('/', async (req: Request, res: Response): Promise<void> => {
     // Check services
     const services = {
       database: 'connected' as const, // Would check actual database connection
-      openai: 'available' as const,
+      ai: 'available' as const,
       storage: 'accessible' as const
     };
 
-    // Test OpenAI connection
+    // A provider whose circuit is open is failing fast, even if it answers a ping
+    const circuits = circuitStatuses();
+    const circuitOpen = circuits.some(circuit => circuit.state === 'open');
+
+    // Test AI provider connections
     try {
-      const openaiConnected = await Promise.race([
-        openaiService.testConnection(),
-        new Promise<boolean>((_, reject) => 
+      const connected = await Promise.race([
+        Promise.all([transcriptionProvider.testConnection(), summarizationProvider.testConnection()]),
+        new Promise<boolean[]>((_, reject) => 
           setTimeout(() => reject(new Error('Timeout')), 5000)
         )
       ]);
-      services.openai = openaiConnected ? 'available' : 'unavailable';
+      services.ai = connected.every(Boolean) && !circuitOpen ? 'available' : 'unavailable';
     } catch (error) {
-      services.openai = 'error';
-      logger.warn('OpenAI health check failed', { 
+      services.ai = 'error';
+      logger.warn('AI provider health check failed', { 
         error: error instanceof Error ? error.message : 'Unknown' 
       });
     }
@@ -73,9 +78,9 @@ router.get('/', async (req: Request, res: Response): Promise<void> => {
     // Calculate overall status
     let status: 'healthy' | 'unhealthy' | 'degraded' = 'healthy';
     
-    if (services.openai === 'error' || services.storage === 'inaccessible') {
+    if (services.ai === 'error' || services.storage === 'inaccessible') {
       status = 'unhealthy';
-    } else if (services.openai === 'unavailable' || services.database === 'disconnected') {
+    } else if (services.ai === 'unavailable' || services.database === 'disconnected') {
       status = 'degraded';
     }
 
@@ -87,7 +92,8 @@ router.get('/', async (req: Request, res: Response): Promise<void> => {
       timestamp: new Date().toISOString(),
       version: '1.0.0',
       uptime: process.uptime(),
-      services,
+      services: { ...services, openai: services.ai },
+      circuits,
       system: {
         memory: {
           used: memoryUsage.heapUsed,
@@ -127,6 +133,7 @@ router.get('/', async (req: Request, res: Response): Promise<void> => {
       uptime: process.uptime(),
       services: {
         database: 'error',
+        ai: 'error',
         openai: 'error',
         storage: 'error'
       },
@@ -176,8 +183,13 @@ router.get('/detailed', async (req: Request, res: Response): Promise<void> => {
         platform: process.platform,
         arch: process.arch
       },
+      providers: {
+        transcription: transcriptionProvider.name,
+        summarization: summarizationProvider.name
+      },
       openai: {
         model: config.openai.model,
+        summaryModel: config.openai.summaryModel,
         maxTokens: config.openai.maxTokens,
         temperature: config.openai.temperature
       }
@@ -1,13 +1,50 @@
 import { Router, Response } from 'express';
-import { AuthRequest, Summary, SummaryListQuery, PaginatedResponse, UpdateSummaryRequest } from '../types';
+import {
+  AuthRequest,
+  ExportFormat,
+  ExportSection,
+  Summary,
+  SummaryListQuery,
+  SummarySearchResult,
+  PaginatedResponse,
+  UpdateSummaryRequest,
+  RegenerateSummaryRequest,
+  RenameSpeakerRequest,
+  AskRequest,
+  LibraryAskRequest,
+  UploadOptions,
+  UploadResponse
+} from '../types';
 import { requireAuth } from '../middleware/auth';
 import { ValidationMiddleware, commonValidations } from '../middleware/validation';
+import { summaryRepository } from '../services/summaryStore';
+import { processorService } from '../services/processor';
+import { withVersion } from '../services/summaryVersions';
+import { renameSpeaker } from '../services/speakers';
+import { questionAnsweringService } from '../services/questionAnswering';
+import { templateRepository } from '../services/templateStore';
+import { vectorIndex } from '../services/vectorIndex';
+import { EXPORT_SECTIONS, ExportOptions, SummaryExporter } from '../services/summaryExporter';
 import { logger } from '../utils/logger';
 
 const router = Router();
 
-// In-memory storage for demo (replace with database in production)
-const summaries = new Map<string, Summary>();
+/**
+ * Split a comma separated list of export sections, e.g. "overview,quotes"
+ */
+function parseSectionList(value: unknown): ExportSection[] | undefined {
+  if (typeof value !== 'string' || value.trim() === '') return undefined;
+  return value.split(',').map(section => section.trim()).filter(Boolean) as ExportSection[];
+}
+
+function isSectionList(value: unknown): boolean | string {
+  const unknown = (parseSectionList(value) || []).filter(section => !EXPORT_SECTIONS.includes(section));
+  return unknown.length === 0 || `Unknown sections: ${unknown.join(', ')}. Valid sections: ${EXPORT_SECTIONS.join(', ')}`;
+}
+
+function isDate(value: unknown): boolean | string {
+  return (typeof value === 'string' && !Number.isNaN(Date.parse(value))) || 'Dates must be ISO 8601, e.g. 2024-05-01';
+}
 
 /**
  * GET /api/summaries
@@ -52,6 +89,16 @@ router.get('/',
       field: 'detailLevel',
       type: 'string',
       enum: ['brief', 'standard', 'deep']
+    },
+    {
+      field: 'from',
+      type: 'string',
+      custom: isDate
+    },
+    {
+      field: 'to',
+      type: 'string',
+      custom: isDate
     }
   ]),
   async (req: AuthRequest, res: Response): Promise<void> => {
@@ -65,76 +112,16 @@ router.get('/',
         order: req.query.order as any || 'desc',
         tags: req.query.tags ? (req.query.tags as string).split(',') : undefined,
         language: req.query.language as string,
-        detailLevel: req.query.detailLevel as any
+        detailLevel: req.query.detailLevel as any,
+        from: req.query.from as string,
+        to: req.query.to as string
       };
 
-      // Get user's summaries
-      let userSummaries = Array.from(summaries.values())
-        .filter(summary => summary.userId === user.id);
-
-      // Apply filters
-      if (query.search) {
-        const searchLower = query.search.toLowerCase();
-        userSummaries = userSummaries.filter(summary =>
-          summary.title.toLowerCase().includes(searchLower) ||
-          summary.description?.toLowerCase().includes(searchLower) ||
-          summary.overview.toLowerCase().includes(searchLower) ||
-          summary.tags.some(tag => tag.toLowerCase().includes(searchLower))
-        );
-      }
-
-      if (query.language) {
-        userSummaries = userSummaries.filter(summary => 
-          summary.language === query.language
-        );
-      }
-
-      if (query.detailLevel) {
-        userSummaries = userSummaries.filter(summary => 
-          summary.detailLevel === query.detailLevel
-        );
-      }
-
-      if (query.tags && query.tags.length > 0) {
-        userSummaries = userSummaries.filter(summary =>
-          query.tags!.some(tag => summary.tags.includes(tag))
-        );
-      }
-
-      // Apply sorting
-      userSummaries.sort((a, b) => {
-        let aValue: any, bValue: any;
-        
-        switch (query.sort) {
-          case 'title':
-            aValue = a.title.toLowerCase();
-            bValue = b.title.toLowerCase();
-            break;
-          case 'duration':
-            aValue = a.duration;
-            bValue = b.duration;
-            break;
-          case 'updatedAt':
-            aValue = a.updatedAt.getTime();
-            bValue = b.updatedAt.getTime();
-            break;
-          default: // createdAt
-            aValue = a.createdAt.getTime();
-            bValue = b.createdAt.getTime();
-        }
-
-        if (query.order === 'asc') {
-          return aValue < bValue ? -1 : aValue > bValue ? 1 : 0;
-        } else {
-          return aValue > bValue ? -1 : aValue < bValue ? 1 : 0;
-        }
-      });
+      // Filtering, sorting and pagination happen in the store
+      const { summaries: paginatedSummaries, total } = await summaryRepository.list(user.id, query);
 
       // Calculate pagination
-      const total = userSummaries.length;
       const totalPages = Math.ceil(total / query.limit!);
-      const offset = (query.page! - 1) * query.limit!;
-      const paginatedSummaries = userSummaries.slice(offset, offset + query.limit!);
 
       // Create response
       const response: PaginatedResponse<Summary> = {
@@ -159,7 +146,9 @@ router.get('/',
           search: query.search,
           language: query.language,
           detailLevel: query.detailLevel,
-          tags: query.tags
+          tags: query.tags,
+          from: query.from,
+          to: query.to
         }
       });
 
@@ -182,6 +171,162 @@ router.get('/',
   }
 );
 
+/**
+ * GET /api/summaries/search
+ * Ranked full-text search over summaries and transcripts
+ */
+router.get('/search',
+  requireAuth,
+  ValidationMiddleware.validateQuery([
+    {
+      field: 'q',
+      required: true,
+      type: 'string',
+      minLength: 1,
+      maxLength: 200
+    },
+    {
+      field: 'page',
+      type: 'number',
+      min: 1
+    },
+    {
+      field: 'limit',
+      type: 'number',
+      min: 1,
+      max: 50
+    }
+  ]),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const user = req.user!;
+      const q = req.query.q as string;
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 20;
+
+      const startTime = Date.now();
+      const { results, total } = await summaryRepository.search(user.id, q, { page, limit });
+      const totalPages = Math.ceil(total / limit);
+
+      const response: PaginatedResponse<SummarySearchResult> = {
+        success: true,
+        data: results,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages,
+          hasNext: page < totalPages,
+          hasPrev: page > 1
+        },
+        timestamp: new Date().toISOString()
+      };
+
+      logger.logDatabase('Summaries searched', {
+        userId: user.id,
+        total,
+        page,
+        duration: Date.now() - startTime
+      });
+
+      res.json(response);
+
+    } catch (error) {
+      logger.logError(
+        error instanceof Error ? error : new Error(String(error)),
+        'Failed to search summaries',
+        { userId: req.user?.id, query: req.query }
+      );
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to search summaries',
+        statusCode: 500,
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/summaries/ask
+ * Answer a question across every summary matching the filters
+ */
+router.post('/ask',
+  requireAuth,
+  ValidationMiddleware.validateBody([
+    {
+      field: 'question',
+      required: true,
+      type: 'string',
+      minLength: 1,
+      maxLength: 500,
+      custom: (value: string) => value.trim().length > 0 || 'question must not be blank'
+    },
+    {
+      field: 'tags',
+      type: 'array',
+      custom: (value: unknown[]) => value.every(tag => typeof tag === 'string') || 'tags must be strings'
+    },
+    {
+      field: 'language',
+      type: 'string',
+      minLength: 2,
+      maxLength: 5
+    },
+    {
+      field: 'detailLevel',
+      type: 'string',
+      enum: ['brief', 'standard', 'deep']
+    },
+    {
+      field: 'from',
+      type: 'string',
+      custom: isDate
+    },
+    {
+      field: 'to',
+      type: 'string',
+      custom: isDate
+    }
+  ]),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const user = req.user!;
+      const { question, tags, language, detailLevel, from, to }: LibraryAskRequest = req.body;
+
+      const answer = await questionAnsweringService.askLibrary(user.id, {
+        question: question.trim(),
+        tags: tags && tags.length > 0 ? tags : undefined,
+        language,
+        detailLevel,
+        from,
+        to
+      });
+
+      res.json({
+        success: true,
+        data: answer,
+        timestamp: new Date().toISOString()
+      });
+
+    } catch (error) {
+      logger.logError(
+        error instanceof Error ? error : new Error(String(error)),
+        'Failed to answer library question',
+        { userId: req.user?.id }
+      );
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to answer question',
+        statusCode: 500,
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+);
+
 /**
  * GET /api/summaries/:id
  * Get specific summary by ID
@@ -190,10 +335,10 @@ router.get('/:id',
   requireAuth,
   async (req: AuthRequest, res: Response): Promise<void> => {
     try {
-      const { id } = req.params;
+      const { id } = req.params as { id: string };
       const user = req.user!;
 
-      const summary = summaries.get(id);
+      const summary = await summaryRepository.get(id);
 
       if (!summary) {
         res.status(404).json({
@@ -270,11 +415,11 @@ router.put('/:id',
   ]),
   async (req: AuthRequest, res: Response): Promise<void> => {
     try {
-      const { id } = req.params;
+      const { id } = req.params as { id: string };
       const user = req.user!;
       const updates: UpdateSummaryRequest = req.body;
 
-      const summary = summaries.get(id);
+      const summary = await summaryRepository.get(id);
 
       if (!summary) {
         res.status(404).json({
@@ -306,7 +451,7 @@ router.put('/:id',
         updatedAt: new Date()
       };
 
-      summaries.set(id, updatedSummary);
+      await summaryRepository.save(updatedSummary);
 
       logger.logDatabase('Summary updated', {
         summaryId: id,
@@ -346,10 +491,10 @@ router.delete('/:id',
   requireAuth,
   async (req: AuthRequest, res: Response): Promise<void> => {
     try {
-      const { id } = req.params;
+      const { id } = req.params as { id: string };
       const user = req.user!;
 
-      const summary = summaries.get(id);
+      const summary = await summaryRepository.get(id);
 
       if (!summary) {
         res.status(404).json({
@@ -373,7 +518,8 @@ router.delete('/:id',
       }
 
       // Delete the summary
-      summaries.delete(id);
+      await summaryRepository.delete(id);
+      vectorIndex.remove(id);
 
       logger.logDatabase('Summary deleted', {
         summaryId: id,
@@ -419,15 +565,31 @@ router.post('/:id/regenerate',
     {
       field: 'timestamps',
       type: 'boolean'
+    },
+    {
+      field: 'language',
+      type: 'string',
+      minLength: 2,
+      maxLength: 5
+    },
+    {
+      field: 'instructions',
+      type: 'string',
+      maxLength: 2000
+    },
+    {
+      field: 'templateId',
+      type: 'string',
+      maxLength: 100
     }
   ]),
   async (req: AuthRequest, res: Response): Promise<void> => {
     try {
-      const { id } = req.params;
+      const { id } = req.params as { id: string };
       const user = req.user!;
-      const { detailLevel, timestamps } = req.body;
+      const { detailLevel, timestamps, language, instructions, templateId }: RegenerateSummaryRequest = req.body;
 
-      const summary = summaries.get(id);
+      const summary = await summaryRepository.get(id);
 
       if (!summary) {
         res.status(404).json({
@@ -450,30 +612,62 @@ router.post('/:id/regenerate',
         return;
       }
 
-      // For now, return a placeholder response
-      // In a real implementation, you would:
-      // 1. Create a new processing job
-      // 2. Use the existing transcript
-      // 3. Generate new summary with updated options
+      if (!summary.transcript) {
+        res.status(409).json({
+          error: 'Conflict',
+          message: 'This summary has no stored transcript to regenerate from',
+          statusCode: 409,
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      // Keep the summary's template unless another one (or none) is asked for
+      let template = templateId !== undefined ? templateId || undefined : summary.template?.id;
+      if (template) {
+        const found = await templateRepository.get(template);
+        if (!found || found.userId !== user.id) {
+          if (templateId) {
+            res.status(404).json({
+              error: 'Not Found',
+              message: 'Summary template not found',
+              statusCode: 404,
+              timestamp: new Date().toISOString()
+            });
+            return;
+          }
+          // The summary's own template has since been deleted
+          template = undefined;
+        }
+      }
+
+      const options: UploadOptions = {
+        detail: detailLevel || summary.detailLevel,
+        timestamps: timestamps !== undefined ? timestamps : (summary.timestamps.length > 0),
+        lang: language || summary.language,
+        instructions: instructions?.trim() || undefined,
+        templateId: template
+      };
+
+      const job = await processorService.createRegenerationJob(user, summary, options);
 
       logger.logDatabase('Summary regeneration requested', {
         summaryId: id,
         userId: user.id,
-        newDetailLevel: detailLevel,
-        newTimestamps: timestamps
+        jobId: job.id,
+        options
       });
 
+      const response: UploadResponse = {
+        jobId: job.id,
+        status: job.status,
+        message: 'Summary regeneration started'
+      };
+
       res.status(202).json({
         success: true,
+        data: response,
         message: 'Summary regeneration started',
-        data: {
-          summaryId: id,
-          status: 'regenerating',
-          options: {
-            detailLevel: detailLevel || summary.detailLevel,
-            timestamps: timestamps !== undefined ? timestamps : (summary.timestamps.length > 0)
-          }
-        },
         timestamp: new Date().toISOString()
       });
 
@@ -494,6 +688,254 @@ router.post('/:id/regenerate',
   }
 );
 
+/**
+ * POST /api/summaries/:id/versions/:version/restore
+ * Roll back to an earlier version, keeping the current one in the history
+ */
+router.post('/:id/versions/:version/restore',
+  requireAuth,
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { id, version } = req.params as { id: string; version: string };
+      const user = req.user!;
+
+      const summary = await summaryRepository.get(id);
+
+      if (!summary) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: 'Summary not found',
+          statusCode: 404,
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      // Check if user owns the summary
+      if (summary.userId !== user.id) {
+        res.status(403).json({
+          error: 'Forbidden',
+          message: 'You do not have permission to update this summary',
+          statusCode: 403,
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const target = summary.versions?.find(previous => previous.version === Number(version));
+
+      if (!target) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: `Version ${version} not found`,
+          statusCode: 404,
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const restored = withVersion(summary, target);
+      await summaryRepository.save(restored);
+
+      logger.logDatabase('Summary version restored', {
+        summaryId: id,
+        userId: user.id,
+        restoredVersion: target.version,
+        replacedVersion: summary.version || 1
+      });
+
+      res.json({
+        success: true,
+        data: restored,
+        message: `Restored version ${target.version}`,
+        timestamp: new Date().toISOString()
+      });
+
+    } catch (error) {
+      logger.logError(
+        error instanceof Error ? error : new Error(String(error)),
+        'Failed to restore summary version',
+        { summaryId: req.params.id, version: req.params.version, userId: req.user?.id }
+      );
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to restore summary version',
+        statusCode: 500,
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+);
+
+/**
+ * PATCH /api/summaries/:id/speakers/:speakerId
+ * Rename a speaker found by diarization
+ */
+router.patch('/:id/speakers/:speakerId',
+  requireAuth,
+  ValidationMiddleware.validateBody([
+    {
+      field: 'name',
+      required: true,
+      type: 'string',
+      minLength: 1,
+      maxLength: 100,
+      custom: (value: string) => value.trim().length > 0 || 'name must not be blank'
+    }
+  ]),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { id, speakerId } = req.params as { id: string; speakerId: string };
+      const user = req.user!;
+      const { name }: RenameSpeakerRequest = req.body;
+
+      const summary = await summaryRepository.get(id);
+
+      if (!summary) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: 'Summary not found',
+          statusCode: 404,
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      // Check if user owns the summary
+      if (summary.userId !== user.id) {
+        res.status(403).json({
+          error: 'Forbidden',
+          message: 'You do not have permission to update this summary',
+          statusCode: 403,
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      if (!summary.speakers?.some(speaker => speaker.id === speakerId)) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: `Speaker ${speakerId} not found`,
+          statusCode: 404,
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const renamed = renameSpeaker(summary, speakerId, name);
+      await summaryRepository.save(renamed);
+
+      logger.logDatabase('Speaker renamed', {
+        summaryId: id,
+        userId: user.id,
+        speakerId
+      });
+
+      res.json({
+        success: true,
+        data: renamed,
+        message: 'Speaker renamed',
+        timestamp: new Date().toISOString()
+      });
+
+    } catch (error) {
+      logger.logError(
+        error instanceof Error ? error : new Error(String(error)),
+        'Failed to rename speaker',
+        { summaryId: req.params.id, speakerId: req.params.speakerId, userId: req.user?.id }
+      );
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to rename speaker',
+        statusCode: 500,
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/summaries/:id/ask
+ * Answer a question about the episode, citing transcript passages
+ */
+router.post('/:id/ask',
+  requireAuth,
+  ValidationMiddleware.validateBody([
+    {
+      field: 'question',
+      required: true,
+      type: 'string',
+      minLength: 1,
+      maxLength: 500,
+      custom: (value: string) => value.trim().length > 0 || 'question must not be blank'
+    }
+  ]),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params as { id: string };
+      const user = req.user!;
+      const { question }: AskRequest = req.body;
+
+      const summary = await summaryRepository.get(id);
+
+      if (!summary) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: 'Summary not found',
+          statusCode: 404,
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      // Check if user owns the summary
+      if (summary.userId !== user.id) {
+        res.status(403).json({
+          error: 'Forbidden',
+          message: 'You do not have permission to access this summary',
+          statusCode: 403,
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      if (summary.timestamps.length === 0) {
+        res.status(409).json({
+          error: 'Conflict',
+          message: 'This summary has no timestamped transcript to answer from',
+          statusCode: 409,
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const answer = await questionAnsweringService.askEpisode(summary, question.trim());
+
+      res.json({
+        success: true,
+        data: answer,
+        timestamp: new Date().toISOString()
+      });
+
+    } catch (error) {
+      logger.logError(
+        error instanceof Error ? error : new Error(String(error)),
+        'Failed to answer question',
+        { summaryId: req.params.id, userId: req.user?.id }
+      );
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to answer question',
+        statusCode: 500,
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+);
+
 /**
  * GET /api/summaries/:id/export
  * Export summary in various formats
@@ -504,16 +946,34 @@ router.get('/:id/export',
     {
       field: 'format',
       type: 'string',
-      enum: ['json', 'markdown', 'text', 'pdf']
+      enum: ['json', 'markdown', 'text', 'pdf', 'docx', 'html', 'srt', 'vtt']
+    },
+    {
+      field: 'include',
+      type: 'string',
+      custom: isSectionList
+    },
+    {
+      field: 'exclude',
+      type: 'string',
+      custom: isSectionList
+    },
+    {
+      field: 'transcript',
+      type: 'boolean'
+    },
+    {
+      field: 'speakers',
+      type: 'boolean'
     }
   ]),
   async (req: AuthRequest, res: Response): Promise<void> => {
     try {
-      const { id } = req.params;
+      const { id } = req.params as { id: string };
       const user = req.user!;
-      const format = req.query.format as string || 'json';
+      const format = (req.query.format as ExportFormat) || 'json';
 
-      const summary = summaries.get(id);
+      const summary = await summaryRepository.get(id);
 
       if (!summary) {
         res.status(404).json({
@@ -536,32 +996,62 @@ router.get('/:id/export',
         return;
       }
 
-      let content: string;
+      // transcript=true predates include/exclude and still adds the transcript
+      const include = parseSectionList(req.query.include);
+      const exclude = parseSectionList(req.query.exclude) || [];
+      const sections = SummaryExporter.resolveSections(format, include, exclude);
+      if (req.query.transcript === 'true' && !sections.includes('transcript') && !exclude.includes('transcript')) {
+        sections.push('transcript');
+      }
+      const options: ExportOptions = { sections, speakers: req.query.speakers !== 'false' };
+
+      let content: string | Buffer;
       let contentType: string;
       let filename: string;
 
       switch (format) {
         case 'markdown':
-          content = SummaryExporter.toMarkdown(summary);
+          content = SummaryExporter.toMarkdown(summary, options);
           contentType = 'text/markdown';
           filename = `${summary.title.replace(/[^a-zA-Z0-9]/g, '_')}.md`;
           break;
         case 'text':
-          content = SummaryExporter.toText(summary);
+          content = SummaryExporter.toText(summary, options);
           contentType = 'text/plain';
           filename = `${summary.title.replace(/[^a-zA-Z0-9]/g, '_')}.txt`;
           break;
         case 'pdf':
-          // PDF export would require additional library
-          res.status(501).json({
-            error: 'Not Implemented',
-            message: 'PDF export is not yet implemented',
-            statusCode: 501,
-            timestamp: new Date().toISOString()
-          });
-          return;
+          content = await SummaryExporter.toPdf(summary, options);
+          contentType = 'application/pdf';
+          filename = `${summary.title.replace(/[^a-zA-Z0-9]/g, '_')}.pdf`;
+          break;
+        case 'docx':
+          content = await SummaryExporter.toDocx(summary, options);
+          contentType = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+          filename = `${summary.title.replace(/[^a-zA-Z0-9]/g, '_')}.docx`;
+          break;
+        case 'html':
+          content = SummaryExporter.toHtml(summary, options);
+          contentType = 'text/html; charset=utf-8';
+          filename = `${summary.title.replace(/[^a-zA-Z0-9]/g, '_')}.html`;
+          break;
+        case 'srt':
+        case 'vtt':
+          if (summary.timestamps.length === 0) {
+            res.status(409).json({
+              error: 'Conflict',
+              message: 'This summary has no timestamped transcript to build subtitles from',
+              statusCode: 409,
+              timestamp: new Date().toISOString()
+            });
+            return;
+          }
+          content = format === 'srt' ? SummaryExporter.toSrt(summary, options) : SummaryExporter.toVtt(summary, options);
+          contentType = format === 'srt' ? 'application/x-subrip; charset=utf-8' : 'text/vtt; charset=utf-8';
+          filename = `${summary.title.replace(/[^a-zA-Z0-9]/g, '_')}.${format}`;
+          break;
         default: // json
-          content = JSON.stringify(summary, null, 2);
+          content = SummaryExporter.toJson(summary, options);
           contentType = 'application/json';
           filename = `${summary.title.replace(/[^a-zA-Z0-9]/g, '_')}.json`;
       }
@@ -569,7 +1059,8 @@ router.get('/:id/export',
       logger.logDatabase('Summary exported', {
         summaryId: id,
         userId: user.id,
-        format
+        format,
+        sections
       });
 
       res.set({
@@ -596,89 +1087,4 @@ router.get('/:id/export',
   }
 );
 
-// Helper class for exporting summaries
-class SummaryExporter {
-  static toMarkdown(summary: Summary): string {
-    let md = `# ${summary.title}\n\n`;
-    
-    if (summary.description) {
-      md += `${summary.description}\n\n`;
-    }
-
-    md += `**Duration:** ${Math.round(summary.duration / 60)} minutes\n`;
-    md += `**Language:** ${summary.language}\n`;
-    md += `**Detail Level:** ${summary.detailLevel}\n`;
-    md += `**Created:** ${summary.createdAt.toISOString()}\n\n`;
-
-    md += `## Overview\n\n${summary.overview}\n\n`;
-
-    if (summary.keyTakeaways.length > 0) {
-      md += `## Key Takeaways\n\n`;
-      summary.keyTakeaways.forEach((takeaway, i) => {
-        md += `${i + 1}. ${takeaway}\n`;
-      });
-      md += '\n';
-    }
-
-    if (summary.keyPoints.length > 0) {
-      md += `## Key Points\n\n`;
-      summary.keyPoints.forEach(point => {
-        md += `### ${point.title}\n\n${point.description}\n\n`;
-      });
-    }
-
-    if (summary.actionItems.length > 0) {
-      md += `## Action Items\n\n`;
-      summary.actionItems.forEach((item, i) => {
-        md += `- [ ] ${item}\n`;
-      });
-      md += '\n';
-    }
-
-    if (summary.quotes.length > 0) {
-      md += `## Notable Quotes\n\n`;
-      summary.quotes.forEach(quote => {
-        md += `> "${quote}"\n\n`;
-      });
-    }
-
-    return md;
-  }
-
-  static toText(summary: Summary): string {
-    let text = `${summary.title}\n${'='.repeat(summary.title.length)}\n\n`;
-    
-    if (summary.description) {
-      text += `${summary.description}\n\n`;
-    }
-
-    text += `Duration: ${Math.round(summary.duration / 60)} minutes\n`;
-    text += `Language: ${summary.language}\n`;
-    text += `Detail Level: ${summary.detailLevel}\n`;
-    text += `Created: ${summary.createdAt.toISOString()}\n\n`;
-
-    text += `OVERVIEW\n--------\n\n${summary.overview}\n\n`;
-
-    if (summary.keyTakeaways.length > 0) {
-      text += `KEY TAKEAWAYS\n-------------\n\n`;
-      summary.keyTakeaways.forEach((takeaway, i) => {
-        text += `${i + 1}. ${takeaway}\n`;
-      });
-      text += '\n';
-    }
-
-    if (summary.actionItems.length > 0) {
-      text += `ACTION ITEMS\n------------\n\n`;
-      summary.actionItems.forEach(item => {
-        text += `• ${item}\n`;
-      });
-      text += '\n';
-    }
-
-    return text;
-  }
-}
-
-// Export the summaries storage for other modules to use
-export { summaries };
 export default router;
@@ -0,0 +1,292 @@
+import { Router, Response } from 'express';
+import { AuthRequest, SummaryTemplate, SummaryTemplateRequest } from '../types';
+import { requireAuth } from '../middleware/auth';
+import { ValidationMiddleware, ValidationRule } from '../middleware/validation';
+import { templateRepository } from '../services/templateStore';
+import { TEMPLATE_LIMITS, normalizeTemplate, templateProblems } from '../services/summaryTemplates';
+import { logger } from '../utils/logger';
+import config from '../utils/config';
+
+const router = Router();
+
+const templateRules: ValidationRule[] = [
+  {
+    field: 'name',
+    required: true,
+    type: 'string',
+    minLength: 1,
+    maxLength: TEMPLATE_LIMITS.name,
+    custom: (value: string) => value.trim().length > 0 || 'Name cannot be blank'
+  },
+  {
+    field: 'description',
+    type: 'string',
+    maxLength: TEMPLATE_LIMITS.description
+  },
+  {
+    field: 'sections',
+    required: true,
+    type: 'array',
+    custom: (value: unknown) => {
+      const problems = templateProblems(value);
+      return problems.length === 0 || problems.join('; ');
+    }
+  }
+];
+
+/**
+ * Look up a template the user may use; responds and returns undefined otherwise
+ */
+async function findTemplate(req: AuthRequest, res: Response, action: string): Promise<SummaryTemplate | undefined> {
+  const { id } = req.params as { id: string };
+  const template = await templateRepository.get(id);
+
+  if (!template) {
+    res.status(404).json({
+      error: 'Not Found',
+      message: 'Template not found',
+      statusCode: 404,
+      timestamp: new Date().toISOString()
+    });
+    return undefined;
+  }
+
+  // Check if user owns the template
+  if (template.userId !== req.user!.id) {
+    res.status(403).json({
+      error: 'Forbidden',
+      message: `You do not have permission to ${action} this template`,
+      statusCode: 403,
+      timestamp: new Date().toISOString()
+    });
+    return undefined;
+  }
+
+  return template;
+}
+
+/**
+ * GET /api/templates
+ * List the user's summary templates
+ */
+router.get('/',
+  requireAuth,
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const templates = await templateRepository.list(req.user!.id);
+
+      res.json({
+        success: true,
+        data: templates,
+        timestamp: new Date().toISOString()
+      });
+
+    } catch (error) {
+      logger.logError(
+        error instanceof Error ? error : new Error(String(error)),
+        'Failed to list templates',
+        { userId: req.user?.id }
+      );
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve templates',
+        statusCode: 500,
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/templates
+ * Create a summary template
+ */
+router.post('/',
+  requireAuth,
+  ValidationMiddleware.validateBody(templateRules),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const user = req.user!;
+      const existing = await templateRepository.list(user.id);
+
+      if (existing.length >= config.templateStore.maxPerUser) {
+        res.status(409).json({
+          error: 'Conflict',
+          message: `You can have at most ${config.templateStore.maxPerUser} templates`,
+          statusCode: 409,
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const now = new Date();
+      const template: SummaryTemplate = {
+        id: `template_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+        userId: user.id,
+        ...normalizeTemplate(req.body as SummaryTemplateRequest),
+        createdAt: now,
+        updatedAt: now
+      };
+
+      await templateRepository.save(template);
+
+      logger.logDatabase('Template created', {
+        templateId: template.id,
+        userId: user.id,
+        name: template.name,
+        sections: template.sections.length
+      });
+
+      res.status(201).json({
+        success: true,
+        data: template,
+        message: 'Template created successfully',
+        timestamp: new Date().toISOString()
+      });
+
+    } catch (error) {
+      logger.logError(
+        error instanceof Error ? error : new Error(String(error)),
+        'Failed to create template',
+        { userId: req.user?.id }
+      );
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to create template',
+        statusCode: 500,
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/templates/:id
+ * Get a summary template
+ */
+router.get('/:id',
+  requireAuth,
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const template = await findTemplate(req, res, 'access');
+      if (!template) return;
+
+      res.json({
+        success: true,
+        data: template,
+        timestamp: new Date().toISOString()
+      });
+
+    } catch (error) {
+      logger.logError(
+        error instanceof Error ? error : new Error(String(error)),
+        'Failed to get template',
+        { templateId: req.params.id, userId: req.user?.id }
+      );
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve template',
+        statusCode: 500,
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+);
+
+/**
+ * PUT /api/templates/:id
+ * Replace a template's name, description and sections. Summaries already
+ * generated with it are not changed.
+ */
+router.put('/:id',
+  requireAuth,
+  ValidationMiddleware.validateBody(templateRules),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const template = await findTemplate(req, res, 'update');
+      if (!template) return;
+
+      const updated: SummaryTemplate = {
+        ...template,
+        ...normalizeTemplate(req.body as SummaryTemplateRequest),
+        updatedAt: new Date()
+      };
+
+      await templateRepository.save(updated);
+
+      logger.logDatabase('Template updated', {
+        templateId: updated.id,
+        userId: updated.userId,
+        sections: updated.sections.length
+      });
+
+      res.json({
+        success: true,
+        data: updated,
+        message: 'Template updated successfully',
+        timestamp: new Date().toISOString()
+      });
+
+    } catch (error) {
+      logger.logError(
+        error instanceof Error ? error : new Error(String(error)),
+        'Failed to update template',
+        { templateId: req.params.id, userId: req.user?.id }
+      );
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to update template',
+        statusCode: 500,
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+);
+
+/**
+ * DELETE /api/templates/:id
+ * Delete a template; summaries generated with it keep their sections
+ */
+router.delete('/:id',
+  requireAuth,
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const template = await findTemplate(req, res, 'delete');
+      if (!template) return;
+
+      await templateRepository.delete(template.id);
+
+      logger.logDatabase('Template deleted', {
+        templateId: template.id,
+        userId: template.userId,
+        name: template.name
+      });
+
+      res.json({
+        success: true,
+        message: 'Template deleted successfully',
+        timestamp: new Date().toISOString()
+      });
+
+    } catch (error) {
+      logger.logError(
+        error instanceof Error ? error : new Error(String(error)),
+        'Failed to delete template',
+        { templateId: req.params.id, userId: req.user?.id }
+      );
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to delete template',
+        statusCode: 500,
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+);
+
+export default router;
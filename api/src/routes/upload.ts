@@ -1,13 +1,193 @@
-import { Router, Response } from 'express';
-import { AuthRequest, UploadRequest, UploadResponse, JobStatusResponse } from '../types';
+import fs from 'fs';
+import express, { Router, Response, NextFunction } from 'express';
+import {
+  AuthRequest,
+  UploadRequest,
+  UploadResponse,
+  JobStatusResponse,
+  JobEvent,
+  CreateUploadSessionRequest,
+  UploadSessionResponse
+} from '../types';
 import { requireAuth } from '../middleware/auth';
-import { uploadSingle, validateFile, cleanupOnError } from '../middleware/upload';
-import { ValidationMiddleware, commonValidations } from '../middleware/validation';
-import { processorService } from '../services/processor';
+import { uploadSingle, validateFile, parseOptions, cleanupOnError } from '../middleware/upload';
+import { ValidationMiddleware, ValidationRule, commonValidations } from '../middleware/validation';
+import { isFinished, processorService } from '../services/processor';
+import { UploadSession, UploadSessionError, uploadSessionService } from '../services/uploadSessions';
+import { toPreprocessingOptions } from '../services/audioPreprocessing';
+import { summaryRepository } from '../services/summaryStore';
+import { templateRepository } from '../services/templateStore';
 import { logger } from '../utils/logger';
+import config from '../utils/config';
 
 const router = Router();
 
+// Body rules shared by direct uploads and completed resumable uploads
+const uploadRules: ValidationRule[] = [
+  {
+    field: 'type',
+    required: true,
+    type: 'string',
+    enum: ['file', 'url']
+  },
+  {
+    field: 'url',
+    type: 'url',
+    custom: (value: any) => {
+      const body = value as any;
+      if (body.type === 'url' && !value) {
+        return 'URL is required when type is url';
+      }
+      return true;
+    }
+  },
+  {
+    field: 'options',
+    type: 'object'
+  },
+  {
+    field: 'options.detail',
+    type: 'string',
+    enum: ['brief', 'standard', 'deep']
+  },
+  {
+    field: 'options.timestamps',
+    type: 'boolean'
+  },
+  {
+    field: 'options.lang',
+    type: 'string',
+    minLength: 2,
+    maxLength: 5
+  },
+  {
+    field: 'options.episode',
+    type: 'string',
+    maxLength: 500
+  },
+  {
+    field: 'options.templateId',
+    type: 'string',
+    maxLength: 100
+  },
+  {
+    field: 'options.audio',
+    type: 'object'
+  }
+];
+
+/**
+ * Queue a processing job for the uploaded file or URL
+ */
+const startProcessing = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const user = req.user!; // Auth middleware ensures user exists
+    const { type, url, options = {} } = req.body;
+
+    // Validate request based on type
+    if (type === 'file' && !req.file) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: 'File is required when type is file',
+        statusCode: 400,
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    if (type === 'url' && !url) {
+      res.status(400).json({
+        error: 'Validation Error', 
+        message: 'URL is required when type is url',
+        statusCode: 400,
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    // Reject unknown templates now rather than after transcription
+    if (options.templateId) {
+      const template = await templateRepository.get(options.templateId);
+      if (!template || template.userId !== user.id) {
+        if (req.file) {
+          fs.unlink(req.file.path, () => undefined);
+        }
+        res.status(404).json({
+          error: 'Not Found',
+          message: 'Summary template not found',
+          statusCode: 404,
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+    }
+
+    // Set default options
+    const uploadOptions = {
+      detail: options.detail || 'standard',
+      timestamps: options.timestamps !== false, // Default to true
+      lang: options.lang || undefined,
+      episode: type === 'url' ? options.episode || undefined : undefined,
+      templateId: options.templateId || undefined,
+      audio: toPreprocessingOptions(options.audio)
+    };
+
+    // Create upload request
+    const uploadRequest: UploadRequest = {
+      type,
+      file: req.file,
+      url,
+      options: uploadOptions,
+      metadata: res.locals.audioMetadata
+    };
+
+    // Create processing job
+    const job = await processorService.createJob(user, uploadRequest);
+
+    logger.logUpload('Processing job created', {
+      jobId: job.id,
+      userId: user.id,
+      type,
+      options: uploadOptions,
+      filename: req.file?.filename,
+      url: type === 'url' ? url : undefined
+    });
+
+    // Return job information
+    const response: UploadResponse = {
+      jobId: job.id,
+      status: job.status,
+      message: 'Upload received and processing started',
+      estimatedTime: ProcessorService.estimateProcessingTime(uploadRequest)
+    };
+
+    res.status(202).json({
+      success: true,
+      data: response,
+      message: 'File uploaded successfully and processing started',
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    logger.logError(
+      error instanceof Error ? error : new Error(String(error)),
+      'Upload processing failed',
+      {
+        userId: req.user?.id,
+        hasFile: !!req.file,
+        body: req.body
+      }
+    );
+
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to process upload',
+      statusCode: 500,
+      timestamp: new Date().toISOString()
+    });
+  }
+};
+
 /**
  * POST /api/upload
  * Upload and process audio file or URL
@@ -16,134 +196,256 @@ router.post('/',
   requireAuth,
   uploadSingle,
   validateFile,
+  parseOptions,
+  ValidationMiddleware.validateBody(uploadRules),
+  startProcessing,
+  cleanupOnError
+);
+
+const sessionErrorTypes: { [statusCode: number]: string } = {
+  400: 'Bad Request',
+  409: 'Conflict',
+  413: 'Payload Too Large',
+  460: 'Checksum Mismatch'
+};
+
+const toSessionResponse = (session: UploadSession): UploadSessionResponse => ({
+  uploadId: session.id,
+  fileName: session.fileName,
+  fileSize: session.fileSize,
+  offset: session.offset,
+  chunkSize: uploadSessionService.chunkSize,
+  expiresAt: uploadSessionService.expiresAt(session)
+});
+
+/**
+ * Reply to a rejected upload request, with the offset to resume from when
+ * the session has one
+ */
+const sendSessionError = (res: Response, error: UploadSessionError): void => {
+  if (error.offset !== undefined) {
+    res.setHeader('Upload-Offset', String(error.offset));
+  }
+  res.status(error.statusCode).json({
+    error: sessionErrorTypes[error.statusCode] || 'Bad Request',
+    message: error.message,
+    statusCode: error.statusCode,
+    offset: error.offset,
+    timestamp: new Date().toISOString()
+  });
+};
+
+/**
+ * The caller's upload session, or undefined once a 404/403 has been sent
+ */
+const findSession = (req: AuthRequest, res: Response): UploadSession | undefined => {
+  const { uploadId } = req.params as { uploadId: string };
+  const session = uploadSessionService.get(uploadId);
+
+  if (!session) {
+    res.status(404).json({
+      error: 'Not Found',
+      message: 'Upload session not found or expired',
+      statusCode: 404,
+      timestamp: new Date().toISOString()
+    });
+    return undefined;
+  }
+
+  if (session.userId !== req.user!.id) {
+    res.status(403).json({
+      error: 'Forbidden',
+      message: 'You do not have permission to access this upload',
+      statusCode: 403,
+      timestamp: new Date().toISOString()
+    });
+    return undefined;
+  }
+
+  return session;
+};
+
+/**
+ * POST /api/upload/sessions
+ * Start a resumable upload
+ */
+router.post('/sessions',
+  requireAuth,
   ValidationMiddleware.validateBody([
-    {
-      field: 'type',
-      required: true,
-      type: 'string',
-      enum: ['file', 'url']
-    },
-    {
-      field: 'url',
-      type: 'url',
-      custom: (value: any) => {
-        const body = value as any;
-        if (body.type === 'url' && !value) {
-          return 'URL is required when type is url';
-        }
-        return true;
-      }
-    },
-    {
-      field: 'options',
-      type: 'object'
-    },
-    {
-      field: 'options.detail',
-      type: 'string',
-      enum: ['brief', 'standard', 'deep']
-    },
-    {
-      field: 'options.timestamps',
-      type: 'boolean'
-    },
-    {
-      field: 'options.lang',
-      type: 'string',
-      minLength: 2,
-      maxLength: 5
-    }
+    { field: 'fileName', required: true, type: 'string', minLength: 1, maxLength: 255 },
+    { field: 'fileSize', required: true, type: 'number', min: 1 },
+    { field: 'mimeType', required: true, type: 'string', maxLength: 100 }
   ]),
-  async (req: AuthRequest, res: Response): Promise<void> => {
+  (req: AuthRequest, res: Response): void => {
     try {
-      const user = req.user!; // Auth middleware ensures user exists
-      const { type, url, options = {} } = req.body;
+      const session = uploadSessionService.create(req.user!.id, req.body as CreateUploadSessionRequest);
 
-      // Validate request based on type
-      if (type === 'file' && !req.file) {
-        res.status(400).json({
-          error: 'Validation Error',
-          message: 'File is required when type is file',
-          statusCode: 400,
-          timestamp: new Date().toISOString()
-        });
-        return;
-      }
-
-      if (type === 'url' && !url) {
-        res.status(400).json({
-          error: 'Validation Error', 
-          message: 'URL is required when type is url',
-          statusCode: 400,
-          timestamp: new Date().toISOString()
-        });
+      res.status(201).json({
+        success: true,
+        data: toSessionResponse(session),
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      if (error instanceof UploadSessionError) {
+        sendSessionError(res, error);
         return;
       }
 
-      // Set default options
-      const uploadOptions = {
-        detail: options.detail || 'standard',
-        timestamps: options.timestamps !== false, // Default to true
-        lang: options.lang || undefined
-      };
+      logger.logError(
+        error instanceof Error ? error : new Error(String(error)),
+        'Upload session creation failed',
+        { userId: req.user?.id }
+      );
 
-      // Create upload request
-      const uploadRequest: UploadRequest = {
-        type,
-        file: req.file,
-        url,
-        options: uploadOptions
-      };
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to start upload',
+        statusCode: 500,
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+);
 
-      // Create processing job
-      const job = await processorService.createJob(user, uploadRequest);
+/**
+ * GET /api/upload/sessions/:uploadId
+ * Get the offset to resume an upload from
+ */
+router.get('/sessions/:uploadId',
+  requireAuth,
+  (req: AuthRequest, res: Response): void => {
+    const session = findSession(req, res);
+    if (!session) return;
+
+    res.setHeader('Upload-Offset', String(session.offset));
+    res.json({
+      success: true,
+      data: toSessionResponse(session),
+      timestamp: new Date().toISOString()
+    });
+  }
+);
 
-      logger.logUpload('Processing job created', {
-        jobId: job.id,
-        userId: user.id,
-        type,
-        options: uploadOptions,
-        filename: req.file?.filename,
-        url: type === 'url' ? url : undefined
+/**
+ * PATCH /api/upload/sessions/:uploadId
+ * Append a chunk at the Upload-Offset header, verified against the
+ * Upload-Checksum header
+ */
+router.patch('/sessions/:uploadId',
+  requireAuth,
+  express.raw({
+    type: ['application/offset+octet-stream', 'application/octet-stream'],
+    limit: config.resumableUpload.chunkSize
+  }),
+  (req: AuthRequest, res: Response): void => {
+    const session = findSession(req, res);
+    if (!session) return;
+
+    if (!Buffer.isBuffer(req.body)) {
+      res.status(415).json({
+        error: 'Unsupported Media Type',
+        message: 'Chunks must be sent as application/offset+octet-stream',
+        statusCode: 415,
+        timestamp: new Date().toISOString()
       });
+      return;
+    }
 
-      // Return job information
-      const response: UploadResponse = {
-        jobId: job.id,
-        status: job.status,
-        message: 'Upload received and processing started',
-        estimatedTime: ProcessorService.estimateProcessingTime(uploadRequest)
-      };
+    try {
+      const offset = Number(req.header('Upload-Offset'));
+      const updated = uploadSessionService.append(session, offset, req.body, req.header('Upload-Checksum'));
 
-      res.status(202).json({
+      res.setHeader('Upload-Offset', String(updated.offset));
+      res.json({
         success: true,
-        data: response,
-        message: 'File uploaded successfully and processing started',
+        data: toSessionResponse(updated),
         timestamp: new Date().toISOString()
       });
-
     } catch (error) {
+      if (error instanceof UploadSessionError) {
+        sendSessionError(res, error);
+        return;
+      }
+
       logger.logError(
         error instanceof Error ? error : new Error(String(error)),
-        'Upload processing failed',
-        {
-          userId: req.user?.id,
-          hasFile: !!req.file,
-          body: req.body
-        }
+        'Upload chunk failed',
+        { uploadId: session.id, userId: req.user?.id }
       );
 
       res.status(500).json({
         error: 'Internal Server Error',
-        message: 'Failed to process upload',
+        message: 'Failed to store chunk',
         statusCode: 500,
+        offset: session.offset,
         timestamp: new Date().toISOString()
       });
     }
-  },
+  }
+);
+
+/**
+ * Completed resumable uploads are always files; the client only sends options
+ */
+const asFileUpload = (req: AuthRequest, res: Response, next: NextFunction): void => {
+  req.body = { ...req.body, type: 'file' };
+  next();
+};
+
+/**
+ * Turn a fully received upload into the request's file
+ */
+const completeUploadSession = (req: AuthRequest, res: Response, next: NextFunction): void => {
+  const session = findSession(req, res);
+  if (!session) return;
+
+  try {
+    req.file = uploadSessionService.complete(session);
+    next();
+  } catch (error) {
+    if (error instanceof UploadSessionError) {
+      sendSessionError(res, error);
+      return;
+    }
+    next(error);
+  }
+};
+
+/**
+ * POST /api/upload/sessions/:uploadId/complete
+ * Finish a resumable upload and start processing it
+ */
+router.post('/sessions/:uploadId/complete',
+  requireAuth,
+  asFileUpload,
+  ValidationMiddleware.validateBody(uploadRules),
+  completeUploadSession,
+  validateFile,
+  startProcessing,
   cleanupOnError
 );
 
+/**
+ * DELETE /api/upload/sessions/:uploadId
+ * Abandon a resumable upload
+ */
+router.delete('/sessions/:uploadId',
+  requireAuth,
+  (req: AuthRequest, res: Response): void => {
+    const session = findSession(req, res);
+    if (!session) return;
+
+    uploadSessionService.delete(session.id);
+    logger.logUpload('Upload session abandoned', { uploadId: session.id, userId: session.userId });
+
+    res.json({
+      success: true,
+      message: 'Upload abandoned',
+      timestamp: new Date().toISOString()
+    });
+  }
+);
+
 /**
  * GET /api/upload/status/:jobId
  * Get processing job status
@@ -181,16 +483,18 @@ router.get('/status/:jobId',
       const response: JobStatusResponse = {
         jobId: job.id,
         status: job.status,
+        stage: job.stage,
         progress: job.progress,
         message: ProcessorService.getStatusMessage(job),
-        error: job.error
+        error: job.error,
+        retryable: job.retryable,
+        preprocessing: job.preprocessing,
+        queuePosition: job.status === 'queued' ? processorService.getQueuePosition(job.id) : undefined
       };
 
       // If job is completed, include the result
-      if (job.status === 'completed') {
-        // In a real app, you'd fetch the summary from database
-        // For now, we'll indicate where to get it
-        response.message = 'Processing completed. Use /api/summaries to get results.';
+      if (job.status === 'completed' && job.summaryId) {
+        response.result = await summaryRepository.get(job.summaryId);
       }
 
       res.json({
@@ -219,6 +523,88 @@ router.get('/status/:jobId',
   }
 );
 
+/**
+ * GET /api/upload/status/:jobId/stream
+ * Stream job progress as Server-Sent Events
+ */
+router.get('/status/:jobId/stream',
+  requireAuth,
+  (req: AuthRequest, res: Response): void => {
+    const { jobId } = req.params as { jobId: string };
+    const user = req.user!;
+
+    const job = processorService.getJob(jobId);
+
+    if (!job) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'Processing job not found',
+        statusCode: 404,
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    if (job.userId !== user.id) {
+      res.status(403).json({
+        error: 'Forbidden',
+        message: 'You do not have permission to access this job',
+        statusCode: 403,
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+
+    const send = (event: JobEvent) => {
+      const current = processorService.getJob(jobId);
+      const message = current ? ProcessorService.getStatusMessage(current) : undefined;
+      res.write(`event: ${event.type}\ndata: ${JSON.stringify({ ...event, message })}\n\n`);
+    };
+
+    // Start with a snapshot so late subscribers see the current state
+    send({
+      type: job.status === 'queued' || job.status === 'processing' ? 'progress' : job.status,
+      jobId: job.id,
+      status: job.status,
+      stage: job.stage,
+      progress: job.progress,
+      summaryId: job.summaryId,
+      error: job.error,
+      retryable: job.retryable,
+      timestamp: new Date().toISOString()
+    });
+
+    if (isFinished(job.status)) {
+      res.end();
+      return;
+    }
+
+    // Comment lines keep proxies from closing an idle connection
+    const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), 15000);
+
+    const unsubscribe = processorService.subscribe(jobId, event => {
+      send(event);
+      if (isFinished(event.status)) {
+        res.end();
+      }
+    });
+
+    logger.logProcessing('Progress stream opened', jobId, { userId: user.id });
+
+    res.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  }
+);
+
 /**
  * DELETE /api/upload/cancel/:jobId
  * Cancel a processing job
@@ -259,7 +645,7 @@ router.delete('/cancel/:jobId',
       if (!cancelled) {
         res.status(400).json({
           error: 'Bad Request',
-          message: 'Job cannot be cancelled (already completed or failed)',
+          message: `Job cannot be cancelled (already ${job.status})`,
           statusCode: 400,
           timestamp: new Date().toISOString()
         });
@@ -297,15 +683,102 @@ router.delete('/cancel/:jobId',
   }
 );
 
+/**
+ * POST /api/upload/retry/:jobId
+ * Resume a job that failed because an AI provider was unavailable
+ */
+router.post('/retry/:jobId',
+  requireAuth,
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { jobId } = req.params as { jobId: string };
+      const user = req.user!;
+
+      const job = processorService.getJob(jobId);
+
+      if (!job) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: 'Processing job not found',
+          statusCode: 404,
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      // Check if user owns the job
+      if (job.userId !== user.id) {
+        res.status(403).json({
+          error: 'Forbidden',
+          message: 'You do not have permission to retry this job',
+          statusCode: 403,
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const retried = processorService.retryJob(jobId);
+
+      if (!retried) {
+        res.status(409).json({
+          error: 'Conflict',
+          message: job.status === 'failed'
+            ? 'Job cannot be retried; submit the audio again'
+            : 'Only failed jobs can be retried',
+          statusCode: 409,
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      logger.logUpload('Job retried', {
+        jobId,
+        userId: user.id,
+        retries: job.retries
+      });
+
+      const response: UploadResponse = {
+        jobId: job.id,
+        status: job.status,
+        message: 'Job queued to resume from its last completed stage'
+      };
+
+      res.status(202).json({
+        success: true,
+        data: response,
+        message: 'Job retry started',
+        timestamp: new Date().toISOString()
+      });
+
+    } catch (error) {
+      logger.logError(
+        error instanceof Error ? error : new Error(String(error)),
+        'Job retry failed',
+        {
+          jobId: req.params.jobId,
+          userId: req.user?.id
+        }
+      );
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to retry job',
+        statusCode: 500,
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+);
+
 /**
  * GET /api/upload/queue
- * Get processing queue status (admin only - simplified for now)
+ * Get processing queue status, with the caller's own jobs
  */
 router.get('/queue',
   requireAuth,
   async (req: AuthRequest, res: Response): Promise<void> => {
     try {
-      const queueStatus = processorService.getQueueStatus();
+      const queueStatus = processorService.getQueueStatus(req.user!.id);
 
       res.json({
         success: true,
@@ -360,6 +833,11 @@ class ProcessorService {
       baseTime += 30;
     }
 
+    // Long episodes take longer to transcribe
+    if (request.metadata) {
+      baseTime += request.metadata.duration / 10;
+    }
+
     return Math.round(baseTime);
   }
 
@@ -371,6 +849,21 @@ class ProcessorService {
       case 'queued':
         return 'Your request is in the processing queue';
       case 'processing':
+        switch (job.stage) {
+          case 'downloading':
+            return 'Downloading audio';
+          case 'analyzing':
+          case 'preprocessing':
+            return 'Preparing audio file for processing';
+          case 'transcribing':
+            return 'Transcribing audio using AI';
+          case 'diarizing':
+            return 'Identifying speakers';
+          case 'summarizing':
+            return 'Generating summary and insights';
+          case 'saving':
+            return 'Finalizing results';
+        }
         if (job.progress < 30) {
           return 'Preparing audio file for processing';
         } else if (job.progress < 70) {
@@ -384,6 +877,8 @@ class ProcessorService {
         return 'Processing completed successfully';
       case 'failed':
         return job.error || 'Processing failed due to an unknown error';
+      case 'cancelled':
+        return 'Processing was cancelled';
       default:
         return 'Unknown status';
     }
@@ -0,0 +1,86 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from '@jest/globals';
+import { generateAudio, hasFfmpeg, hasFfprobe, useRealMediaTools } from '../test/mediaTools';
+import { probe } from '../utils/media';
+import { AudioPreprocessor } from './audioPreprocessing';
+
+describe('AudioPreprocessor.planCuts', () => {
+  const silences = [{ start: 0, end: 1 }, { start: 2, end: 5 }, { start: 6, end: 6.3 }, { start: 8.5, end: 9 }];
+
+  it('trims the edges and shortens long pauses', () => {
+    const plan = AudioPreprocessor.planCuts(silences, 9, { trimSilence: true, shortenPauses: true, maxPauseSeconds: 1 });
+
+    expect(plan.cuts).toEqual([{ start: 0, end: 0.8 }, { start: 2.5, end: 4.5 }, { start: 8.7, end: 9 }]);
+    expect(plan.silenceTrimmed).toBeCloseTo(1.1);
+    expect(plan.pausesShortened).toBe(1);
+    expect(plan.pauseTimeRemoved).toBe(2);
+  });
+
+  it('leaves the edges alone when only shortening pauses', () => {
+    const plan = AudioPreprocessor.planCuts(silences, 9, { trimSilence: false, shortenPauses: true, maxPauseSeconds: 1 });
+
+    expect(plan.cuts).toEqual([{ start: 2.5, end: 4.5 }]);
+    expect(plan.silenceTrimmed).toBe(0);
+  });
+});
+
+(hasFfmpeg && hasFfprobe ? describe : describe.skip)('AudioPreprocessor', () => {
+  let dir: string;
+  const preprocessor = new AudioPreprocessor({ maxPauseSeconds: 1, noiseFloorDb: -25 });
+
+  useRealMediaTools();
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'preprocessing-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const audioOf = async (filePath: string) => {
+    const output = await probe(filePath);
+    return {
+      duration: Number(output.format?.duration),
+      stream: output.streams?.find(stream => stream.codec_type === 'audio')
+    };
+  };
+
+  it('converts to 16 kHz mono WAV, reporting progress', async () => {
+    const input = path.join(dir, 'stereo.wav');
+    generateAudio(input, 'sine=duration=2', ['-ac', '2', '-ar', '44100']);
+    const progress: number[] = [];
+
+    const result = await preprocessor.preprocess(
+      input,
+      { format: 'wav', duration: 2, channels: 2, size: fs.statSync(input).size },
+      {},
+      { onProgress: fraction => progress.push(fraction) }
+    );
+
+    const output = await audioOf(result.outputPath);
+    expect(output.stream).toMatchObject({ codec_name: 'pcm_s16le', sample_rate: '16000', channels: 1 });
+    expect(output.duration).toBeCloseTo(2, 1);
+    expect(result.report.steps).toEqual(['normalize', 'resample']);
+    expect(progress[progress.length - 1]).toBeCloseTo(1, 1);
+  });
+
+  it('trims leading silence and shortens long pauses', async () => {
+    // Silent for the first second and from 2s to 5s, a tone otherwise
+    const input = path.join(dir, 'pauses.wav');
+    generateAudio(input, "aevalsrc='if(lt(t,1)+between(t,2,5),0,sin(440*2*PI*t))':d=6");
+
+    const result = await preprocessor.preprocess(
+      input,
+      { format: 'wav', duration: 6, channels: 1, size: fs.statSync(input).size },
+      { trimSilence: true, shortenPauses: true, normalizeAudio: false }
+    );
+
+    expect(result.cuts).toHaveLength(2);
+    expect(result.report.pausesShortened).toBe(1);
+    expect((await audioOf(result.outputPath)).duration).toBeCloseTo(result.report.processedDuration, 0);
+    expect(result.report.processedDuration).toBeCloseTo(6 - 0.8 - 2, 0);
+  });
+});
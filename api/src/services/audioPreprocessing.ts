@@ -0,0 +1,275 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  AudioMetadata,
+  AudioPreprocessingOptions,
+  AudioPreprocessingReport,
+  AudioPreprocessingStep,
+  DiarizationResponse,
+  ProcessingOptions,
+  Timestamp
+} from '../types';
+import { chunkedTranscriber } from './chunkedTranscription';
+import { MediaCommandError, Silence, ffmpeg } from '../utils/media';
+import { logger, measurePerformance } from '../utils/logger';
+import config from '../utils/config';
+
+/**
+ * A stretch of the original audio left out of the processed file
+ */
+export interface TimeCut {
+  start: number;
+  end: number;
+}
+
+export interface PreprocessingSettings {
+  // Pauses are shortened to this length
+  maxPauseSeconds: number;
+  // Noise floor for the noise reduction filter
+  noiseFloorDb: number;
+}
+
+export interface PreprocessingRun {
+  // Kills ffmpeg when aborted
+  signal?: AbortSignal;
+  // Share of the audio processed so far, 0-1
+  onProgress?: (fraction: number) => void;
+}
+
+export interface PreprocessingResult {
+  outputPath: string;
+  report: AudioPreprocessingReport;
+  cuts: TimeCut[];
+}
+
+export interface CutPlan {
+  cuts: TimeCut[];
+  silenceTrimmed: number;
+  pausesShortened: number;
+  pauseTimeRemoved: number;
+}
+
+// Silence kept at the edges so the first and last words are not clipped
+const EDGE_PADDING_SECONDS = 0.2;
+
+// Cuts shorter than this are not worth a filter expression
+const MIN_CUT_SECONDS = 0.05;
+
+const CHANNELS = ['mix', 'left', 'right'] as const;
+
+const round = (seconds: number): number => Math.round(seconds * 100) / 100;
+
+/**
+ * The preprocessing options in an upload request; unknown fields and values
+ * are dropped
+ */
+export function toPreprocessingOptions(value: unknown): AudioPreprocessingOptions | undefined {
+  if (!value || typeof value !== 'object') {
+    return undefined;
+  }
+
+  const input = value as Record<string, unknown>;
+  const options: AudioPreprocessingOptions = {
+    removeNoise: input.removeNoise === true || undefined,
+    trimSilence: input.trimSilence === true || undefined,
+    shortenPauses: input.shortenPauses === true || undefined,
+    channel: CHANNELS.find(channel => channel === input.channel)
+  };
+
+  return Object.values(options).some(option => option !== undefined) ? options : undefined;
+}
+
+/**
+ * Move transcript segments from the processed audio's timeline back onto
+ * the original's, by adding back the time each cut before them removed
+ */
+export function restoreTimeline(segments: Timestamp[], cuts: TimeCut[]): Timestamp[] {
+  if (cuts.length === 0) {
+    return segments;
+  }
+  return segments.map(segment => ({
+    ...segment,
+    start: round(toOriginalTime(segment.start, cuts, 'start')),
+    end: round(toOriginalTime(segment.end, cuts, 'end'))
+  }));
+}
+
+/**
+ * restoreTimeline for diarized segments and each speaker's segments
+ */
+export function restoreDiarizationTimeline(diarization: DiarizationResponse, cuts: TimeCut[]): DiarizationResponse {
+  return {
+    segments: restoreTimeline(diarization.segments, cuts),
+    speakers: diarization.speakers.map(speaker => ({
+      ...speaker,
+      segments: restoreTimeline(speaker.segments, cuts)
+    }))
+  };
+}
+
+// A time at a cut is the start of what follows it, or the end of what came before
+function toOriginalTime(time: number, cuts: TimeCut[], edge: 'start' | 'end'): number {
+  let original = time;
+  for (const cut of cuts) {
+    if (edge === 'start' ? cut.start > original : cut.start >= original) break;
+    original += cut.end - cut.start;
+  }
+  return original;
+}
+
+/**
+ * Prepares audio for transcription in one ffmpeg pass: the audio track is
+ * taken out of video, silence at the edges is trimmed and long pauses are
+ * shortened, one stereo channel can be picked, background noise reduced and
+ * loudness normalised, and the result is written as 16 kHz mono WAV.
+ * Removed stretches are returned as cuts so transcript timestamps can be
+ * moved back onto the original audio.
+ */
+export class AudioPreprocessor {
+  constructor(private settings: PreprocessingSettings = config.preprocessing) {}
+
+  @measurePerformance('Audio Processing')
+  async preprocess(
+    inputPath: string,
+    metadata: AudioMetadata,
+    options: ProcessingOptions = {},
+    run: PreprocessingRun = {}
+  ): Promise<PreprocessingResult> {
+    const { convertToWav = true, normalizeAudio = true, removeNoise, trimSilence, shortenPauses } = options;
+    const steps: AudioPreprocessingStep[] = [];
+    const filters: string[] = [];
+
+    if (metadata.video) {
+      steps.push('extractAudio');
+    }
+
+    let plan: CutPlan = { cuts: [], silenceTrimmed: 0, pausesShortened: 0, pauseTimeRemoved: 0 };
+    if (trimSilence || shortenPauses) {
+      const silences = await chunkedTranscriber.detectSilences(inputPath, run.signal);
+      plan = AudioPreprocessor.planCuts(silences, metadata.duration, {
+        trimSilence: !!trimSilence,
+        shortenPauses: !!shortenPauses,
+        maxPauseSeconds: this.settings.maxPauseSeconds
+      });
+
+      // Cuts are on the input's timeline, so they go first
+      if (plan.cuts.length > 0) {
+        const ranges = plan.cuts.map(cut => `between(t,${cut.start.toFixed(3)},${cut.end.toFixed(3)})`);
+        filters.push(`aselect='not(${ranges.join('+')})'`, 'asetpts=N/SR/TB');
+      }
+      if (trimSilence) steps.push('trimSilence');
+      if (shortenPauses) steps.push('shortenPauses');
+    }
+
+    // Mono files have no channel to pick; everything else is mixed down by -ac 1
+    const stereo = (metadata.channels ?? 2) >= 2;
+    const channel = !stereo ? 'mono' : options.channel || 'mix';
+    if (channel === 'left' || channel === 'right') {
+      filters.push(`pan=mono|c0=${channel === 'left' ? 'FL' : 'FR'}`);
+      steps.push('selectChannel');
+    }
+
+    if (removeNoise) {
+      filters.push(`afftdn=nf=${this.settings.noiseFloorDb}`);
+      steps.push('removeNoise');
+    }
+    if (normalizeAudio) {
+      filters.push('loudnorm');
+      steps.push('normalize');
+    }
+
+    const parsed = path.parse(inputPath);
+    const outputPath = path.join(parsed.dir, `${parsed.name}_processed.wav`);
+    const args = ['-y', '-i', inputPath, '-map', '0:a:0'];
+    if (filters.length > 0) {
+      args.push('-af', filters.join(','));
+    }
+    if (convertToWav) {
+      args.push('-acodec', 'pcm_s16le', '-ac', '1', '-ar', '16000');
+      steps.push('resample');
+    }
+    args.push(outputPath);
+
+    logger.logProcessing('Processing audio', '', {
+      inputPath,
+      outputPath,
+      steps,
+      cuts: plan.cuts.length
+    });
+
+    const removed = plan.cuts.reduce((total, cut) => total + cut.end - cut.start, 0);
+
+    try {
+      await ffmpeg(args, {
+        signal: run.signal,
+        duration: metadata.duration - removed,
+        onProgress: run.onProgress && (progress => run.onProgress!(progress.fraction ?? 0))
+      });
+    } catch (error) {
+      // Whatever ffmpeg wrote before it stopped is of no use
+      fs.rmSync(outputPath, { force: true });
+      if (error instanceof MediaCommandError && error.reason !== 'aborted') {
+        throw new Error(`Audio preprocessing failed: ${error.message}`);
+      }
+      throw error;
+    }
+
+    return {
+      outputPath,
+      cuts: plan.cuts,
+      report: {
+        steps,
+        originalDuration: round(metadata.duration),
+        processedDuration: round(Math.max(0, metadata.duration - removed)),
+        silenceTrimmed: round(plan.silenceTrimmed),
+        pausesShortened: plan.pausesShortened,
+        pauseTimeRemoved: round(plan.pauseTimeRemoved),
+        channel,
+        videoRemoved: !!metadata.video
+      }
+    };
+  }
+
+  /**
+   * Decide which stretches of silence to remove: silences touching the start
+   * or end when trimming, and the middle of pauses longer than
+   * `maxPauseSeconds` when shortening, leaving half of that on either side
+   */
+  static planCuts(
+    silences: Silence[],
+    duration: number,
+    settings: { trimSilence: boolean; shortenPauses: boolean; maxPauseSeconds: number }
+  ): CutPlan {
+    const plan: CutPlan = { cuts: [], silenceTrimmed: 0, pausesShortened: 0, pauseTimeRemoved: 0 };
+    const keep = settings.maxPauseSeconds / 2;
+
+    for (const silence of [...silences].sort((a, b) => a.start - b.start)) {
+      const start = Math.max(0, silence.start);
+      const end = Math.min(duration, silence.end);
+      let cut: TimeCut | undefined;
+
+      if (settings.trimSilence && start <= MIN_CUT_SECONDS) {
+        cut = { start: 0, end: end - EDGE_PADDING_SECONDS };
+      } else if (settings.trimSilence && end >= duration - MIN_CUT_SECONDS) {
+        cut = { start: start + EDGE_PADDING_SECONDS, end: duration };
+      } else if (settings.shortenPauses && end - start > settings.maxPauseSeconds) {
+        cut = { start: start + keep, end: end - keep };
+      }
+
+      if (!cut || cut.end - cut.start < MIN_CUT_SECONDS) continue;
+
+      plan.cuts.push(cut);
+      if (cut.start === 0 || cut.end === duration) {
+        plan.silenceTrimmed += cut.end - cut.start;
+      } else {
+        plan.pausesShortened++;
+        plan.pauseTimeRemoved += cut.end - cut.start;
+      }
+    }
+
+    return plan;
+  }
+}
+
+export const audioPreprocessor = new AudioPreprocessor();
+export default audioPreprocessor;
@@ -0,0 +1,235 @@
+import fs from 'fs';
+import path from 'path';
+import { Timestamp, TranscriptionResponse } from '../types';
+import { transcriptionProvider } from './providers';
+import { isWorthRetrying } from './providerResilience';
+import { logger, measurePerformance } from '../utils/logger';
+import { withRetry, mapWithConcurrency } from '../utils/retry';
+import { Silence, detectSilences, ffmpeg } from '../utils/media';
+import config from '../utils/config';
+
+export type { Silence } from '../utils/media';
+
+export interface AudioChunk {
+  index: number;
+  // Where the chunk starts in the original audio
+  start: number;
+  // Where the next chunk takes over; audio past this point is overlap
+  cut: number;
+  end: number;
+}
+
+export interface ChunkedTranscriptionOptions {
+  jobId: string;
+  duration: number;
+  language?: string;
+  // Stops ffmpeg runs and transcription requests when aborted
+  signal?: AbortSignal;
+  // Called as chunks finish, with that chunk's segments on the full timeline
+  onProgress?: (completed: number, total: number, segments: Timestamp[]) => void;
+}
+
+// Whisper rejects uploads over 25 MB; leave headroom for the WAV header
+const MAX_UPLOAD_BYTES = 24 * 1024 * 1024;
+
+/**
+ * Transcribes audio of any length by splitting it on silences into
+ * overlapping chunks small enough for Whisper, transcribing them in
+ * parallel and stitching the segments back onto a single timeline.
+ */
+export class ChunkedTranscriber {
+
+  /**
+   * Transcribe a processed (16 kHz mono WAV) audio file
+   */
+  @measurePerformance('Chunked Transcription')
+  async transcribe(filePath: string, options: ChunkedTranscriptionOptions): Promise<TranscriptionResponse> {
+    const { jobId, duration, language, signal, onProgress } = options;
+    const { size } = fs.statSync(filePath);
+
+    if (size <= MAX_UPLOAD_BYTES || duration <= 0) {
+      const response = await this.transcribeFile(filePath, language, jobId, 0, signal);
+      onProgress?.(1, 1, response.segments || []);
+      return response;
+    }
+
+    const silences = await this.detectSilences(filePath, signal);
+    const chunks = ChunkedTranscriber.planChunks(duration, silences, config.transcription);
+
+    logger.logProcessing('Transcribing in chunks', jobId, {
+      duration,
+      size,
+      chunkCount: chunks.length,
+      silencesFound: silences.length
+    });
+
+    const chunkDir = fs.mkdtempSync(path.join(path.dirname(filePath), `${jobId}_chunks_`));
+    let completed = 0;
+
+    try {
+      const responses = await mapWithConcurrency(chunks, config.transcription.concurrency, async chunk => {
+        const chunkPath = path.join(chunkDir, `chunk_${chunk.index}.wav`);
+        await this.extractChunk(filePath, chunk, chunkPath, signal);
+
+        try {
+          const response = await this.transcribeFile(chunkPath, language, jobId, chunk.index, signal);
+          const isLast = chunk.index === chunks.length - 1;
+          onProgress?.(++completed, chunks.length, ChunkedTranscriber.placeSegments(chunk, response, duration, isLast));
+          return response;
+        } finally {
+          fs.rmSync(chunkPath, { force: true });
+        }
+      });
+
+      return ChunkedTranscriber.stitch(chunks, responses, duration, language);
+    } finally {
+      fs.rmSync(chunkDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Find silent stretches at the configured noise level
+   */
+  async detectSilences(filePath: string, signal?: AbortSignal): Promise<Silence[]> {
+    return detectSilences(filePath, config.transcription, { signal });
+  }
+
+  /**
+   * Choose chunk boundaries, preferring the middle of a silence close to the
+   * target length and falling back to a hard cut at the maximum length
+   */
+  static planChunks(
+    duration: number,
+    silences: Silence[],
+    settings: { chunkSeconds: number; maxChunkSeconds: number; overlapSeconds: number }
+  ): AudioChunk[] {
+    const { chunkSeconds, maxChunkSeconds, overlapSeconds } = settings;
+    const chunks: AudioChunk[] = [];
+    let start = 0;
+
+    while (start < duration) {
+      let cut: number;
+
+      if (duration - start <= maxChunkSeconds) {
+        cut = duration;
+      } else {
+        const target = start + chunkSeconds;
+        const earliest = start + chunkSeconds * 0.75;
+        const latest = start + maxChunkSeconds;
+
+        const candidates = silences
+          .map(silence => (silence.start + silence.end) / 2)
+          .filter(midpoint => midpoint >= earliest && midpoint <= latest);
+
+        cut = candidates.length > 0
+          ? candidates.reduce((best, midpoint) => Math.abs(midpoint - target) < Math.abs(best - target) ? midpoint : best)
+          : latest;
+      }
+
+      chunks.push({
+        index: chunks.length,
+        start,
+        cut,
+        end: Math.min(duration, cut + overlapSeconds)
+      });
+      start = cut;
+    }
+
+    return chunks;
+  }
+
+  /**
+   * Merge chunk transcriptions onto one timeline, dropping the overlap that
+   * each chunk shares with the next one
+   */
+  static stitch(
+    chunks: AudioChunk[],
+    responses: TranscriptionResponse[],
+    duration: number,
+    language?: string
+  ): TranscriptionResponse {
+    const segments: Timestamp[] = [];
+    const texts: string[] = [];
+    let weightedConfidence = 0;
+
+    chunks.forEach((chunk, i) => {
+      const response = responses[i]!;
+      const isLast = i === chunks.length - 1;
+
+      if (!response.segments || response.segments.length === 0) {
+        texts.push(response.text.trim());
+      }
+
+      for (const shifted of ChunkedTranscriber.placeSegments(chunk, response, duration, isLast)) {
+        // Skip segments the previous chunk already covered
+        const previous = segments[segments.length - 1];
+        if (previous && (shifted.start + shifted.end) / 2 < previous.end) {
+          continue;
+        }
+
+        segments.push(shifted);
+        texts.push(shifted.text);
+      }
+
+      weightedConfidence += response.confidence * (chunk.cut - chunk.start);
+    });
+
+    const detectedLanguage = responses.find(response => response.language)?.language;
+
+    return {
+      text: texts.filter(Boolean).join(' '),
+      language: detectedLanguage || language || 'en',
+      duration,
+      segments,
+      confidence: duration > 0 ? Math.round((weightedConfidence / duration) * 100) / 100 : 0.8
+    };
+  }
+
+  /**
+   * Move a chunk's segments onto the full timeline, dropping those past the
+   * cut point since the next chunk transcribes everything after it
+   */
+  static placeSegments(chunk: AudioChunk, response: TranscriptionResponse, duration: number, isLast: boolean): Timestamp[] {
+    return (response.segments || [])
+      .map(segment => ({
+        ...segment,
+        start: segment.start + chunk.start,
+        end: Math.min(segment.end + chunk.start, duration)
+      }))
+      .filter(segment => isLast || segment.start < chunk.cut);
+  }
+
+  private async transcribeFile(
+    filePath: string,
+    language: string | undefined,
+    jobId: string,
+    chunkIndex: number,
+    signal?: AbortSignal
+  ) {
+    return withRetry(
+      () => transcriptionProvider.transcribeAudio({
+        audioFile: fs.readFileSync(filePath),
+        language,
+        signal
+      }),
+      {
+        retries: config.transcription.maxRetries,
+        shouldRetry: isWorthRetrying,
+        signal,
+        context: `Transcription of chunk ${chunkIndex} for job ${jobId}`
+      }
+    );
+  }
+
+  private async extractChunk(inputPath: string, chunk: AudioChunk, outputPath: string, signal?: AbortSignal): Promise<void> {
+    const length = (chunk.end - chunk.start).toFixed(3);
+    await ffmpeg(
+      ['-y', '-ss', chunk.start.toFixed(3), '-t', length, '-i', inputPath, '-acodec', 'pcm_s16le', '-ac', '1', '-ar', '16000', outputPath],
+      { signal }
+    );
+  }
+}
+
+// Export singleton instance
+export const chunkedTranscriber = new ChunkedTranscriber();
+export default chunkedTranscriber;
@@ -0,0 +1,44 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from '@jest/globals';
+import { sineWav } from '../test/audio';
+import { Timestamp } from '../types';
+import { LocalDiarizer } from './diarization';
+
+describe('LocalDiarizer', () => {
+  let dir: string;
+  let audioFile: string;
+  const diarizer = new LocalDiarizer();
+  const segments: Timestamp[] = Array.from({ length: 12 }, (_, i) => ({
+    start: i,
+    end: i + 1,
+    text: `Segment ${i}`
+  }));
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'diarization-'));
+    audioFile = path.join(dir, 'tone.wav');
+    fs.writeFileSync(audioFile, sineWav(12));
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('hears one voice in a steady tone', async () => {
+    const result = await diarizer.diarize({ audioFile, segments, maxSpeakers: 4 });
+
+    expect(result.speakers).toHaveLength(1);
+    expect(new Set(result.segments.map(segment => segment.speaker))).toEqual(new Set(['speaker-1']));
+  });
+
+  it('lets other work run and stops once its signal aborts', async () => {
+    const controller = new AbortController();
+
+    const diarizing = diarizer.diarize({ audioFile, segments, maxSpeakers: 4, signal: controller.signal });
+    setImmediate(() => controller.abort());
+
+    await expect(diarizing).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
@@ -0,0 +1,466 @@
+import fs from 'fs';
+import { setImmediate } from 'timers/promises';
+import { DiarizationProvider, DiarizationRequest, DiarizationResponse, Timestamp } from '../types';
+import { buildSpeakers } from './speakers';
+import { logger } from '../utils/logger';
+
+// 512 samples is 32 ms at 16 kHz, long enough to resolve a speaking pitch
+const FRAME_SIZE = 512;
+const FRAMES_PER_SEGMENT = 48;
+
+// Frames quieter than this (RMS of full scale) are treated as silence
+const SILENCE_RMS = 0.005;
+
+// Spectral envelope bands, in Hz
+const BAND_EDGES = [80, 150, 250, 350, 500, 700, 900, 1200, 1600, 2000, 2600, 3200, 4000];
+
+// Speaking pitch range, in Hz
+const MIN_PITCH = 70;
+const MAX_PITCH = 400;
+
+// Smallest spread treated as a real difference per feature (log band energy,
+// octaves of pitch, zero-crossing rate), so one voice's natural variation is
+// not stretched into separate clusters
+const MIN_SPREAD = { band: 0.5, pitch: 0.1, zeroCrossings: 0.01 };
+
+// Pitch separates voices better than any single band, so it counts for several
+const PITCH_WEIGHT = 3;
+
+// Below this mean silhouette, one speaker explains the audio better than a split
+const MIN_SILHOUETTE = 0.2;
+
+// Centroids closer than this, in standardized units, are one voice however cleanly k-means splits them
+const MIN_SEPARATION = 3;
+
+// Clusters holding less than this share of speech are folded into their nearest neighbour
+const MIN_CLUSTER_SHARE = 0.05;
+
+// A segment this short between two turns of the same speaker takes their label
+const MAX_BLIP_SECONDS = 2;
+
+// Segments embedded between pauses that let the rest of the server run
+const SEGMENTS_PER_BATCH = 5;
+
+interface WavInfo {
+  fd: number;
+  sampleRate: number;
+  channels: number;
+  dataOffset: number;
+  dataLength: number;
+}
+
+// Let other work on the event loop run, then stop if the job was cancelled
+async function pause(signal?: AbortSignal): Promise<void> {
+  await setImmediate();
+  signal?.throwIfAborted();
+}
+
+/**
+ * Offline speaker diarization. Each transcript segment is reduced to a voice
+ * embedding (spectral envelope, pitch and zero-crossing rate averaged over
+ * its voiced frames) and the embeddings are clustered with k-means, picking
+ * the number of speakers by silhouette score. The work runs on the main
+ * thread, so it pauses between batches of segments and between speaker
+ * counts.
+ */
+export class LocalDiarizer implements DiarizationProvider {
+  readonly name = 'local';
+
+  async diarize(request: DiarizationRequest): Promise<DiarizationResponse> {
+    const { audioFile, segments, maxSpeakers, signal } = request;
+    const wav = LocalDiarizer.openWav(audioFile);
+
+    let labels: number[];
+    if (!wav) {
+      logger.logProcessing('Audio is not 16-bit PCM WAV, assigning one speaker', '', { audioFile });
+      labels = segments.map(() => 0);
+    } else {
+      try {
+        const embeddings: (number[] | null)[] = [];
+        for (const segment of segments) {
+          if (embeddings.length % SEGMENTS_PER_BATCH === 0) await pause(signal);
+          embeddings.push(LocalDiarizer.embed(wav, segment));
+        }
+        labels = await LocalDiarizer.cluster(embeddings, segments, Math.max(1, maxSpeakers), signal);
+      } finally {
+        fs.closeSync(wav.fd);
+      }
+    }
+
+    labels = LocalDiarizer.smooth(labels, segments);
+
+    // Number speakers in order of first appearance
+    const order = new Map<number, string>();
+    const labelled: Timestamp[] = segments.map((segment, i) => {
+      const label = labels[i]!;
+      if (!order.has(label)) order.set(label, `speaker-${order.size + 1}`);
+      return { ...segment, speaker: order.get(label)! };
+    });
+    const speakers = buildSpeakers(labelled);
+
+    logger.logProcessing('Diarization completed', '', {
+      provider: this.name,
+      segments: segments.length,
+      speakers: speakers.length
+    });
+
+    return { segments: labelled, speakers };
+  }
+
+  /**
+   * Read the format chunk of a WAV file, leaving the file open for sample reads
+   */
+  private static openWav(filePath: string): WavInfo | null {
+    const fd = fs.openSync(filePath, 'r');
+    const header = Buffer.alloc(12);
+    fs.readSync(fd, header, 0, 12, 0);
+
+    if (header.toString('ascii', 0, 4) !== 'RIFF' || header.toString('ascii', 8, 12) !== 'WAVE') {
+      fs.closeSync(fd);
+      return null;
+    }
+
+    const size = fs.fstatSync(fd).size;
+    const chunk = Buffer.alloc(24);
+    let offset = 12;
+    let format: { sampleRate: number; channels: number; bits: number } | undefined;
+
+    while (offset + 8 <= size) {
+      fs.readSync(fd, chunk, 0, 24, offset);
+      const id = chunk.toString('ascii', 0, 4);
+      const length = chunk.readUInt32LE(4);
+
+      if (id === 'fmt ') {
+        format = { channels: chunk.readUInt16LE(10), sampleRate: chunk.readUInt32LE(12), bits: chunk.readUInt16LE(22) };
+      } else if (id === 'data' && format && format.bits === 16) {
+        return {
+          fd,
+          sampleRate: format.sampleRate,
+          channels: format.channels,
+          dataOffset: offset + 8,
+          dataLength: Math.min(length, size - offset - 8)
+        };
+      }
+
+      offset += 8 + length + (length % 2);
+    }
+
+    fs.closeSync(fd);
+    return null;
+  }
+
+  /**
+   * Voice embedding for one segment, or null when it has too little speech
+   */
+  private static embed(wav: WavInfo, segment: Timestamp): number[] | null {
+    const blockAlign = wav.channels * 2;
+    const frameBytes = FRAME_SIZE * blockAlign;
+    const buffer = Buffer.alloc(frameBytes);
+    const binHz = wav.sampleRate / FRAME_SIZE;
+    const duration = Math.max(0, segment.end - segment.start);
+
+    const envelope = new Array(BAND_EDGES.length - 1).fill(0);
+    const pitches: number[] = [];
+    let zeroCrossings = 0;
+    let voiced = 0;
+
+    for (let k = 0; k < FRAMES_PER_SEGMENT; k++) {
+      const time = segment.start + ((k + 0.5) / FRAMES_PER_SEGMENT) * duration;
+      const position = Math.floor(time * wav.sampleRate) * blockAlign;
+      if (position + frameBytes > wav.dataLength) break;
+
+      fs.readSync(wav.fd, buffer, 0, frameBytes, wav.dataOffset + position);
+
+      // First channel, Hann windowed
+      const re = new Float64Array(FRAME_SIZE);
+      const im = new Float64Array(FRAME_SIZE);
+      let energy = 0;
+      let crossings = 0;
+      for (let n = 0; n < FRAME_SIZE; n++) {
+        const sample = buffer.readInt16LE(n * blockAlign) / 32768;
+        energy += sample * sample;
+        if (n > 0 && (sample >= 0) !== (re[n - 1]! >= 0)) crossings++;
+        re[n] = sample;
+      }
+      if (Math.sqrt(energy / FRAME_SIZE) < SILENCE_RMS) continue;
+
+      for (let n = 0; n < FRAME_SIZE; n++) {
+        re[n] = re[n]! * (0.5 - 0.5 * Math.cos((2 * Math.PI * n) / (FRAME_SIZE - 1)));
+      }
+      LocalDiarizer.fft(re, im);
+
+      const power = new Float64Array(FRAME_SIZE);
+      for (let bin = 0; bin < FRAME_SIZE; bin++) {
+        power[bin] = re[bin]! * re[bin]! + im[bin]! * im[bin]!;
+      }
+
+      // Log band energies relative to their mean describe the vocal tract, not the loudness
+      const bands = envelope.map((_, b) => {
+        let sum = 1e-10;
+        for (let bin = Math.ceil(BAND_EDGES[b]! / binHz); bin < Math.min(FRAME_SIZE / 2, BAND_EDGES[b + 1]! / binHz); bin++) {
+          sum += power[bin]!;
+        }
+        return Math.log(sum);
+      });
+      const mean = bands.reduce((total, value) => total + value, 0) / bands.length;
+      bands.forEach((value, b) => { envelope[b] += value - mean; });
+
+      const pitch = LocalDiarizer.pitch(power, wav.sampleRate);
+      if (pitch) pitches.push(Math.log2(pitch));
+
+      zeroCrossings += crossings / FRAME_SIZE;
+      voiced++;
+    }
+
+    if (voiced < 3) return null;
+
+    pitches.sort((a, b) => a - b);
+    const medianPitch = pitches.length > 0 ? pitches[Math.floor(pitches.length / 2)]! : Math.log2(150);
+
+    return [...envelope.map(value => value / voiced), medianPitch, zeroCrossings / voiced];
+  }
+
+  /**
+   * Fundamental frequency from the autocorrelation (the inverse transform of
+   * the power spectrum), or null for unvoiced frames
+   */
+  private static pitch(power: Float64Array, sampleRate: number): number | null {
+    const re = Float64Array.from(power);
+    const im = new Float64Array(power.length);
+    LocalDiarizer.fft(re, im);
+
+    const minLag = Math.floor(sampleRate / MAX_PITCH);
+    const maxLag = Math.min(power.length / 2, Math.ceil(sampleRate / MIN_PITCH));
+    let peak = 0;
+    for (let lag = minLag; lag < maxLag; lag++) {
+      peak = Math.max(peak, re[lag]!);
+    }
+    if (re[0]! <= 0 || peak / re[0]! < 0.3) return null;
+
+    // Multiples of the period correlate almost as well; the first strong peak avoids octave errors
+    for (let lag = minLag + 1; lag < maxLag - 1; lag++) {
+      if (re[lag]! >= 0.85 * peak && re[lag]! >= re[lag - 1]! && re[lag]! >= re[lag + 1]!) {
+        return sampleRate / lag;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * In-place iterative radix-2 FFT
+   */
+  private static fft(re: Float64Array, im: Float64Array): void {
+    const n = re.length;
+
+    for (let i = 1, j = 0; i < n; i++) {
+      let bit = n >> 1;
+      for (; j & bit; bit >>= 1) j ^= bit;
+      j ^= bit;
+      if (i < j) {
+        [re[i], re[j]] = [re[j]!, re[i]!];
+        [im[i], im[j]] = [im[j]!, im[i]!];
+      }
+    }
+
+    for (let size = 2; size <= n; size <<= 1) {
+      const angle = (-2 * Math.PI) / size;
+      for (let start = 0; start < n; start += size) {
+        for (let k = 0; k < size / 2; k++) {
+          const cos = Math.cos(angle * k);
+          const sin = Math.sin(angle * k);
+          const a = start + k;
+          const b = a + size / 2;
+          const tRe = re[b]! * cos - im[b]! * sin;
+          const tIm = re[b]! * sin + im[b]! * cos;
+          re[b] = re[a]! - tRe;
+          im[b] = im[a]! - tIm;
+          re[a] = re[a]! + tRe;
+          im[a] = im[a]! + tIm;
+        }
+      }
+    }
+  }
+
+  /**
+   * Cluster embeddings with k-means for every speaker count up to the
+   * limit and keep the count with the best silhouette. Segments without an
+   * embedding get -1 and are filled in by smoothing.
+   */
+  private static async cluster(
+    embeddings: (number[] | null)[],
+    segments: Timestamp[],
+    maxSpeakers: number,
+    signal?: AbortSignal
+  ): Promise<number[]> {
+    const indexes = embeddings.flatMap((embedding, i) => (embedding ? [i] : []));
+    if (indexes.length < 4 || maxSpeakers < 2) {
+      return embeddings.map(embedding => (embedding ? 0 : -1));
+    }
+
+    const pitchDim = BAND_EDGES.length - 1;
+    const floors = [...new Array(pitchDim).fill(MIN_SPREAD.band), MIN_SPREAD.pitch, MIN_SPREAD.zeroCrossings];
+    const points = LocalDiarizer.standardize(indexes.map(i => embeddings[i]!), floors)
+      .map(point => point.map((value, d) => (d === pitchDim ? value * PITCH_WEIGHT : value)));
+    const weights = indexes.map(i => Math.max(0.1, segments[i]!.end - segments[i]!.start));
+
+    let best = { score: MIN_SILHOUETTE, assignments: points.map(() => 0) };
+    for (let k = 2; k <= Math.min(maxSpeakers, points.length - 1); k++) {
+      await pause(signal);
+      const assignments = LocalDiarizer.foldSmallClusters(points, LocalDiarizer.kMeans(points, k), weights);
+      const score = LocalDiarizer.silhouette(points, assignments);
+      if (score > best.score && LocalDiarizer.separation(points, assignments) >= MIN_SEPARATION) {
+        best = { score, assignments };
+      }
+    }
+
+    const labels = embeddings.map(() => -1);
+    indexes.forEach((segmentIndex, i) => { labels[segmentIndex] = best.assignments[i]!; });
+    return labels;
+  }
+
+  private static standardize(points: number[][], floors: number[]): number[][] {
+    const dims = points[0]!.length;
+    const means = Array.from({ length: dims }, (_, d) => points.reduce((sum, point) => sum + point[d]!, 0) / points.length);
+    const deviations = Array.from({ length: dims }, (_, d) => Math.max(
+      floors[d]!,
+      Math.sqrt(points.reduce((sum, point) => sum + (point[d]! - means[d]!) ** 2, 0) / points.length)
+    ));
+    return points.map(point => point.map((value, d) => (value - means[d]!) / deviations[d]!));
+  }
+
+  /**
+   * Deterministic k-means, seeded with farthest-point initialisation
+   */
+  private static kMeans(points: number[][], k: number): number[] {
+    const centroids: number[][] = [points[0]!];
+    while (centroids.length < k) {
+      let farthest = 0;
+      let farthestDistance = -1;
+      points.forEach((point, i) => {
+        const nearest = Math.min(...centroids.map(centroid => LocalDiarizer.distance(point, centroid)));
+        if (nearest > farthestDistance) {
+          farthest = i;
+          farthestDistance = nearest;
+        }
+      });
+      centroids.push(points[farthest]!);
+    }
+
+    let assignments = points.map(() => 0);
+    for (let iteration = 0; iteration < 25; iteration++) {
+      const next = points.map(point => LocalDiarizer.nearest(point, centroids));
+      const changed = next.some((label, i) => label !== assignments[i]);
+      assignments = next;
+
+      centroids.forEach((centroid, c) => {
+        const members = points.filter((_, i) => assignments[i] === c);
+        if (members.length === 0) return;
+        centroids[c] = centroid.map((_, d) => members.reduce((sum, member) => sum + member[d]!, 0) / members.length);
+      });
+
+      if (!changed && iteration > 0) break;
+    }
+
+    return assignments;
+  }
+
+  /**
+   * Move segments of clusters with very little speech into the nearest remaining cluster
+   */
+  private static foldSmallClusters(points: number[][], assignments: number[], weights: number[]): number[] {
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+    const shares = new Map<number, number>();
+    assignments.forEach((label, i) => shares.set(label, (shares.get(label) || 0) + weights[i]! / total));
+
+    const kept = [...shares.keys()].filter(label => shares.get(label)! >= MIN_CLUSTER_SHARE);
+    if (kept.length === shares.size || kept.length === 0) return assignments;
+
+    const centroids = kept.map(label => {
+      const members = points.filter((_, i) => assignments[i] === label);
+      return members[0]!.map((_, d) => members.reduce((sum, member) => sum + member[d]!, 0) / members.length);
+    });
+
+    return assignments.map((label, i) => (kept.includes(label) ? label : kept[LocalDiarizer.nearest(points[i]!, centroids)]!));
+  }
+
+  /**
+   * Smallest distance between two cluster centroids
+   */
+  private static separation(points: number[][], assignments: number[]): number {
+    const centroids = [...new Set(assignments)].map(label => {
+      const members = points.filter((_, i) => assignments[i] === label);
+      return members[0]!.map((_, d) => members.reduce((sum, member) => sum + member[d]!, 0) / members.length);
+    });
+
+    let smallest = Infinity;
+    centroids.forEach((a, i) => centroids.slice(i + 1).forEach(b => {
+      smallest = Math.min(smallest, LocalDiarizer.distance(a, b));
+    }));
+    return smallest;
+  }
+
+  private static silhouette(points: number[][], assignments: number[]): number {
+    const labels = [...new Set(assignments)];
+    if (labels.length < 2) return 0;
+
+    let total = 0;
+    points.forEach((point, i) => {
+      const distances = new Map<number, { sum: number; count: number }>();
+      points.forEach((other, j) => {
+        if (i === j) return;
+        const entry = distances.get(assignments[j]!) || { sum: 0, count: 0 };
+        entry.sum += LocalDiarizer.distance(point, other);
+        entry.count++;
+        distances.set(assignments[j]!, entry);
+      });
+
+      const own = distances.get(assignments[i]!);
+      if (!own) return;
+      const a = own.sum / own.count;
+      const b = Math.min(...labels
+        .filter(label => label !== assignments[i] && distances.has(label))
+        .map(label => distances.get(label)!.sum / distances.get(label)!.count));
+      total += (b - a) / Math.max(a, b);
+    });
+
+    return total / points.length;
+  }
+
+  /**
+   * Give unlabelled segments their neighbour's speaker and absorb short
+   * blips inside another speaker's turn
+   */
+  private static smooth(labels: number[], segments: Timestamp[]): number[] {
+    const smoothed = [...labels];
+    const first = smoothed.find(label => label >= 0) ?? 0;
+
+    for (let i = 0; i < smoothed.length; i++) {
+      if (smoothed[i]! < 0) smoothed[i] = i > 0 ? smoothed[i - 1]! : first;
+    }
+
+    for (let i = 1; i < smoothed.length - 1; i++) {
+      const segment = segments[i]!;
+      if (
+        smoothed[i - 1] === smoothed[i + 1] &&
+        smoothed[i] !== smoothed[i - 1] &&
+        segment.end - segment.start < MAX_BLIP_SECONDS
+      ) {
+        smoothed[i] = smoothed[i - 1]!;
+      }
+    }
+
+    return smoothed;
+  }
+
+  private static nearest(point: number[], centroids: number[][]): number {
+    let best = 0;
+    centroids.forEach((centroid, c) => {
+      if (LocalDiarizer.distance(point, centroid) < LocalDiarizer.distance(point, centroids[best]!)) best = c;
+    });
+    return best;
+  }
+
+  private static distance(a: number[], b: number[]): number {
+    return Math.sqrt(a.reduce((sum, value, d) => sum + (value - b[d]!) ** 2, 0));
+  }
+}
@@ -0,0 +1,276 @@
+import { Chapter, KeyPoint, SummarizationResponse, Timestamp } from '../types';
+import config from '../utils/config';
+
+export interface GroundingOptions {
+  // Support below this flags a key point or chapter
+  minScore: number;
+  // Similarity below this drops a quote
+  quoteMinScore: number;
+}
+
+export interface TranscriptMatch {
+  score: number;
+  // The segment the match starts in; unset when nothing scored high enough
+  segment?: Timestamp;
+}
+
+// A quote can cross a segment boundary or two, but no more
+const MAX_QUOTE_SEGMENTS = 3;
+
+// Key points are checked against about a minute of talk at a time
+const SUPPORT_WINDOW_SECONDS = 60;
+
+// Words that say nothing about whether a point is supported
+const STOPWORDS = new Set([
+  'about', 'after', 'again', 'also', 'and', 'are', 'because', 'been', 'before', 'being', 'but', 'can', 'could',
+  'did', 'does', 'doing', 'for', 'from', 'had', 'has', 'have', 'having', 'her', 'here', 'him', 'his', 'how',
+  'into', 'its', 'just', 'more', 'most', 'not', 'now', 'off', 'once', 'only', 'other', 'our', 'out', 'over',
+  'own', 'same', 'she', 'should', 'some', 'such', 'than', 'that', 'the', 'their', 'them', 'then', 'there',
+  'these', 'they', 'this', 'those', 'through', 'too', 'under', 'until', 'very', 'was', 'way', 'were', 'what',
+  'when', 'where', 'which', 'while', 'who', 'why', 'will', 'with', 'would', 'you', 'your'
+]);
+
+/**
+ * Lower-cased words of a text, without punctuation
+ */
+export function words(text: string): string[] {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}\s']/gu, ' ').split(/\s+/).filter(Boolean);
+}
+
+// Crude stemming, enough for "pricing" to support "price"
+function stem(word: string): string {
+  const stripped = word.replace(/'s$/, '').replace(/(ings|ing|ers|er|ed|es|ly|s|e)$/, '');
+  return (stripped.length >= 3 ? stripped : word).slice(0, 6);
+}
+
+function terms(text: string): Set<string> {
+  return new Set(words(text).filter(word => word.length > 2 && !STOPWORDS.has(word)).map(stem));
+}
+
+// Length of the longest common subsequence of two word lists
+function commonRun(a: string[], b: string[]): number {
+  let previous = new Array<number>(b.length + 1).fill(0);
+  for (const word of a) {
+    const current = [0];
+    for (let j = 0; j < b.length; j++) {
+      current.push(word === b[j] ? previous[j]! + 1 : Math.max(previous[j + 1]!, current[j]!));
+    }
+    previous = current;
+  }
+  return previous[b.length]!;
+}
+
+const languageNames = new Intl.DisplayNames(['en'], { type: 'language' });
+
+// English name of a language given as a code ("pt-BR") or as a name
+// ("portuguese", as Whisper reports it)
+function languageName(language: string): string {
+  try {
+    const { language: code } = new Intl.Locale(language.trim());
+    return (languageNames.of(code) ?? code).toLowerCase();
+  } catch {
+    return language.trim().toLowerCase();
+  }
+}
+
+/**
+ * Whether a summary asked for in one language is written in another than its
+ * transcript, so its wording cannot be matched against the transcript's.
+ * A language that is not known counts as the same.
+ */
+export function isTranslated(summaryLanguage?: string, transcriptLanguage?: string): boolean {
+  if (!summaryLanguage || !transcriptLanguage) {
+    return false;
+  }
+  return languageName(summaryLanguage) !== languageName(transcriptLanguage);
+}
+
+function round(score: number): number {
+  return Math.round(score * 100) / 100;
+}
+
+/**
+ * Looks up passages of one transcript. Built once per summary, since every
+ * key point, quote and chapter is checked against the same segments.
+ */
+export class TranscriptMatcher {
+  private segmentWords: string[][];
+  private segmentTerms: Set<string>[];
+  // For each segment, the terms of the window of segments starting there
+  private windows: { end: number; terms: Set<string> }[];
+
+  constructor(private segments: Timestamp[]) {
+    this.segmentWords = segments.map(segment => words(segment.text));
+    this.segmentTerms = segments.map(segment => terms(segment.text));
+    this.windows = segments.map((segment, i) => {
+      const windowTerms = new Set<string>();
+      let end = i;
+      while (end < segments.length && segments[end]!.start - segment.start <= SUPPORT_WINDOW_SECONDS) {
+        this.segmentTerms[end]!.forEach(term => windowTerms.add(term));
+        end++;
+      }
+      return { end, terms: windowTerms };
+    });
+  }
+
+  /**
+   * Where a quote was said. Scores are the share of the quote's words that
+   * appear in order, so small transcription differences still match but
+   * reshuffled or invented wording does not. Single segments are tried first
+   * so a quote is credited to the segment it sits in.
+   */
+  findQuote(quote: string): TranscriptMatch {
+    const quoteWords = words(quote);
+    let best: TranscriptMatch = { score: 0 };
+    if (quoteWords.length === 0) return best;
+
+    for (let span = 1; span <= MAX_QUOTE_SEGMENTS && best.score < 1; span++) {
+      this.segments.forEach((segment, i) => {
+        if (i + span > this.segments.length) return;
+        const window = this.segmentWords.slice(i, i + span).flat();
+
+        // Cheap upper bound first: words in order can only be words present
+        const present = new Set(window);
+        if (quoteWords.filter(word => present.has(word)).length / quoteWords.length <= best.score) return;
+
+        const score = commonRun(quoteWords, window) / quoteWords.length;
+        if (score > best.score) best = { score, segment };
+      });
+    }
+
+    return best;
+  }
+
+  /**
+   * The passage that best supports a statement: the share of its content
+   * words found within about a minute of talk. Of the passages scoring at
+   * least `minScore`, the one closest to `near` wins, and the match snaps to
+   * the segment in it that says most of those words.
+   */
+  support(statement: string, minScore: number, near?: number): TranscriptMatch {
+    const statementTerms = [...terms(statement)];
+    if (statementTerms.length === 0) return { score: 0 };
+
+    let best: { score: number; start?: number; distance: number } = { score: 0, distance: Infinity };
+    let bestScore = 0;
+
+    this.windows.forEach((window, i) => {
+      const score = statementTerms.filter(term => window.terms.has(term)).length / statementTerms.length;
+      bestScore = Math.max(bestScore, score);
+      if (score < minScore) return;
+
+      const start = this.segments[i]!.start;
+      const end = this.segments[window.end - 1]!.end;
+      const distance = near === undefined ? 0 : near < start ? start - near : near > end ? near - end : 0;
+
+      if (distance < best.distance || (distance === best.distance && score > best.score)) {
+        best = { score, start: i, distance };
+      }
+    });
+
+    if (best.start === undefined) {
+      return { score: bestScore };
+    }
+
+    // The segment in the passage that says the most of the statement
+    let snapped = best.start;
+    let mostTerms = 0;
+    for (let i = best.start; i < this.windows[best.start]!.end; i++) {
+      const found = statementTerms.filter(term => this.segmentTerms[i]!.has(term)).length;
+      if (found > mostTerms) {
+        snapped = i;
+        mostTerms = found;
+      }
+    }
+    return { score: best.score, segment: this.segments[snapped] };
+  }
+
+  /**
+   * Share of a statement's content words said between two times
+   */
+  rangeSupport(statement: string, start: number, end: number): number {
+    const statementTerms = [...terms(statement)];
+    if (statementTerms.length === 0) return 0;
+
+    const rangeTerms = new Set<string>();
+    this.segments.forEach((segment, i) => {
+      if (segment.end > start && segment.start < end) {
+        this.segmentTerms[i]!.forEach(term => rangeTerms.add(term));
+      }
+    });
+    return statementTerms.filter(term => rangeTerms.has(term)).length / statementTerms.length;
+  }
+
+  /**
+   * Segment boundary closest to a time
+   */
+  nearestBoundary(time: number, edge: 'start' | 'end'): number {
+    return this.segments.reduce(
+      (closest, segment) => Math.abs(segment[edge] - time) < Math.abs(closest - time) ? segment[edge] : closest,
+      this.segments[0]![edge]
+    );
+  }
+}
+
+/**
+ * Check a generated summary against the transcript it came from. Key point
+ * timestamps move to the segment that supports the point, or are removed
+ * when nothing does; chapter boundaries snap to segment boundaries; quotes
+ * that cannot be found in the transcript are dropped. Every item gets a 0-1
+ * grounding score, and the summary an overall score.
+ */
+export function groundSummary(
+  response: SummarizationResponse,
+  segments: Timestamp[],
+  options: GroundingOptions = config.grounding
+): SummarizationResponse {
+  if (segments.length === 0) {
+    return response;
+  }
+
+  const matcher = new TranscriptMatcher(segments);
+  const scores: number[] = [];
+  let flagged = 0;
+
+  const keyPoints = response.keyPoints.map((point): KeyPoint => {
+    const match = matcher.support(`${point.title} ${point.description}`, options.minScore, point.timestamp);
+    scores.push(match.score);
+    if (!match.segment) flagged++;
+
+    return {
+      ...point,
+      timestamp: match.segment?.start,
+      grounding: round(match.score)
+    };
+  });
+
+  const droppedQuotes: string[] = [];
+  const quotes = response.quotes.filter(quote => {
+    const { score } = matcher.findQuote(quote);
+    scores.push(score);
+    if (score < options.quoteMinScore) droppedQuotes.push(quote);
+    return score >= options.quoteMinScore;
+  });
+
+  const chapters = response.chapters?.map((chapter): Chapter => {
+    const start = matcher.nearestBoundary(chapter.start, 'start');
+    const end = Math.max(matcher.nearestBoundary(chapter.end, 'end'), start);
+    const score = matcher.rangeSupport([chapter.title, chapter.summary, ...chapter.keyPoints].join(' '), start, end);
+    scores.push(score);
+    if (score < options.minScore) flagged++;
+
+    return { ...chapter, start, end, grounding: round(score) };
+  });
+
+  return {
+    ...response,
+    keyPoints,
+    quotes,
+    chapters,
+    grounding: {
+      score: scores.length > 0 ? round(scores.reduce((sum, score) => sum + score, 0) / scores.length) : 1,
+      flagged,
+      droppedQuotes
+    }
+  };
+}
@@ -0,0 +1,117 @@
+import fs from 'fs';
+import path from 'path';
+import { AudioMetadata, AudioPreprocessingReport, DiarizationResponse, EpisodeMetadata, TranscriptionResponse } from '../types';
+import { TimeCut } from './audioPreprocessing';
+import { logger } from '../utils/logger';
+import config from '../utils/config';
+
+/**
+ * What a job has finished so far, so a retry can pick up where it failed.
+ * Kept apart from the job itself because the job log rewrites the whole
+ * job on every progress update.
+ */
+export interface JobCheckpoint {
+  // Audio downloaded for a URL job
+  audioFile?: string;
+  episode?: EpisodeMetadata;
+  metadata?: AudioMetadata;
+  processedAudioFile?: string;
+  preprocessing?: AudioPreprocessingReport;
+  // Stretches left out of the processed audio; transcription and diarization
+  // are on its timeline until moved back
+  cuts?: TimeCut[];
+  transcription?: TranscriptionResponse;
+  // Set once diarization has run, even when it found nothing
+  diarized?: boolean;
+  diarization?: DiarizationResponse;
+}
+
+/**
+ * Storage backend for job checkpoints
+ */
+export interface CheckpointRepository {
+  get(jobId: string): JobCheckpoint | undefined;
+  save(jobId: string, checkpoint: JobCheckpoint): void;
+  delete(jobId: string): void;
+}
+
+/**
+ * In-memory checkpoint repository (used in tests)
+ */
+export class InMemoryCheckpointRepository implements CheckpointRepository {
+  private checkpoints = new Map<string, JobCheckpoint>();
+
+  get(jobId: string): JobCheckpoint | undefined {
+    return this.checkpoints.get(jobId);
+  }
+
+  save(jobId: string, checkpoint: JobCheckpoint): void {
+    this.checkpoints.set(jobId, checkpoint);
+  }
+
+  delete(jobId: string): void {
+    this.checkpoints.delete(jobId);
+  }
+}
+
+/**
+ * File-backed checkpoint repository, one JSON file per job so checkpoints
+ * survive a restart
+ */
+export class FileCheckpointRepository implements CheckpointRepository {
+  constructor(private dir: string) {
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+  }
+
+  get(jobId: string): JobCheckpoint | undefined {
+    const filePath = this.filePath(jobId);
+    if (!fs.existsSync(filePath)) {
+      return undefined;
+    }
+
+    try {
+      const checkpoint = JSON.parse(fs.readFileSync(filePath, 'utf8')) as JobCheckpoint;
+      if (checkpoint.episode?.publishedAt) {
+        checkpoint.episode.publishedAt = new Date(checkpoint.episode.publishedAt);
+      }
+      return checkpoint;
+    } catch (error) {
+      // A checkpoint that cannot be read only costs redoing the work
+      logger.warn('Discarding unreadable job checkpoint', {
+        jobId,
+        error: error instanceof Error ? error.message : 'Unknown'
+      });
+      return undefined;
+    }
+  }
+
+  save(jobId: string, checkpoint: JobCheckpoint): void {
+    const filePath = this.filePath(jobId);
+    const tempPath = `${filePath}.tmp`;
+
+    fs.writeFileSync(tempPath, JSON.stringify(checkpoint));
+    fs.renameSync(tempPath, filePath);
+  }
+
+  delete(jobId: string): void {
+    fs.rmSync(this.filePath(jobId), { force: true });
+  }
+
+  private filePath(jobId: string): string {
+    return path.join(this.dir, `${jobId}.json`);
+  }
+}
+
+/**
+ * Create the checkpoint repository matching the configured job store
+ */
+export function createCheckpointRepository(): CheckpointRepository {
+  if (config.jobStore.driver === 'file') {
+    return new FileCheckpointRepository(config.jobStore.checkpointDir);
+  }
+  return new InMemoryCheckpointRepository();
+}
+
+export default createCheckpointRepository;
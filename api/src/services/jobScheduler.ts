@@ -0,0 +1,136 @@
+/**
+ * Round-robin job scheduler with per-user in-flight caps.
+ * Each user has their own FIFO queue; dispatch rotates across users so a
+ * single user with many (or very long) jobs cannot starve everyone else.
+ */
+export class JobScheduler {
+  private userQueues = new Map<string, string[]>();
+  private rotation: string[] = [];
+  private inFlight = new Map<string, number>();
+
+  constructor(private perUserLimit: number) {}
+
+  /**
+   * Add a job to the end of its user's queue
+   */
+  enqueue(jobId: string, userId: string): void {
+    const queue = this.userQueues.get(userId);
+    if (queue) {
+      if (!queue.includes(jobId)) {
+        queue.push(jobId);
+      }
+      return;
+    }
+
+    this.userQueues.set(userId, [jobId]);
+    this.rotation.push(userId);
+  }
+
+  /**
+   * Remove a queued job, returns false if it was not waiting
+   */
+  remove(jobId: string): boolean {
+    for (const [userId, queue] of this.userQueues.entries()) {
+      const index = queue.indexOf(jobId);
+      if (index > -1) {
+        queue.splice(index, 1);
+        if (queue.length === 0) {
+          this.dropUser(userId);
+        }
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Take the next dispatchable job and mark it in flight
+   */
+  next(): { jobId: string; userId: string } | undefined {
+    for (let i = 0; i < this.rotation.length; i++) {
+      const userId = this.rotation[i]!;
+      if (this.inFlightFor(userId) >= this.perUserLimit) {
+        continue;
+      }
+
+      const queue = this.userQueues.get(userId)!;
+      const jobId = queue.shift()!;
+
+      // Served users go to the back of the rotation
+      this.rotation.splice(i, 1);
+      if (queue.length > 0) {
+        this.rotation.push(userId);
+      } else {
+        this.userQueues.delete(userId);
+      }
+
+      this.inFlight.set(userId, this.inFlightFor(userId) + 1);
+      return { jobId, userId };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Release a user's in-flight slot once their job finishes
+   */
+  complete(userId: string): void {
+    const count = this.inFlightFor(userId) - 1;
+    if (count > 0) {
+      this.inFlight.set(userId, count);
+    } else {
+      this.inFlight.delete(userId);
+    }
+  }
+
+  /**
+   * Estimated 1-based position in line, assuming one job per user per round
+   */
+  positionOf(jobId: string): number | undefined {
+    const order = this.dispatchOrder();
+    const index = order.indexOf(jobId);
+    return index > -1 ? index + 1 : undefined;
+  }
+
+  /**
+   * All queued jobs in their expected dispatch order
+   */
+  dispatchOrder(): string[] {
+    const queues = this.rotation.map(userId => this.userQueues.get(userId)!);
+    const longest = Math.max(0, ...queues.map(queue => queue.length));
+    const order: string[] = [];
+
+    for (let round = 0; round < longest; round++) {
+      for (const queue of queues) {
+        const jobId = queue[round];
+        if (jobId) {
+          order.push(jobId);
+        }
+      }
+    }
+
+    return order;
+  }
+
+  inFlightFor(userId: string): number {
+    return this.inFlight.get(userId) || 0;
+  }
+
+  get length(): number {
+    let total = 0;
+    for (const queue of this.userQueues.values()) {
+      total += queue.length;
+    }
+    return total;
+  }
+
+  private dropUser(userId: string): void {
+    this.userQueues.delete(userId);
+    const index = this.rotation.indexOf(userId);
+    if (index > -1) {
+      this.rotation.splice(index, 1);
+    }
+  }
+}
+
+export default JobScheduler;
@@ -0,0 +1,154 @@
+import fs from 'fs';
+import path from 'path';
+import { ProcessingJob } from '../types';
+import { logger } from '../utils/logger';
+import config from '../utils/config';
+
+/**
+ * Storage backend for processing jobs
+ */
+export interface JobRepository {
+  get(jobId: string): ProcessingJob | undefined;
+  save(job: ProcessingJob): void;
+  delete(jobId: string): boolean;
+  list(): ProcessingJob[];
+  size(): number;
+}
+
+type JobLogEntry =
+  | { op: 'put'; job: ProcessingJob }
+  | { op: 'delete'; id: string };
+
+/**
+ * In-memory job repository (used in tests and as the file store's cache)
+ */
+export class InMemoryJobRepository implements JobRepository {
+  protected jobs = new Map<string, ProcessingJob>();
+
+  get(jobId: string): ProcessingJob | undefined {
+    return this.jobs.get(jobId);
+  }
+
+  save(job: ProcessingJob): void {
+    this.jobs.set(job.id, job);
+  }
+
+  delete(jobId: string): boolean {
+    return this.jobs.delete(jobId);
+  }
+
+  list(): ProcessingJob[] {
+    return Array.from(this.jobs.values());
+  }
+
+  size(): number {
+    return this.jobs.size;
+  }
+}
+
+/**
+ * File-backed job repository using an append-only JSON log.
+ * Every state transition is appended as one line; the log is replayed
+ * on startup and compacted once it grows well past the live job count.
+ */
+export class FileJobRepository extends InMemoryJobRepository {
+  private entriesSinceCompaction = 0;
+
+  constructor(private filePath: string, private compactionThreshold: number = 1000) {
+    super();
+
+    const dir = path.dirname(filePath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    this.replay();
+    this.compact();
+  }
+
+  save(job: ProcessingJob): void {
+    super.save(job);
+    this.append({ op: 'put', job });
+  }
+
+  delete(jobId: string): boolean {
+    const deleted = super.delete(jobId);
+    if (deleted) {
+      this.append({ op: 'delete', id: jobId });
+    }
+    return deleted;
+  }
+
+  /**
+   * Rewrite the log so it only contains the current state of each job
+   */
+  compact(): void {
+    const tempPath = `${this.filePath}.tmp`;
+    const lines = this.list().map(job => JSON.stringify({ op: 'put', job }));
+
+    fs.writeFileSync(tempPath, lines.length > 0 ? `${lines.join('\n')}\n` : '');
+    fs.renameSync(tempPath, this.filePath);
+    this.entriesSinceCompaction = 0;
+  }
+
+  private append(entry: JobLogEntry): void {
+    fs.appendFileSync(this.filePath, `${JSON.stringify(entry)}\n`);
+    this.entriesSinceCompaction++;
+
+    if (this.entriesSinceCompaction > Math.max(this.compactionThreshold, this.size() * 2)) {
+      this.compact();
+    }
+  }
+
+  private replay(): void {
+    if (!fs.existsSync(this.filePath)) {
+      return;
+    }
+
+    const lines = fs.readFileSync(this.filePath, 'utf8').split('\n');
+    let skipped = 0;
+
+    for (const line of lines) {
+      if (!line.trim()) continue;
+
+      try {
+        const entry = JSON.parse(line) as JobLogEntry;
+        if (entry.op === 'put') {
+          this.jobs.set(entry.job.id, FileJobRepository.reviveJob(entry.job));
+        } else if (entry.op === 'delete') {
+          this.jobs.delete(entry.id);
+        }
+      } catch {
+        // A crash mid-write can leave a truncated last line
+        skipped++;
+      }
+    }
+
+    logger.logProcessing('Job log replayed', '', {
+      filePath: this.filePath,
+      jobs: this.jobs.size,
+      skippedEntries: skipped
+    });
+  }
+
+  private static reviveJob(job: ProcessingJob): ProcessingJob {
+    return {
+      ...job,
+      createdAt: new Date(job.createdAt),
+      updatedAt: new Date(job.updatedAt),
+      completedAt: job.completedAt ? new Date(job.completedAt) : undefined
+    };
+  }
+}
+
+/**
+ * Create the job repository configured for this deployment
+ */
+export function createJobRepository(): JobRepository {
+  if (config.jobStore.driver === 'file') {
+    return new FileJobRepository(config.jobStore.filePath);
+  }
+  return new InMemoryJobRepository();
+}
+
+export default createJobRepository;
@@ -0,0 +1,415 @@
+import crypto from 'crypto';
+import {
+  TranscriptionRequest,
+  TranscriptionResponse,
+  SummarizationRequest,
+  SummarizationResponse,
+  JsonCompletion,
+  TokenLimitCheck,
+  TranscriptionProvider,
+  SummarizationProvider,
+  EmbeddingProvider,
+  Timestamp,
+  KeyPoint,
+  Chapter,
+  SummaryTemplate
+} from '../types';
+import { parseTemplateSections } from './summaryTemplates';
+import { ValidatedNotes, validateSectionNotes } from './summarySchema';
+import { logger } from '../utils/logger';
+import { normalizeVector } from '../utils/vectors';
+
+// Processed audio is 16 kHz mono 16-bit PCM
+const BYTES_PER_SECOND = 16000 * 2;
+const SEGMENT_SECONDS = 15;
+const CONTEXT_TOKENS = 32000;
+
+const TOPICS = [
+  'product strategy', 'remote work', 'machine learning', 'personal finance', 'sleep science',
+  'startup hiring', 'climate policy', 'open source', 'habit building', 'team leadership',
+  'customer research', 'public speaking', 'urban design', 'nutrition', 'creative writing'
+];
+
+const TEMPLATES = [
+  'We talk about {topic} and why it matters more than most people think.',
+  'The guest shares a story about getting {topic} wrong early on.',
+  'You should start small with {topic} and measure what changes.',
+  'A common mistake with {topic} is optimizing too early.',
+  'Here is the framework I use when thinking about {topic}.',
+  'The research on {topic} surprised both of us.',
+  'Try writing down one experiment with {topic} this week.',
+  'Listeners asked how {topic} connects to everything else we covered.'
+];
+
+const STOP_WORDS = new Set([
+  'about', 'after', 'again', 'because', 'before', 'being', 'between', 'could', 'every', 'everything',
+  'their', 'there', 'these', 'thing', 'think', 'those', 'through', 'under', 'which', 'while',
+  'would', 'where', 'other', 'people', 'really', 'should', 'start', 'section', 'covered', 'matters'
+]);
+
+// Short words that carry no topic, left out of embeddings and answers
+const FILLER_WORDS = new Set([
+  'what', 'when', 'does', 'have', 'this', 'that', 'with', 'they', 'them', 'your',
+  'from', 'into', 'than', 'then', 'also', 'just', 'like', 'said', 'says', 'were'
+]);
+
+const EMBEDDING_DIMENSIONS = 256;
+
+const DETAIL_COUNTS = {
+  brief: { takeaways: 3, keyPoints: 5, actionItems: 3 },
+  standard: { takeaways: 5, keyPoints: 8, actionItems: 5 },
+  deep: { takeaways: 7, keyPoints: 12, actionItems: 8 }
+};
+
+/**
+ * Deterministic offline provider. Transcripts are generated from a hash of
+ * the audio and summaries are extracted from the transcript, so CI and
+ * offline machines can run the whole pipeline without network access.
+ */
+export class LocalProvider implements TranscriptionProvider, SummarizationProvider, EmbeddingProvider {
+  readonly name = 'local';
+
+  /**
+   * Produce a repeatable transcript whose length follows the audio duration
+   */
+  async transcribeAudio(request: TranscriptionRequest): Promise<TranscriptionResponse> {
+    const { audioFile, language } = request;
+    const duration = LocalProvider.audioDuration(audioFile);
+    const seed = crypto.createHash('sha1').update(audioFile).digest();
+
+    const segments: Timestamp[] = [];
+    for (let start = 0, i = 0; start < duration; start += SEGMENT_SECONDS, i++) {
+      const topic = TOPICS[(seed[i % seed.length]! + Math.floor(i / 4)) % TOPICS.length]!;
+      const template = TEMPLATES[(seed[(i + 7) % seed.length]! + i) % TEMPLATES.length]!;
+      segments.push({
+        start,
+        end: Math.min(duration, start + SEGMENT_SECONDS),
+        text: template.replace('{topic}', topic),
+        confidence: 0.9
+      });
+    }
+
+    logger.logOpenAI('Local transcription completed', {
+      provider: this.name,
+      duration,
+      segmentsCount: segments.length
+    });
+
+    return {
+      text: segments.map(segment => segment.text).join(' '),
+      language: language || 'en',
+      duration,
+      segments,
+      confidence: 0.9
+    };
+  }
+
+  /**
+   * Build a summary by picking sentences out of the transcript
+   */
+  async generateSummary(request: SummarizationRequest): Promise<SummarizationResponse> {
+    const { detailLevel, options } = request;
+    const counts = DETAIL_COUNTS[detailLevel] || DETAIL_COUNTS.standard;
+    const notes = request.mode === 'sectionNotes' ? LocalProvider.parseNotes(request.transcript) : [];
+    const segments = request.mode === 'sectionNotes'
+      ? notes.flatMap(note => note.keyPoints.map(point => ({
+        start: point.timestamp || 0,
+        end: point.timestamp || 0,
+        text: point.description || point.title || ''
+      })))
+      : request.segments || [];
+    const text = request.mode === 'sectionNotes'
+      ? notes.map(note => note.summary || '').join(' ')
+      : request.transcript;
+    const sentences = LocalProvider.uniqueSentences(text);
+
+    const chapters = options.timestamps
+      ? request.mode === 'sectionNotes'
+        ? notes.flatMap(note => note.chapters || [])
+        : LocalProvider.buildChapters(segments)
+      : undefined;
+
+    if (request.template) {
+      const timed = segments.length > 0;
+      const units = timed ? segments : sentences.map(text => ({ start: 0, end: 0, text }));
+      return {
+        overview: sentences.slice(0, 3).join(' '),
+        keyTakeaways: [],
+        keyPoints: [],
+        actionItems: [],
+        quotes: [],
+        chapters,
+        sections: parseTemplateSections(request.template, LocalProvider.templateOutput(request.template, units, timed)),
+        tags: LocalProvider.extractTags(text),
+        confidence: 0.9
+      };
+    }
+
+    return {
+      overview: sentences.slice(0, 3).join(' '),
+      keyTakeaways: LocalProvider.spread(sentences, counts.takeaways),
+      keyPoints: segments.length > 0
+        ? LocalProvider.buildKeyPoints(segments, counts.keyPoints)
+        : LocalProvider.buildKeyPoints(sentences.map(text => ({ start: 0, end: 0, text })), counts.keyPoints, false),
+      actionItems: sentences.filter(sentence => /\b(should|try|start|need to|must)\b/i.test(sentence)).slice(0, counts.actionItems),
+      quotes: [...sentences].sort((a, b) => b.length - a.length || a.localeCompare(b)).slice(0, 2),
+      chapters,
+      tags: LocalProvider.extractTags(text),
+      confidence: 0.9
+    };
+  }
+
+  /**
+   * Answer JSON prompts offline; the reply goes through `parse` like a
+   * model's would
+   */
+  async completeJson<T>(_systemPrompt: string, userPrompt: string, parse: (data: unknown) => T): Promise<JsonCompletion<T>> {
+    return { data: parse(LocalProvider.jsonReply(userPrompt)), finishReason: 'stop' };
+  }
+
+  /**
+   * Section and merge prompts get notes extracted from the prompt, questions
+   * an answer from the passages listed in it
+   */
+  private static jsonReply(userPrompt: string): unknown {
+    const notes = LocalProvider.parseNotes(userPrompt);
+
+    if (notes.length > 0) {
+      return {
+        summary: notes.map(note => note.summary || '').join(' '),
+        keyPoints: notes.flatMap(note => note.keyPoints || []),
+        chapters: notes.flatMap(note => note.chapters || []),
+        quotes: notes.flatMap(note => note.quotes || []).slice(0, 5),
+        actionItems: notes.flatMap(note => note.actionItems || []).slice(0, 8),
+        tags: [...new Set(notes.flatMap(note => note.tags || []))].slice(0, 10)
+      };
+    }
+
+    const question = userPrompt.match(/^Question: (.+)$/m)?.[1];
+    if (question) {
+      return LocalProvider.answer(question, userPrompt);
+    }
+
+    const segments = LocalProvider.parseTimedLines(userPrompt);
+    const text = segments.map(segment => segment.text).join(' ');
+    const sentences = LocalProvider.uniqueSentences(text);
+
+    return {
+      summary: sentences.slice(0, 3).join(' '),
+      keyPoints: LocalProvider.buildKeyPoints(segments, 3),
+      chapters: LocalProvider.buildChapters(segments, 1),
+      quotes: sentences.slice(0, 1),
+      actionItems: sentences.filter(sentence => /\b(should|try|start|need to|must)\b/i.test(sentence)).slice(0, 2),
+      tags: LocalProvider.extractTags(text)
+    };
+  }
+
+  /**
+   * Hash words and word pairs into a fixed-size vector. Only texts that share
+   * vocabulary end up close, which is enough for offline retrieval.
+   */
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => {
+      const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+      const words = LocalProvider.contentWords(text);
+      const features = [...words, ...words.slice(1).map((word, i) => `${words[i]} ${word}`)];
+
+      for (const feature of features) {
+        const hash = crypto.createHash('md5').update(feature).digest();
+        vector[hash.readUInt32LE(0) % EMBEDDING_DIMENSIONS]! += hash[4]! & 1 ? 1 : -1;
+      }
+
+      return normalizeVector(vector);
+    });
+  }
+
+  estimateTokenCount(text: string): number {
+    return Math.ceil(text.length / 4);
+  }
+
+  validateTokenLimits(transcript: string): TokenLimitCheck {
+    const estimatedTokens = this.estimateTokenCount(transcript);
+    return { valid: estimatedTokens < CONTEXT_TOKENS, estimatedTokens, maxTokens: CONTEXT_TOKENS };
+  }
+
+  async testConnection(): Promise<boolean> {
+    return true;
+  }
+
+  /**
+   * Duration of a WAV buffer, falling back to the processed audio byte rate
+   */
+  static audioDuration(audio: Buffer): number {
+    if (audio.length >= 44 && audio.toString('ascii', 0, 4) === 'RIFF' && audio.toString('ascii', 8, 12) === 'WAVE') {
+      const byteRate = audio.readUInt32LE(28);
+      if (byteRate > 0) {
+        return Math.round(((audio.length - 44) / byteRate) * 100) / 100;
+      }
+    }
+    return Math.round((audio.length / BYTES_PER_SECOND) * 100) / 100;
+  }
+
+  private static parseNotes(prompt: string): ValidatedNotes[] {
+    return prompt
+      .split('\n')
+      .filter(line => line.startsWith('{'))
+      .map(line => {
+        try {
+          return validateSectionNotes(JSON.parse(line));
+        } catch {
+          return undefined;
+        }
+      })
+      .filter((note): note is ValidatedNotes => note !== undefined);
+  }
+
+  /**
+   * Answer a question with the sentences sharing the most words with it,
+   * citing the passages they come from
+   */
+  private static answer(question: string, prompt: string): { answer: string; citations: number[] } {
+    const asked = new Set(LocalProvider.contentWords(question));
+    const sentences = prompt
+      .split('\n')
+      .map(line => line.match(/^\[(\d+)\] \[[\d:]+-[\d:]+\] (?:[^:]{1,40}: )?(.*)$/))
+      .filter((match): match is RegExpMatchArray => !!match)
+      .flatMap(match => LocalProvider.uniqueSentences(match[2]!).map(text => ({
+        index: Number(match[1]),
+        text,
+        overlap: LocalProvider.contentWords(text).filter(word => asked.has(word)).length
+      })))
+      .filter(sentence => sentence.overlap > 0)
+      .sort((a, b) => b.overlap - a.overlap || a.index - b.index)
+      .slice(0, 2);
+
+    if (sentences.length === 0) {
+      return { answer: 'The episode does not seem to cover that.', citations: [] };
+    }
+
+    return {
+      answer: sentences
+        .map(sentence => `${sentence.text.replace(/[.!?]+$/, '')} [${sentence.index}].`)
+        .join(' '),
+      citations: [...new Set(sentences.map(sentence => sentence.index))]
+    };
+  }
+
+  private static contentWords(text: string): string[] {
+    return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [])
+      .filter(word => word.length > 3 && !STOP_WORDS.has(word) && !FILLER_WORDS.has(word))
+      .map(word => word.replace(/(?:ing|ed|es|s)$/, ''));
+  }
+
+  private static parseTimedLines(prompt: string): Timestamp[] {
+    const segments: Timestamp[] = [];
+
+    for (const line of prompt.split('\n')) {
+      const match = line.match(/^\[(?:(\d+):)?(\d+):(\d{2})\] (.*)$/);
+      if (!match) continue;
+
+      const start = Number(match[1] || 0) * 3600 + Number(match[2]) * 60 + Number(match[3]);
+      const previous = segments[segments.length - 1];
+      if (previous) {
+        previous.end = start;
+      }
+      segments.push({ start, end: start + SEGMENT_SECONDS, text: match[4]! });
+    }
+
+    return segments;
+  }
+
+  private static uniqueSentences(text: string): string[] {
+    const sentences = (text.match(/[^.!?]+[.!?]+/g) || [text]).map(sentence => sentence.trim()).filter(Boolean);
+    return [...new Set(sentences)];
+  }
+
+  // Pick `count` items evenly across the list so the whole episode is covered
+  private static spread<T>(items: T[], count: number): T[] {
+    if (items.length <= count) return items;
+    const step = items.length / count;
+    return Array.from({ length: count }, (_, i) => items[Math.floor(i * step)]!);
+  }
+
+  /**
+   * Fill every template section from transcript segments, honouring the
+   * item counts so the output passes template validation
+   */
+  private static templateOutput(template: SummaryTemplate, units: Timestamp[], timed: boolean): Record<string, unknown> {
+    const output: Record<string, unknown> = {};
+
+    template.sections.forEach((section, index) => {
+      if (section.type === 'text') {
+        output[section.key] = units[index % Math.max(1, units.length)]?.text || section.title;
+        return;
+      }
+
+      const count = section.maxItems ?? Math.max(section.minItems ?? 0, 3);
+      const picked = units.length >= count
+        ? LocalProvider.spread(units, count)
+        : Array.from({ length: units.length > 0 ? count : 0 }, (_, i) => units[i % units.length]!);
+
+      output[section.key] = section.type === 'list'
+        ? picked.map(unit => unit.text)
+        : picked.map((unit, i) => Object.fromEntries(section.fields!.map(field => {
+          switch (field.type) {
+            case 'number':
+              return [field.name, i + 1];
+            case 'boolean':
+              return [field.name, i === 0];
+            case 'timestamp':
+              // Untimed transcripts have nothing to point at
+              return [field.name, timed ? Math.round(unit.start) : undefined];
+            default:
+              return [field.name, unit.text];
+          }
+        })));
+    });
+
+    return output;
+  }
+
+  private static buildKeyPoints(segments: Timestamp[], count: number, timed = true): KeyPoint[] {
+    return LocalProvider.spread(segments, count).map((segment, i) => ({
+      title: segment.text.split(/\s+/).slice(0, 6).join(' '),
+      description: segment.text,
+      timestamp: timed ? Math.round(segment.start) : undefined,
+      importance: i === 0 ? 'high' as const : 'medium' as const
+    }));
+  }
+
+  private static buildChapters(segments: Timestamp[], chapterCount = 5): Chapter[] {
+    if (segments.length === 0) return [];
+    const size = Math.ceil(segments.length / chapterCount);
+    const chapters: Chapter[] = [];
+
+    for (let i = 0; i < segments.length; i += size) {
+      const group = segments.slice(i, i + size);
+      const tags = LocalProvider.extractTags(group.map(segment => segment.text).join(' '));
+      chapters.push({
+        title: tags[0] ? `On ${tags.slice(0, 2).join(' and ')}` : `Part ${chapters.length + 1}`,
+        start: Math.round(group[0]!.start),
+        end: Math.round(group[group.length - 1]!.end),
+        summary: group[0]!.text,
+        keyPoints: group.slice(0, 2).map(segment => segment.text)
+      });
+    }
+
+    return chapters;
+  }
+
+  private static extractTags(text: string): string[] {
+    const counts = new Map<string, number>();
+    for (const word of text.toLowerCase().match(/[a-z]{5,}/g) || []) {
+      if (!STOP_WORDS.has(word)) {
+        counts.set(word, (counts.get(word) || 0) + 1);
+      }
+    }
+
+    return [...counts.entries()]
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, 5)
+      .map(([word]) => word);
+  }
+}
+
+export default LocalProvider;
@@ -0,0 +1,93 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from '@jest/globals';
+import { generateAudio, hasFfmpeg, hasFfprobe, useRealMediaTools } from '../test/mediaTools';
+import { MediaValidationError, MediaValidationService } from './mediaValidation';
+
+// An MPEG audio frame header; ffprobe is faked, so the rest can be anything
+const MP3_HEADER = Buffer.from([0xff, 0xfb, 0x90, 0x64, ...Array(28).fill(0)]);
+
+describe('MediaValidationService', () => {
+  let dir: string;
+  const service = new MediaValidationService({ maxDurationSeconds: 3600, allowedTypes: ['audio/mpeg', 'audio/wav'] });
+
+  const write = (name: string, content: Buffer): string => {
+    const filePath = path.join(dir, name);
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'media-validation-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('returns the metadata of valid audio', async () => {
+    const metadata = await service.validate(write('valid.mp3', MP3_HEADER));
+
+    expect(metadata).toEqual({
+      format: 'mp3',
+      duration: 12.5,
+      bitrate: 256000,
+      sampleRate: 16000,
+      channels: 1,
+      size: MP3_HEADER.length,
+      video: false
+    });
+  });
+
+  it('rejects content that is not a known container', async () => {
+    const filePath = write('script.mp3', Buffer.from('#!/bin/sh\necho definitely not audio\n'));
+
+    await expect(service.validate(filePath)).rejects.toThrow('not a recognised audio or video format');
+  });
+
+  it('rejects files too short to recognise', async () => {
+    await expect(service.validate(write('short.mp3', Buffer.from('ID3')))).rejects.toThrow(MediaValidationError);
+  });
+
+  it('rejects containers of a type that is not allowed', async () => {
+    const filePath = write('audio.ogg', Buffer.concat([Buffer.from('OggS'), Buffer.alloc(28)]));
+
+    await expect(service.validate(filePath)).rejects.toThrow('File content is ogg, which is not allowed');
+  });
+
+  it.each([
+    ['video-only', 'File has no audio stream'],
+    ['no-duration', 'Audio has no duration'],
+    ['too-long', 'Audio is 27h 47m long; the maximum is 1h'],
+    ['corrupt', 'File could not be read as audio']
+  ])('rejects files ffprobe reports as %s', async (mode, message) => {
+    const attempt = service.validate(write(`fake-${mode}.mp3`, MP3_HEADER));
+
+    await expect(attempt).rejects.toThrow(MediaValidationError);
+    await expect(attempt).rejects.toThrow(message);
+  });
+
+  (hasFfmpeg && hasFfprobe ? describe : describe.skip)('with the real ffprobe', () => {
+    useRealMediaTools();
+
+    it('reads the metadata of real audio', async () => {
+      const filePath = path.join(dir, 'stereo.wav');
+      generateAudio(filePath, 'sine=duration=2', ['-ac', '2', '-ar', '22050']);
+
+      const metadata = await service.validate(filePath);
+
+      expect(metadata).toMatchObject({ format: 'wav', sampleRate: 22050, channels: 2, bitrate: 705600, video: false });
+      expect(metadata.duration).toBeCloseTo(2, 1);
+    });
+
+    it('rejects a file with a valid header but no audio in it', async () => {
+      const filePath = path.join(dir, 'truncated.wav');
+      generateAudio(filePath, 'sine=duration=1');
+      fs.truncateSync(filePath, 12);
+      fs.appendFileSync(filePath, Buffer.alloc(20));
+
+      await expect(service.validate(filePath)).rejects.toThrow(MediaValidationError);
+    });
+  });
+});
@@ -0,0 +1,203 @@
+import fs from 'fs';
+import { AudioMetadata } from '../types';
+import { MediaCommandError, ProbeOutput, probe } from '../utils/media';
+import { logger } from '../utils/logger';
+import config from '../utils/config';
+
+export interface MediaValidationOptions {
+  // Longest audio accepted, in seconds
+  maxDurationSeconds: number;
+  allowedTypes: string[];
+}
+
+/**
+ * A container recognised by its leading bytes, with the MIME types it is
+ * uploaded as
+ */
+interface ContainerSignature {
+  format: string;
+  mimeTypes: string[];
+  matches: (header: Buffer) => boolean;
+}
+
+// Bytes read to recognise a container
+const HEADER_BYTES = 16;
+
+const hasText = (header: Buffer, offset: number, text: string): boolean =>
+  header.toString('latin1', offset, offset + text.length) === text;
+
+// ISO base media files (MP4, M4A, MOV) start with an `ftyp` box
+const isIsoMedia = (header: Buffer): boolean => hasText(header, 4, 'ftyp');
+
+const CONTAINERS: ContainerSignature[] = [
+  {
+    format: 'wav',
+    mimeTypes: ['audio/wav', 'audio/x-wav', 'audio/wave'],
+    matches: header => hasText(header, 0, 'RIFF') && hasText(header, 8, 'WAVE')
+  },
+  {
+    format: 'avi',
+    mimeTypes: ['video/x-msvideo'],
+    matches: header => hasText(header, 0, 'RIFF') && hasText(header, 8, 'AVI ')
+  },
+  {
+    format: 'ogg',
+    mimeTypes: ['audio/ogg', 'video/ogg'],
+    matches: header => hasText(header, 0, 'OggS')
+  },
+  {
+    format: 'flac',
+    mimeTypes: ['audio/flac', 'audio/x-flac'],
+    matches: header => hasText(header, 0, 'fLaC')
+  },
+  {
+    // Matroska EBML header; WebM is a Matroska profile
+    format: 'webm',
+    mimeTypes: ['audio/webm', 'video/webm', 'video/x-matroska'],
+    matches: header => header.readUInt32BE(0) === 0x1a45dfa3
+  },
+  {
+    format: 'mov',
+    mimeTypes: ['video/quicktime'],
+    matches: header => isIsoMedia(header) && hasText(header, 8, 'qt  ')
+  },
+  {
+    format: 'mp4',
+    mimeTypes: ['audio/mp4', 'audio/m4a', 'audio/x-m4a', 'video/mp4'],
+    matches: isIsoMedia
+  },
+  {
+    // An ID3 tag, or straight into an MPEG audio frame (sync bits set, layer not reserved)
+    format: 'mp3',
+    mimeTypes: ['audio/mpeg', 'audio/mp3'],
+    matches: header => hasText(header, 0, 'ID3') || (header[0] === 0xff && (header[1]! & 0xe0) === 0xe0 && (header[1]! & 0x06) !== 0)
+  },
+  {
+    // ADTS frames look like MPEG audio with layer 0
+    format: 'aac',
+    mimeTypes: ['audio/aac', 'audio/aacp'],
+    matches: header => header[0] === 0xff && (header[1]! & 0xf6) === 0xf0
+  }
+];
+
+/**
+ * Raised for a file that is not audio the pipeline can use
+ */
+export class MediaValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MediaValidationError';
+  }
+}
+
+/**
+ * Checks what an audio file really is rather than what the client said it
+ * was: the container is recognised from its magic bytes, then ffprobe reads
+ * the streams for the duration, bitrate, sample rate and channels.
+ */
+export class MediaValidationService {
+  constructor(private options: MediaValidationOptions = {
+    maxDurationSeconds: config.media.maxDurationSeconds,
+    allowedTypes: config.allowedFileTypes
+  }) {}
+
+  /**
+   * Validate a file and return its metadata. Throws MediaValidationError for
+   * unrecognised containers, files without an audio stream, and audio that
+   * is empty or longer than the configured limit.
+   */
+  async validate(filePath: string, signal?: AbortSignal): Promise<AudioMetadata> {
+    const container = await this.sniffContainer(filePath);
+    if (!container) {
+      throw new MediaValidationError('File content is not a recognised audio or video format');
+    }
+    if (!container.mimeTypes.some(type => this.options.allowedTypes.includes(type))) {
+      throw new MediaValidationError(
+        `File content is ${container.format}, which is not allowed. Allowed types: ${this.options.allowedTypes.join(', ')}`
+      );
+    }
+
+    const probed = await this.probe(filePath, signal);
+    const audio = probed.streams?.find(stream => stream.codec_type === 'audio');
+    if (!audio) {
+      throw new MediaValidationError('File has no audio stream');
+    }
+
+    const duration = toNumber(probed.format?.duration) ?? toNumber(audio.duration) ?? 0;
+    if (duration <= 0) {
+      throw new MediaValidationError('Audio has no duration');
+    }
+    if (duration > this.options.maxDurationSeconds) {
+      throw new MediaValidationError(
+        `Audio is ${formatDuration(duration)} long; the maximum is ${formatDuration(this.options.maxDurationSeconds)}`
+      );
+    }
+
+    const stats = await fs.promises.stat(filePath);
+
+    return {
+      format: container.format,
+      duration,
+      bitrate: toNumber(audio.bit_rate) ?? toNumber(probed.format?.bit_rate),
+      sampleRate: toNumber(audio.sample_rate),
+      channels: audio.channels,
+      size: stats.size,
+      video: !!probed.streams?.some(stream => stream.codec_type === 'video' && stream.disposition?.attached_pic !== 1)
+    };
+  }
+
+  /**
+   * The container whose signature starts the file, if any
+   */
+  async sniffContainer(filePath: string): Promise<ContainerSignature | undefined> {
+    const handle = await fs.promises.open(filePath, 'r');
+    try {
+      const header = Buffer.alloc(HEADER_BYTES);
+      const { bytesRead } = await handle.read(header, 0, HEADER_BYTES, 0);
+      if (bytesRead < HEADER_BYTES) {
+        return undefined;
+      }
+      return CONTAINERS.find(container => container.matches(header));
+    } finally {
+      await handle.close();
+    }
+  }
+
+  private async probe(filePath: string, signal?: AbortSignal): Promise<ProbeOutput> {
+    try {
+      return await probe(filePath, { signal });
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        throw new MediaValidationError('File could not be read as audio');
+      }
+      // A missing ffprobe is a server problem and a cancellation is not a verdict
+      if (!(error instanceof MediaCommandError) || error.reason === 'not-found' || error.reason === 'aborted') {
+        throw error;
+      }
+
+      logger.logUpload('Media probe failed', {
+        filePath,
+        reason: error.reason,
+        error: error.stderr?.trim() || error.message
+      });
+      throw new MediaValidationError(error.reason === 'timeout' ? 'Timed out reading the file' : 'File could not be read as audio');
+    }
+  }
+}
+
+// ffprobe reports numbers as strings, and "N/A" when unknown
+function toNumber(value: string | number | undefined): number | undefined {
+  const number = Number(value);
+  return value === undefined || !Number.isFinite(number) ? undefined : number;
+}
+
+function formatDuration(seconds: number): string {
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) {
+    return `${minutes}m`;
+  }
+  return minutes % 60 === 0 ? `${minutes / 60}h` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+export const mediaValidationService = new MediaValidationService();
+export default mediaValidationService;
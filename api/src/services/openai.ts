@@ -6,19 +6,67 @@ import {
   SummarizationRequest, 
   SummarizationResponse,
   DetailLevel,
-  KeyPoint,
-  Chapter 
+  JsonCompletion,
+  JsonCompletionOptions,
+  TokenLimitCheck,
+  TranscriptionProvider,
+  SummarizationProvider,
+  EmbeddingProvider,
+  SummaryTemplate
 } from '../types';
+import { templatePrompt } from './summaryTemplates';
+import { ChatCompletion, ChatMessage, completeStructured } from './structuredOutput';
+import { validateSummaryResponse } from './summarySchema';
+import { ProviderUnavailableError, callProvider, isAbortError } from './providerResilience';
+import { CircuitBreaker, circuitBreaker } from '../utils/circuitBreaker';
 import config from '../utils/config';
 import { logger, measurePerformance, logErrors } from '../utils/logger';
+import { normalizeVector } from '../utils/vectors';
+
+export interface OpenAIServiceOptions {
+  name: string;
+  apiKey: string;
+  // Point at any OpenAI-compatible server instead of api.openai.com
+  baseURL?: string;
+  transcriptionModel: string;
+  summaryModel: string;
+  embeddingModel: string;
+  contextTokens: number;
+  // Most tokens the summary model can write in one reply
+  outputTokens: number;
+  // Whether the server supports response_format json_object
+  jsonMode: boolean;
+}
 
-export class OpenAIService {
+/**
+ * Transcription and summarization over the OpenAI API. The same adapter
+ * serves OpenAI itself and OpenAI-compatible local servers.
+ */
+export class OpenAIService implements TranscriptionProvider, SummarizationProvider, EmbeddingProvider {
+  readonly name: string;
   private client: OpenAI;
-
-  constructor() {
+  private options: OpenAIServiceOptions;
+  private breaker: CircuitBreaker;
+
+  constructor(options: OpenAIServiceOptions = {
+    name: 'openai',
+    apiKey: config.openai.apiKey,
+    transcriptionModel: config.openai.model,
+    summaryModel: config.openai.summaryModel,
+    embeddingModel: config.openai.embeddingModel,
+    contextTokens: config.openai.contextTokens,
+    outputTokens: config.openai.outputTokens,
+    jsonMode: true
+  }) {
+    this.name = options.name;
+    this.options = options;
     this.client = new OpenAI({
-      apiKey: config.openai.apiKey
+      apiKey: options.apiKey,
+      baseURL: options.baseURL,
+      // Retries happen in callProvider, where the circuit breaker sees them
+      maxRetries: 0
     });
+    this.breaker = circuitBreaker(options.name);
   }
 
   /**
@@ -27,28 +75,34 @@ export class OpenAIService {
   @measurePerformance('OpenAI Transcription')
   @logErrors('OpenAI Service')
   async transcribeAudio(request: TranscriptionRequest): Promise<TranscriptionResponse> {
-    const { audioFile, language, prompt } = request;
+    const { audioFile, language, prompt, signal } = request;
 
     try {
       logger.logOpenAI('Starting transcription', {
+        provider: this.name,
         audioSize: audioFile.length,
         language,
         hasPrompt: !!prompt
       });
 
       // Create a temporary file for the audio
-      const tempFilePath = `/tmp/audio_${Date.now()}.wav`;
+      const tempFilePath = `/tmp/audio_${Date.now()}_${Math.random().toString(36).substring(2, 9)}.wav`;
       fs.writeFileSync(tempFilePath, audioFile);
 
       try {
-        const transcription = await this.client.audio.transcriptions.create({
-          file: fs.createReadStream(tempFilePath),
-          model: 'whisper-1',
-          language: language || undefined,
-          prompt: prompt || undefined,
-          response_format: 'verbose_json',
-          timestamp_granularities: ['segment']
-        });
+        const transcription = await callProvider(
+          this.breaker,
+          () => this.client.audio.transcriptions.create({
+            file: fs.createReadStream(tempFilePath),
+            model: this.options.transcriptionModel,
+            language: language || undefined,
+            prompt: prompt || undefined,
+            response_format: 'verbose_json',
+            timestamp_granularities: ['segment']
+          }, { signal }),
+          `Transcription by ${this.name}`,
+          signal
+        );
 
         // Clean up temp file
         fs.unlinkSync(tempFilePath);
@@ -85,10 +139,15 @@ export class OpenAIService {
         throw apiError;
       }
     } catch (error) {
+      // Cancellation is not a provider failure
+      if (isAbortError(error)) {
+        throw error;
+      }
       logger.logOpenAI('Transcription failed', {
         error: error instanceof Error ? error.message : 'Unknown error'
       });
-      throw new Error(`Transcription failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      const message = `Transcription failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      throw error instanceof ProviderUnavailableError ? new ProviderUnavailableError(message) : new Error(message);
     }
   }
 
@@ -102,47 +161,34 @@ export class OpenAIService {
 
     try {
       logger.logOpenAI('Starting summarization', {
+        provider: this.name,
         transcriptLength: transcript.length,
         detailLevel,
         language: options.lang,
-        timestamps: options.timestamps
+        timestamps: options.timestamps,
+        template: request.template?.name
       });
 
-      const systemPrompt = this.buildSystemPrompt(detailLevel, options);
-      const userPrompt = this.buildUserPrompt(transcript, metadata);
+      const systemPrompt = this.buildSystemPrompt(detailLevel, options, request.template);
+      const userPrompt = this.buildUserPrompt(transcript, metadata, request.mode);
 
-      const completion = await this.client.chat.completions.create({
-        model: 'gpt-4-turbo-preview',
-        messages: [
+      const output = await completeStructured(
+        (messages, maxTokens) => this.chat(messages, maxTokens, request.signal),
+        [
           { role: 'system', content: systemPrompt },
           { role: 'user', content: userPrompt }
         ],
-        max_tokens: config.openai.maxTokens,
-        temperature: config.openai.temperature,
-        response_format: { type: 'json_object' }
-      });
-
-      const content = completion.choices[0]?.message?.content;
-      if (!content) {
-        throw new Error('No response content from OpenAI');
-      }
-
-      let parsedResponse;
-      try {
-        parsedResponse = JSON.parse(content);
-      } catch (parseError) {
-        throw new Error('Invalid JSON response from OpenAI');
-      }
+        data => validateSummaryResponse(data, { timestamps: !!options.timestamps, template: request.template }),
+        {
+          ...this.budget(config.openai.maxTokens),
+          repairAttempts: config.summarization.repairAttempts,
+          context: `Summary from ${this.name}`
+        }
+      );
 
       const response: SummarizationResponse = {
-        overview: parsedResponse.overview || '',
-        keyTakeaways: parsedResponse.keyTakeaways || [],
-        keyPoints: this.processKeyPoints(parsedResponse.keyPoints || []),
-        actionItems: parsedResponse.actionItems || [],
-        quotes: parsedResponse.quotes || [],
-        chapters: options.timestamps ? this.processChapters(parsedResponse.chapters || []) : undefined,
-        tags: parsedResponse.tags || [],
-        confidence: this.calculateSummaryConfidence(completion.choices[0])
+        ...output.value,
+        confidence: this.calculateSummaryConfidence(output.finishReason)
       };
 
       logger.logOpenAI('Summarization completed', {
@@ -152,24 +198,124 @@ export class OpenAIService {
         actionItemsCount: response.actionItems.length,
         quotesCount: response.quotes.length,
         chaptersCount: response.chapters?.length || 0,
+        sectionsCount: response.sections?.length || 0,
         tagsCount: response.tags.length,
         confidence: response.confidence,
-        tokensUsed: completion.usage?.total_tokens
+        repairs: output.repairs,
+        tokensUsed: output.tokensUsed
       });
 
       return response;
     } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
       logger.logOpenAI('Summarization failed', {
         error: error instanceof Error ? error.message : 'Unknown error'
       });
-      throw new Error(`Summarization failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      const message = `Summarization failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      throw error instanceof ProviderUnavailableError ? new ProviderUnavailableError(message) : new Error(message);
+    }
+  }
+
+  /**
+   * Run a chat completion that must return a JSON object `parse` accepts,
+   * repairing invalid replies and retrying truncated ones
+   */
+  async completeJson<T>(
+    systemPrompt: string,
+    userPrompt: string,
+    parse: (data: unknown) => T,
+    options: JsonCompletionOptions = {}
+  ): Promise<JsonCompletion<T>> {
+    const output = await completeStructured(
+      (messages, maxTokens) => this.chat(messages, maxTokens, options.signal),
+      [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userPrompt }
+      ],
+      parse,
+      {
+        ...this.budget(options.maxTokens ?? config.openai.maxTokens),
+        repairAttempts: config.summarization.repairAttempts,
+        context: options.context || `Completion from ${this.name}`
+      }
+    );
+
+    return {
+      data: output.value,
+      finishReason: output.finishReason,
+      tokensUsed: output.tokensUsed
+    };
+  }
+
+  /**
+   * Output budgets for a structured completion: the first request's and the
+   * largest a truncated reply is retried with, both within what the model
+   * can write in one reply
+   */
+  private budget(maxTokens: number): { maxTokens: number; maxOutputTokens: number } {
+    return {
+      maxTokens: Math.min(maxTokens, this.options.outputTokens),
+      maxOutputTokens: Math.min(config.summarization.maxOutputTokens, this.options.outputTokens)
+    };
+  }
+
+  /**
+   * One chat completion in JSON mode, where the server supports it
+   */
+  private async chat(messages: ChatMessage[], maxTokens: number, signal?: AbortSignal): Promise<ChatCompletion> {
+    const completion = await callProvider(
+      this.breaker,
+      () => this.client.chat.completions.create({
+        model: this.options.summaryModel,
+        messages,
+        max_tokens: maxTokens,
+        temperature: config.openai.temperature,
+        ...(this.options.jsonMode ? { response_format: { type: 'json_object' as const } } : {})
+      }, { signal }),
+      `Completion by ${this.name}`,
+      signal
+    );
+
+    const content = completion.choices[0]?.message?.content;
+    if (!content) {
+      throw new Error(`No response content from ${this.name}`);
     }
+
+    return {
+      content,
+      finishReason: completion.choices[0]?.finish_reason,
+      tokensUsed: completion.usage?.total_tokens
+    };
   }
 
   /**
-   * Build system prompt based on detail level and options
+   * Embed texts with the configured embedding model
    */
-  private buildSystemPrompt(detailLevel: DetailLevel, options: any): string {
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    const response = await callProvider(
+      this.breaker,
+      () => this.client.embeddings.create({
+        model: this.options.embeddingModel,
+        input: texts
+      }),
+      `Embedding by ${this.name}`
+    );
+
+    // Servers may answer out of order; unit length keeps dot products comparable
+    return [...response.data]
+      .sort((a, b) => a.index - b.index)
+      .map(item => normalizeVector(item.embedding));
+  }
+
+  /**
+   * Build system prompt based on detail level and options, or on the
+   * user's template when one is chosen
+   */
+  private buildSystemPrompt(detailLevel: DetailLevel, options: any, template?: SummaryTemplate): string {
     const basePrompt = `You are an expert podcast summarizer. Your task is to analyze podcast transcripts and create comprehensive, actionable summaries.
 
 Response format: Return a valid JSON object with the following structure:
@@ -189,14 +335,21 @@ Response format: Return a valid JSON object with the following structure:
       deep: `Create a comprehensive, detailed summary. Include 7-10 keyTakeaways, 12-20 keyPoints, 8-12 actionItems, and detailed chapter breakdowns.`
     };
 
-    let prompt = `${basePrompt}\n\nDetail Level: ${detailLevel.toUpperCase()}\n${detailInstructions[detailLevel]}`;
+    // Templates set their own sections and item counts
+    let prompt = template
+      ? `You are an expert podcast summarizer. Your task is to analyze podcast transcripts and summarize them in the format the listener defined.\n\n${templatePrompt(template, !!options.timestamps)}`
+      : `${basePrompt}\n\nDetail Level: ${detailLevel.toUpperCase()}\n${detailInstructions[detailLevel]}`;
 
     if (options.timestamps) {
       prompt += `\n\nInclude timestamp information where available. Use the timestamp data to create meaningful chapters and link key points to specific moments in the podcast.`;
     }
 
     if (options.lang && options.lang !== 'en') {
-      prompt += `\n\nThe podcast language is ${options.lang}. Ensure your summary captures cultural context and language-specific nuances.`;
+      prompt += `\n\nWrite the summary in ${options.lang}. Ensure it captures cultural context and language-specific nuances.`;
+    }
+
+    if (options.instructions) {
+      prompt += `\n\nAdditional instructions from the listener (follow them unless they conflict with the response format):\n${options.instructions}`;
     }
 
     return prompt;
@@ -205,8 +358,12 @@ Response format: Return a valid JSON object with the following structure:
   /**
    * Build user prompt with transcript and metadata
    */
-  private buildUserPrompt(transcript: string, metadata?: any): string {
-    let prompt = `Please analyze the following podcast transcript and create a summary:\n\n`;
+  private buildUserPrompt(transcript: string, metadata?: any, mode: SummarizationRequest['mode'] = 'transcript'): string {
+    let prompt = mode === 'sectionNotes'
+      ? `This podcast was too long to summarize in one pass, so each consecutive section was summarized separately. ` +
+        `Combine the section notes below into a single summary of the whole episode. ` +
+        `Reuse the timestamps from the notes for key points and chapters; do not invent new ones.\n\n`
+      : `Please analyze the following podcast transcript and create a summary:\n\n`;
 
     if (metadata?.title) {
       prompt += `Podcast Title: ${metadata.title}\n`;
@@ -220,36 +377,11 @@ Response format: Return a valid JSON object with the following structure:
       prompt += `Language: ${metadata.language}\n`;
     }
 
-    prompt += `\nTranscript:\n${transcript}`;
+    prompt += mode === 'sectionNotes' ? `\nSection notes:\n${transcript}` : `\nTranscript:\n${transcript}`;
 
     return prompt;
   }
 
-  /**
-   * Process key points from OpenAI response
-   */
-  private processKeyPoints(keyPoints: any[]): KeyPoint[] {
-    return keyPoints.map(point => ({
-      title: point.title || '',
-      description: point.description || '',
-      timestamp: point.timestamp || undefined,
-      importance: (point.importance as 'high' | 'medium' | 'low') || 'medium'
-    }));
-  }
-
-  /**
-   * Process chapters from OpenAI response
-   */
-  private processChapters(chapters: any[]): Chapter[] {
-    return chapters.map(chapter => ({
-      title: chapter.title || '',
-      start: chapter.start || 0,
-      end: chapter.end || 0,
-      summary: chapter.summary || '',
-      keyPoints: chapter.keyPoints || []
-    }));
-  }
-
   /**
    * Calculate overall confidence from segments
    */
@@ -269,10 +401,10 @@ Response format: Return a valid JSON object with the following structure:
   /**
    * Calculate summary confidence based on completion quality
    */
-  private calculateSummaryConfidence(choice: any): number {
+  private calculateSummaryConfidence(finishReason?: string): number {
     // Basic confidence calculation based on finish reason and presence of content
-    if (choice.finish_reason === 'stop') return 0.95;
-    if (choice.finish_reason === 'length') return 0.8;
+    if (finishReason === 'stop') return 0.95;
+    if (finishReason === 'length') return 0.8;
     return 0.7;
   }
 
@@ -319,9 +451,9 @@ Response format: Return a valid JSON object with the following structure:
   /**
    * Check if text would exceed token limits
    */
-  validateTokenLimits(transcript: string): { valid: boolean; estimatedTokens: number; maxTokens: number } {
+  validateTokenLimits(transcript: string): TokenLimitCheck {
     const estimatedTokens = this.estimateTokenCount(transcript);
-    const maxTokens = 32000; // Conservative limit for GPT-4
+    const maxTokens = this.options.contextTokens;
     
     return {
       valid: estimatedTokens < maxTokens,
@@ -331,6 +463,4 @@ Response format: Return a valid JSON object with the following structure:
   }
 }
 
-// Export singleton instance
-export const openaiService = new OpenAIService();
-export default openaiService;
+export default OpenAIService;
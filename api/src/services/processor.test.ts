@@ -0,0 +1,252 @@
+import fs from 'fs';
+import http from 'http';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { afterAll, afterEach, beforeAll, describe, expect, it, jest } from '@jest/globals';
+import { AudioMetadata, Summary, User } from '../types';
+import config from '../utils/config';
+import { InMemoryCheckpointRepository } from './jobCheckpoints';
+import { InMemoryJobRepository } from './jobStore';
+import { InMemorySummaryRepository } from './summaryStore';
+import { SourceResolver } from './sourceResolver';
+import { ProcessorService } from './processor';
+import { hierarchicalSummarizer } from './summarizer';
+import { sineWav } from '../test/audio';
+
+const user: User = { id: 'user-1', email: 'user@example.com', createdAt: new Date(), updatedAt: new Date() };
+
+const metadata: AudioMetadata = { format: 'mp3', duration: 12.5, size: 32, video: false };
+
+let uploads = 0;
+
+// The stand-in ffmpeg never finishes with this file, so a job stays in preprocessing
+function hangingUpload(): Express.Multer.File {
+  const filename = `${user.id}_${++uploads}_fake-hang.mp3`;
+  const filePath = path.join(config.uploadDir, filename);
+  fs.writeFileSync(filePath, 'audio');
+  return { filename, path: filePath } as Express.Multer.File;
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting');
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+}
+
+function createProcessor(sources?: SourceResolver) {
+  const checkpoints = new InMemoryCheckpointRepository();
+  const summaries = new InMemorySummaryRepository();
+  const processor = new ProcessorService(
+    new InMemoryJobRepository(),
+    summaries,
+    1,
+    1,
+    undefined,
+    checkpoints,
+    sources
+  );
+  return { processor, checkpoints, summaries };
+}
+
+describe('ProcessorService.cancelJob', () => {
+  it('stops a running job and deletes its upload and checkpoint', async () => {
+    const { processor, checkpoints } = createProcessor();
+    const file = hangingUpload();
+
+    const job = await processor.createJob(user, { type: 'file', file, options: { detail: 'standard', timestamps: true }, metadata });
+    await waitFor(() => processor.getJob(job.id)?.stage === 'preprocessing');
+
+    expect(processor.filesInUse()).toContain(file.path);
+    expect(processor.cancelJob(job.id)).toBe(true);
+
+    expect(processor.getJob(job.id)).toMatchObject({ status: 'cancelled', stage: 'cancelled' });
+    expect(fs.existsSync(file.path)).toBe(false);
+    expect(checkpoints.get(job.id)).toBeUndefined();
+
+    // The worker winds down without touching the cancelled job
+    await waitFor(() => !processor.getQueueStatus(user.id).isProcessing);
+    expect(processor.getJob(job.id)?.status).toBe('cancelled');
+    expect(processor.filesInUse().size).toBe(0);
+  });
+
+  it('removes a queued job and its upload', async () => {
+    const { processor } = createProcessor();
+    const running = hangingUpload();
+    const queued = hangingUpload();
+    const options = { detail: 'standard' as const, timestamps: true };
+
+    const first = await processor.createJob(user, { type: 'file', file: running, options, metadata });
+    const second = await processor.createJob(user, { type: 'file', file: queued, options, metadata });
+    expect(processor.getQueuePosition(second.id)).toBe(1);
+
+    expect(processor.cancelJob(second.id)).toBe(true);
+
+    expect(processor.getQueuePosition(second.id)).toBeUndefined();
+    expect(fs.existsSync(queued.path)).toBe(false);
+    expect(fs.existsSync(running.path)).toBe(true);
+
+    processor.cancelJob(first.id);
+    await waitFor(() => !processor.getQueueStatus(user.id).isProcessing);
+  });
+
+  it('leaves finished jobs alone', async () => {
+    const { processor } = createProcessor();
+    const file = hangingUpload();
+    const job = await processor.createJob(user, { type: 'file', file, options: { detail: 'standard', timestamps: true }, metadata });
+    processor.cancelJob(job.id);
+    await waitFor(() => !processor.getQueueStatus(user.id).isProcessing);
+
+    expect(processor.cancelJob(job.id)).toBe(false);
+    expect(processor.cancelJob('missing')).toBe(false);
+  });
+});
+
+describe('ProcessorService.getQueueStatus', () => {
+  it('shows each user only their own jobs', async () => {
+    const { processor } = createProcessor();
+    const other: User = { ...user, id: 'user-2' };
+    const options = { detail: 'standard' as const, timestamps: true };
+
+    const running = await processor.createJob(other, { type: 'file', file: hangingUpload(), options, metadata });
+    const queued = await processor.createJob(user, { type: 'file', file: hangingUpload(), options, metadata });
+    await waitFor(() => processor.getJob(running.id)?.status === 'processing');
+
+    const mine = processor.getQueueStatus(user.id);
+    const theirs = processor.getQueueStatus(other.id);
+
+    expect(mine.jobs.map(job => job.id)).toEqual([queued.id]);
+    expect(mine.workers).toEqual([{ id: 0, status: 'busy', jobId: undefined, startedAt: expect.any(Date) }]);
+    expect(JSON.stringify(mine)).not.toContain(other.id);
+    expect(theirs.jobs.map(job => job.id)).toEqual([running.id]);
+    expect(theirs.workers[0]?.jobId).toBe(running.id);
+
+    processor.cancelJob(queued.id);
+    processor.cancelJob(running.id);
+    await waitFor(() => !processor.getQueueStatus(user.id).isProcessing);
+  });
+});
+
+describe('ProcessorService URL jobs', () => {
+  let server: http.Server;
+  let feedUrl: string;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      if (req.url === '/episode.wav') {
+        res.writeHead(200, { 'Content-Type': 'audio/wav' });
+        res.end(sineWav(2));
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'application/rss+xml' });
+      res.end(`<rss version="2.0"><channel><title>Test Show</title>
+        <item>
+          <title>Pilot</title>
+          <guid>pilot</guid>
+          <description>Where it all starts</description>
+          <enclosure url="/episode.wav" type="audio/wav"/>
+        </item>
+      </channel></rss>`);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    feedUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/feed.xml`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('carries the feed episode into the summary', async () => {
+    const { processor, summaries } = createProcessor(new SourceResolver({ isAllowedAddress: address => address === '127.0.0.1' }));
+
+    const job = await processor.createJob(user, { type: 'url', url: feedUrl, options: { detail: 'brief', timestamps: true } });
+    await waitFor(() => ['completed', 'failed'].includes(processor.getJob(job.id)?.status || ''), 20000);
+
+    const finished = processor.getJob(job.id)!;
+    expect(finished.status).toBe('completed');
+    const summary = await summaries.get(finished.summaryId!);
+    expect(summary?.title).toBe('Pilot');
+    expect(summary?.description).toBe('Where it all starts');
+    expect(summary?.episode).toMatchObject({ showTitle: 'Test Show', episodeTitle: 'Pilot', guid: 'pilot', feedUrl });
+    expect(fs.readdirSync(config.uploadDir).filter(file => file.startsWith(job.id))).toEqual([]);
+  });
+});
+
+describe('ProcessorService regeneration', () => {
+  const transcribed: Summary = {
+    id: 'summary-regenerate',
+    userId: user.id,
+    jobId: 'job-original',
+    title: 'Morning Routines',
+    duration: 120,
+    language: 'english',
+    transcriptLanguage: 'english',
+    detailLevel: 'standard',
+    overview: 'Why mornings matter.',
+    keyTakeaways: [],
+    keyPoints: [],
+    actionItems: [],
+    quotes: [],
+    transcript: 'Start the day with a glass of water. Plan the three most important tasks before lunch.',
+    timestamps: [
+      { start: 0, end: 60, text: 'Start the day with a glass of water.' },
+      { start: 60, end: 120, text: 'Plan the three most important tasks before lunch.' }
+    ],
+    processingTime: 1000,
+    wordCount: 16,
+    confidence: 0.9,
+    tags: [],
+    createdAt: new Date(),
+    updatedAt: new Date()
+  };
+
+  // What a model asked for French would write about the English transcript
+  const french = {
+    overview: 'Pourquoi les matinées comptent.',
+    keyTakeaways: ['Boire de l’eau au réveil'],
+    keyPoints: [{ title: 'Hydratation', description: 'Commencer la journée par un verre d’eau.', importance: 'high' as const, timestamp: 5 }],
+    actionItems: [],
+    quotes: ['Commencez la journée avec un verre d’eau.'],
+    tags: ['matin'],
+    confidence: 0.9
+  };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const regenerate = async (lang: string, summary: Summary = transcribed) => {
+    const { processor, summaries } = createProcessor();
+    await summaries.save(summary);
+    jest.spyOn(hierarchicalSummarizer, 'summarize').mockResolvedValue(french);
+
+    const job = await processor.createRegenerationJob(user, summary, { detail: 'standard', timestamps: true, lang });
+    await waitFor(() => ['completed', 'failed'].includes(processor.getJob(job.id)?.status || ''));
+
+    expect(processor.getJob(job.id)?.status).toBe('completed');
+    return (await summaries.get(summary.id))!;
+  };
+
+  it('keeps quotes and timestamps of a summary in another language than the transcript', async () => {
+    const regenerated = await regenerate('fr');
+
+    expect(regenerated.language).toBe('fr');
+    expect(regenerated.quotes).toEqual(french.quotes);
+    expect(regenerated.keyPoints[0]?.timestamp).toBe(5);
+    expect(regenerated.grounding).toBeUndefined();
+  });
+
+  it('compares against the transcript language, not the language of the latest version', async () => {
+    const regenerated = await regenerate('fr', { ...transcribed, language: 'fr' });
+
+    expect(regenerated.quotes).toEqual(french.quotes);
+  });
+
+  it('still grounds a summary in the transcript language', async () => {
+    const regenerated = await regenerate('en');
+
+    expect(regenerated.quotes).toEqual([]);
+    expect(regenerated.grounding?.droppedQuotes).toEqual(french.quotes);
+  });
+});
@@ -1,27 +1,97 @@
 import fs from 'fs';
 import path from 'path';
-import { exec } from 'child_process';
-import { promisify } from 'util';
-import ffmpeg from 'ffmpeg-static';
+import { EventEmitter } from 'events';
 import {
   ProcessingJob,
   JobStatus,
-  AudioMetadata,
-  ProcessingOptions,
+  DiarizationResponse,
+  JobEvent,
+  JobEventType,
+  Timestamp,
   UploadRequest,
+  UploadOptions,
   Summary,
-  User
+  SummaryTemplate,
+  SummarizationResponse,
+  EpisodeMetadata,
+  User,
+  WorkerState,
+  QueueStatus
 } from '../types';
-import { openaiService } from './openai';
+import { JobRepository, createJobRepository } from './jobStore';
+import { CheckpointRepository, JobCheckpoint, createCheckpointRepository } from './jobCheckpoints';
+import { SummaryRepository, summaryRepository } from './summaryStore';
+import { TemplateRepository, templateRepository } from './templateStore';
+import { JobScheduler } from './jobScheduler';
+import { SourceResolver, sourceResolver } from './sourceResolver';
+import { chunkedTranscriber } from './chunkedTranscription';
+import { hierarchicalSummarizer } from './summarizer';
+import { nextVersion, withVersion } from './summaryVersions';
+import { diarizationProvider } from './providers';
+import { attributeQuotes } from './speakers';
+import { groundSummary, isTranslated } from './grounding';
+import { ProviderUnavailableError } from './providerResilience';
+import { mediaValidationService } from './mediaValidation';
+import { audioPreprocessor, restoreTimeline, restoreDiarizationTimeline } from './audioPreprocessing';
 import { logger, measurePerformance, logErrors } from '../utils/logger';
 import config from '../utils/config';
 
-const execAsync = promisify(exec);
+/**
+ * Whether a job has finished for good: completed, failed or cancelled
+ */
+export function isFinished(status: JobStatus): boolean {
+  return status === 'completed' || status === 'failed' || status === 'cancelled';
+}
 
 export class ProcessorService {
-  private jobs = new Map<string, ProcessingJob>();
-  private jobQueue: string[] = [];
-  private isProcessing = false;
+  private scheduler: JobScheduler;
+  private workers: WorkerState[];
+  private events = new EventEmitter();
+  // Aborted by cancelJob to stop a running job's ffmpeg processes and
+  // provider requests
+  private abortControllers = new Map<string, AbortController>();
+
+  constructor(
+    private jobs: JobRepository = createJobRepository(),
+    private summaries: SummaryRepository = summaryRepository,
+    private concurrency: number = config.processing.concurrency,
+    private perUserLimit: number = config.processing.perUserConcurrency,
+    private templates: TemplateRepository = templateRepository,
+    private checkpoints: CheckpointRepository = createCheckpointRepository(),
+    private sources: SourceResolver = sourceResolver
+  ) {
+    this.scheduler = new JobScheduler(perUserLimit);
+    this.workers = Array.from({ length: Math.max(1, concurrency) }, (_, id) => ({
+      id,
+      status: 'idle' as const
+    }));
+    // One listener per open progress stream
+    this.events.setMaxListeners(0);
+  }
+
+  /**
+   * Re-enqueue jobs that were queued or in flight when the process stopped
+   */
+  recoverJobs(): number {
+    const pending = this.jobs.list()
+      .filter(job => job.status === 'queued' || job.status === 'processing')
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+    for (const job of pending) {
+      // Interrupted jobs resume after their last checkpointed stage
+      this.updateJob(job.id, { status: 'queued', stage: 'queued', progress: 0 });
+      this.scheduler.enqueue(job.id, job.userId);
+    }
+
+    logger.logProcessing('Recovered pending jobs', '', {
+      recoveredCount: pending.length,
+      totalJobs: this.jobs.size()
+    });
+
+    this.dispatch();
+
+    return pending.length;
+  }
 
   /**
    * Create a new processing job
@@ -34,6 +104,7 @@ export class ProcessorService {
       userId: user.id,
       type: request.type,
       status: 'queued',
+      stage: 'queued',
       progress: 0,
       originalFile: request.file?.filename,
       url: request.url,
@@ -42,9 +113,6 @@ export class ProcessorService {
       updatedAt: new Date()
     };
 
-    this.jobs.set(jobId, job);
-    this.jobQueue.push(jobId);
-
     logger.logProcessing('Job created', jobId, {
       userId: user.id,
       type: request.type,
@@ -53,14 +121,55 @@ export class ProcessorService {
       options: request.options
     });
 
-    // Start processing if not already running
-    if (!this.isProcessing) {
-      this.processQueue();
+    // Uploads were probed when they were validated
+    if (request.metadata) {
+      this.checkpoints.save(jobId, { metadata: request.metadata });
     }
 
+    this.enqueue(job);
+
+    return job;
+  }
+
+  /**
+   * Create a job that re-summarizes a stored summary's transcript
+   */
+  async createRegenerationJob(user: User, summary: Summary, options: UploadOptions): Promise<ProcessingJob> {
+    const jobId = this.generateJobId();
+
+    const job: ProcessingJob = {
+      id: jobId,
+      userId: user.id,
+      type: 'regenerate',
+      status: 'queued',
+      stage: 'queued',
+      progress: 0,
+      sourceSummaryId: summary.id,
+      options,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+
+    logger.logProcessing('Regeneration job created', jobId, {
+      userId: user.id,
+      summaryId: summary.id,
+      options
+    });
+
+    this.enqueue(job);
+
     return job;
   }
 
+  /**
+   * Persist a new job and start it if a worker is free
+   */
+  private enqueue(job: ProcessingJob): void {
+    this.jobs.save(job);
+    this.scheduler.enqueue(job.id, job.userId);
+    this.dispatch();
+  }
+
   /**
    * Get job status
    */
@@ -69,40 +178,104 @@ export class ProcessorService {
   }
 
   /**
-   * Update job status
+   * Listen to a job's progress events, returns an unsubscribe function
+   */
+  subscribe(jobId: string, listener: (event: JobEvent) => void): () => void {
+    this.events.on(jobId, listener);
+    return () => {
+      this.events.off(jobId, listener);
+    };
+  }
+
+  /**
+   * Update job status. A finished job is final, so work still winding down
+   * after a cancellation or failure cannot change it.
    */
   private updateJob(jobId: string, updates: Partial<ProcessingJob>): void {
     const job = this.jobs.get(jobId);
-    if (job) {
-      Object.assign(job, updates, { updatedAt: new Date() });
-      this.jobs.set(jobId, job);
+    if (job && !isFinished(job.status)) {
+      this.applyUpdate(job, updates);
     }
   }
 
+  private applyUpdate(job: ProcessingJob, updates: Partial<ProcessingJob>): void {
+    Object.assign(job, updates, { updatedAt: new Date() });
+    this.jobs.save(job);
+
+    const type: JobEventType = job.status === 'queued' || job.status === 'processing' ? 'progress' : job.status;
+    this.emitEvent(job, type);
+  }
+
   /**
-   * Process job queue
+   * Push newly transcribed segments to progress streams
    */
-  private async processQueue(): Promise<void> {
-    if (this.isProcessing || this.jobQueue.length === 0) {
-      return;
+  private emitSegments(jobId: string, segments: Timestamp[]): void {
+    const job = this.jobs.get(jobId);
+    if (job && !isFinished(job.status) && segments.length > 0) {
+      this.emitEvent(job, 'transcript', { segments });
     }
+  }
+
+  private emitEvent(job: ProcessingJob, type: JobEventType, extra: Partial<JobEvent> = {}): void {
+    if (this.events.listenerCount(job.id) === 0) return;
+
+    const event: JobEvent = {
+      type,
+      jobId: job.id,
+      status: job.status,
+      stage: job.stage,
+      progress: job.progress,
+      summaryId: job.summaryId,
+      error: job.error,
+      retryable: job.retryable,
+      timestamp: new Date().toISOString(),
+      ...extra
+    };
+    this.events.emit(job.id, event);
+  }
+
+  /**
+   * Hand queued jobs to idle workers
+   */
+  private dispatch(): void {
+    for (const worker of this.workers) {
+      if (worker.status !== 'idle') continue;
+
+      const next = this.scheduler.next();
+      if (!next) break;
+
+      Object.assign(worker, {
+        status: 'busy',
+        jobId: next.jobId,
+        userId: next.userId,
+        startedAt: new Date()
+      });
 
-    this.isProcessing = true;
+      this.runWorker(worker, next.jobId, next.userId);
+    }
+  }
 
+  /**
+   * Run one job on a worker, then pick up the next one
+   */
+  private async runWorker(worker: WorkerState, jobId: string, userId: string): Promise<void> {
     try {
-      while (this.jobQueue.length > 0) {
-        const jobId = this.jobQueue.shift();
-        if (jobId) {
-          await this.processJob(jobId);
-        }
-      }
+      await this.processJob(jobId);
     } catch (error) {
       logger.logError(
         error instanceof Error ? error : new Error(String(error)),
-        'Queue processing failed'
+        'Queue processing failed',
+        { workerId: worker.id, jobId }
       );
     } finally {
-      this.isProcessing = false;
+      this.scheduler.complete(userId);
+      Object.assign(worker, {
+        status: 'idle',
+        jobId: undefined,
+        userId: undefined,
+        startedAt: undefined
+      });
+      this.dispatch();
     }
   }
 
@@ -118,69 +291,153 @@ export class ProcessorService {
       return;
     }
 
+    const controller = new AbortController();
+    const { signal } = controller;
+    this.abortControllers.set(jobId, controller);
+
     try {
-      this.updateJob(jobId, { status: 'processing', progress: 0 });
-      logger.logProcessing('Job started', jobId);
+      if (job.type === 'regenerate') {
+        await this.regenerateSummary(job, signal);
+        return;
+      }
+
+      this.updateJob(jobId, { status: 'processing', stage: job.type === 'url' ? 'downloading' : 'analyzing', progress: 0 });
 
+      // A retried job skips the stages it already finished
+      const checkpoint: JobCheckpoint = this.checkpoints.get(jobId) || {};
+      const saveCheckpoint = (updates: Partial<JobCheckpoint>) => {
+        Object.assign(checkpoint, updates);
+        this.checkpoints.save(jobId, checkpoint);
+      };
+      logger.logProcessing(job.retries ? 'Job resumed' : 'Job started', jobId, {
+        completedStages: Object.keys(checkpoint)
+      });
+
+      // Audio is only needed again when transcription or diarization is outstanding
+      const needsAudio = !checkpoint.transcription || !checkpoint.diarized;
+      const audioReady = !!checkpoint.processedAudioFile && fs.existsSync(checkpoint.processedAudioFile);
       let audioFilePath: string;
       let shouldCleanup = false;
+      let episode = checkpoint.episode;
 
       // Step 1: Get audio file
       if (job.type === 'file' && job.originalFile) {
         audioFilePath = path.join(config.uploadDir, job.originalFile);
         this.updateJob(jobId, { progress: 10 });
       } else if (job.type === 'url' && job.url) {
-        audioFilePath = await this.downloadAudioFromUrl(job.url, jobId);
+        if (checkpoint.audioFile && (fs.existsSync(checkpoint.audioFile) || !needsAudio || audioReady)) {
+          audioFilePath = checkpoint.audioFile;
+        } else {
+          const source = await this.downloadAudioFromUrl(job.url, jobId, job.options.episode, signal);
+          audioFilePath = source.filePath;
+          episode = source.episode;
+          saveCheckpoint({ audioFile: audioFilePath, episode });
+        }
         shouldCleanup = true;
-        this.updateJob(jobId, { progress: 20 });
+        this.updateJob(jobId, { stage: 'analyzing', progress: 20 });
       } else {
         throw new Error('No valid audio source provided');
       }
 
-      // Step 2: Validate and get metadata
-      const metadata = await this.getAudioMetadata(audioFilePath);
+      // Step 2: Validate and get metadata (downloads have not been checked yet)
+      let metadata = checkpoint.metadata;
       if (!metadata) {
-        throw new Error('Unable to read audio metadata');
+        metadata = await mediaValidationService.validate(audioFilePath, signal);
+        saveCheckpoint({ metadata });
       }
-      this.updateJob(jobId, { progress: 30 });
+      this.updateJob(jobId, { stage: 'preprocessing', progress: 30 });
 
       // Step 3: Process audio if needed
-      const processedAudioPath = await this.processAudio(audioFilePath, {
-        convertToWav: true,
-        normalizeAudio: true
-      });
-      this.updateJob(jobId, { progress: 50 });
+      let processedAudioPath = checkpoint.processedAudioFile || audioFilePath;
+      if (needsAudio && !audioReady) {
+        const processed = await audioPreprocessor.preprocess(audioFilePath, metadata, {
+          ...job.options.audio,
+          convertToWav: true,
+          normalizeAudio: true
+        }, {
+          signal,
+          onProgress: fraction => this.updateJob(jobId, { progress: 30 + Math.round(fraction * 20) })
+        });
+        processedAudioPath = processed.outputPath;
+        saveCheckpoint({ processedAudioFile: processedAudioPath, preprocessing: processed.report, cuts: processed.cuts });
+        this.updateJob(jobId, { preprocessing: processed.report });
+
+        logger.logProcessing('Audio preprocessed', jobId, { ...processed.report });
+      }
+      const cuts = checkpoint.cuts || [];
+      this.updateJob(jobId, { stage: 'transcribing', progress: 50 });
+
+      // Step 4: Transcribe audio (split into chunks when over the upload limit)
+      let transcription = checkpoint.transcription;
+      if (!transcription) {
+        transcription = await chunkedTranscriber.transcribe(processedAudioPath, {
+          jobId,
+          duration: checkpoint.preprocessing?.processedDuration ?? metadata.duration,
+          language: job.options.lang,
+          signal,
+          onProgress: (completed, total, segments) => {
+            this.emitSegments(jobId, restoreTimeline(segments, cuts));
+            this.updateJob(jobId, { progress: 50 + Math.round((completed / total) * 20) });
+          }
+        });
+        saveCheckpoint({ transcription });
+      } else {
+        this.emitSegments(jobId, restoreTimeline(transcription.segments || [], cuts));
+      }
+      this.updateJob(jobId, { stage: 'diarizing', progress: 70 });
 
-      // Step 4: Transcribe audio
-      const audioBuffer = fs.readFileSync(processedAudioPath);
-      const transcription = await openaiService.transcribeAudio({
-        audioFile: audioBuffer,
-        language: job.options.lang
-      });
-      this.updateJob(jobId, { progress: 70 });
+      // Step 5: Tell speakers apart
+      let diarization = checkpoint.diarization;
+      if (!checkpoint.diarized) {
+        diarization = await this.diarize(jobId, processedAudioPath, transcription.segments || [], signal);
+        saveCheckpoint({ diarized: true, diarization });
+      }
+
+      // Timestamps refer to the original audio, not the preprocessed file
+      diarization = diarization && restoreDiarizationTimeline(diarization, cuts);
+      const segments = diarization?.segments || restoreTimeline(transcription.segments || [], cuts);
+      const duration = cuts.length > 0 ? metadata.duration : transcription.duration;
+      this.updateJob(jobId, { stage: 'summarizing', progress: 75 });
 
-      // Step 5: Generate summary
-      const summary = await openaiService.generateSummary({
+      // Step 6: Generate summary
+      const template = await this.loadTemplate(job);
+      const generated = await hierarchicalSummarizer.summarize({
         transcript: transcription.text,
+        segments,
         detailLevel: job.options.detail,
         options: job.options,
+        template,
         metadata: {
-          duration: transcription.duration,
+          title: episode?.episodeTitle,
+          duration,
           language: transcription.language
+        },
+        signal
+      }, {
+        jobId,
+        onProgress: (completed, total) => {
+          this.updateJob(jobId, { progress: 75 + Math.round((completed / total) * 15) });
         }
       });
-      this.updateJob(jobId, { progress: 90 });
+      const summary = this.ground(jobId, generated, segments, {
+        summary: job.options.lang,
+        transcript: transcription.language
+      });
+      this.updateJob(jobId, { stage: 'saving', progress: 90 });
 
-      // Step 6: Create final summary object
+      // Step 7: Create final summary object
       const finalSummary: Summary = {
         id: this.generateSummaryId(),
         userId: job.userId,
         jobId: job.id,
-        title: this.generateTitle(summary.overview),
+        title: episode?.episodeTitle || this.generateTitle(summary.overview),
+        description: episode?.description?.substring(0, 1000),
         originalUrl: job.url,
         originalFileName: job.originalFile,
-        duration: transcription.duration,
+        episode,
+        duration,
         language: transcription.language,
+        transcriptLanguage: transcription.language,
         detailLevel: job.options.detail,
         
         overview: summary.overview,
@@ -190,8 +447,13 @@ export class ProcessorService {
         quotes: summary.quotes,
         
         transcript: transcription.text,
-        timestamps: transcription.segments || [],
+        timestamps: segments,
+        speakers: diarization?.speakers,
+        quoteAttributions: attributeQuotes(summary.quotes, segments),
         chapters: summary.chapters,
+        template: template && { id: template.id, name: template.name },
+        sections: summary.sections,
+        grounding: summary.grounding,
         
         processingTime: Date.now() - job.createdAt.getTime(),
         wordCount: transcription.text.split(/\s+/).length,
@@ -202,8 +464,13 @@ export class ProcessorService {
         updatedAt: new Date()
       };
 
-      // Step 7: Store summary (in a real app, this would go to a database)
+      // Step 8: Store summary, unless the job was cancelled in the meantime
+      signal.throwIfAborted();
       await this.storeSummary(finalSummary);
+      if (signal.aborted) {
+        await this.summaries.delete(finalSummary.id);
+        signal.throwIfAborted();
+      }
 
       // Clean up temporary files
       if (shouldCleanup && fs.existsSync(audioFilePath)) {
@@ -213,10 +480,14 @@ export class ProcessorService {
         fs.unlinkSync(processedAudioPath);
       }
 
+      this.checkpoints.delete(jobId);
+
       // Mark job as completed
       this.updateJob(jobId, { 
         status: 'completed', 
+        stage: 'completed',
         progress: 100,
+        summaryId: finalSummary.id,
         completedAt: new Date()
       });
 
@@ -228,124 +499,244 @@ export class ProcessorService {
       });
 
     } catch (error) {
+      // cancelJob has already marked the job; drop what was saved since
+      if (signal.aborted) {
+        this.discardCheckpoint(job);
+        logger.logProcessing('Job stopped after cancellation', jobId);
+        return;
+      }
+
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      
+      // Provider outages pass; the checkpoint is kept so a retry can resume
+      const retryable = error instanceof ProviderUnavailableError;
+      if (!retryable) {
+        this.discardCheckpoint(job);
+      }
+
       this.updateJob(jobId, {
         status: 'failed',
-        error: errorMessage
+        stage: 'failed',
+        error: errorMessage,
+        retryable
       });
 
       logger.logProcessing('Job failed', jobId, {
         error: errorMessage,
+        retryable,
         duration: Date.now() - job.createdAt.getTime()
       });
+    } finally {
+      this.abortControllers.delete(jobId);
     }
   }
 
   /**
-   * Download audio from URL
+   * Drop a job's checkpoint along with the audio files it kept for a retry.
+   * An uploaded original is never removed here.
    */
-  @measurePerformance('Audio Download')
-  private async downloadAudioFromUrl(url: string, jobId: string): Promise<string> {
-    // For now, this is a placeholder implementation
-    // In a real app, you would implement audio download from various sources
-    throw new Error('URL download not implemented yet');
+  private discardCheckpoint(job: ProcessingJob): void {
+    const checkpoint = this.checkpoints.get(job.id);
+    if (!checkpoint) return;
+
+    const original = job.originalFile && path.join(config.uploadDir, job.originalFile);
+    for (const file of [checkpoint.audioFile, checkpoint.processedAudioFile]) {
+      if (file && file !== original && fs.existsSync(file)) {
+        fs.unlinkSync(file);
+      }
+    }
+    this.checkpoints.delete(job.id);
   }
 
   /**
-   * Get audio metadata using FFprobe
+   * Delete a job's uploaded original, once nothing can resume from it
    */
-  @measurePerformance('Audio Metadata')
-  private async getAudioMetadata(filePath: string): Promise<AudioMetadata | null> {
+  private discardUpload(job: ProcessingJob): void {
+    if (!job.originalFile) return;
+
+    const original = path.join(config.uploadDir, job.originalFile);
+    if (fs.existsSync(original)) {
+      fs.unlinkSync(original);
+    }
+  }
+
+  /**
+   * Assign transcript segments to speakers. Diarization is best effort: the
+   * summary is still useful without speakers, so failures are only logged.
+   * A cancellation is passed on, so the job stops.
+   */
+  private async diarize(
+    jobId: string,
+    audioFile: string,
+    segments: Timestamp[],
+    signal: AbortSignal
+  ): Promise<DiarizationResponse | undefined> {
+    if (!diarizationProvider || segments.length === 0) {
+      return undefined;
+    }
+
     try {
-      const command = `"${ffmpeg}" -i "${filePath}" -f ffmetadata -`;
-      const { stdout, stderr } = await execAsync(command);
-      
-      // Parse FFprobe output (simplified implementation)
-      const stats = fs.statSync(filePath);
-      const ext = path.extname(filePath).toLowerCase();
-      
-      // Extract duration from stderr (FFmpeg outputs metadata to stderr)
-      const durationMatch = stderr.match(/Duration: (\d{2}):(\d{2}):(\d{2}\.\d{2})/);
-      let duration = 0;
-      if (durationMatch) {
-        const hours = parseInt(durationMatch[1]);
-        const minutes = parseInt(durationMatch[2]);
-        const seconds = parseFloat(durationMatch[3]);
-        duration = hours * 3600 + minutes * 60 + seconds;
-      }
+      const result = await diarizationProvider.diarize({
+        audioFile,
+        segments,
+        maxSpeakers: config.diarization.maxSpeakers,
+        signal
+      });
 
-      return {
-        format: ext.substring(1),
-        duration,
-        size: stats.size
-      };
+      logger.logProcessing('Speakers identified', jobId, {
+        provider: diarizationProvider.name,
+        speakers: result.speakers.map(speaker => ({ id: speaker.id, speakingTime: speaker.speakingTime }))
+      });
+
+      return result;
     } catch (error) {
+      if (signal.aborted) {
+        throw error;
+      }
+
       logger.logError(
         error instanceof Error ? error : new Error(String(error)),
-        'Failed to get audio metadata',
-        { filePath }
+        'Speaker diarization failed',
+        { jobId, audioFile }
       );
-      return null;
+      return undefined;
     }
   }
 
   /**
-   * Process audio file (convert, normalize, etc.)
+   * Summarize a stored transcript again with the job's options. The summary
+   * keeps its id; the previous content moves into its version history.
    */
-  @measurePerformance('Audio Processing')
-  private async processAudio(inputPath: string, options: ProcessingOptions = {}): Promise<string> {
-    const { convertToWav = false, normalizeAudio = false } = options;
-    
-    // If no processing needed, return original path
-    if (!convertToWav && !normalizeAudio) {
-      return inputPath;
+  private async regenerateSummary(job: ProcessingJob, signal: AbortSignal): Promise<void> {
+    const summary = job.sourceSummaryId ? await this.summaries.get(job.sourceSummaryId) : undefined;
+    if (!summary) {
+      throw new Error('Summary to regenerate no longer exists');
+    }
+    if (!summary.transcript) {
+      throw new Error('Summary has no stored transcript');
     }
 
-    const outputPath = inputPath.replace(path.extname(inputPath), '_processed.wav');
-    
-    try {
-      let command = `"${ffmpeg}" -i "${inputPath}"`;
-      
-      // Add audio processing filters
-      if (normalizeAudio) {
-        command += ' -af "loudnorm"';
-      }
-      
-      // Convert to WAV with specific settings for Whisper
-      if (convertToWav) {
-        command += ' -acodec pcm_s16le -ac 1 -ar 16000';
+    this.updateJob(job.id, { status: 'processing', stage: 'summarizing', progress: 10 });
+    logger.logProcessing('Regeneration started', job.id, { summaryId: summary.id });
+
+    const template = await this.loadTemplate(job);
+    const generated = await hierarchicalSummarizer.summarize({
+      transcript: summary.transcript,
+      segments: summary.timestamps,
+      detailLevel: job.options.detail,
+      options: job.options,
+      template,
+      metadata: {
+        title: summary.title,
+        duration: summary.duration,
+        language: summary.transcriptLanguage ?? summary.language
+      },
+      signal
+    }, {
+      jobId: job.id,
+      onProgress: (completed, total) => {
+        this.updateJob(job.id, { progress: 10 + Math.round((completed / total) * 80) });
       }
-      
-      command += ` "${outputPath}"`;
-      
-      logger.logProcessing('Processing audio', '', {
-        inputPath,
-        outputPath,
-        command: command.replace(ffmpeg || '', 'ffmpeg')
+    });
+    const response = this.ground(job.id, generated, summary.timestamps, {
+      summary: job.options.lang,
+      transcript: summary.transcriptLanguage ?? summary.language
+    });
+    this.updateJob(job.id, { stage: 'saving', progress: 90 });
+
+    // Re-read so edits made while the job ran are not lost
+    const latest = await this.summaries.get(summary.id);
+    if (!latest) {
+      throw new Error('Summary was deleted during regeneration');
+    }
+
+    const regenerated = withVersion(latest, nextVersion(latest, response, job.options, template));
+    signal.throwIfAborted();
+    await this.storeSummary({ ...regenerated, jobId: job.id });
+    if (signal.aborted) {
+      // Cancelled while saving: put the summary back as it was
+      await this.summaries.save(latest);
+      signal.throwIfAborted();
+    }
+
+    this.updateJob(job.id, {
+      status: 'completed',
+      stage: 'completed',
+      progress: 100,
+      summaryId: regenerated.id,
+      completedAt: new Date()
+    });
+
+    logger.logProcessing('Regeneration completed', job.id, {
+      summaryId: regenerated.id,
+      version: regenerated.version,
+      previousVersions: regenerated.versions?.length
+    });
+  }
+
+  /**
+   * Check a generated summary against its transcript segments. A summary
+   * written in another language than the transcript is left as it is, since
+   * none of its quotes or points would be found word for word.
+   */
+  private ground(
+    jobId: string,
+    response: SummarizationResponse,
+    segments: Timestamp[],
+    languages: { summary?: string; transcript?: string }
+  ): SummarizationResponse {
+    if (isTranslated(languages.summary, languages.transcript)) {
+      logger.logProcessing('Summary grounding skipped', jobId, { reason: 'translated', ...languages });
+      return response;
+    }
+
+    const grounded = groundSummary(response, segments);
+
+    if (grounded.grounding) {
+      logger.logProcessing('Summary grounded', jobId, {
+        score: grounded.grounding.score,
+        flagged: grounded.grounding.flagged,
+        droppedQuotes: grounded.grounding.droppedQuotes.length
       });
+    }
+    return grounded;
+  }
 
-      await execAsync(command);
-      
-      return outputPath;
-    } catch (error) {
-      logger.logError(
-        error instanceof Error ? error : new Error(String(error)),
-        'Audio processing failed',
-        { inputPath, outputPath }
-      );
-      
-      // Return original path if processing fails
-      return inputPath;
+  /**
+   * The summary template a job asked for. It is read when summarizing starts,
+   * so edits made while the job waited in the queue apply.
+   */
+  private async loadTemplate(job: ProcessingJob): Promise<SummaryTemplate | undefined> {
+    if (!job.options.templateId) {
+      return undefined;
     }
+
+    const template = await this.templates.get(job.options.templateId);
+    if (!template || template.userId !== job.userId) {
+      throw new Error('Summary template no longer exists');
+    }
+    return template;
+  }
+
+  /**
+   * Download audio from a direct link or RSS/Atom feed
+   */
+  @measurePerformance('Audio Download')
+  private async downloadAudioFromUrl(
+    url: string,
+    jobId: string,
+    episode?: string,
+    signal?: AbortSignal
+  ): Promise<{ filePath: string; episode: EpisodeMetadata }> {
+    const source = await this.sources.resolve(url, jobId, { episode, signal });
+    return { filePath: source.filePath, episode: source.episode };
   }
 
   /**
-   * Store summary (placeholder - would use database in real app)
+   * Store summary in the summary repository
    */
   private async storeSummary(summary: Summary): Promise<void> {
-    // In a real app, this would store to Firebase/database
-    // For now, we'll just log it
+    await this.summaries.save(summary);
+
     logger.logProcessing('Summary stored', summary.jobId, {
       summaryId: summary.id,
       userId: summary.userId,
@@ -386,58 +777,136 @@ export class ProcessorService {
     const now = Date.now();
     let cleanedCount = 0;
 
-    for (const [jobId, job] of this.jobs.entries()) {
+    for (const job of this.jobs.list()) {
       if (now - job.createdAt.getTime() > maxAgeMs) {
-        this.jobs.delete(jobId);
+        this.discardCheckpoint(job);
+        this.jobs.delete(job.id);
         cleanedCount++;
       }
     }
 
     logger.logProcessing('Cleaned up old jobs', '', {
       cleanedCount,
-      remainingJobs: this.jobs.size
+      remainingJobs: this.jobs.size()
     });
 
     return cleanedCount;
   }
 
   /**
-   * Get queue status
+   * Audio files that queued, running or retryable jobs still need, so the
+   * upload cleanup leaves them alone
+   */
+  filesInUse(): Set<string> {
+    const files = new Set<string>();
+
+    for (const job of this.jobs.list()) {
+      const resumable = !isFinished(job.status) || (job.status === 'failed' && !!job.retryable);
+      if (resumable && job.originalFile) {
+        files.add(path.resolve(config.uploadDir, job.originalFile));
+      }
+
+      const checkpoint = this.checkpoints.get(job.id);
+      for (const file of [checkpoint?.audioFile, checkpoint?.processedAudioFile]) {
+        if (file) {
+          files.add(path.resolve(file));
+        }
+      }
+    }
+
+    return files;
+  }
+
+  /**
+   * Get a queued job's 1-based position in line
+   */
+  getQueuePosition(jobId: string): number | undefined {
+    return this.scheduler.positionOf(jobId);
+  }
+
+  /**
+   * Queue status as one user sees it: how busy every worker is, but only
+   * that user's jobs, and no other user's job ids
    */
-  getQueueStatus() {
+  getQueueStatus(userId: string): QueueStatus {
+    const order = this.scheduler.dispatchOrder();
+    const jobs = this.jobs.list().filter(job => job.userId === userId);
+
     return {
-      queueLength: this.jobQueue.length,
-      totalJobs: this.jobs.size,
-      isProcessing: this.isProcessing,
-      jobs: Array.from(this.jobs.values()).map(job => ({
-        id: job.id,
-        status: job.status,
-        progress: job.progress,
-        createdAt: job.createdAt
-      }))
+      queueLength: this.scheduler.length,
+      totalJobs: jobs.length,
+      isProcessing: this.workers.some(worker => worker.status === 'busy'),
+      concurrency: this.workers.length,
+      perUserLimit: this.perUserLimit,
+      workers: this.workers.map(worker => ({
+        id: worker.id,
+        status: worker.status,
+        jobId: worker.userId === userId ? worker.jobId : undefined,
+        startedAt: worker.startedAt
+      })),
+      jobs: jobs.map(job => {
+        const index = order.indexOf(job.id);
+        return {
+          id: job.id,
+          status: job.status,
+          progress: job.progress,
+          position: index > -1 ? index + 1 : undefined,
+          createdAt: job.createdAt
+        };
+      })
     };
   }
 
   /**
-   * Cancel a job
+   * Cancel a queued or running job. A running job's ffmpeg processes and
+   * provider requests are aborted. Its uploaded audio and everything made from
+   * it are deleted; the job stays cancelled however its work ends.
    */
   cancelJob(jobId: string): boolean {
     const job = this.jobs.get(jobId);
-    if (!job || job.status === 'completed' || job.status === 'failed') {
+    if (!job || isFinished(job.status)) {
       return false;
     }
 
     if (job.status === 'queued') {
       // Remove from queue
-      const queueIndex = this.jobQueue.indexOf(jobId);
-      if (queueIndex > -1) {
-        this.jobQueue.splice(queueIndex, 1);
-      }
+      this.scheduler.remove(jobId);
     }
 
-    this.updateJob(jobId, { status: 'failed', error: 'Cancelled by user' });
+    // Marked first so nothing the abort sets off can update the job
+    this.updateJob(jobId, { status: 'cancelled', stage: 'cancelled', error: undefined, retryable: undefined });
+    this.abortControllers.get(jobId)?.abort();
+    this.discardCheckpoint(job);
+    this.discardUpload(job);
     
-    logger.logProcessing('Job cancelled', jobId);
+    logger.logProcessing('Job cancelled', jobId, { running: this.abortControllers.has(jobId) });
+    return true;
+  }
+
+  /**
+   * Queue a job that failed because a provider was unavailable again. It
+   * resumes after the last stage it completed.
+   */
+  retryJob(jobId: string): boolean {
+    const job = this.jobs.get(jobId);
+    if (!job || job.status !== 'failed' || !job.retryable) {
+      return false;
+    }
+
+    // The only way back from a finished status
+    this.applyUpdate(job, {
+      status: 'queued',
+      stage: 'queued',
+      progress: 0,
+      error: undefined,
+      retryable: undefined,
+      retries: (job.retries || 0) + 1
+    });
+    this.scheduler.enqueue(job.id, job.userId);
+
+    logger.logProcessing('Job retry queued', jobId, { retries: job.retries });
+
+    this.dispatch();
     return true;
   }
 }
@@ -0,0 +1,117 @@
+import OpenAI from 'openai';
+import { CircuitBreaker, CircuitOpenError } from '../utils/circuitBreaker';
+import { withRetry } from '../utils/retry';
+import config from '../utils/config';
+
+// Network failures worth another attempt
+const TRANSIENT_CODES = new Set(['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN', 'ENOTFOUND']);
+
+/**
+ * Raised when a provider stayed unavailable through every retry, or its
+ * circuit is open. Jobs failing with it can be retried later.
+ */
+export class ProviderUnavailableError extends Error {
+  readonly retryable = true;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProviderUnavailableError';
+  }
+}
+
+/**
+ * Whether a provider error may go away by itself: rate limits, server
+ * errors, timeouts and dropped connections. A request the caller aborted
+ * is not.
+ */
+export function isTransientError(error: unknown): boolean {
+  if (isAbortError(error)) {
+    return false;
+  }
+  if (error instanceof OpenAI.APIConnectionError) {
+    return true;
+  }
+  if (error instanceof OpenAI.APIError) {
+    const status = error.status;
+    return status === undefined || status === 408 || status === 409 || status === 429 || status >= 500;
+  }
+
+  const code = (error as { code?: unknown })?.code;
+  return typeof code === 'string' && TRANSIENT_CODES.has(code);
+}
+
+/**
+ * Whether an error came from a request stopped through its abort signal
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof OpenAI.APIUserAbortError || (error instanceof Error && error.name === 'AbortError');
+}
+
+/**
+ * The wait a provider asked for with Retry-After (seconds or an HTTP date)
+ * or retry-after-ms
+ */
+export function retryAfterMs(error: unknown): number | undefined {
+  if (!(error instanceof OpenAI.APIError) || !error.headers) {
+    return undefined;
+  }
+
+  const milliseconds = Number(error.headers.get('retry-after-ms'));
+  if (milliseconds > 0) {
+    return milliseconds;
+  }
+
+  const header = error.headers.get('retry-after');
+  if (!header) {
+    return undefined;
+  }
+
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Call a provider through its circuit breaker, retrying transient failures
+ * with backoff. Errors that are not transient are thrown as they are; a
+ * provider that stays down surfaces as ProviderUnavailableError. Once
+ * `signal` aborts, no further attempt is made.
+ */
+export async function callProvider<T>(
+  breaker: CircuitBreaker,
+  operation: () => Promise<T>,
+  context: string,
+  signal?: AbortSignal
+): Promise<T> {
+  try {
+    return await withRetry(
+      () => breaker.execute(operation, isTransientError),
+      {
+        retries: config.resilience.maxRetries,
+        baseDelayMs: config.resilience.baseDelayMs,
+        maxDelayMs: config.resilience.maxDelayMs,
+        context,
+        shouldRetry: isTransientError,
+        retryAfterMs,
+        signal
+      }
+    );
+  } catch (error) {
+    if (error instanceof CircuitOpenError || isTransientError(error)) {
+      throw new ProviderUnavailableError(`${context} failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * For outer retry loops: a provider that is already unavailable is not
+ * worth calling again right away, and an aborted call not at all
+ */
+export function isWorthRetrying(error: unknown): boolean {
+  return !(error instanceof ProviderUnavailableError) && !isAbortError(error);
+}
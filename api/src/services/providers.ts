@@ -0,0 +1,73 @@
+import {
+  ProviderKind,
+  TranscriptionProvider,
+  SummarizationProvider,
+  EmbeddingProvider,
+  DiarizationProvider,
+  DiarizationProviderKind
+} from '../types';
+import { OpenAIService } from './openai';
+import { LocalProvider } from './localProvider';
+import { LocalDiarizer } from './diarization';
+import config from '../utils/config';
+
+type Provider = TranscriptionProvider & SummarizationProvider & EmbeddingProvider;
+
+const compatibleProvider = (baseURL: string): Provider => {
+  const { compatible } = config.providers;
+
+  return new OpenAIService({
+    name: 'compatible',
+    apiKey: compatible.apiKey,
+    baseURL,
+    transcriptionModel: compatible.transcriptionModel,
+    summaryModel: compatible.summaryModel,
+    embeddingModel: compatible.embeddingModel,
+    contextTokens: compatible.contextTokens,
+    outputTokens: compatible.outputTokens,
+    jsonMode: compatible.jsonMode
+  });
+};
+
+const createProvider = (kind: ProviderKind, compatibleUrl: string): Provider => {
+  switch (kind) {
+    case 'local':
+      return new LocalProvider();
+    case 'compatible':
+      return compatibleProvider(compatibleUrl);
+    case 'openai':
+    default:
+      return new OpenAIService();
+  }
+};
+
+/**
+ * Create the transcription provider configured for this deployment
+ */
+export const createTranscriptionProvider = (kind: ProviderKind = config.providers.transcription): TranscriptionProvider =>
+  createProvider(kind, config.providers.compatible.transcriptionUrl);
+
+/**
+ * Create the summarization provider configured for this deployment
+ */
+export const createSummarizationProvider = (kind: ProviderKind = config.providers.summarization): SummarizationProvider =>
+  createProvider(kind, config.providers.compatible.summarizationUrl);
+
+/**
+ * Create the embedding provider used for episode Q&A. Compatible servers
+ * such as Ollama serve embeddings next to chat, so they share the URL.
+ */
+export const createEmbeddingProvider = (kind: ProviderKind = config.providers.embeddings): EmbeddingProvider =>
+  createProvider(kind, config.providers.compatible.summarizationUrl);
+
+/**
+ * Create the speaker diarization provider, or undefined when diarization is off
+ */
+export const createDiarizationProvider = (kind: DiarizationProviderKind = config.diarization.provider): DiarizationProvider | undefined =>
+  kind === 'local' ? new LocalDiarizer() : undefined;
+
+// Export singleton instances
+export const transcriptionProvider = createTranscriptionProvider();
+export const summarizationProvider = createSummarizationProvider();
+export const embeddingProvider = createEmbeddingProvider();
+export const diarizationProvider = createDiarizationProvider();
@@ -0,0 +1,294 @@
+import {
+  AnswerCitation,
+  AskResponse,
+  EpisodeCitations,
+  LibraryAskRequest,
+  LibraryAskResponse,
+  Summary
+} from '../types';
+import { summarizationProvider } from './providers';
+import { isWorthRetrying } from './providerResilience';
+import { HierarchicalSummarizer } from './summarizer';
+import { speakerName } from './speakers';
+import { SummaryRepository, summaryRepository } from './summaryStore';
+import { Passage, VectorIndex, vectorIndex as defaultVectorIndex } from './vectorIndex';
+import { logger } from '../utils/logger';
+import { withRetry, mapWithConcurrency } from '../utils/retry';
+import config from '../utils/config';
+
+const ANSWER_MAX_TOKENS = 800;
+const LIBRARY_ANSWER_MAX_TOKENS = 1500;
+
+// Keeps one long episode from crowding out everyone else
+const LIBRARY_PASSAGES_PER_EPISODE = 3;
+const EMBEDDING_CONCURRENCY = 3;
+const LIST_PAGE_SIZE = 100;
+
+const EPISODE_SYSTEM_PROMPT = `You answer questions about a podcast episode. You will receive numbered transcript passages, each with its [mm:ss-mm:ss] position in the episode, followed by a question.
+
+Answer using only what the passages say. Cite the passages you rely on with their numbers in square brackets, e.g. "They recommend weekly reviews [2].". If the passages do not answer the question, say so plainly and cite nothing.
+
+Return a valid JSON object:
+{
+  "answer": "The answer, with [n] citation markers",
+  "citations": [2]
+}`;
+
+const LIBRARY_SYSTEM_PROMPT = `You answer questions across a library of podcast episodes. You will receive numbered passages grouped by episode; each is a transcript excerpt or a key point with its [mm:ss-mm:ss] position in that episode. A question follows.
+
+Synthesize one answer from all relevant episodes: bring together what different guests said, and point out where they agree or disagree. Use only what the passages say and cite the passages you rely on with their numbers in square brackets, e.g. "Both guests favour annual plans [1][4].". If the passages do not answer the question, say so plainly and cite nothing.
+
+Return a valid JSON object:
+{
+  "answer": "The answer, with [n] citation markers",
+  "citations": [1, 4]
+}`;
+
+// A numbered passage offered to the model, with the episode it came from
+interface CandidatePassage extends AnswerCitation {
+  summary: Summary;
+}
+
+// The model's reply: its answer and the passage numbers it cites
+interface ModelAnswer {
+  answer: string;
+  citations: number[];
+}
+
+export class QuestionAnsweringService {
+  constructor(
+    private index: VectorIndex = defaultVectorIndex,
+    private summaries: SummaryRepository = summaryRepository
+  ) {}
+
+  /**
+   * Answer a question about one episode from the passages of its transcript
+   * closest to the question
+   */
+  async askEpisode(summary: Summary, question: string): Promise<AskResponse> {
+    const startTime = Date.now();
+    const matches = await this.index.search(summary, question, config.qa.topK, 'transcript');
+
+    // Chronological order reads more naturally than relevance order
+    const passages = QuestionAnsweringService.number(
+      matches.map(match => match.passage).sort((a, b) => a.start - b.start),
+      summary
+    );
+
+    const prompt = [
+      `Episode: ${summary.title}`,
+      '',
+      'Passages:',
+      ...passages.map(QuestionAnsweringService.promptLine),
+      '',
+      `Question: ${question}`
+    ].join('\n');
+
+    const { answer, citations } = await this.complete(EPISODE_SYSTEM_PROMPT, prompt, ANSWER_MAX_TOKENS, passages, `summary ${summary.id}`);
+
+    logger.logProcessing('Question answered', summary.jobId, {
+      summaryId: summary.id,
+      passages: passages.length,
+      citations: citations.length,
+      duration: Date.now() - startTime
+    });
+
+    return { question, answer, citations: citations.map(QuestionAnsweringService.citation) };
+  }
+
+  /**
+   * Answer a question across a user's library. The most recent episodes
+   * matching the filters are searched, and the best passages from each go
+   * into one synthesized answer with citations grouped by episode.
+   */
+  async askLibrary(userId: string, request: LibraryAskRequest): Promise<LibraryAskResponse> {
+    const startTime = Date.now();
+    const { question } = request;
+    const episodes = await this.candidates(userId, request);
+
+    if (episodes.length === 0) {
+      return { question, answer: 'No episodes match these filters.', episodes: [], searchedEpisodes: 0 };
+    }
+
+    const vector = await this.index.embedQuery(question);
+    const matches = (await mapWithConcurrency(episodes, EMBEDDING_CONCURRENCY, async summary =>
+      (await this.index.nearest(summary, vector, LIBRARY_PASSAGES_PER_EPISODE)).map(match => ({ ...match, summary }))
+    ))
+      .flat()
+      .sort((a, b) => b.score - a.score)
+      .slice(0, config.qa.libraryTopK);
+
+    // Episodes in order of their best match, passages in episode order
+    const grouped = new Map<Summary, Passage[]>();
+    for (const match of matches) {
+      grouped.set(match.summary, [...(grouped.get(match.summary) || []), match.passage]);
+    }
+
+    const passages: CandidatePassage[] = [];
+    const prompt: string[] = [];
+    for (const [summary, episodePassages] of grouped) {
+      const numbered = QuestionAnsweringService.number(
+        episodePassages.sort((a, b) => a.start - b.start),
+        summary,
+        passages.length
+      );
+      passages.push(...numbered);
+
+      const show = summary.episode?.showTitle ? ` (${summary.episode.showTitle})` : '';
+      prompt.push(`Episode: "${summary.title}"${show}, ${summary.createdAt.toISOString().slice(0, 10)}`);
+      prompt.push(...numbered.map(QuestionAnsweringService.promptLine), '');
+    }
+    prompt.push(`Question: ${question}`);
+
+    const { answer, citations } = await this.complete(
+      LIBRARY_SYSTEM_PROMPT,
+      prompt.join('\n'),
+      LIBRARY_ANSWER_MAX_TOKENS,
+      passages,
+      `library of user ${userId}`
+    );
+
+    const cited = new Map<Summary, EpisodeCitations>();
+    for (const citation of citations) {
+      const group = cited.get(citation.summary) || {
+        summaryId: citation.summary.id,
+        title: citation.summary.title,
+        showTitle: citation.summary.episode?.showTitle,
+        audioUrl: citation.summary.episode?.audioUrl,
+        citations: []
+      };
+      group.citations.push(QuestionAnsweringService.citation(citation));
+      cited.set(citation.summary, group);
+    }
+
+    logger.logDatabase('Library question answered', {
+      userId,
+      searchedEpisodes: episodes.length,
+      passages: passages.length,
+      citedEpisodes: cited.size,
+      duration: Date.now() - startTime
+    });
+
+    return { question, answer, episodes: [...cited.values()], searchedEpisodes: episodes.length };
+  }
+
+  /**
+   * The user's most recent summaries matching the filters that have
+   * anything to retrieve from
+   */
+  private async candidates(userId: string, request: LibraryAskRequest): Promise<Summary[]> {
+    const candidates: Summary[] = [];
+
+    for (let page = 1; candidates.length < config.qa.libraryMaxEpisodes; page++) {
+      const { summaries } = await this.summaries.list(userId, {
+        page,
+        limit: LIST_PAGE_SIZE,
+        sort: 'createdAt',
+        order: 'desc',
+        tags: request.tags,
+        language: request.language,
+        detailLevel: request.detailLevel,
+        from: request.from,
+        to: request.to
+      });
+
+      candidates.push(...summaries.filter(summary =>
+        summary.timestamps.length > 0 || summary.keyPoints.some(point => point.timestamp !== undefined)
+      ));
+      if (summaries.length < LIST_PAGE_SIZE) break;
+    }
+
+    return candidates.slice(0, config.qa.libraryMaxEpisodes);
+  }
+
+  private async complete<T extends AnswerCitation>(
+    systemPrompt: string,
+    prompt: string,
+    maxTokens: number,
+    passages: T[],
+    subject: string
+  ): Promise<{ answer: string; citations: T[] }> {
+    const { data } = await withRetry(
+      () => summarizationProvider.completeJson(systemPrompt, prompt, QuestionAnsweringService.parseAnswer, { maxTokens, context: `Answer for ${subject}` }),
+      {
+        retries: config.summarization.maxRetries,
+        shouldRetry: isWorthRetrying,
+        context: `Answer for ${subject}`
+      }
+    );
+
+    return QuestionAnsweringService.withCitations(data, passages);
+  }
+
+  private static number(passages: Passage[], summary: Summary, offset = 0): CandidatePassage[] {
+    return passages.map((passage, i) => ({
+      index: offset + i + 1,
+      source: passage.source,
+      start: passage.start,
+      end: passage.end,
+      text: passage.text,
+      speaker: speakerName(summary, passage.speaker),
+      summary
+    }));
+  }
+
+  private static promptLine(passage: AnswerCitation): string {
+    const range = `[${HierarchicalSummarizer.formatTime(passage.start)}-${HierarchicalSummarizer.formatTime(passage.end)}]`;
+    const label = passage.source === 'keyPoint' ? 'Key point: ' : passage.speaker ? `${passage.speaker}: ` : '';
+    return `[${passage.index}] ${range} ${label}${passage.text}`;
+  }
+
+  private static citation({ summary: _summary, ...citation }: CandidatePassage): AnswerCitation {
+    return citation;
+  }
+
+  private static parseAnswer(data: unknown): ModelAnswer {
+    const reply = typeof data === 'object' && data !== null ? data as Record<string, unknown> : {};
+    return {
+      answer: typeof reply.answer === 'string' ? reply.answer.trim() : '',
+      citations: Array.isArray(reply.citations) ? reply.citations.map(Number) : []
+    };
+  }
+
+  /**
+   * Keep the citations the answer actually uses, renumbered in order of
+   * first mention, and drop markers that point at no passage
+   */
+  private static withCitations<T extends AnswerCitation>(
+    { answer, citations: listed }: ModelAnswer,
+    passages: T[]
+  ): { answer: string; citations: T[] } {
+    if (!answer) {
+      throw new Error(`No answer returned by ${summarizationProvider.name}`);
+    }
+
+    const order: number[] = [];
+    const cite = (cited: number) => {
+      if (!order.includes(cited) && passages.some(passage => passage.index === cited)) {
+        order.push(cited);
+      }
+    };
+    for (const match of answer.matchAll(/\[(\d+)\]/g)) {
+      cite(Number(match[1]));
+    }
+    // Passages listed as citations without a marker in the text still count
+    listed.forEach(cite);
+
+    const renumbered = new Map(order.map((cited, i) => [cited, i + 1]));
+
+    return {
+      answer: answer.replace(/\[(\d+)\]/g, (_marker: string, cited: string) => {
+        const index = renumbered.get(Number(cited));
+        return index ? `[${index}]` : '';
+      }).replace(/\s+([.,;:!?])/g, '$1').trim(),
+      citations: order.map(cited => ({
+        ...passages.find(passage => passage.index === cited)!,
+        index: renumbered.get(cited)!
+      }))
+    };
+  }
+}
+
+// Export singleton instance
+export const questionAnsweringService = new QuestionAnsweringService();
+export default questionAnsweringService;
@@ -0,0 +1,382 @@
+import { SearchField, SearchHighlight, SearchHit, Summary, SummarySearchResult, Timestamp } from '../types';
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+// A match in the title says more about an episode than one in passing conversation
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 3,
+  keyPoint: 2,
+  overview: 1.5,
+  quote: 1.5,
+  transcript: 1
+};
+
+// An episode ranks by its best few passages, so long episodes are not favoured
+const SCORED_HITS = 3;
+const MAX_HITS = 5;
+
+const SNIPPET_LENGTH = 160;
+const SNIPPET_LEAD = 40;
+
+interface Token {
+  term: string;
+  start: number;
+  end: number;
+}
+
+// A searchable piece of a summary: the title, a key point, a transcript segment, ...
+interface Unit {
+  id: number;
+  summaryId: string;
+  field: SearchField;
+  text: string;
+  tokens: Token[];
+  segment?: Timestamp;
+}
+
+interface IndexedSummary {
+  userId: string;
+  title: string;
+  showTitle?: string;
+  audioUrl?: string;
+  createdAt: Date;
+  unitIds: number[];
+}
+
+// Quoted phrases must match in order; anything else is a single term
+interface QueryPart {
+  terms: string[];
+  phrase: boolean;
+}
+
+export interface SearchPage {
+  results: SummarySearchResult[];
+  total: number;
+}
+
+/**
+ * Lowercase, strip diacritics and split into terms, keeping each term's
+ * position in the original text for highlighting
+ */
+export function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  for (const match of text.matchAll(/[\p{L}\p{N}]+(?:['’][\p{L}\p{N}]+)*/gu)) {
+    const term = normalizeTerm(match[0]);
+    if (term) {
+      tokens.push({ term, start: match.index!, end: match.index! + match[0].length });
+    }
+  }
+  return tokens;
+}
+
+function normalizeTerm(word: string): string {
+  return word.normalize('NFKD').replace(/\p{M}/gu, '').replace(/['’]/g, '').toLowerCase();
+}
+
+/**
+ * Split a query into quoted phrases and single terms
+ */
+export function parseQuery(query: string): QueryPart[] {
+  const parts: QueryPart[] = [];
+  const rest = query.replace(/"([^"]*)"/g, (_match, phrase: string) => {
+    const terms = tokenize(phrase).map(token => token.term);
+    if (terms.length > 0) {
+      parts.push({ terms, phrase: terms.length > 1 });
+    }
+    return ' ';
+  });
+
+  const seen = new Set(parts.filter(part => !part.phrase).map(part => part.terms[0]));
+  for (const { term } of tokenize(rest)) {
+    if (!seen.has(term)) {
+      seen.add(term);
+      parts.push({ terms: [term], phrase: false });
+    }
+  }
+
+  return parts;
+}
+
+/**
+ * In-memory inverted index over titles, overviews, key points, quotes and
+ * transcript segments. Postings keep term positions so quoted phrases can be
+ * matched and highlighted.
+ */
+export class SearchIndex {
+  private units = new Map<number, Unit>();
+  private summaries = new Map<string, IndexedSummary>();
+  private postings = new Map<string, Map<number, number[]>>();
+  private fieldLengths = new Map<SearchField, { units: number; tokens: number }>();
+  private nextUnitId = 1;
+
+  /**
+   * Index a summary, replacing any earlier copy of it
+   */
+  add(summary: Summary): void {
+    this.remove(summary.id);
+
+    const unitIds = this.unitsOf(summary).map(({ field, text, segment }) => {
+      const unit: Unit = { id: this.nextUnitId++, summaryId: summary.id, field, text, tokens: tokenize(text), segment };
+      this.units.set(unit.id, unit);
+
+      unit.tokens.forEach((token, position) => {
+        let entries = this.postings.get(token.term);
+        if (!entries) {
+          entries = new Map();
+          this.postings.set(token.term, entries);
+        }
+        const positions = entries.get(unit.id);
+        if (positions) {
+          positions.push(position);
+        } else {
+          entries.set(unit.id, [position]);
+        }
+      });
+
+      const lengths = this.fieldLengths.get(field) || { units: 0, tokens: 0 };
+      this.fieldLengths.set(field, { units: lengths.units + 1, tokens: lengths.tokens + unit.tokens.length });
+      return unit.id;
+    });
+
+    this.summaries.set(summary.id, {
+      userId: summary.userId,
+      title: summary.title,
+      showTitle: summary.episode?.showTitle,
+      audioUrl: summary.episode?.audioUrl,
+      createdAt: summary.createdAt,
+      unitIds
+    });
+  }
+
+  /**
+   * Drop a summary from the index
+   */
+  remove(summaryId: string): void {
+    const indexed = this.summaries.get(summaryId);
+    if (!indexed) return;
+
+    for (const unitId of indexed.unitIds) {
+      const unit = this.units.get(unitId);
+      if (!unit) continue;
+
+      for (const term of new Set(unit.tokens.map(token => token.term))) {
+        const entries = this.postings.get(term);
+        entries?.delete(unitId);
+        if (entries && entries.size === 0) {
+          this.postings.delete(term);
+        }
+      }
+
+      const lengths = this.fieldLengths.get(unit.field);
+      if (lengths) {
+        this.fieldLengths.set(unit.field, { units: lengths.units - 1, tokens: lengths.tokens - unit.tokens.length });
+      }
+      this.units.delete(unitId);
+    }
+
+    this.summaries.delete(summaryId);
+  }
+
+  /**
+   * Drop all of a user's summaries from the index
+   */
+  removeUser(userId: string): void {
+    for (const [summaryId, indexed] of this.summaries) {
+      if (indexed.userId === userId) {
+        this.remove(summaryId);
+      }
+    }
+  }
+
+  /**
+   * Rank a user's summaries against a query. Every term and phrase must
+   * appear somewhere in a summary for it to match.
+   */
+  search(userId: string, query: string, options: { page: number; limit: number }): SearchPage {
+    const parts = parseQuery(query);
+    if (parts.length === 0) {
+      return { results: [], total: 0 };
+    }
+
+    // Matching units per query part, with the token position of each match
+    const partMatches = parts.map(part => this.match(part, userId));
+
+    const matchedSummaries = new Map<string, Set<number>>();
+    partMatches.forEach((matches, partIndex) => {
+      for (const unitId of matches.keys()) {
+        const summaryId = this.units.get(unitId)!.summaryId;
+        const matched = matchedSummaries.get(summaryId) || new Set<number>();
+        matched.add(partIndex);
+        matchedSummaries.set(summaryId, matched);
+      }
+    });
+
+    const results: SummarySearchResult[] = [];
+    for (const [summaryId, matchedParts] of matchedSummaries) {
+      if (matchedParts.size < parts.length) continue;
+
+      const indexed = this.summaries.get(summaryId)!;
+      const hits = indexed.unitIds
+        .map(unitId => this.hit(unitId, parts, partMatches))
+        .filter((hit): hit is SearchHit => !!hit)
+        .sort((a, b) => b.score - a.score);
+
+      const score = hits.slice(0, SCORED_HITS).reduce((sum, hit) => sum + hit.score, 0);
+      results.push({
+        summaryId,
+        title: indexed.title,
+        showTitle: indexed.showTitle,
+        audioUrl: indexed.audioUrl,
+        createdAt: indexed.createdAt,
+        score: round(score),
+        hits: hits.slice(0, MAX_HITS)
+      });
+    }
+
+    results.sort((a, b) => b.score - a.score || b.createdAt.getTime() - a.createdAt.getTime());
+
+    const offset = (options.page - 1) * options.limit;
+    return {
+      results: results.slice(offset, offset + options.limit),
+      total: results.length
+    };
+  }
+
+  /**
+   * Units of the user's summaries containing a term or phrase, mapped to the
+   * token positions where each occurrence starts
+   */
+  private match(part: QueryPart, userId: string): Map<number, number[]> {
+    const [first, ...rest] = part.terms.map(term => this.postings.get(term));
+    const matches = new Map<number, number[]>();
+    if (!first || rest.some(entries => !entries)) {
+      return matches;
+    }
+
+    for (const [unitId, positions] of first) {
+      const unit = this.units.get(unitId)!;
+      if (this.summaries.get(unit.summaryId)?.userId !== userId) continue;
+
+      const starts = positions.filter(position =>
+        rest.every((entries, offset) => entries!.get(unitId)?.includes(position + offset + 1))
+      );
+      if (starts.length > 0) {
+        matches.set(unitId, starts);
+      }
+    }
+
+    return matches;
+  }
+
+  private hit(unitId: number, parts: QueryPart[], partMatches: Map<number, number[]>[]): SearchHit | undefined {
+    const unit = this.units.get(unitId)!;
+    const lengths = this.fieldLengths.get(unit.field)!;
+    const averageLength = lengths.tokens / Math.max(1, lengths.units) || 1;
+    const ranges: SearchHighlight[] = [];
+    let score = 0;
+
+    parts.forEach((part, partIndex) => {
+      const starts = partMatches[partIndex]!.get(unitId);
+      if (!starts) return;
+
+      const frequency = starts.length;
+      const documentFrequency = partMatches[partIndex]!.size;
+      const idf = Math.log(1 + (this.units.size - documentFrequency + 0.5) / (documentFrequency + 0.5));
+      const saturation = (frequency * (K1 + 1)) /
+        (frequency + K1 * (1 - B + B * unit.tokens.length / averageLength));
+      // Phrases are rarer than their words, so they count once per word
+      score += idf * saturation * part.terms.length;
+
+      for (const start of starts) {
+        ranges.push({
+          start: unit.tokens[start]!.start,
+          end: unit.tokens[start + part.terms.length - 1]!.end
+        });
+      }
+    });
+
+    if (ranges.length === 0) {
+      return undefined;
+    }
+
+    ranges.sort((a, b) => a.start - b.start);
+    const { snippet, highlights } = SearchIndex.snippet(unit.text, ranges);
+
+    return {
+      field: unit.field,
+      snippet,
+      highlights,
+      score: round(score * FIELD_WEIGHTS[unit.field]),
+      segment: unit.segment
+    };
+  }
+
+  /**
+   * Cut a window of text around the first match, trimmed to word boundaries,
+   * and move the highlights into it
+   */
+  private static snippet(text: string, ranges: SearchHighlight[]): { snippet: string; highlights: SearchHighlight[] } {
+    if (text.length <= SNIPPET_LENGTH) {
+      return { snippet: text, highlights: ranges };
+    }
+
+    let start = Math.max(0, ranges[0]!.start - SNIPPET_LEAD);
+    if (start > 0) {
+      const space = text.indexOf(' ', start);
+      start = space !== -1 && space < ranges[0]!.start ? space + 1 : start;
+    }
+
+    let end = Math.min(text.length, start + SNIPPET_LENGTH);
+    if (end < text.length) {
+      const space = text.lastIndexOf(' ', end);
+      end = space > ranges[0]!.end ? space : Math.max(end, ranges[0]!.end);
+    }
+
+    const prefix = start > 0 ? '…' : '';
+    const suffix = end < text.length ? '…' : '';
+
+    return {
+      snippet: `${prefix}${text.slice(start, end).trimEnd()}${suffix}`,
+      highlights: ranges
+        .filter(range => range.start >= start && range.end <= end)
+        .map(range => ({ start: range.start - start + prefix.length, end: range.end - start + prefix.length }))
+    };
+  }
+
+  private unitsOf(summary: Summary): { field: SearchField; text: string; segment?: Timestamp }[] {
+    const segments = summary.timestamps || [];
+
+    return [
+      { field: 'title' as const, text: summary.title },
+      { field: 'overview' as const, text: summary.overview },
+      ...summary.keyPoints.map(point => ({
+        field: 'keyPoint' as const,
+        text: `${point.title}. ${point.description}`,
+        segment: point.timestamp !== undefined ? segmentAt(segments, point.timestamp) : undefined
+      })),
+      ...summary.quotes.map(quote => {
+        const start = summary.quoteAttributions?.find(attribution => attribution.quote === quote)?.start;
+        return {
+          field: 'quote' as const,
+          text: quote,
+          segment: start !== undefined ? segmentAt(segments, start) : undefined
+        };
+      }),
+      ...segments.map(segment => ({ field: 'transcript' as const, text: segment.text.trim(), segment }))
+    ].filter(unit => unit.text.length > 0);
+  }
+}
+
+/**
+ * Segment playing at a point in the episode, or the next one to start
+ */
+function segmentAt(segments: Timestamp[], seconds: number): Timestamp | undefined {
+  return segments.find(segment => seconds >= segment.start && seconds < segment.end) ||
+    segments.find(segment => segment.start >= seconds);
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
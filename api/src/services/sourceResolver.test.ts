@@ -0,0 +1,207 @@
+import fs from 'fs';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it } from '@jest/globals';
+import { sineWav } from '../test/audio';
+import config from '../utils/config';
+import { SourceResolutionError, SourceResolver } from './sourceResolver';
+
+const audio = sineWav(0.5);
+
+const rss = (base: string) => `<?xml version="1.0"?>
+<rss version="2.0" xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd">
+  <channel>
+    <title>Test Show</title>
+    <itunes:image href="${base}/show.jpg"/>
+    <item>
+      <title>Older Episode</title>
+      <guid>episode-1</guid>
+      <pubDate>Mon, 01 Jan 2024 10:00:00 GMT</pubDate>
+      <description>&lt;p&gt;The &lt;b&gt;first&lt;/b&gt; one&lt;/p&gt;</description>
+      <enclosure url="/audio/1.wav" type="audio/wav" length="${audio.length}"/>
+    </item>
+    <item>
+      <title>Newest Episode</title>
+      <guid>episode-2</guid>
+      <pubDate>Mon, 08 Jan 2024 10:00:00 GMT</pubDate>
+      <description>The second one</description>
+      <enclosure url="${base}/audio/2.wav" type="audio/wav" length="${audio.length}"/>
+    </item>
+  </channel>
+</rss>`;
+
+const atom = (base: string) => `<?xml version="1.0"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>Atom Show</title>
+  <entry>
+    <title>Atom Episode</title>
+    <id>urn:episode:atom</id>
+    <published>2024-02-01T10:00:00Z</published>
+    <summary>An Atom entry</summary>
+    <link rel="enclosure" href="${base}/audio/atom.wav" type="audio/wav"/>
+  </entry>
+</feed>`;
+
+describe('SourceResolver', () => {
+  let server: http.Server;
+  let base: string;
+  const requests: string[] = [];
+  // Allows the fixture server on loopback and nothing else
+  const resolver = new SourceResolver({ isAllowedAddress: address => address === '127.0.0.1' });
+  let jobs = 0;
+  const jobId = () => `job_resolver_${++jobs}`;
+
+  const reject = async (url: string, options = {}): Promise<SourceResolutionError> => {
+    try {
+      await resolver.resolve(url, jobId(), options);
+    } catch (error) {
+      if (error instanceof SourceResolutionError) return error;
+      throw error;
+    }
+    throw new Error('Expected the URL to be refused');
+  };
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const url = req.url || '/';
+      requests.push(url);
+
+      if (url.startsWith('/audio/')) {
+        res.writeHead(200, { 'Content-Type': 'audio/wav' });
+        res.end(audio);
+      } else if (url === '/binary') {
+        res.writeHead(200, { 'Content-Type': 'application/octet-stream' });
+        res.end(audio);
+      } else if (url === '/unsized') {
+        // No Content-Length, so only the streamed byte count can catch it
+        res.writeHead(200, { 'Content-Type': 'audio/mpeg' });
+        res.write(Buffer.alloc(4096));
+        res.end(Buffer.alloc(4096));
+      } else if (url === '/page') {
+        res.writeHead(200, { 'Content-Type': 'text/html' });
+        res.end('<html></html>');
+      } else if (url === '/feed.xml') {
+        res.writeHead(200, { 'Content-Type': 'application/rss+xml' });
+        res.end(rss(base));
+      } else if (url === '/atom.xml') {
+        res.writeHead(200, { 'Content-Type': 'application/atom+xml' });
+        res.end(atom(base));
+      } else if (url === '/redirect') {
+        res.writeHead(302, { Location: `${base}/audio/redirected.wav` });
+        res.end();
+      } else if (url === '/metadata') {
+        res.writeHead(302, { Location: 'http://169.254.169.254/latest/meta-data/' });
+        res.end();
+      } else {
+        res.writeHead(404);
+        res.end();
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('streams a direct audio link to disk', async () => {
+    const source = await resolver.resolve(`${base}/audio/direct.wav`, jobId());
+
+    expect(source.contentType).toBe('audio/wav');
+    expect(source.size).toBe(audio.length);
+    expect(source.filePath).toMatch(/_download\.wav$/);
+    expect(fs.readFileSync(source.filePath)).toEqual(audio);
+    expect(source.episode).toEqual({ audioUrl: `${base}/audio/direct.wav` });
+    fs.rmSync(source.filePath);
+  });
+
+  it('follows redirects between allowed hosts', async () => {
+    const source = await resolver.resolve(`${base}/redirect`, jobId());
+
+    expect(fs.readFileSync(source.filePath)).toEqual(audio);
+    fs.rmSync(source.filePath);
+  });
+
+  it('rejects a body over the size limit while streaming', async () => {
+    const error = await reject(`${base}/unsized`, { maxBytes: 1024 });
+
+    expect(error.statusCode).toBe(413);
+    expect(fs.readdirSync(config.uploadDir).filter(file => file.includes(`job_resolver_${jobs}_`))).toEqual([]);
+  });
+
+  it('rejects content that is neither audio nor a feed', async () => {
+    const error = await reject(`${base}/page`);
+
+    expect(error.statusCode).toBe(422);
+    expect(error.message).toContain('unsupported content type "text/html"');
+  });
+
+  it('accepts audio served as a generic binary stream', async () => {
+    const source = await resolver.resolve(`${base}/binary`, jobId());
+
+    expect(source.filePath).toMatch(/_download\.audio$/);
+    fs.rmSync(source.filePath);
+  });
+
+  it('downloads the latest episode of an RSS feed with its metadata', async () => {
+    const source = await resolver.resolve(`${base}/feed.xml`, jobId());
+
+    expect(source.episode).toEqual({
+      showTitle: 'Test Show',
+      episodeTitle: 'Newest Episode',
+      description: 'The second one',
+      artworkUrl: `${base}/show.jpg`,
+      publishedAt: new Date('2024-01-08T10:00:00Z'),
+      guid: 'episode-2',
+      feedUrl: `${base}/feed.xml`,
+      audioUrl: `${base}/audio/2.wav`
+    });
+    expect(fs.readFileSync(source.filePath)).toEqual(audio);
+    fs.rmSync(source.filePath);
+  });
+
+  it('picks a feed episode by GUID or title', async () => {
+    const byGuid = await resolver.resolve(`${base}/feed.xml`, jobId(), { episode: 'episode-1' });
+    const byTitle = await resolver.resolve(`${base}/feed.xml`, jobId(), { episode: 'older' });
+
+    expect(byGuid.episode.audioUrl).toBe(`${base}/audio/1.wav`);
+    expect(byGuid.episode.description).toBe('The first one');
+    expect(byTitle.episode.guid).toBe('episode-1');
+    fs.rmSync(byGuid.filePath);
+    fs.rmSync(byTitle.filePath);
+  });
+
+  it('reports an episode the feed does not have', async () => {
+    expect((await reject(`${base}/feed.xml`, { episode: 'missing' })).statusCode).toBe(404);
+  });
+
+  it('reads Atom feeds', async () => {
+    const source = await resolver.resolve(`${base}/atom.xml`, jobId());
+
+    expect(source.episode).toMatchObject({
+      showTitle: 'Atom Show',
+      episodeTitle: 'Atom Episode',
+      guid: 'urn:episode:atom',
+      audioUrl: `${base}/audio/atom.wav`
+    });
+    fs.rmSync(source.filePath);
+  });
+
+  it('refuses a redirect to a private address', async () => {
+    const error = await reject(`${base}/metadata`);
+
+    expect(error.statusCode).toBe(400);
+    expect(error.message).toContain('Refusing to fetch');
+  });
+
+  it('refuses loopback by default', async () => {
+    const served = requests.length;
+    const strict = new SourceResolver();
+
+    await expect(strict.resolve(`${base}/audio/direct.wav`, jobId())).rejects.toMatchObject({ statusCode: 400 });
+    await expect(strict.resolve(`http://localhost:${new URL(base).port}/audio/direct.wav`, jobId()))
+      .rejects.toMatchObject({ statusCode: 400 });
+    expect(requests.length).toBe(served);
+  });
+});
@@ -0,0 +1,455 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { ReadableStream as WebReadableStream } from 'stream/web';
+import { XMLParser } from 'fast-xml-parser';
+import { EpisodeMetadata } from '../types';
+import { logger, measurePerformance } from '../utils/logger';
+import { BlockedAddressError, SafeFetchOptions, safeFetch } from '../utils/safeFetch';
+import config from '../utils/config';
+
+export interface ResolvedSource {
+  filePath: string;
+  contentType: string;
+  size: number;
+  episode: EpisodeMetadata;
+}
+
+export interface ResolveOptions {
+  // Episode GUID or title to pick from a feed (defaults to the latest episode)
+  episode?: string;
+  maxBytes?: number;
+  timeoutMs?: number;
+  // Stops the download when aborted
+  signal?: AbortSignal;
+}
+
+// Parsed XML as produced by fast-xml-parser: attributes are "@_"-prefixed keys
+// and element text sits under "#text" when the element also has attributes
+type XmlValue = string | number | boolean | XmlNode | XmlValue[] | undefined;
+
+interface XmlNode {
+  [key: string]: XmlValue;
+}
+
+interface FeedEpisode extends EpisodeMetadata {
+  enclosureUrl: string;
+  enclosureType?: string;
+}
+
+export class SourceResolutionError extends Error {
+  constructor(message: string, public statusCode: number = 422) {
+    super(message);
+    this.name = 'SourceResolutionError';
+  }
+}
+
+const FEED_CONTENT_TYPES = [
+  'application/rss+xml',
+  'application/atom+xml',
+  'application/xml',
+  'text/xml'
+];
+
+// CDNs frequently serve podcast audio as a generic binary stream
+const GENERIC_BINARY_TYPES = ['application/octet-stream', 'binary/octet-stream'];
+
+const EXTENSIONS_BY_TYPE: { [key: string]: string } = {
+  'audio/mpeg': '.mp3',
+  'audio/mp3': '.mp3',
+  'audio/mp4': '.m4a',
+  'audio/m4a': '.m4a',
+  'audio/x-m4a': '.m4a',
+  'audio/aac': '.aac',
+  'audio/wav': '.wav',
+  'audio/x-wav': '.wav',
+  'audio/ogg': '.ogg',
+  'audio/webm': '.webm',
+  'video/mp4': '.mp4',
+  'video/webm': '.webm',
+  'video/quicktime': '.mov'
+};
+
+// Feeds are small; anything bigger than this is not a feed we want to parse
+const MAX_FEED_BYTES = 10 * 1024 * 1024;
+
+export class SourceResolver {
+  private parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '@_',
+    textNodeName: '#text',
+    trimValues: true
+  });
+
+  // Only public addresses are fetched unless `isAllowedAddress` says otherwise
+  constructor(private fetchOptions: Pick<SafeFetchOptions, 'isAllowedAddress'> = {}) {}
+
+  /**
+   * Resolve a URL (direct audio or RSS/Atom feed) to a local audio file
+   */
+  @measurePerformance('Source Resolution')
+  async resolve(url: string, jobId: string, options: ResolveOptions = {}): Promise<ResolvedSource> {
+    const response = await this.fetchUrl(url, options.timeoutMs, options.signal);
+    const contentType = SourceResolver.baseContentType(response.headers.get('content-type'));
+
+    if (SourceResolver.isFeed(contentType, url)) {
+      const feedXml = await this.readText(response, MAX_FEED_BYTES);
+      const episode = this.selectEpisode(this.parseFeed(feedXml, url), options.episode);
+
+      logger.logProcessing('Feed episode selected', jobId, {
+        feedUrl: url,
+        guid: episode.guid,
+        episodeTitle: episode.episodeTitle,
+        enclosureUrl: episode.enclosureUrl
+      });
+
+      const { enclosureUrl, enclosureType, ...metadata } = episode;
+      const enclosure = await this.fetchUrl(enclosureUrl, options.timeoutMs, options.signal);
+      const servedType = SourceResolver.baseContentType(enclosure.headers.get('content-type'));
+
+      // Trust the feed's declared type when the host only says "binary"
+      const audioType = !servedType || (GENERIC_BINARY_TYPES.includes(servedType) && enclosureType)
+        ? (enclosureType || '').toLowerCase()
+        : servedType;
+
+      return this.saveAudio(enclosure, audioType, enclosureUrl, jobId, {
+        ...metadata,
+        audioUrl: enclosureUrl
+      }, options);
+    }
+
+    return this.saveAudio(response, contentType, url, jobId, { audioUrl: url }, options);
+  }
+
+  /**
+   * Parse an RSS 2.0 or Atom feed into its episodes
+   */
+  parseFeed(xml: string, feedUrl: string): FeedEpisode[] {
+    let document: XmlNode;
+    try {
+      document = this.parser.parse(xml) as XmlNode;
+    } catch (error) {
+      throw new SourceResolutionError(`Invalid feed XML: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    const channel = SourceResolver.node(SourceResolver.node(document.rss)?.channel);
+    if (channel) {
+      return this.parseRss(channel, feedUrl);
+    }
+    const feed = SourceResolver.node(document.feed);
+    if (feed) {
+      return this.parseAtom(feed, feedUrl);
+    }
+
+    throw new SourceResolutionError('URL did not return an RSS or Atom feed');
+  }
+
+  /**
+   * Pick an episode by GUID or title, or the most recent one
+   */
+  selectEpisode(episodes: FeedEpisode[], selector?: string): FeedEpisode {
+    if (episodes.length === 0) {
+      throw new SourceResolutionError('Feed contains no episodes with audio enclosures');
+    }
+
+    if (selector) {
+      const wanted = selector.trim().toLowerCase();
+      const match = episodes.find(episode => episode.guid === selector.trim()) ||
+        episodes.find(episode => episode.episodeTitle?.toLowerCase() === wanted) ||
+        episodes.find(episode => episode.episodeTitle?.toLowerCase().includes(wanted));
+
+      if (!match) {
+        throw new SourceResolutionError(`No episode matching "${selector}" found in feed`, 404);
+      }
+      return match;
+    }
+
+    // Feeds are usually newest-first, but don't rely on it
+    return episodes.reduce((latest, episode) =>
+      (episode.publishedAt?.getTime() || 0) > (latest.publishedAt?.getTime() || 0) ? episode : latest
+    );
+  }
+
+  private parseRss(channel: XmlNode, feedUrl: string): FeedEpisode[] {
+    const showTitle = SourceResolver.text(channel.title);
+    const showArtwork = SourceResolver.attr(channel['itunes:image'], 'href') ||
+      SourceResolver.text(SourceResolver.node(channel.image)?.url);
+
+    return SourceResolver.nodes(channel.item)
+      .map((item): FeedEpisode | null => {
+        const enclosure = SourceResolver.nodes(item.enclosure)
+          .find(candidate => SourceResolver.attr(candidate, 'url'));
+        if (!enclosure) return null;
+
+        return {
+          showTitle,
+          episodeTitle: SourceResolver.text(item.title),
+          description: SourceResolver.plainText(SourceResolver.text(item['itunes:summary']) || SourceResolver.text(item.description)),
+          artworkUrl: SourceResolver.attr(item['itunes:image'], 'href') || showArtwork,
+          publishedAt: SourceResolver.date(SourceResolver.text(item.pubDate)),
+          guid: SourceResolver.text(item.guid),
+          feedUrl,
+          enclosureUrl: SourceResolver.absoluteUrl(SourceResolver.attr(enclosure, 'url')!, feedUrl),
+          enclosureType: SourceResolver.attr(enclosure, 'type')
+        };
+      })
+      .filter((episode): episode is FeedEpisode => episode !== null);
+  }
+
+  private parseAtom(feed: XmlNode, feedUrl: string): FeedEpisode[] {
+    const showTitle = SourceResolver.text(feed.title);
+    const showArtwork = SourceResolver.text(feed.logo) || SourceResolver.text(feed.icon);
+
+    return SourceResolver.nodes(feed.entry)
+      .map((entry): FeedEpisode | null => {
+        const enclosure = SourceResolver.nodes(entry.link)
+          .find(link => SourceResolver.attr(link, 'rel') === 'enclosure' && SourceResolver.attr(link, 'href'));
+        if (!enclosure) return null;
+
+        return {
+          showTitle,
+          episodeTitle: SourceResolver.text(entry.title),
+          description: SourceResolver.plainText(SourceResolver.text(entry.summary) || SourceResolver.text(entry.content)),
+          artworkUrl: showArtwork,
+          publishedAt: SourceResolver.date(SourceResolver.text(entry.published) || SourceResolver.text(entry.updated)),
+          guid: SourceResolver.text(entry.id),
+          feedUrl,
+          enclosureUrl: SourceResolver.absoluteUrl(SourceResolver.attr(enclosure, 'href')!, feedUrl),
+          enclosureType: SourceResolver.attr(enclosure, 'type')
+        };
+      })
+      .filter((episode): episode is FeedEpisode => episode !== null);
+  }
+
+  /**
+   * Stream an audio response to disk, enforcing type and size limits
+   */
+  private async saveAudio(
+    response: Response,
+    contentType: string,
+    url: string,
+    jobId: string,
+    episode: EpisodeMetadata,
+    options: ResolveOptions
+  ): Promise<ResolvedSource> {
+    const maxBytes = options.maxBytes ?? config.download.maxBytes;
+
+    if (!SourceResolver.isAudio(contentType)) {
+      await response.body?.cancel();
+      throw new SourceResolutionError(
+        `URL returned unsupported content type "${contentType || 'unknown'}". ` +
+        'Provide a direct audio link or an RSS/Atom feed URL'
+      );
+    }
+
+    const declaredLength = Number(response.headers.get('content-length'));
+    if (declaredLength > maxBytes) {
+      await response.body?.cancel();
+      throw new SourceResolutionError(
+        `Remote file is ${Math.round(declaredLength / 1024 / 1024)}MB, maximum is ${Math.round(maxBytes / 1024 / 1024)}MB`,
+        413
+      );
+    }
+
+    if (!response.body) {
+      throw new SourceResolutionError('Remote server returned an empty body');
+    }
+
+    if (!fs.existsSync(config.uploadDir)) {
+      fs.mkdirSync(config.uploadDir, { recursive: true });
+    }
+
+    const extension = EXTENSIONS_BY_TYPE[contentType] || SourceResolver.extensionFromUrl(url) || '.audio';
+    const filePath = path.join(config.uploadDir, `${jobId}_download${extension}`);
+
+    let size = 0;
+    const limiter = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        size += chunk.length;
+        if (size > maxBytes) {
+          callback(new SourceResolutionError(
+            `Remote file exceeds maximum size of ${Math.round(maxBytes / 1024 / 1024)}MB`,
+            413
+          ));
+          return;
+        }
+        callback(null, chunk);
+      }
+    });
+
+    try {
+      await pipeline(
+        Readable.fromWeb(response.body as WebReadableStream<Uint8Array>),
+        limiter,
+        fs.createWriteStream(filePath)
+      );
+    } catch (error) {
+      if (fs.existsSync(filePath)) {
+        fs.unlinkSync(filePath);
+      }
+      throw error instanceof SourceResolutionError
+        ? error
+        : new SourceResolutionError(`Download failed: ${error instanceof Error ? error.message : 'Unknown error'}`, 502);
+    }
+
+    if (size === 0) {
+      fs.unlinkSync(filePath);
+      throw new SourceResolutionError('Remote file is empty');
+    }
+
+    logger.logProcessing('Audio downloaded', jobId, {
+      url,
+      contentType,
+      size,
+      filePath
+    });
+
+    return { filePath, contentType, size, episode };
+  }
+
+  private async fetchUrl(url: string, timeoutMs: number = config.download.timeoutMs, signal?: AbortSignal): Promise<Response> {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      throw new SourceResolutionError('Invalid URL', 400);
+    }
+
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      throw new SourceResolutionError(`Unsupported URL protocol ${parsed.protocol}`, 400);
+    }
+
+    let response: Response;
+    try {
+      response = await safeFetch(parsed, {
+        ...this.fetchOptions,
+        signal: signal ? AbortSignal.any([AbortSignal.timeout(timeoutMs), signal]) : AbortSignal.timeout(timeoutMs),
+        headers: {
+          'User-Agent': 'PodSum/1.0 (+podcast summarizer)',
+          'Accept': 'audio/*, video/*, application/rss+xml, application/atom+xml, application/xml;q=0.9, */*;q=0.5'
+        }
+      });
+    } catch (error) {
+      if (error instanceof BlockedAddressError) {
+        throw new SourceResolutionError(`Refusing to fetch ${parsed.host}: ${error.message}`, 400);
+      }
+      throw new SourceResolutionError(
+        `Failed to fetch ${parsed.host}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        502
+      );
+    }
+
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new SourceResolutionError(`Remote server responded with ${response.status} ${response.statusText}`, 502);
+    }
+
+    return response;
+  }
+
+  /**
+   * Read a text body, giving up as soon as it passes maxBytes
+   */
+  private async readText(response: Response, maxBytes: number): Promise<string> {
+    if (!response.body) return '';
+
+    const reader = response.body.getReader();
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      size += value.length;
+      if (size > maxBytes) {
+        await reader.cancel();
+        throw new SourceResolutionError('Feed is too large to parse', 413);
+      }
+      chunks.push(Buffer.from(value));
+    }
+
+    return Buffer.concat(chunks).toString('utf8');
+  }
+
+  private static isFeed(contentType: string, url: string): boolean {
+    if (FEED_CONTENT_TYPES.includes(contentType)) return true;
+    // Some hosts serve feeds as text/plain or text/html
+    return contentType.startsWith('text/') && /\.(rss|xml|atom)$|\/feed\/?$|\/rss\/?$/i.test(new URL(url).pathname);
+  }
+
+  private static isAudio(contentType: string): boolean {
+    return contentType.startsWith('audio/') ||
+      contentType.startsWith('video/') ||
+      GENERIC_BINARY_TYPES.includes(contentType);
+  }
+
+  private static baseContentType(header: string | null): string {
+    return (header || '').split(';')[0]!.trim().toLowerCase();
+  }
+
+  private static extensionFromUrl(url: string): string | undefined {
+    const ext = path.extname(new URL(url).pathname).toLowerCase();
+    return /^\.[a-z0-9]{2,4}$/.test(ext) ? ext : undefined;
+  }
+
+  private static absoluteUrl(url: string, base: string): string {
+    try {
+      return new URL(url, base).toString();
+    } catch {
+      return url;
+    }
+  }
+
+  // Element nodes under a key, whether the parser produced one or many
+  private static nodes(value: XmlValue): XmlNode[] {
+    const values = Array.isArray(value) ? value : [value];
+    return values.filter((entry): entry is XmlNode =>
+      typeof entry === 'object' && entry !== null && !Array.isArray(entry));
+  }
+
+  private static node(value: XmlValue): XmlNode | undefined {
+    return SourceResolver.nodes(value)[0];
+  }
+
+  private static text(value: XmlValue): string | undefined {
+    const first = Array.isArray(value) ? value[0] : value;
+    if (first === undefined || first === null || Array.isArray(first)) return undefined;
+    if (typeof first === 'object') {
+      const text = first['#text'];
+      return typeof text === 'object' || text === undefined ? undefined : String(text);
+    }
+    return String(first);
+  }
+
+  private static attr(value: XmlValue, name: string): string | undefined {
+    const attribute = SourceResolver.node(value)?.[`@_${name}`];
+    return typeof attribute === 'object' || attribute === undefined ? undefined : String(attribute);
+  }
+
+  private static date(value?: string): Date | undefined {
+    if (!value) return undefined;
+    const parsed = new Date(value);
+    return isNaN(parsed.getTime()) ? undefined : parsed;
+  }
+
+  private static plainText(html?: string): string | undefined {
+    if (!html) return undefined;
+    const text = html
+      .replace(/<[^>]+>/g, ' ')
+      .replace(/&nbsp;/g, ' ')
+      .replace(/&amp;/g, '&')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;/g, "'")
+      .replace(/\s+/g, ' ')
+      .trim();
+    return text || undefined;
+  }
+}
+
+// Export singleton instance
+export const sourceResolver = new SourceResolver();
+export default sourceResolver;
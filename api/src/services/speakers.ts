@@ -0,0 +1,82 @@
+import { QuoteAttribution, Speaker, Summary, Timestamp } from '../types';
+import { TranscriptMatcher } from './grounding';
+
+// Share of a quote's words that must appear, in order, to attribute it
+const MIN_QUOTE_SCORE = 0.6;
+
+// Consecutive segments from the same speaker closer than this form one turn
+const MAX_TURN_GAP_SECONDS = 1;
+
+/**
+ * Group diarized segments into speakers, named "Speaker 1", "Speaker 2", ...
+ * in order of first appearance
+ */
+export function buildSpeakers(segments: Timestamp[]): Speaker[] {
+  const speakers = new Map<string, Speaker>();
+
+  for (const segment of segments) {
+    if (!segment.speaker) continue;
+
+    let speaker = speakers.get(segment.speaker);
+    if (!speaker) {
+      speaker = { id: segment.speaker, name: `Speaker ${speakers.size + 1}`, speakingTime: 0, segments: [] };
+      speakers.set(segment.speaker, speaker);
+    }
+
+    speaker.speakingTime += Math.max(0, segment.end - segment.start);
+
+    const turn = speaker.segments[speaker.segments.length - 1];
+    if (turn && segment.start - turn.end <= MAX_TURN_GAP_SECONDS) {
+      turn.end = segment.end;
+      turn.text = `${turn.text} ${segment.text.trim()}`;
+    } else {
+      speaker.segments.push({ start: segment.start, end: segment.end, text: segment.text.trim(), speaker: segment.speaker });
+    }
+  }
+
+  return [...speakers.values()].map(speaker => ({
+    ...speaker,
+    speakingTime: Math.round(speaker.speakingTime * 100) / 100
+  }));
+}
+
+/**
+ * Display name for a speaker id, falling back to the id itself
+ */
+export function speakerName(summary: Summary, speakerId?: string): string | undefined {
+  if (!speakerId) return undefined;
+  const speaker = summary.speakers?.find(candidate => candidate.id === speakerId);
+  return speaker?.name || speakerId;
+}
+
+/**
+ * Give a speaker a new display name. Segments and quotes refer to speakers by
+ * id, so the new name shows up everywhere the speaker does.
+ */
+export function renameSpeaker(summary: Summary, speakerId: string, name: string): Summary {
+  return {
+    ...summary,
+    speakers: (summary.speakers || []).map(speaker =>
+      speaker.id === speakerId ? { ...speaker, name: name.trim() } : speaker
+    ),
+    updatedAt: new Date()
+  };
+}
+
+/**
+ * Find where each quote was said; quotes that cannot be found are kept
+ * without a speaker or time
+ */
+export function attributeQuotes(quotes: string[], segments: Timestamp[]): QuoteAttribution[] {
+  const matcher = new TranscriptMatcher(segments);
+
+  return quotes.map(quote => {
+    const { score, segment } = matcher.findQuote(quote);
+
+    if (!segment || score < MIN_QUOTE_SCORE) {
+      return { quote };
+    }
+
+    return { quote, speakerId: segment.speaker, start: segment.start, grounding: Math.round(score * 100) / 100 };
+  });
+}
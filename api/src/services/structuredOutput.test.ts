@@ -0,0 +1,172 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  ChatCompletion,
+  ChatFunction,
+  ChatMessage,
+  OutputValidationError,
+  completeStructured,
+  parseJsonContent
+} from './structuredOutput';
+import { validateSectionNotes, validateSummaryResponse } from './summarySchema';
+
+interface Call {
+  messages: ChatMessage[];
+  maxTokens: number;
+}
+
+// A chat model that plays back the given replies in order
+function scriptedChat(replies: ChatCompletion[]): { chat: ChatFunction; calls: Call[] } {
+  const calls: Call[] = [];
+  const chat: ChatFunction = async (messages, maxTokens) => {
+    calls.push({ messages, maxTokens });
+    const reply = replies[calls.length - 1];
+    if (!reply) throw new Error('No reply left');
+    return reply;
+  };
+  return { chat, calls };
+}
+
+function parseGreeting(data: unknown): string {
+  if (!data || typeof data !== 'object' || typeof (data as { greeting?: unknown }).greeting !== 'string') {
+    throw new OutputValidationError('Invalid greeting', ['"greeting" must be a string']);
+  }
+  return (data as { greeting: string }).greeting;
+}
+
+const messages: ChatMessage[] = [{ role: 'user', content: 'Say hello as JSON' }];
+const options = { maxTokens: 100, maxOutputTokens: 300, repairAttempts: 1 };
+
+const validNotes = {
+  summary: 'The hosts talk about sleep.',
+  keyPoints: [{ title: 'Naps', description: 'Short naps help.', timestamp: 30, importance: 'high' }],
+  chapters: [{ title: 'Sleep', start: 0, end: 60, summary: 'Why sleep matters.', keyPoints: ['Rest'] }],
+  quotes: ['Sleep is a skill.'],
+  actionItems: ['Go to bed earlier'],
+  tags: ['sleep']
+};
+
+describe('parseJsonContent', () => {
+  it('parses plain JSON', () => {
+    expect(parseJsonContent('{"a":1}')).toEqual({ a: 1 });
+  });
+
+  it('finds JSON inside code fences and chatter', () => {
+    expect(parseJsonContent('Sure!\n```json\n{"a":1}\n```')).toEqual({ a: 1 });
+  });
+
+  it('returns undefined for text without JSON', () => {
+    expect(parseJsonContent('no json here')).toBeUndefined();
+  });
+});
+
+describe('completeStructured', () => {
+  it('returns the first valid response', async () => {
+    const { chat, calls } = scriptedChat([{ content: '{"greeting":"hi"}', finishReason: 'stop', tokensUsed: 12 }]);
+
+    const result = await completeStructured(chat, messages, parseGreeting, options);
+
+    expect(result).toEqual({ value: 'hi', finishReason: 'stop', tokensUsed: 12, repairs: 0 });
+    expect(calls).toHaveLength(1);
+  });
+
+  it('doubles the budget after a truncated response, up to the maximum', async () => {
+    const { chat, calls } = scriptedChat([
+      { content: '{"greet', finishReason: 'length', tokensUsed: 100 },
+      { content: '{"greeting":"h', finishReason: 'length', tokensUsed: 200 },
+      { content: '{"greeting":"hi"}', finishReason: 'stop', tokensUsed: 50 }
+    ]);
+
+    const result = await completeStructured(chat, messages, parseGreeting, options);
+
+    expect(calls.map(call => call.maxTokens)).toEqual([100, 200, 300]);
+    expect(calls.every(call => call.messages === messages)).toBe(true);
+    expect(result.tokensUsed).toBe(350);
+  });
+
+  it('asks for a repair with the problems found', async () => {
+    const { chat, calls } = scriptedChat([
+      { content: '{"greeting":42}', finishReason: 'stop' },
+      { content: '{"greeting":"hi"}', finishReason: 'stop' }
+    ]);
+
+    const result = await completeStructured(chat, messages, parseGreeting, options);
+
+    expect(result.value).toBe('hi');
+    expect(result.repairs).toBe(1);
+    const repair = calls[1]?.messages || [];
+    expect(repair.slice(0, 2)).toEqual([...messages, { role: 'assistant', content: '{"greeting":42}' }]);
+    expect(repair[2]?.content).toContain('"greeting" must be a string');
+  });
+
+  it('reports truncation at the maximum budget as a problem to repair', async () => {
+    const { chat, calls } = scriptedChat([
+      { content: '{"greet', finishReason: 'length' },
+      { content: '{"greeting":"hi"}', finishReason: 'stop' }
+    ]);
+
+    await completeStructured(chat, messages, parseGreeting, { ...options, maxTokens: 300 });
+
+    expect(calls[1]?.messages[2]?.content).toContain('cut off at the 300 token limit');
+  });
+
+  it('gives up once the repair attempts are used', async () => {
+    const { chat } = scriptedChat([
+      { content: 'not json', finishReason: 'stop' },
+      { content: '{"greeting":false}', finishReason: 'stop' }
+    ]);
+
+    const attempt = completeStructured(chat, messages, parseGreeting, { ...options, context: 'Greeting' });
+
+    await expect(attempt).rejects.toThrow(OutputValidationError);
+    await expect(attempt).rejects.toThrow('Greeting is still invalid after 1 repair attempt: "greeting" must be a string');
+  });
+
+  it('passes on errors other than validation failures', async () => {
+    const { chat } = scriptedChat([{ content: '{}', finishReason: 'stop' }]);
+    const parse = () => {
+      throw new TypeError('boom');
+    };
+
+    await expect(completeStructured(chat, messages, parse, options)).rejects.toThrow(TypeError);
+  });
+});
+
+describe('validateSectionNotes', () => {
+  it('accepts complete notes', () => {
+    expect(validateSectionNotes(validNotes)).toEqual(validNotes);
+  });
+
+  it('reports every problem with its path', () => {
+    const notes = {
+      ...validNotes,
+      keyPoints: [{ title: '', description: 'x', importance: 'urgent' }],
+      chapters: [{ title: 'Late', start: 60, end: 30, summary: '', keyPoints: [] }],
+      tags: undefined
+    };
+
+    let error: unknown;
+    try {
+      validateSectionNotes(notes);
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(OutputValidationError);
+    expect((error as OutputValidationError).problems).toEqual([
+      '"keyPoints[0].importance" must be one of: high, medium, low',
+      '"keyPoints[0].title" must be a non-empty string',
+      '"chapters[0].end" cannot be before its start',
+      '"tags" must be an array'
+    ]);
+  });
+});
+
+describe('validateSummaryResponse', () => {
+  it('only requires chapters when timestamps were asked for', () => {
+    const { summary: overview, chapters: _chapters, ...rest } = validNotes;
+    const data = { ...rest, overview, keyTakeaways: ['Sleep more'] };
+
+    expect(validateSummaryResponse(data, { timestamps: false }).chapters).toBeUndefined();
+    expect(() => validateSummaryResponse(data, { timestamps: true })).toThrow('"chapters" must be an array');
+  });
+});
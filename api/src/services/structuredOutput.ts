@@ -0,0 +1,156 @@
+import { logger } from '../utils/logger';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatCompletion {
+  content: string;
+  finishReason?: string;
+  tokensUsed?: number;
+}
+
+// One round trip to a chat model with the given output budget
+export type ChatFunction = (messages: ChatMessage[], maxTokens: number) => Promise<ChatCompletion>;
+
+export interface StructuredOutputOptions {
+  maxTokens: number;
+  // Truncated responses are retried with double the budget up to this
+  maxOutputTokens: number;
+  // Follow-up requests asking the model to fix an invalid response
+  repairAttempts: number;
+  context?: string;
+}
+
+export interface StructuredOutput<T> {
+  value: T;
+  finishReason?: string;
+  tokensUsed: number;
+  repairs: number;
+}
+
+/**
+ * Raised when a model response does not have the shape it was asked for
+ */
+export class OutputValidationError extends Error {
+  constructor(message: string, public problems: string[]) {
+    super(`${message}: ${problems.join('; ')}`);
+    this.name = 'OutputValidationError';
+  }
+}
+
+/**
+ * A parsed JSON object, as opposed to an array or a primitive
+ */
+export function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Parse a JSON reply, tolerating the code fences and chatter some local
+ * models add around it
+ */
+export function parseJsonContent(content: string): unknown {
+  try {
+    return JSON.parse(content);
+  } catch {
+    const start = content.indexOf('{');
+    const end = content.lastIndexOf('}');
+    if (start === -1 || end <= start) {
+      return undefined;
+    }
+
+    try {
+      return JSON.parse(content.substring(start, end + 1));
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Ask a chat model for JSON and keep at it until `parse` accepts the reply.
+ * Responses cut off at the token limit are requested again with a larger
+ * budget; responses that are invalid are sent back with the problems found
+ * and a request to fix them. `parse` throws OutputValidationError to reject
+ * a response.
+ */
+export async function completeStructured<T>(
+  chat: ChatFunction,
+  messages: ChatMessage[],
+  parse: (data: unknown) => T,
+  options: StructuredOutputOptions
+): Promise<StructuredOutput<T>> {
+  const context = options.context || 'Structured output';
+  let maxTokens = Math.min(options.maxTokens, options.maxOutputTokens);
+  let conversation = messages;
+  let tokensUsed = 0;
+  let repairs = 0;
+
+  for (;;) {
+    const completion = await chat(conversation, maxTokens);
+    tokensUsed += completion.tokensUsed || 0;
+    const truncated = completion.finishReason === 'length';
+
+    if (truncated && maxTokens < options.maxOutputTokens) {
+      const nextTokens = Math.min(options.maxOutputTokens, maxTokens * 2);
+      logger.warn(`${context} was cut off, retrying with a larger budget`, { maxTokens, nextTokens });
+      maxTokens = nextTokens;
+      continue;
+    }
+
+    const result = check(completion.content, parse, truncated, maxTokens);
+    if (result.value !== undefined) {
+      return { value: result.value, finishReason: completion.finishReason, tokensUsed, repairs };
+    }
+
+    if (repairs >= options.repairAttempts) {
+      throw new OutputValidationError(
+        `${context} is still invalid after ${repairs} repair attempt${repairs === 1 ? '' : 's'}`,
+        result.problems
+      );
+    }
+
+    repairs++;
+    logger.warn(`${context} is invalid, asking for a repair`, { attempt: repairs, problems: result.problems });
+    // Only the latest failure goes back; earlier attempts would just eat context
+    conversation = [
+      ...messages,
+      { role: 'assistant', content: completion.content },
+      { role: 'user', content: repairPrompt(result.problems) }
+    ];
+  }
+}
+
+function check<T>(
+  content: string,
+  parse: (data: unknown) => T,
+  truncated: boolean,
+  maxTokens: number
+): { value?: T; problems: string[] } {
+  const data = parseJsonContent(content);
+  if (data === undefined) {
+    return {
+      problems: [truncated
+        ? `The response was cut off at the ${maxTokens} token limit; keep it shorter so the JSON is complete`
+        : 'The response is not a valid JSON object']
+    };
+  }
+
+  try {
+    return { value: parse(data), problems: [] };
+  } catch (error) {
+    if (error instanceof OutputValidationError) {
+      return { problems: error.problems };
+    }
+    throw error;
+  }
+}
+
+function repairPrompt(problems: string[]): string {
+  return `Your response does not match the required format:
+${problems.map(problem => `- ${problem}`).join('\n')}
+
+Reply with the complete, corrected JSON object only, following the structure in the instructions. Keep everything that was already correct.`;
+}
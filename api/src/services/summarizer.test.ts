@@ -0,0 +1,43 @@
+import { afterEach, describe, expect, it, jest } from '@jest/globals';
+import config from '../utils/config';
+import { summarizationProvider } from './providers';
+import { HierarchicalSummarizer } from './summarizer';
+
+const { summarization } = config;
+const defaults = { ...summarization };
+
+describe('HierarchicalSummarizer', () => {
+  afterEach(() => {
+    Object.assign(summarization, defaults);
+    jest.restoreAllMocks();
+  });
+
+  it('stops summarizing sections once one of them fails', async () => {
+    Object.assign(summarization, { chunkTokens: 10, concurrency: 2, maxRetries: 0 });
+    jest.spyOn(summarizationProvider, 'validateTokenLimits').mockReturnValue({ valid: false, estimatedTokens: 1000, maxTokens: 100 });
+    const original = summarizationProvider.completeJson.bind(summarizationProvider);
+    // The first section fails fast while the second is still running
+    const completeJson = jest.spyOn(summarizationProvider, 'completeJson').mockImplementation(async (...args) => {
+      const failing = args[1].includes('Section 1 ');
+      await new Promise(resolve => setTimeout(resolve, failing ? 5 : 20));
+      if (failing) throw new Error('section 1 failed');
+      return original(...args);
+    });
+    const segments = Array.from({ length: 8 }, (_, index) => ({
+      start: index * 60,
+      end: index * 60 + 60,
+      text: `Part ${index} of the episode goes on for long enough to fill a section on its own.`
+    }));
+
+    const summarizing = new HierarchicalSummarizer().summarize({
+      transcript: segments.map(segment => segment.text).join(' '),
+      segments,
+      detailLevel: 'standard',
+      options: { detail: 'standard', timestamps: true }
+    });
+
+    await expect(summarizing).rejects.toThrow('section 1 failed');
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(completeJson).toHaveBeenCalledTimes(2);
+  });
+});
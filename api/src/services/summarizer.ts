@@ -0,0 +1,330 @@
+import { SummarizationRequest, SummarizationResponse, Timestamp } from '../types';
+import { summarizationProvider } from './providers';
+import { isWorthRetrying } from './providerResilience';
+import { ValidatedNotes, validateSectionNotes } from './summarySchema';
+import { templateNotesHint } from './summaryTemplates';
+import { logger, measurePerformance } from '../utils/logger';
+import { withRetry, mapWithConcurrency } from '../utils/retry';
+import config from '../utils/config';
+
+export interface TranscriptSection {
+  index: number;
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface SectionNotes extends ValidatedNotes {
+  start: number;
+  end: number;
+}
+
+export interface SummarizeOptions {
+  jobId?: string;
+  onProgress?: (completed: number, total: number) => void;
+}
+
+// Room left in the context window for the prompt, the schema and the reply
+const REDUCE_HEADROOM_TOKENS = 4000;
+
+const SECTION_SYSTEM_PROMPT = `You are an expert podcast summarizer. You will receive one section of a longer podcast transcript. Each line starts with its [mm:ss] or [h:mm:ss] position in the episode.
+
+Summarize only this section. Return a valid JSON object with the following structure:
+{
+  "summary": "A dense paragraph covering everything discussed in this section",
+  "keyPoints": [{"title": "Point title", "description": "Detailed description", "importance": "high|medium|low", "timestamp": 123}],
+  "chapters": [{"title": "Chapter title", "start": 0, "end": 300, "summary": "Chapter summary", "keyPoints": ["key point 1"]}],
+  "quotes": ["Notable quotes, copied verbatim"],
+  "actionItems": ["Actionable items mentioned in this section"],
+  "tags": ["Relevant tags/topics"]
+}
+
+All timestamps are in seconds from the start of the whole episode; take them from the line markers and never invent them.`;
+
+const MERGE_SYSTEM_PROMPT = `You are an expert podcast summarizer. You will receive notes for several consecutive sections of a long podcast, each with its time range in seconds.
+
+Merge them into notes for one larger section. Return a valid JSON object with the same structure as the input notes:
+{
+  "summary": "A dense paragraph covering everything in these sections",
+  "keyPoints": [{"title": "Point title", "description": "Detailed description", "importance": "high|medium|low", "timestamp": 123}],
+  "chapters": [{"title": "Chapter title", "start": 0, "end": 300, "summary": "Chapter summary", "keyPoints": ["key point 1"]}],
+  "quotes": ["Notable quotes, copied verbatim"],
+  "actionItems": ["Actionable items"],
+  "tags": ["Relevant tags/topics"]
+}
+
+Keep the most important points, drop duplicates and keep every timestamp exactly as given.`;
+
+/**
+ * Summarizes transcripts of any length. Transcripts that fit in the model's
+ * context go through a single completion; longer ones are split into
+ * timestamped sections that are summarized in parallel (map), merged in
+ * rounds until the notes fit (hierarchical reduce) and finally turned into
+ * one summary.
+ */
+export class HierarchicalSummarizer {
+
+  /**
+   * Summarize a transcript, choosing single-pass or map-reduce by size
+   */
+  @measurePerformance('Hierarchical Summarization')
+  async summarize(request: SummarizationRequest, options: SummarizeOptions = {}): Promise<SummarizationResponse> {
+    const { jobId, onProgress } = options;
+    const limits = summarizationProvider.validateTokenLimits(request.transcript);
+
+    if (limits.valid) {
+      const response = await summarizationProvider.generateSummary(request);
+      onProgress?.(1, 1);
+      return response;
+    }
+
+    const sections = HierarchicalSummarizer.splitSections(
+      request.transcript,
+      request.segments || [],
+      config.summarization.chunkTokens
+    );
+
+    logger.logOpenAI('Summarizing in sections', {
+      jobId,
+      estimatedTokens: limits.estimatedTokens,
+      sectionCount: sections.length
+    });
+
+    // Map: summarize every section independently
+    let completed = 0;
+    const total = sections.length + 1;
+    let notes = await mapWithConcurrency(sections, config.summarization.concurrency, async section => {
+      const result = await this.summarizeSection(section, request, jobId);
+      onProgress?.(++completed, total);
+      return result;
+    });
+    const sectionChapters = notes.flatMap(note => note.chapters);
+
+    // Reduce: merge neighbouring notes until they fit into one final request
+    const budget = limits.maxTokens - REDUCE_HEADROOM_TOKENS;
+    let round = 0;
+    while (notes.length > 1 && summarizationProvider.estimateTokenCount(HierarchicalSummarizer.renderNotes(notes)) > budget) {
+      round++;
+      const groups = HierarchicalSummarizer.groupNotes(notes, config.summarization.chunkTokens);
+
+      logger.logOpenAI('Merging section notes', { jobId, round, notes: notes.length, groups: groups.length });
+
+      notes = await mapWithConcurrency(groups, config.summarization.concurrency, group =>
+        group.length === 1 ? Promise.resolve(group[0]!) : this.mergeNotes(group, request, jobId)
+      );
+    }
+
+    const response = await summarizationProvider.generateSummary({
+      ...request,
+      transcript: HierarchicalSummarizer.renderNotes(notes),
+      mode: 'sectionNotes'
+    });
+    onProgress?.(total, total);
+
+    // Fall back to the per-section chapters if the final pass dropped them
+    if (request.options.timestamps && (!response.chapters || response.chapters.length === 0)) {
+      response.chapters = sectionChapters;
+    }
+
+    return response;
+  }
+
+  /**
+   * Split a transcript into sections of roughly `maxTokens`, cutting only
+   * between segments so every section keeps its timestamps
+   */
+  static splitSections(transcript: string, segments: Timestamp[], maxTokens: number): TranscriptSection[] {
+    const sections: TranscriptSection[] = [];
+    const maxChars = maxTokens * 4;
+
+    if (segments.length === 0) {
+      // No timing information: fall back to splitting on sentence boundaries
+      const sentences = transcript.match(/[^.!?]+[.!?]*\s*/g) || [transcript];
+      let text = '';
+      for (const sentence of sentences) {
+        if (text.length > 0 && text.length + sentence.length > maxChars) {
+          sections.push({ index: sections.length, start: 0, end: 0, text: text.trim() });
+          text = '';
+        }
+        text += sentence;
+      }
+      if (text.trim()) {
+        sections.push({ index: sections.length, start: 0, end: 0, text: text.trim() });
+      }
+      return sections;
+    }
+
+    let lines: string[] = [];
+    let length = 0;
+    let start = segments[0]!.start;
+    let end = start;
+
+    for (const segment of segments) {
+      const line = `[${HierarchicalSummarizer.formatTime(segment.start)}] ${segment.text}`;
+      if (lines.length > 0 && length + line.length > maxChars) {
+        sections.push({ index: sections.length, start, end, text: lines.join('\n') });
+        lines = [];
+        length = 0;
+        start = segment.start;
+      }
+      lines.push(line);
+      length += line.length + 1;
+      end = segment.end;
+    }
+
+    if (lines.length > 0) {
+      sections.push({ index: sections.length, start, end, text: lines.join('\n') });
+    }
+
+    return sections;
+  }
+
+  /**
+   * Group consecutive notes so each group stays under `maxTokens`
+   */
+  static groupNotes(notes: SectionNotes[], maxTokens: number): SectionNotes[][] {
+    const groups: SectionNotes[][] = [];
+    let current: SectionNotes[] = [];
+    let tokens = 0;
+
+    for (const note of notes) {
+      const noteTokens = Math.ceil(HierarchicalSummarizer.renderNotes([note]).length / 4);
+      if (current.length > 0 && tokens + noteTokens > maxTokens) {
+        groups.push(current);
+        current = [];
+        tokens = 0;
+      }
+      current.push(note);
+      tokens += noteTokens;
+    }
+
+    if (current.length > 0) {
+      groups.push(current);
+    }
+
+    // Always make progress, even if every note is over budget on its own
+    if (groups.length === notes.length && notes.length > 1) {
+      const paired: SectionNotes[][] = [];
+      for (let i = 0; i < notes.length; i += 2) {
+        paired.push(notes.slice(i, i + 2));
+      }
+      return paired;
+    }
+
+    return groups;
+  }
+
+  /**
+   * Render section notes as JSON for the next prompt
+   */
+  static renderNotes(notes: SectionNotes[]): string {
+    return notes
+      .map(note => `Section ${HierarchicalSummarizer.formatTime(note.start)}-${HierarchicalSummarizer.formatTime(note.end)} ` +
+        `(start ${Math.round(note.start)}s, end ${Math.round(note.end)}s):\n${JSON.stringify({
+          summary: note.summary,
+          keyPoints: note.keyPoints,
+          chapters: note.chapters,
+          quotes: note.quotes,
+          actionItems: note.actionItems,
+          tags: note.tags
+        })}`)
+      .join('\n\n');
+  }
+
+  static formatTime(seconds: number): string {
+    const total = Math.max(0, Math.floor(seconds));
+    const hours = Math.floor(total / 3600);
+    const minutes = Math.floor((total % 3600) / 60);
+    const secs = (total % 60).toString().padStart(2, '0');
+
+    return hours > 0
+      ? `${hours}:${minutes.toString().padStart(2, '0')}:${secs}`
+      : `${minutes.toString().padStart(2, '0')}:${secs}`;
+  }
+
+  private async summarizeSection(section: TranscriptSection, request: SummarizationRequest, jobId?: string): Promise<SectionNotes> {
+    const prompt = `${this.describeEpisode(request)}Section ${section.index + 1}` +
+      (section.end > 0 ? ` (${HierarchicalSummarizer.formatTime(section.start)}-${HierarchicalSummarizer.formatTime(section.end)})` : '') +
+      `:\n${section.text}`;
+
+    const context = `Summary of section ${section.index} for job ${jobId || 'unknown'}`;
+    const { data } = await withRetry(
+      () => summarizationProvider.completeJson(
+        this.withOptions(SECTION_SYSTEM_PROMPT, request),
+        prompt,
+        validateSectionNotes,
+        { signal: request.signal, context }
+      ),
+      {
+        retries: config.summarization.maxRetries,
+        shouldRetry: isWorthRetrying,
+        signal: request.signal,
+        context
+      }
+    );
+
+    return { start: section.start, end: section.end, ...data };
+  }
+
+  private async mergeNotes(group: SectionNotes[], request: SummarizationRequest, jobId?: string): Promise<SectionNotes> {
+    const start = group[0]!.start;
+    const end = group[group.length - 1]!.end;
+    const prompt = `${this.describeEpisode(request)}Section notes:\n${HierarchicalSummarizer.renderNotes(group)}`;
+
+    const context = `Merge of section notes ${Math.round(start)}-${Math.round(end)}s for job ${jobId || 'unknown'}`;
+    const { data } = await withRetry(
+      () => summarizationProvider.completeJson(
+        this.withOptions(MERGE_SYSTEM_PROMPT, request),
+        prompt,
+        validateSectionNotes,
+        { signal: request.signal, context }
+      ),
+      {
+        retries: config.summarization.maxRetries,
+        shouldRetry: isWorthRetrying,
+        signal: request.signal,
+        context
+      }
+    );
+
+    return { start, end, ...data };
+  }
+
+  private withOptions(systemPrompt: string, request: SummarizationRequest): string {
+    const { lang, instructions } = request.options;
+    let prompt = systemPrompt;
+
+    if (lang && lang !== 'en') {
+      prompt += `\n\nWrite the notes in ${lang}.`;
+    }
+
+    if (instructions) {
+      prompt += `\n\nKeep these listener instructions in mind when choosing what to note:\n${instructions}`;
+    }
+
+    if (request.template) {
+      prompt += `\n\n${templateNotesHint(request.template)}`;
+    }
+
+    return prompt;
+  }
+
+  private describeEpisode(request: SummarizationRequest): string {
+    const { metadata } = request;
+    let description = '';
+
+    if (metadata?.title) {
+      description += `Podcast Title: ${metadata.title}\n`;
+    }
+
+    if (metadata?.duration) {
+      description += `Duration: ${Math.round(metadata.duration / 60)} minutes\n`;
+    }
+
+    return description ? `${description}\n` : '';
+  }
+}
+
+// Export singleton instance
+export const hierarchicalSummarizer = new HierarchicalSummarizer();
+export default hierarchicalSummarizer;
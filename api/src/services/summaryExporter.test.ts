@@ -0,0 +1,122 @@
+import { describe, expect, it } from '@jest/globals';
+import { Summary } from '../types';
+import { EXPORT_SECTIONS, SummaryExporter } from './summaryExporter';
+
+const summary: Summary = {
+  id: 'summary-1',
+  userId: 'user-1',
+  jobId: 'job-1',
+  title: 'Building Better Habits',
+  description: 'A conversation about small changes that stick',
+  originalFileName: 'habits.mp3',
+  duration: 125,
+  language: 'en',
+  detailLevel: 'standard',
+  overview: 'Two hosts discuss how tiny routines compound over time.',
+  keyTakeaways: ['Start smaller than feels useful', 'Attach habits to existing cues'],
+  keyPoints: [
+    { title: 'Tiny habits', description: 'Begin with two minutes a day.', timestamp: 10, importance: 'high' },
+    { title: 'Cues', description: 'Anchor the habit to something you already do.', timestamp: 70, importance: 'medium' }
+  ],
+  actionItems: ['Pick one habit for this week'],
+  quotes: ['Consistency beats intensity.'],
+  quoteAttributions: [{ quote: 'Consistency beats intensity.', speakerId: 'speaker_1', start: 15 }],
+  transcript: 'Welcome to the show. Consistency beats intensity. Tie it to your morning coffee.',
+  timestamps: [
+    { start: 0, end: 10, text: 'Welcome to the show.', speaker: 'speaker_0' },
+    { start: 10, end: 60, text: 'Consistency beats intensity.', speaker: 'speaker_1' },
+    { start: 60, end: 125, text: 'Tie it to your morning coffee.', speaker: 'speaker_0' }
+  ],
+  speakers: [
+    { id: 'speaker_0', name: 'Alex', speakingTime: 75, segments: [] },
+    { id: 'speaker_1', speakingTime: 50, segments: [] }
+  ],
+  chapters: [
+    { title: 'Introduction', start: 0, end: 60, summary: 'Why small habits matter.', keyPoints: ['Start small'] },
+    { title: 'Cues', start: 60, end: 125, summary: 'Linking habits to routines.', keyPoints: ['Use existing routines'] }
+  ],
+  template: { id: 'template-1', name: 'Study notes' },
+  sections: [
+    { key: 'terms', title: 'Terms', type: 'list', content: ['Habit stacking', 'Cue'] }
+  ],
+  processingTime: 4200,
+  wordCount: 14,
+  confidence: 0.93,
+  tags: ['habits', 'productivity'],
+  createdAt: new Date('2024-03-01T12:00:00Z'),
+  updatedAt: new Date('2024-03-02T12:00:00Z')
+};
+
+describe('SummaryExporter', () => {
+  describe('resolveSections', () => {
+    it('leaves the transcript out of documents by default', () => {
+      expect(SummaryExporter.resolveSections('markdown')).not.toContain('transcript');
+      expect(SummaryExporter.resolveSections('json')).toContain('transcript');
+    });
+
+    it('limits subtitles to timed sections', () => {
+      expect(SummaryExporter.resolveSections('srt')).toEqual(['transcript']);
+      expect(SummaryExporter.resolveSections('vtt', ['overview', 'chapters', 'transcript'])).toEqual(['chapters', 'transcript']);
+    });
+
+    it('applies exclusions after inclusions', () => {
+      expect(SummaryExporter.resolveSections('text', ['overview', 'quotes'], ['quotes'])).toEqual(['overview']);
+    });
+  });
+
+  describe('text formats', () => {
+    const options = { sections: EXPORT_SECTIONS, speakers: true };
+
+    it('renders markdown', () => {
+      expect(SummaryExporter.toMarkdown(summary, options)).toMatchSnapshot();
+    });
+
+    it('renders plain text', () => {
+      expect(SummaryExporter.toText(summary, options)).toMatchSnapshot();
+    });
+
+    it('renders html', () => {
+      expect(SummaryExporter.toHtml(summary, options)).toMatchSnapshot();
+    });
+
+    it('renders srt', () => {
+      expect(SummaryExporter.toSrt(summary, { sections: ['transcript', 'chapters'], speakers: true })).toMatchSnapshot();
+    });
+
+    it('renders vtt', () => {
+      expect(SummaryExporter.toVtt(summary, { sections: ['transcript', 'keyPoints'], speakers: true })).toMatchSnapshot();
+    });
+  });
+
+  describe('toJson', () => {
+    it('keeps every field by default', () => {
+      expect(JSON.parse(SummaryExporter.toJson(summary))).toEqual(JSON.parse(JSON.stringify(summary)));
+    });
+
+    it('keeps only the fields of the chosen sections and the id', () => {
+      const exported = JSON.parse(SummaryExporter.toJson(summary, { sections: ['overview', 'quotes'] }));
+      expect(Object.keys(exported).sort()).toEqual(['id', 'overview', 'quoteAttributions', 'quotes']);
+    });
+
+    it('drops excluded sections', () => {
+      const sections = SummaryExporter.resolveSections('json', undefined, ['transcript', 'metadata']);
+      const exported = JSON.parse(SummaryExporter.toJson(summary, { sections }));
+      expect(exported).not.toHaveProperty('transcript');
+      expect(exported).not.toHaveProperty('timestamps');
+      expect(exported).not.toHaveProperty('userId');
+      expect(exported).toHaveProperty('chapters');
+    });
+  });
+
+  describe('binary formats', () => {
+    it('renders a pdf', async () => {
+      const pdf = await SummaryExporter.toPdf(summary);
+      expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+    });
+
+    it('renders a docx', async () => {
+      const docx = await SummaryExporter.toDocx(summary);
+      expect(docx.subarray(0, 2).toString()).toBe('PK');
+    });
+  });
+});
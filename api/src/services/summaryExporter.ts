@@ -0,0 +1,979 @@
+import PDFDocument from 'pdfkit';
+import {
+  AlignmentType,
+  Bookmark,
+  Document,
+  ExternalHyperlink,
+  Footer,
+  HeadingLevel,
+  InternalHyperlink,
+  LevelFormat,
+  Packer,
+  PageNumber,
+  Paragraph,
+  ParagraphChild,
+  TextRun
+} from 'docx';
+import { ExportFormat, ExportSection, Summary, SummarySection, Timestamp } from '../types';
+import { HierarchicalSummarizer } from './summarizer';
+import { speakerName } from './speakers';
+
+export interface ExportOptions {
+  sections?: ExportSection[];
+  speakers?: boolean;
+}
+
+export const EXPORT_SECTIONS: ExportSection[] = [
+  'metadata',
+  'overview',
+  'template',
+  'takeaways',
+  'keyPoints',
+  'actionItems',
+  'quotes',
+  'chapters',
+  'transcript'
+];
+
+// Subtitles are timed text, so only the sections that carry a time make sense there
+const SUBTITLE_SECTIONS: ExportSection[] = ['transcript', 'chapters', 'keyPoints'];
+
+// Summary fields that make up each section of a JSON export; every field
+// not listed here is metadata
+const JSON_SECTION_FIELDS: Record<Exclude<ExportSection, 'metadata'>, (keyof Summary)[]> = {
+  overview: ['overview'],
+  template: ['template', 'sections'],
+  takeaways: ['keyTakeaways'],
+  keyPoints: ['keyPoints'],
+  actionItems: ['actionItems'],
+  quotes: ['quotes', 'quoteAttributions'],
+  chapters: ['chapters'],
+  transcript: ['transcript', 'timestamps', 'speakers']
+};
+
+// How long chapter and key point markers stay on screen in subtitles
+const SUBTITLE_MARKER_SECONDS = 5;
+
+// 0.75in margins leave room for the page numbers
+const PDF_MARGIN = 54;
+
+const PDF_COLORS = {
+  text: '#1f2937',
+  heading: '#4338ca',
+  muted: '#6b7280',
+  link: '#2563eb'
+};
+
+// One paragraph or list entry of a template section
+interface SectionEntry {
+  start?: number;
+  text: string;
+}
+
+interface Cue {
+  start: number;
+  end: number;
+  text: string;
+  speaker?: string;
+}
+
+/**
+ * Renders summaries into downloadable formats
+ */
+export class SummaryExporter {
+  /**
+   * Work out which sections an export should contain. Without an include
+   * list, JSON gets everything, other documents everything but the
+   * transcript and subtitles only the transcript.
+   */
+  static resolveSections(format: ExportFormat, include?: ExportSection[], exclude: ExportSection[] = []): ExportSection[] {
+    const subtitles = format === 'srt' || format === 'vtt';
+    const defaults = subtitles
+      ? ['transcript']
+      : EXPORT_SECTIONS.filter(section => format === 'json' || section !== 'transcript');
+
+    return EXPORT_SECTIONS.filter(section =>
+      (include ? include.includes(section) : defaults.includes(section)) &&
+      !exclude.includes(section) &&
+      (!subtitles || SUBTITLE_SECTIONS.includes(section))
+    );
+  }
+
+  /**
+   * The stored summary with only the fields of the chosen sections. The id
+   * is always kept.
+   */
+  static toJson(summary: Summary, options: ExportOptions = {}): string {
+    const sections = new Set(options.sections || EXPORT_SECTIONS);
+    const kept = (field: keyof Summary): boolean => {
+      const section = (Object.keys(JSON_SECTION_FIELDS) as (keyof typeof JSON_SECTION_FIELDS)[])
+        .find(name => JSON_SECTION_FIELDS[name].includes(field));
+      return field === 'id' || sections.has(section || 'metadata');
+    };
+
+    const payload = Object.fromEntries(
+      Object.entries(summary).filter(([field]) => kept(field as keyof Summary))
+    );
+    return JSON.stringify(payload, null, 2);
+  }
+
+  static toMarkdown(summary: Summary, options: ExportOptions = {}): string {
+    const sections = SummaryExporter.sectionsOf(options);
+    const transcript = sections.has('transcript') && summary.timestamps.length > 0;
+    const time = (seconds: number, label = HierarchicalSummarizer.formatTime(seconds)) => {
+      const target = SummaryExporter.timestampTarget(summary, seconds, transcript, '#segment-');
+      return target ? `[${label}](${target})` : `[${label}]`;
+    };
+    let md = `# ${summary.title}\n\n`;
+
+    if (sections.has('metadata')) {
+      if (summary.episode?.showTitle) {
+        md += `*${summary.episode.showTitle}*\n\n`;
+      }
+      if (summary.description) {
+        md += `${summary.description}\n\n`;
+      }
+
+      md += `**Duration:** ${Math.round(summary.duration / 60)} minutes\n`;
+      md += `**Language:** ${summary.language}\n`;
+      md += `**Detail Level:** ${summary.detailLevel}\n`;
+      md += `**Created:** ${summary.createdAt.toISOString()}\n`;
+      if (summary.originalUrl) {
+        md += `**Source:** <${summary.originalUrl}>\n`;
+      }
+      md += '\n';
+    }
+
+    if (sections.has('overview')) {
+      md += `## Overview\n\n${summary.overview}\n\n`;
+    }
+
+    if (sections.has('template')) {
+      (summary.sections || []).forEach(section => {
+        md += `## ${section.title}\n\n`;
+        SummaryExporter.sectionEntries(section).forEach(entry => {
+          const stamp = entry.start !== undefined ? `${time(entry.start)} ` : '';
+          md += section.type === 'text' ? `${entry.text}\n\n` : `- ${stamp}${entry.text}\n`;
+        });
+        if (section.type !== 'text') {
+          md += '\n';
+        }
+      });
+    }
+
+    if (sections.has('takeaways') && summary.keyTakeaways.length > 0) {
+      md += `## Key Takeaways\n\n`;
+      summary.keyTakeaways.forEach((takeaway, i) => {
+        md += `${i + 1}. ${takeaway}\n`;
+      });
+      md += '\n';
+    }
+
+    if (sections.has('keyPoints') && summary.keyPoints.length > 0) {
+      md += `## Key Points\n\n`;
+      summary.keyPoints.forEach(point => {
+        md += `### ${point.title}\n\n`;
+        if (point.timestamp !== undefined) {
+          md += `${time(point.timestamp)} `;
+        }
+        md += `${point.description}\n\n`;
+      });
+    }
+
+    if (sections.has('actionItems') && summary.actionItems.length > 0) {
+      md += `## Action Items\n\n`;
+      summary.actionItems.forEach(item => {
+        md += `- [ ] ${item}\n`;
+      });
+      md += '\n';
+    }
+
+    if (sections.has('quotes') && summary.quotes.length > 0) {
+      md += `## Notable Quotes\n\n`;
+      summary.quotes.forEach(quote => {
+        const speaker = SummaryExporter.quoteSpeaker(summary, quote, options);
+        md += `> "${quote}"${speaker ? `\n>\n> — ${speaker}` : ''}\n\n`;
+      });
+    }
+
+    if (sections.has('chapters') && summary.chapters && summary.chapters.length > 0) {
+      md += `## Chapters\n\n`;
+      summary.chapters.forEach(chapter => {
+        md += `### ${time(chapter.start, SummaryExporter.chapterRange(chapter.start, chapter.end))} ${chapter.title}\n\n`;
+        if (chapter.summary) {
+          md += `${chapter.summary}\n\n`;
+        }
+      });
+    }
+
+    if (transcript) {
+      md += `## Transcript\n\n`;
+      SummaryExporter.transcriptLines(summary, options).forEach((line, index) => {
+        const speaker = line.speaker ? `**${line.speaker}:** ` : '';
+        md += `<a id="segment-${index}"></a>**[${HierarchicalSummarizer.formatTime(line.start)}]** ${speaker}${line.text}\n\n`;
+      });
+    }
+
+    return md;
+  }
+
+  static toText(summary: Summary, options: ExportOptions = {}): string {
+    const sections = SummaryExporter.sectionsOf(options);
+    const heading = (title: string) => `${title}\n${'-'.repeat(title.length)}\n\n`;
+    let text = `${summary.title}\n${'='.repeat(summary.title.length)}\n\n`;
+
+    if (sections.has('metadata')) {
+      if (summary.episode?.showTitle) {
+        text += `${summary.episode.showTitle}\n\n`;
+      }
+      if (summary.description) {
+        text += `${summary.description}\n\n`;
+      }
+
+      text += `Duration: ${Math.round(summary.duration / 60)} minutes\n`;
+      text += `Language: ${summary.language}\n`;
+      text += `Detail Level: ${summary.detailLevel}\n`;
+      text += `Created: ${summary.createdAt.toISOString()}\n`;
+      if (summary.originalUrl) {
+        text += `Source: ${summary.originalUrl}\n`;
+      }
+      text += '\n';
+    }
+
+    if (sections.has('overview')) {
+      text += `${heading('OVERVIEW')}${summary.overview}\n\n`;
+    }
+
+    if (sections.has('template')) {
+      (summary.sections || []).forEach(section => {
+        text += heading(section.title.toUpperCase());
+        SummaryExporter.sectionEntries(section).forEach(entry => {
+          const time = entry.start !== undefined ? `[${HierarchicalSummarizer.formatTime(entry.start)}] ` : '';
+          text += section.type === 'text' ? `${entry.text}\n` : `• ${time}${entry.text}\n`;
+        });
+        text += '\n';
+      });
+    }
+
+    if (sections.has('takeaways') && summary.keyTakeaways.length > 0) {
+      text += heading('KEY TAKEAWAYS');
+      summary.keyTakeaways.forEach((takeaway, i) => {
+        text += `${i + 1}. ${takeaway}\n`;
+      });
+      text += '\n';
+    }
+
+    if (sections.has('keyPoints') && summary.keyPoints.length > 0) {
+      text += heading('KEY POINTS');
+      summary.keyPoints.forEach(point => {
+        const time = point.timestamp !== undefined ? `[${HierarchicalSummarizer.formatTime(point.timestamp)}] ` : '';
+        text += `${time}${point.title}\n   ${point.description}\n\n`;
+      });
+    }
+
+    if (sections.has('actionItems') && summary.actionItems.length > 0) {
+      text += heading('ACTION ITEMS');
+      summary.actionItems.forEach(item => {
+        text += `• ${item}\n`;
+      });
+      text += '\n';
+    }
+
+    if (sections.has('quotes') && summary.quotes.length > 0) {
+      text += heading('NOTABLE QUOTES');
+      summary.quotes.forEach(quote => {
+        const speaker = SummaryExporter.quoteSpeaker(summary, quote, options);
+        text += `"${quote}"${speaker ? `\n   — ${speaker}` : ''}\n\n`;
+      });
+    }
+
+    if (sections.has('chapters') && summary.chapters && summary.chapters.length > 0) {
+      text += heading('CHAPTERS');
+      summary.chapters.forEach(chapter => {
+        text += `[${SummaryExporter.chapterRange(chapter.start, chapter.end)}] ${chapter.title}\n`;
+        if (chapter.summary) {
+          text += `   ${chapter.summary}\n`;
+        }
+        text += '\n';
+      });
+    }
+
+    if (sections.has('transcript') && summary.timestamps.length > 0) {
+      text += heading('TRANSCRIPT');
+      SummaryExporter.transcriptLines(summary, options).forEach(line => {
+        const speaker = line.speaker ? `${line.speaker}: ` : '';
+        text += `[${HierarchicalSummarizer.formatTime(line.start)}] ${speaker}${line.text}\n`;
+      });
+      text += '\n';
+    }
+
+    return text;
+  }
+
+  /**
+   * Render the transcript as SubRip subtitles
+   */
+  static toSrt(summary: Summary, options: ExportOptions = {}): string {
+    return SummaryExporter.cues(summary, options)
+      .map((cue, i) => {
+        const speaker = cue.speaker ? `${cue.speaker}: ` : '';
+        return `${i + 1}\n${SummaryExporter.cueTime(cue.start, ',')} --> ${SummaryExporter.cueTime(cue.end, ',')}\n${speaker}${cue.text}\n`;
+      })
+      .join('\n');
+  }
+
+  /**
+   * Render the transcript as WebVTT, using voice spans for speaker labels
+   */
+  static toVtt(summary: Summary, options: ExportOptions = {}): string {
+    const cues = SummaryExporter.cues(summary, options).map((cue, i) => {
+      const text = SummaryExporter.escapeVtt(cue.text);
+      const voiced = cue.speaker ? `<v ${SummaryExporter.escapeVtt(cue.speaker)}>${text}` : text;
+      return `${i + 1}\n${SummaryExporter.cueTime(cue.start, '.')} --> ${SummaryExporter.cueTime(cue.end, '.')}\n${voiced}\n`;
+    });
+
+    return ['WEBVTT\n', ...cues].join('\n');
+  }
+
+  /**
+   * Render a summary as a single HTML page with inline styles, so it can be
+   * opened or shared without any other files
+   */
+  static toHtml(summary: Summary, options: ExportOptions = {}): string {
+    const sections = SummaryExporter.sectionsOf(options);
+    const transcript = sections.has('transcript') && summary.timestamps.length > 0;
+    const esc = SummaryExporter.escapeHtml;
+    const time = (seconds: number, label = HierarchicalSummarizer.formatTime(seconds)) => {
+      const target = SummaryExporter.timestampTarget(summary, seconds, transcript, '#segment-');
+      return target
+        ? `<a class="time" href="${esc(target)}">[${esc(label)}]</a>`
+        : `<span class="time">[${esc(label)}]</span>`;
+    };
+    const body: string[] = [`<h1>${esc(summary.title)}</h1>`];
+
+    if (sections.has('metadata')) {
+      if (summary.episode?.showTitle) {
+        body.push(`<p class="show">${esc(summary.episode.showTitle)}</p>`);
+      }
+
+      const metadata = [
+        `Duration: ${Math.round(summary.duration / 60)} minutes`,
+        `Language: ${summary.language}`,
+        `Detail level: ${summary.detailLevel}`,
+        `Created: ${summary.createdAt.toISOString().slice(0, 10)}`
+      ];
+      if (summary.episode?.publishedAt) {
+        metadata.push(`Published: ${summary.episode.publishedAt.toISOString().slice(0, 10)}`);
+      }
+      body.push(`<p class="meta">${metadata.map(esc).join(' &middot; ')}</p>`);
+
+      if (summary.originalUrl) {
+        body.push(`<p class="meta"><a href="${esc(summary.originalUrl)}">${esc(summary.originalUrl)}</a></p>`);
+      }
+      if (summary.description) {
+        body.push(`<p>${esc(summary.description)}</p>`);
+      }
+    }
+
+    if (sections.has('overview')) {
+      body.push('<h2>Overview</h2>', `<p>${esc(summary.overview)}</p>`);
+    }
+
+    if (sections.has('template')) {
+      (summary.sections || []).forEach(section => {
+        const entries = SummaryExporter.sectionEntries(section);
+        body.push(`<h2>${esc(section.title)}</h2>`);
+        if (section.type === 'text') {
+          body.push(...entries.map(entry => `<p>${esc(entry.text)}</p>`));
+        } else {
+          body.push('<ul>', ...entries.map(entry =>
+            `<li>${entry.start !== undefined ? `${time(entry.start)} ` : ''}${esc(entry.text)}</li>`
+          ), '</ul>');
+        }
+      });
+    }
+
+    if (sections.has('takeaways') && summary.keyTakeaways.length > 0) {
+      body.push('<h2>Key Takeaways</h2>', '<ol>', ...summary.keyTakeaways.map(takeaway => `<li>${esc(takeaway)}</li>`), '</ol>');
+    }
+
+    if (sections.has('keyPoints') && summary.keyPoints.length > 0) {
+      body.push('<h2>Key Points</h2>');
+      summary.keyPoints.forEach(point => {
+        const stamp = point.timestamp !== undefined ? `${time(point.timestamp)} ` : '';
+        body.push(`<h3>${stamp}${esc(point.title)}</h3>`, `<p>${esc(point.description)}</p>`);
+      });
+    }
+
+    if (sections.has('actionItems') && summary.actionItems.length > 0) {
+      body.push('<h2>Action Items</h2>', '<ul>', ...summary.actionItems.map(item => `<li>${esc(item)}</li>`), '</ul>');
+    }
+
+    if (sections.has('quotes') && summary.quotes.length > 0) {
+      body.push('<h2>Notable Quotes</h2>');
+      summary.quotes.forEach(quote => {
+        const speaker = SummaryExporter.quoteSpeaker(summary, quote, options);
+        body.push(`<blockquote>&ldquo;${esc(quote)}&rdquo;${speaker ? `<cite>${esc(speaker)}</cite>` : ''}</blockquote>`);
+      });
+    }
+
+    if (sections.has('chapters') && summary.chapters && summary.chapters.length > 0) {
+      body.push('<h2>Chapters</h2>');
+      summary.chapters.forEach(chapter => {
+        body.push(`<h3>${time(chapter.start, SummaryExporter.chapterRange(chapter.start, chapter.end))} ${esc(chapter.title)}</h3>`);
+        if (chapter.summary) {
+          body.push(`<p>${esc(chapter.summary)}</p>`);
+        }
+      });
+    }
+
+    if (transcript) {
+      body.push('<h2>Transcript</h2>', '<div class="transcript">');
+      SummaryExporter.transcriptLines(summary, options).forEach((line, index) => {
+        const speaker = line.speaker ? `<strong>${esc(line.speaker)}:</strong> ` : '';
+        body.push(`<p id="segment-${index}"><span class="time">[${HierarchicalSummarizer.formatTime(line.start)}]</span> ${speaker}${esc(line.text)}</p>`);
+      });
+      body.push('</div>');
+    }
+
+    return [
+      '<!DOCTYPE html>',
+      `<html lang="${esc(summary.language)}">`,
+      '<head>',
+      '<meta charset="utf-8">',
+      '<meta name="viewport" content="width=device-width, initial-scale=1">',
+      `<title>${esc(summary.title)}</title>`,
+      `<style>${HTML_STYLES}</style>`,
+      '</head>',
+      '<body>',
+      '<main>',
+      ...body,
+      '</main>',
+      '</body>',
+      '</html>',
+      ''
+    ].join('\n');
+  }
+
+  /**
+   * Render a summary as a Word document
+   */
+  static toDocx(summary: Summary, options: ExportOptions = {}): Promise<Buffer> {
+    const sections = SummaryExporter.sectionsOf(options);
+    const transcript = sections.has('transcript') && summary.timestamps.length > 0;
+    const children: Paragraph[] = [new Paragraph({ text: summary.title, heading: HeadingLevel.TITLE })];
+    const heading = (text: string) => children.push(new Paragraph({ text, heading: HeadingLevel.HEADING_1 }));
+    const time = (seconds: number, label = HierarchicalSummarizer.formatTime(seconds)): ParagraphChild => {
+      const run = new TextRun({ text: `[${label}] `, style: 'Hyperlink', bold: true });
+      if (transcript) {
+        return new InternalHyperlink({ anchor: `segment_${SummaryExporter.segmentIndexAt(summary, seconds)}`, children: [run] });
+      }
+      const target = SummaryExporter.timestampTarget(summary, seconds, false, '');
+      return target ? new ExternalHyperlink({ link: target, children: [run] }) : new TextRun({ text: `[${label}] `, bold: true });
+    };
+
+    if (sections.has('metadata')) {
+      if (summary.episode?.showTitle) {
+        children.push(new Paragraph({ text: summary.episode.showTitle, heading: HeadingLevel.HEADING_3 }));
+      }
+
+      const metadata = [
+        `Duration: ${Math.round(summary.duration / 60)} minutes`,
+        `Language: ${summary.language}`,
+        `Detail level: ${summary.detailLevel}`,
+        `Created: ${summary.createdAt.toISOString().slice(0, 10)}`
+      ];
+      if (summary.episode?.publishedAt) {
+        metadata.push(`Published: ${summary.episode.publishedAt.toISOString().slice(0, 10)}`);
+      }
+      children.push(new Paragraph({ children: [new TextRun({ text: metadata.join('   |   '), color: '6b7280', size: 18 })] }));
+
+      if (summary.originalUrl) {
+        children.push(new Paragraph({
+          children: [new ExternalHyperlink({ link: summary.originalUrl, children: [new TextRun({ text: summary.originalUrl, style: 'Hyperlink' })] })]
+        }));
+      }
+      if (summary.description) {
+        children.push(new Paragraph({ text: summary.description, spacing: { before: 120 } }));
+      }
+    }
+
+    if (sections.has('overview')) {
+      heading('Overview');
+      children.push(new Paragraph({ text: summary.overview, alignment: AlignmentType.JUSTIFIED }));
+    }
+
+    if (sections.has('template')) {
+      (summary.sections || []).forEach(section => {
+        heading(section.title);
+        SummaryExporter.sectionEntries(section).forEach(entry => {
+          children.push(section.type === 'text'
+            ? new Paragraph({ text: entry.text, alignment: AlignmentType.JUSTIFIED })
+            : new Paragraph({
+              children: [...(entry.start !== undefined ? [time(entry.start)] : []), new TextRun(entry.text)],
+              bullet: { level: 0 }
+            }));
+        });
+      });
+    }
+
+    if (sections.has('takeaways') && summary.keyTakeaways.length > 0) {
+      heading('Key Takeaways');
+      summary.keyTakeaways.forEach(takeaway => {
+        children.push(new Paragraph({ text: takeaway, numbering: { reference: 'takeaways', level: 0 } }));
+      });
+    }
+
+    if (sections.has('keyPoints') && summary.keyPoints.length > 0) {
+      heading('Key Points');
+      summary.keyPoints.forEach(point => {
+        const stamp = point.timestamp !== undefined ? [time(point.timestamp)] : [];
+        children.push(
+          new Paragraph({ children: [...stamp, new TextRun({ text: point.title, bold: true })], spacing: { before: 120 } }),
+          new Paragraph({ text: point.description })
+        );
+      });
+    }
+
+    if (sections.has('actionItems') && summary.actionItems.length > 0) {
+      heading('Action Items');
+      summary.actionItems.forEach(item => {
+        children.push(new Paragraph({ text: item, bullet: { level: 0 } }));
+      });
+    }
+
+    if (sections.has('quotes') && summary.quotes.length > 0) {
+      heading('Notable Quotes');
+      summary.quotes.forEach(quote => {
+        const speaker = SummaryExporter.quoteSpeaker(summary, quote, options);
+        children.push(new Paragraph({
+          children: [
+            new TextRun({ text: `“${quote}”`, italics: true, color: '6b7280' }),
+            ...(speaker ? [new TextRun({ text: ` — ${speaker}`, color: '6b7280' })] : [])
+          ],
+          indent: { left: 360 },
+          spacing: { after: 120 }
+        }));
+      });
+    }
+
+    if (sections.has('chapters') && summary.chapters && summary.chapters.length > 0) {
+      heading('Chapters');
+      summary.chapters.forEach(chapter => {
+        children.push(new Paragraph({
+          children: [time(chapter.start, SummaryExporter.chapterRange(chapter.start, chapter.end)), new TextRun({ text: chapter.title, bold: true })],
+          spacing: { before: 120 }
+        }));
+        if (chapter.summary) {
+          children.push(new Paragraph({ text: chapter.summary }));
+        }
+      });
+    }
+
+    if (transcript) {
+      children.push(new Paragraph({ text: 'Transcript', heading: HeadingLevel.HEADING_1, pageBreakBefore: true }));
+      SummaryExporter.transcriptLines(summary, options).forEach((line, index) => {
+        const speaker = line.speaker ? [new TextRun({ text: `${line.speaker}: `, bold: true })] : [];
+        children.push(new Paragraph({
+          children: [
+            new Bookmark({
+              id: `segment_${index}`,
+              children: [new TextRun({ text: `[${HierarchicalSummarizer.formatTime(line.start)}] `, color: '6b7280', size: 18 })]
+            }),
+            ...speaker,
+            new TextRun(line.text)
+          ],
+          spacing: { after: 80 }
+        }));
+      });
+    }
+
+    const doc = new Document({
+      title: summary.title,
+      subject: summary.episode?.showTitle || 'Podcast summary',
+      keywords: summary.tags.join(', '),
+      numbering: {
+        config: [{
+          reference: 'takeaways',
+          levels: [{ level: 0, format: LevelFormat.DECIMAL, text: '%1.', alignment: AlignmentType.START }]
+        }]
+      },
+      sections: [{
+        footers: {
+          default: new Footer({
+            children: [new Paragraph({
+              alignment: AlignmentType.CENTER,
+              children: [new TextRun({ children: ['Page ', PageNumber.CURRENT, ' of ', PageNumber.TOTAL_PAGES], size: 16, color: '6b7280' })]
+            })]
+          })
+        },
+        children
+      }]
+    });
+
+    return Packer.toBuffer(doc);
+  }
+
+  /**
+   * Render a summary as a PDF. Uses the standard PDF fonts, so nothing is
+   * fetched over the network.
+   */
+  static toPdf(summary: Summary, options: ExportOptions = {}): Promise<Buffer> {
+    const sections = SummaryExporter.sectionsOf(options);
+    const includeTranscript = sections.has('transcript') && summary.timestamps.length > 0;
+    const doc = new PDFDocument({
+      size: 'A4',
+      margin: PDF_MARGIN,
+      bufferPages: true,
+      info: {
+        Title: summary.title,
+        Subject: summary.episode?.showTitle || 'Podcast summary',
+        Keywords: summary.tags.join(', '),
+        CreationDate: new Date()
+      }
+    });
+
+    const chunks: Buffer[] = [];
+    const done = new Promise<Buffer>((resolve, reject) => {
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+    });
+
+    const link = SummaryExporter.timestampLinker(doc, summary, includeTranscript);
+
+    // Title and metadata
+    doc.font('Helvetica-Bold').fontSize(22).fillColor(PDF_COLORS.text).text(summary.title);
+
+    if (sections.has('metadata')) {
+      if (summary.episode?.showTitle) {
+        doc.moveDown(0.2).font('Helvetica').fontSize(13).fillColor(PDF_COLORS.muted).text(summary.episode.showTitle);
+      }
+
+      const metadata = [
+        `Duration: ${Math.round(summary.duration / 60)} minutes`,
+        `Language: ${summary.language}`,
+        `Detail level: ${summary.detailLevel}`,
+        `Created: ${summary.createdAt.toISOString().slice(0, 10)}`
+      ];
+      if (summary.episode?.publishedAt) {
+        metadata.push(`Published: ${summary.episode.publishedAt.toISOString().slice(0, 10)}`);
+      }
+      doc.moveDown(0.5).font('Helvetica').fontSize(9).fillColor(PDF_COLORS.muted).text(metadata.join('   |   '));
+      if (summary.originalUrl) {
+        doc.text(summary.originalUrl, { link: summary.originalUrl, underline: true });
+      }
+      if (summary.description) {
+        doc.moveDown(0.5).fontSize(10).fillColor(PDF_COLORS.text).text(summary.description);
+      }
+    }
+
+    if (sections.has('overview')) {
+      SummaryExporter.pdfHeading(doc, 'Overview');
+      doc.text(summary.overview, { align: 'justify' });
+    }
+
+    if (sections.has('template')) {
+      (summary.sections || []).forEach(section => {
+        const entries = SummaryExporter.sectionEntries(section);
+        SummaryExporter.pdfHeading(doc, section.title);
+        if (section.type === 'text') {
+          entries.forEach(entry => doc.text(entry.text, { align: 'justify' }));
+        } else if (entries.some(entry => entry.start !== undefined)) {
+          entries.forEach(entry => {
+            if (entry.start !== undefined) {
+              link(`[${HierarchicalSummarizer.formatTime(entry.start)}] `, entry.start);
+            }
+            doc.font('Helvetica').fillColor(PDF_COLORS.text).text(entry.text, { paragraphGap: 4 });
+          });
+        } else {
+          doc.list(entries.map(entry => entry.text), { bulletRadius: 2, paragraphGap: 4 });
+        }
+      });
+    }
+
+    if (sections.has('takeaways') && summary.keyTakeaways.length > 0) {
+      SummaryExporter.pdfHeading(doc, 'Key Takeaways');
+      doc.list(summary.keyTakeaways, { listType: 'numbered', paragraphGap: 4 });
+    }
+
+    if (sections.has('keyPoints') && summary.keyPoints.length > 0) {
+      SummaryExporter.pdfHeading(doc, 'Key Points');
+      summary.keyPoints.forEach(point => {
+        if (point.timestamp !== undefined) {
+          link(`[${HierarchicalSummarizer.formatTime(point.timestamp)}] `, point.timestamp);
+        }
+        doc.font('Helvetica-Bold').fillColor(PDF_COLORS.text).text(point.title);
+        doc.font('Helvetica').text(point.description, { paragraphGap: 8 });
+      });
+    }
+
+    if (sections.has('actionItems') && summary.actionItems.length > 0) {
+      SummaryExporter.pdfHeading(doc, 'Action Items');
+      doc.list(summary.actionItems, { bulletRadius: 2, paragraphGap: 4 });
+    }
+
+    if (sections.has('quotes') && summary.quotes.length > 0) {
+      SummaryExporter.pdfHeading(doc, 'Notable Quotes');
+      summary.quotes.forEach(quote => {
+        const speaker = SummaryExporter.quoteSpeaker(summary, quote, options);
+        doc.font('Helvetica-Oblique').fillColor(PDF_COLORS.muted)
+          .text(`"${quote}"`, doc.page.margins.left + 16, undefined, { paragraphGap: speaker ? 2 : 8 });
+        if (speaker) {
+          doc.font('Helvetica').text(`— ${speaker}`, { paragraphGap: 8 });
+        }
+      });
+      doc.x = doc.page.margins.left;
+    }
+
+    if (sections.has('chapters') && summary.chapters && summary.chapters.length > 0) {
+      SummaryExporter.pdfHeading(doc, 'Chapters');
+      summary.chapters.forEach(chapter => {
+        link(`[${SummaryExporter.chapterRange(chapter.start, chapter.end)}] `, chapter.start);
+        doc.font('Helvetica-Bold').fillColor(PDF_COLORS.text).text(chapter.title);
+        if (chapter.summary) {
+          doc.font('Helvetica').text(chapter.summary, { paragraphGap: 8 });
+        }
+      });
+    }
+
+    if (includeTranscript) {
+      doc.addPage();
+      SummaryExporter.pdfHeading(doc, 'Transcript');
+      SummaryExporter.transcriptLines(summary, options).forEach((line, index) => {
+        doc.addNamedDestination(`segment-${index}`, 'XYZ', doc.page.margins.left, doc.y, null);
+        doc.font('Helvetica-Bold').fontSize(9).fillColor(PDF_COLORS.muted)
+          .text(`[${HierarchicalSummarizer.formatTime(line.start)}] `, { continued: true });
+        if (line.speaker) {
+          doc.fontSize(10).fillColor(PDF_COLORS.text).text(`${line.speaker}: `, { continued: true });
+        }
+        doc.font('Helvetica').fontSize(10).fillColor(PDF_COLORS.text).text(line.text, { paragraphGap: 4 });
+      });
+    }
+
+    // Page numbers go in the bottom margin of every buffered page
+    const { start, count } = doc.bufferedPageRange();
+    for (let i = start; i < start + count; i++) {
+      doc.switchToPage(i);
+      const bottom = doc.page.margins.bottom;
+      doc.page.margins.bottom = 0;
+      doc.font('Helvetica').fontSize(8).fillColor(PDF_COLORS.muted).text(
+        `Page ${i + 1} of ${count}`,
+        doc.page.margins.left,
+        doc.page.height - bottom / 2,
+        { width: doc.page.width - doc.page.margins.left - doc.page.margins.right, align: 'center', lineBreak: false }
+      );
+      doc.page.margins.bottom = bottom;
+    }
+
+    doc.end();
+    return done;
+  }
+
+  /**
+   * Write a timestamp label that links to that moment: the matching
+   * transcript line when the appendix is included, otherwise the audio at
+   * that time. The rest of the line continues after the label.
+   */
+  private static timestampLinker(doc: PDFKit.PDFDocument, summary: Summary, includeTranscript: boolean) {
+    return (label: string, seconds: number): void => {
+      doc.font('Helvetica-Bold').fillColor(PDF_COLORS.link);
+      const { x, y } = doc;
+      const width = doc.widthOfString(label);
+      const height = doc.currentLineHeight();
+
+      const target = SummaryExporter.timestampTarget(summary, seconds, includeTranscript, 'segment-');
+      if (target && includeTranscript) {
+        doc.goTo(x, y, width, height, target);
+      } else if (target) {
+        doc.link(x, y, width, height, target);
+      }
+
+      doc.text(label, { continued: true });
+    };
+  }
+
+  /**
+   * Where a timestamp should point: the matching transcript line when the
+   * transcript is part of the export, otherwise the audio at that time
+   */
+  private static timestampTarget(summary: Summary, seconds: number, linkTranscript: boolean, anchorPrefix: string): string | undefined {
+    if (linkTranscript) {
+      return `${anchorPrefix}${SummaryExporter.segmentIndexAt(summary, seconds)}`;
+    }
+
+    const audioUrl = summary.episode?.audioUrl || (summary.episode ? undefined : summary.originalUrl);
+    return audioUrl ? `${audioUrl}#t=${Math.floor(seconds)}` : undefined;
+  }
+
+  private static segmentIndexAt(summary: Summary, seconds: number): number {
+    let index = 0;
+    summary.timestamps.forEach((segment, i) => {
+      if (segment.start <= seconds) index = i;
+    });
+    return index;
+  }
+
+  /**
+   * Template section content as paragraphs or list entries. An item reads
+   * as its first text field followed by the other fields by name, and is
+   * placed at its first timestamp field.
+   */
+  private static sectionEntries(section: SummarySection): SectionEntry[] {
+    if (typeof section.content === 'string') {
+      return [{ text: section.content }];
+    }
+
+    return section.content.map(item => {
+      if (typeof item === 'string') {
+        return { text: item };
+      }
+
+      let start: number | undefined;
+      const parts: string[] = [];
+      for (const field of section.fields || []) {
+        const value = item[field.name];
+        if (value === undefined) continue;
+
+        if (field.type === 'timestamp' && start === undefined) {
+          start = Number(value);
+          continue;
+        }
+
+        const text = field.type === 'timestamp'
+          ? HierarchicalSummarizer.formatTime(Number(value))
+          : field.type === 'boolean' ? (value ? 'yes' : 'no') : String(value);
+        const label = field.name.replace(/_/g, ' ').replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase();
+        parts.push(parts.length === 0 && field.type === 'string' ? text : `${label.charAt(0).toUpperCase()}${label.slice(1)}: ${text}`);
+      }
+
+      return { start, text: parts.join(' — ') };
+    });
+  }
+
+  private static sectionsOf(options: ExportOptions): Set<ExportSection> {
+    return new Set(options.sections || EXPORT_SECTIONS.filter(section => section !== 'transcript'));
+  }
+
+  /**
+   * Transcript segments with the speaker talking at the time, when known
+   */
+  private static transcriptLines(summary: Summary, options: ExportOptions): Cue[] {
+    return summary.timestamps.map(segment => ({
+      start: segment.start,
+      end: segment.end,
+      text: segment.text.trim(),
+      speaker: options.speakers === false ? undefined : SummaryExporter.speakerAt(summary, segment)
+    }));
+  }
+
+  /**
+   * Name of whoever said a quote, when it could be attributed
+   */
+  private static quoteSpeaker(summary: Summary, quote: string, options: ExportOptions): string | undefined {
+    if (options.speakers === false) return undefined;
+    const attribution = summary.quoteAttributions?.find(candidate => candidate.quote === quote);
+    return speakerName(summary, attribution?.speakerId);
+  }
+
+  /**
+   * Find who was speaking in the middle of a segment
+   */
+  private static speakerAt(summary: Summary, segment: Timestamp): string | undefined {
+    if (segment.speaker) {
+      return speakerName(summary, segment.speaker);
+    }
+
+    const middle = (segment.start + segment.end) / 2;
+    const speaker = summary.speakers?.find(candidate =>
+      candidate.segments.some(turn => turn.start <= middle && middle < turn.end)
+    );
+    return speaker ? speaker.name || speaker.id : undefined;
+  }
+
+  /**
+   * Subtitle cues in time order: transcript lines plus short markers for
+   * chapters and key points when those sections are requested
+   */
+  private static cues(summary: Summary, options: ExportOptions): Cue[] {
+    const sections = new Set(options.sections || ['transcript']);
+    const marker = (start: number, text: string): Cue => ({ start, end: start + SUBTITLE_MARKER_SECONDS, text });
+    const cues: Cue[] = [];
+
+    if (sections.has('transcript')) {
+      cues.push(...SummaryExporter.transcriptLines(summary, options));
+    }
+    if (sections.has('chapters')) {
+      (summary.chapters || []).forEach(chapter => {
+        cues.push({ ...marker(chapter.start, `Chapter: ${chapter.title}`), end: Math.min(chapter.end, chapter.start + SUBTITLE_MARKER_SECONDS) });
+      });
+    }
+    if (sections.has('keyPoints')) {
+      summary.keyPoints.forEach(point => {
+        if (point.timestamp !== undefined) cues.push(marker(point.timestamp, `Key point: ${point.title}`));
+      });
+    }
+
+    return cues
+      .filter(cue => cue.text)
+      .map(cue => ({ ...cue, end: Math.max(cue.end, cue.start + 0.5) }))
+      .sort((a, b) => a.start - b.start);
+  }
+
+  /**
+   * Subtitle timestamp, HH:MM:SS followed by the given separator and milliseconds
+   */
+  private static cueTime(seconds: number, separator: ',' | '.'): string {
+    const totalMs = Math.max(0, Math.round(seconds * 1000));
+    const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
+    const hours = Math.floor(totalMs / 3600000);
+    const minutes = Math.floor((totalMs % 3600000) / 60000);
+    const secs = Math.floor((totalMs % 60000) / 1000);
+
+    return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(totalMs % 1000, 3)}`;
+  }
+
+  private static chapterRange(start: number, end: number): string {
+    return `${HierarchicalSummarizer.formatTime(start)} - ${HierarchicalSummarizer.formatTime(end)}`;
+  }
+
+  private static escapeHtml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+
+  private static escapeVtt(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  }
+
+  private static pdfHeading(doc: PDFKit.PDFDocument, title: string): void {
+    doc.moveDown(1.2)
+      .font('Helvetica-Bold').fontSize(14).fillColor(PDF_COLORS.heading).text(title)
+      .moveDown(0.4)
+      .font('Helvetica').fontSize(10.5).fillColor(PDF_COLORS.text);
+  }
+}
+
+const HTML_STYLES = [
+  'body{margin:0;background:#f9fafb;color:#1f2937;font:16px/1.6 -apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,sans-serif}',
+  'main{max-width:760px;margin:0 auto;padding:48px 24px;background:#fff}',
+  'h1{margin:0 0 8px;font-size:2em;line-height:1.2}',
+  'h2{margin:40px 0 12px;color:#4338ca;font-size:1.3em}',
+  'h3{margin:20px 0 4px;font-size:1.05em}',
+  '.show{margin:0;color:#6b7280;font-size:1.15em}',
+  '.meta{margin:4px 0;color:#6b7280;font-size:.85em}',
+  'a{color:#2563eb}',
+  '.time{color:#2563eb;font-weight:600;text-decoration:none;font-variant-numeric:tabular-nums}',
+  'span.time{color:#6b7280}',
+  'blockquote{margin:12px 0;padding-left:16px;border-left:3px solid #c7d2fe;color:#4b5563;font-style:italic}',
+  'cite{display:block;margin-top:4px;font-style:normal;font-size:.9em}',
+  'cite::before{content:"— "}',
+  '.transcript p{margin:6px 0;font-size:.95em}',
+  '.transcript :target{background:#fef9c3}'
+].join('');
+
+export default SummaryExporter;
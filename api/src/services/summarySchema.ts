@@ -0,0 +1,169 @@
+import { Chapter, KeyPoint, SummarizationResponse, SummaryTemplate } from '../types';
+import { OutputValidationError, isObject } from './structuredOutput';
+import { parseTemplateSections } from './summaryTemplates';
+
+export interface SummarySchemaOptions {
+  timestamps: boolean;
+  template?: SummaryTemplate;
+}
+
+// Everything a provider returns except the confidence it derives itself
+export type ValidatedSummary = Omit<SummarizationResponse, 'confidence'>;
+
+// Notes for one section of a long transcript, or for several merged
+export interface ValidatedNotes {
+  summary: string;
+  keyPoints: KeyPoint[];
+  chapters: Chapter[];
+  quotes: string[];
+  actionItems: string[];
+  tags: string[];
+}
+
+const IMPORTANCE = ['high', 'medium', 'low'];
+
+/**
+ * Check a summarization response against the format the prompt asked for
+ * and return it typed. Nothing is filled in with defaults: every problem is
+ * reported, with the path to the offending value, in one OutputValidationError.
+ */
+export function validateSummaryResponse(data: unknown, options: SummarySchemaOptions): ValidatedSummary {
+  if (!isObject(data)) {
+    throw new OutputValidationError('Invalid summary', ['The response must be a JSON object']);
+  }
+
+  const problems: string[] = [];
+  const overview = text(data.overview, 'overview', problems);
+  const tags = strings(data.tags, 'tags', problems);
+  const chapters = options.timestamps ? list(data.chapters, 'chapters', problems, chapter) : undefined;
+
+  // Templated summaries replace the standard lists with their own sections
+  let sections: ValidatedSummary['sections'];
+  if (options.template) {
+    try {
+      sections = parseTemplateSections(options.template, data);
+    } catch (error) {
+      if (!(error instanceof OutputValidationError)) throw error;
+      problems.push(...error.problems);
+    }
+  }
+
+  const summary: ValidatedSummary = options.template
+    ? { overview, keyTakeaways: [], keyPoints: [], actionItems: [], quotes: [], chapters, sections, tags }
+    : {
+      overview,
+      keyTakeaways: strings(data.keyTakeaways, 'keyTakeaways', problems),
+      keyPoints: list(data.keyPoints, 'keyPoints', problems, keyPoint),
+      actionItems: strings(data.actionItems, 'actionItems', problems),
+      quotes: strings(data.quotes, 'quotes', problems),
+      chapters,
+      tags
+    };
+
+  if (problems.length > 0) {
+    throw new OutputValidationError('Invalid summary', problems);
+  }
+
+  return summary;
+}
+
+/**
+ * Check the notes a map or merge request returned. As with summaries,
+ * missing lists are reported rather than read as empty.
+ */
+export function validateSectionNotes(data: unknown): ValidatedNotes {
+  if (!isObject(data)) {
+    throw new OutputValidationError('Invalid section notes', ['The response must be a JSON object']);
+  }
+
+  const problems: string[] = [];
+  const notes: ValidatedNotes = {
+    summary: text(data.summary, 'summary', problems),
+    keyPoints: list(data.keyPoints, 'keyPoints', problems, keyPoint),
+    chapters: list(data.chapters, 'chapters', problems, chapter),
+    quotes: strings(data.quotes, 'quotes', problems),
+    actionItems: strings(data.actionItems, 'actionItems', problems),
+    tags: strings(data.tags, 'tags', problems)
+  };
+
+  if (problems.length > 0) {
+    throw new OutputValidationError('Invalid section notes', problems);
+  }
+
+  return notes;
+}
+
+function text(value: unknown, at: string, problems: string[], allowEmpty = false): string {
+  if (typeof value !== 'string' || (!allowEmpty && !value.trim())) {
+    problems.push(`"${at}" must be a ${allowEmpty ? '' : 'non-empty '}string`);
+    return '';
+  }
+  return value.trim();
+}
+
+function seconds(value: unknown, at: string, problems: string[]): number {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+    problems.push(`"${at}" must be a number of seconds from the start of the episode`);
+    return 0;
+  }
+  return value;
+}
+
+function list<T>(
+  value: unknown,
+  at: string,
+  problems: string[],
+  item: (value: unknown, at: string, problems: string[]) => T
+): T[] {
+  if (!Array.isArray(value)) {
+    problems.push(`"${at}" must be an array`);
+    return [];
+  }
+  return value.map((entry, i) => item(entry, `${at}[${i}]`, problems));
+}
+
+function strings(value: unknown, at: string, problems: string[]): string[] {
+  return list(value, at, problems, text);
+}
+
+function keyPoint(value: unknown, at: string, problems: string[]): KeyPoint {
+  if (!isObject(value)) {
+    problems.push(`"${at}" must be an object`);
+    return { title: '', description: '', importance: 'medium' };
+  }
+
+  if (!IMPORTANCE.includes(value.importance as string)) {
+    problems.push(`"${at}.importance" must be one of: ${IMPORTANCE.join(', ')}`);
+  }
+
+  return {
+    title: text(value.title, `${at}.title`, problems),
+    description: text(value.description, `${at}.description`, problems, true),
+    // Points the model could not place in time leave the timestamp out
+    timestamp: value.timestamp === undefined || value.timestamp === null
+      ? undefined
+      : seconds(value.timestamp, `${at}.timestamp`, problems),
+    importance: value.importance as KeyPoint['importance']
+  };
+}
+
+function chapter(value: unknown, at: string, problems: string[]): Chapter {
+  if (!isObject(value)) {
+    problems.push(`"${at}" must be an object`);
+    return { title: '', start: 0, end: 0, summary: '', keyPoints: [] };
+  }
+
+  const start = seconds(value.start, `${at}.start`, problems);
+  const end = seconds(value.end, `${at}.end`, problems);
+  if (end < start) {
+    problems.push(`"${at}.end" cannot be before its start`);
+  }
+
+  return {
+    title: text(value.title, `${at}.title`, problems),
+    start,
+    end,
+    summary: text(value.summary, `${at}.summary`, problems, true),
+    keyPoints: strings(value.keyPoints, `${at}.keyPoints`, problems)
+  };
+}
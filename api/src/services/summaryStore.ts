@@ -0,0 +1,585 @@
+import fs from 'fs';
+import path from 'path';
+import admin from 'firebase-admin';
+import initSqlJs, { Database, SqlValue } from 'sql.js';
+import { Summary, SummaryListQuery } from '../types';
+import { logger } from '../utils/logger';
+import config from '../utils/config';
+import { SearchIndex, SearchPage } from './searchIndex';
+
+export interface SummaryListResult {
+  summaries: Summary[];
+  total: number;
+}
+
+/**
+ * Storage backend for generated summaries
+ */
+export interface SummaryRepository {
+  get(summaryId: string): Promise<Summary | undefined>;
+  save(summary: Summary): Promise<void>;
+  delete(summaryId: string): Promise<boolean>;
+  list(userId: string, query: SummaryListQuery): Promise<SummaryListResult>;
+}
+
+const DEFAULT_PAGE = 1;
+const DEFAULT_LIMIT = 20;
+
+/**
+ * Restore Date fields after a JSON round trip
+ */
+function reviveSummary(summary: Summary): Summary {
+  return {
+    ...summary,
+    episode: summary.episode && {
+      ...summary.episode,
+      publishedAt: summary.episode.publishedAt ? new Date(summary.episode.publishedAt) : undefined
+    },
+    generatedAt: summary.generatedAt ? new Date(summary.generatedAt) : undefined,
+    versions: summary.versions?.map(version => ({ ...version, generatedAt: new Date(version.generatedAt) })),
+    createdAt: new Date(summary.createdAt),
+    updatedAt: new Date(summary.updatedAt)
+  };
+}
+
+/**
+ * createdAt bounds in milliseconds. A bare date as `to` includes that whole day.
+ */
+function dateRange(query: SummaryListQuery): { from?: number; to?: number } {
+  const from = query.from ? Date.parse(query.from) : NaN;
+  let to = query.to ? Date.parse(query.to) : NaN;
+  if (query.to && /^\d{4}-\d{2}-\d{2}$/.test(query.to)) {
+    to += 24 * 60 * 60 * 1000 - 1;
+  }
+
+  return {
+    from: Number.isNaN(from) ? undefined : from,
+    to: Number.isNaN(to) ? undefined : to
+  };
+}
+
+function matchesDateRange(summary: Summary, range: { from?: number; to?: number }): boolean {
+  const createdAt = summary.createdAt.getTime();
+  return (range.from === undefined || createdAt >= range.from) &&
+    (range.to === undefined || createdAt <= range.to);
+}
+
+function matchesSearch(summary: Summary, search: string): boolean {
+  const searchLower = search.toLowerCase();
+  return summary.title.toLowerCase().includes(searchLower) ||
+    !!summary.description?.toLowerCase().includes(searchLower) ||
+    summary.overview.toLowerCase().includes(searchLower) ||
+    summary.tags.some(tag => tag.toLowerCase().includes(searchLower));
+}
+
+/**
+ * In-memory summary repository (used in tests)
+ */
+export class InMemorySummaryRepository implements SummaryRepository {
+  private summaries = new Map<string, Summary>();
+
+  async get(summaryId: string): Promise<Summary | undefined> {
+    return this.summaries.get(summaryId);
+  }
+
+  async save(summary: Summary): Promise<void> {
+    this.summaries.set(summary.id, summary);
+  }
+
+  async delete(summaryId: string): Promise<boolean> {
+    return this.summaries.delete(summaryId);
+  }
+
+  async list(userId: string, query: SummaryListQuery): Promise<SummaryListResult> {
+    const page = query.page || DEFAULT_PAGE;
+    const limit = query.limit || DEFAULT_LIMIT;
+    const range = dateRange(query);
+
+    const filtered = Array.from(this.summaries.values()).filter(summary =>
+      summary.userId === userId &&
+      (!query.search || matchesSearch(summary, query.search)) &&
+      matchesDateRange(summary, range) &&
+      (!query.language || summary.language === query.language) &&
+      (!query.detailLevel || summary.detailLevel === query.detailLevel) &&
+      (!query.tags || query.tags.length === 0 || query.tags.some(tag => summary.tags.includes(tag)))
+    );
+
+    const sortValue = (summary: Summary): string | number => {
+      switch (query.sort) {
+        case 'title':
+          return summary.title.toLowerCase();
+        case 'duration':
+          return summary.duration;
+        case 'updatedAt':
+          return summary.updatedAt.getTime();
+        default:
+          return summary.createdAt.getTime();
+      }
+    };
+
+    const direction = query.order === 'asc' ? 1 : -1;
+    filtered.sort((a, b) => {
+      const aValue = sortValue(a);
+      const bValue = sortValue(b);
+      return aValue < bValue ? -direction : aValue > bValue ? direction : 0;
+    });
+
+    const offset = (page - 1) * limit;
+    return {
+      summaries: filtered.slice(offset, offset + limit),
+      total: filtered.length
+    };
+  }
+}
+
+/**
+ * Local SQLite summary repository.
+ * Uses the WebAssembly build of SQLite, which holds the database in memory.
+ * Writes are flushed to the file in batches, at most `flushDelayMs` after
+ * they happen, and any still pending when the process exits are flushed
+ * then. That is plenty for a single API instance.
+ */
+export class SqliteSummaryRepository implements SummaryRepository {
+  private db: Promise<Database>;
+  // Set while there are writes not yet in the file
+  private unflushed?: Database;
+  private flushTimer?: NodeJS.Timeout;
+
+  private static sortColumns: Record<NonNullable<SummaryListQuery['sort']>, string> = {
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    title: 'title COLLATE NOCASE',
+    duration: 'duration'
+  };
+
+  constructor(
+    private filePath: string,
+    private flushDelayMs: number = config.summaryStore.flushDelayMs
+  ) {
+    this.db = this.open();
+    process.once('exit', () => this.flush());
+  }
+
+  async get(summaryId: string): Promise<Summary | undefined> {
+    const db = await this.db;
+    const rows = this.select(db, 'SELECT data FROM summaries WHERE id = ?', [summaryId]);
+    return rows[0] ? reviveSummary(JSON.parse(String(rows[0].data))) : undefined;
+  }
+
+  async save(summary: Summary): Promise<void> {
+    const db = await this.db;
+
+    db.run('BEGIN');
+    try {
+      db.run(
+        `INSERT OR REPLACE INTO summaries
+          (id, user_id, title, description, overview, language, detail_level, duration, created_at, updated_at, data)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          summary.id,
+          summary.userId,
+          summary.title,
+          summary.description || null,
+          summary.overview,
+          summary.language,
+          summary.detailLevel,
+          summary.duration,
+          summary.createdAt.getTime(),
+          summary.updatedAt.getTime(),
+          JSON.stringify(summary)
+        ]
+      );
+      db.run('DELETE FROM summary_tags WHERE summary_id = ?', [summary.id]);
+      for (const tag of new Set(summary.tags)) {
+        db.run('INSERT INTO summary_tags (summary_id, tag) VALUES (?, ?)', [summary.id, tag]);
+      }
+      db.run('COMMIT');
+    } catch (error) {
+      db.run('ROLLBACK');
+      throw error;
+    }
+
+    this.scheduleFlush(db);
+  }
+
+  async delete(summaryId: string): Promise<boolean> {
+    const db = await this.db;
+    db.run('DELETE FROM summary_tags WHERE summary_id = ?', [summaryId]);
+    db.run('DELETE FROM summaries WHERE id = ?', [summaryId]);
+    const deleted = db.getRowsModified() > 0;
+
+    if (deleted) {
+      this.scheduleFlush(db);
+    }
+    return deleted;
+  }
+
+  async list(userId: string, query: SummaryListQuery): Promise<SummaryListResult> {
+    const db = await this.db;
+    const page = query.page || DEFAULT_PAGE;
+    const limit = query.limit || DEFAULT_LIMIT;
+
+    const conditions = ['user_id = ?'];
+    const params: SqlValue[] = [userId];
+
+    if (query.search) {
+      const pattern = `%${query.search.toLowerCase().replace(/[\\%_]/g, match => `\\${match}`)}%`;
+      conditions.push(`(
+        LOWER(title) LIKE ? ESCAPE '\\' OR
+        LOWER(COALESCE(description, '')) LIKE ? ESCAPE '\\' OR
+        LOWER(overview) LIKE ? ESCAPE '\\' OR
+        EXISTS (SELECT 1 FROM summary_tags t WHERE t.summary_id = summaries.id AND LOWER(t.tag) LIKE ? ESCAPE '\\')
+      )`);
+      params.push(pattern, pattern, pattern, pattern);
+    }
+
+    if (query.language) {
+      conditions.push('language = ?');
+      params.push(query.language);
+    }
+
+    if (query.detailLevel) {
+      conditions.push('detail_level = ?');
+      params.push(query.detailLevel);
+    }
+
+    const range = dateRange(query);
+    if (range.from !== undefined) {
+      conditions.push('created_at >= ?');
+      params.push(range.from);
+    }
+    if (range.to !== undefined) {
+      conditions.push('created_at <= ?');
+      params.push(range.to);
+    }
+
+    if (query.tags && query.tags.length > 0) {
+      conditions.push(`EXISTS (SELECT 1 FROM summary_tags t WHERE t.summary_id = summaries.id AND t.tag IN (${query.tags.map(() => '?').join(', ')}))`);
+      params.push(...query.tags);
+    }
+
+    const where = conditions.join(' AND ');
+    const sortColumn = SqliteSummaryRepository.sortColumns[query.sort || 'createdAt'];
+    const order = query.order === 'asc' ? 'ASC' : 'DESC';
+
+    const totalRows = this.select(db, `SELECT COUNT(*) AS total FROM summaries WHERE ${where}`, params);
+    const rows = this.select(
+      db,
+      `SELECT data FROM summaries WHERE ${where} ORDER BY ${sortColumn} ${order}, id ${order} LIMIT ? OFFSET ?`,
+      [...params, limit, (page - 1) * limit]
+    );
+
+    return {
+      summaries: rows.map(row => reviveSummary(JSON.parse(String(row.data)))),
+      total: Number(totalRows[0]?.total || 0)
+    };
+  }
+
+  private async open(): Promise<Database> {
+    const SQL = await initSqlJs();
+
+    const dir = path.dirname(this.filePath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    const db = fs.existsSync(this.filePath)
+      ? new SQL.Database(fs.readFileSync(this.filePath))
+      : new SQL.Database();
+
+    db.run(`
+      CREATE TABLE IF NOT EXISTS summaries (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        title TEXT NOT NULL,
+        description TEXT,
+        overview TEXT NOT NULL,
+        language TEXT NOT NULL,
+        detail_level TEXT NOT NULL,
+        duration REAL NOT NULL,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_summaries_user ON summaries (user_id, created_at);
+      CREATE TABLE IF NOT EXISTS summary_tags (
+        summary_id TEXT NOT NULL,
+        tag TEXT NOT NULL,
+        PRIMARY KEY (summary_id, tag)
+      );
+    `);
+
+    logger.logDatabase('SQLite summary store opened', { filePath: this.filePath });
+    return db;
+  }
+
+  private select(db: Database, sql: string, params: SqlValue[]): Record<string, SqlValue>[] {
+    const statement = db.prepare(sql);
+    const rows: Record<string, SqlValue>[] = [];
+
+    try {
+      statement.bind(params);
+      while (statement.step()) {
+        rows.push(statement.getAsObject());
+      }
+    } finally {
+      statement.free();
+    }
+
+    return rows;
+  }
+
+  /**
+   * Write pending changes to the file now. The database is exported to a
+   * temporary file and renamed over the old one, so a crash mid-write
+   * leaves the previous file intact.
+   */
+  flush(): void {
+    clearTimeout(this.flushTimer);
+    this.flushTimer = undefined;
+
+    const db = this.unflushed;
+    if (!db) return;
+    this.unflushed = undefined;
+
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, Buffer.from(db.export()));
+    fs.renameSync(tempPath, this.filePath);
+  }
+
+  private scheduleFlush(db: Database): void {
+    this.unflushed = db;
+    if (this.flushTimer) return;
+
+    this.flushTimer = setTimeout(() => {
+      try {
+        this.flush();
+      } catch (error) {
+        logger.logError(
+          error instanceof Error ? error : new Error(String(error)),
+          'SQLite summary store flush failed',
+          { filePath: this.filePath }
+        );
+      }
+    }, this.flushDelayMs);
+    this.flushTimer.unref();
+  }
+}
+
+/**
+ * Firestore summary repository.
+ * Filtering, sorting and pagination run in Firestore; free-text search has
+ * no Firestore equivalent, so searches page through the filtered set here.
+ * Firestore can only range-filter the field it sorts by, so date ranges
+ * with another sort order are applied here too.
+ */
+export class FirestoreSummaryRepository implements SummaryRepository {
+  constructor(private collectionName: string = 'summaries') {}
+
+  async get(summaryId: string): Promise<Summary | undefined> {
+    const snapshot = await this.collection().doc(summaryId).get();
+    return snapshot.exists ? FirestoreSummaryRepository.fromDocument(snapshot.data()!) : undefined;
+  }
+
+  async save(summary: Summary): Promise<void> {
+    // Firestore rejects undefined values, so drop them via a JSON round trip
+    const data = JSON.parse(JSON.stringify(summary));
+    await this.collection().doc(summary.id).set({
+      ...data,
+      createdAt: admin.firestore.Timestamp.fromDate(summary.createdAt),
+      updatedAt: admin.firestore.Timestamp.fromDate(summary.updatedAt)
+    });
+  }
+
+  async delete(summaryId: string): Promise<boolean> {
+    const ref = this.collection().doc(summaryId);
+    const snapshot = await ref.get();
+    if (!snapshot.exists) {
+      return false;
+    }
+    await ref.delete();
+    return true;
+  }
+
+  async list(userId: string, query: SummaryListQuery): Promise<SummaryListResult> {
+    const page = query.page || DEFAULT_PAGE;
+    const limit = query.limit || DEFAULT_LIMIT;
+
+    let ref: admin.firestore.Query = this.collection().where('userId', '==', userId);
+
+    if (query.language) {
+      ref = ref.where('language', '==', query.language);
+    }
+    if (query.detailLevel) {
+      ref = ref.where('detailLevel', '==', query.detailLevel);
+    }
+    if (query.tags && query.tags.length > 0) {
+      // array-contains-any accepts at most 30 values
+      ref = ref.where('tags', 'array-contains-any', query.tags.slice(0, 30));
+    }
+
+    const sort = query.sort || 'createdAt';
+    const range = dateRange(query);
+    const hasRange = range.from !== undefined || range.to !== undefined;
+
+    if (hasRange && sort === 'createdAt') {
+      if (range.from !== undefined) {
+        ref = ref.where('createdAt', '>=', admin.firestore.Timestamp.fromMillis(range.from));
+      }
+      if (range.to !== undefined) {
+        ref = ref.where('createdAt', '<=', admin.firestore.Timestamp.fromMillis(range.to));
+      }
+    }
+
+    ref = ref.orderBy(sort, query.order === 'asc' ? 'asc' : 'desc');
+
+    const offset = (page - 1) * limit;
+
+    if (query.search || (hasRange && sort !== 'createdAt')) {
+      const snapshot = await ref.get();
+      const matches = snapshot.docs
+        .map(doc => FirestoreSummaryRepository.fromDocument(doc.data()))
+        .filter(summary =>
+          (!query.search || matchesSearch(summary, query.search)) &&
+          matchesDateRange(summary, range)
+        );
+
+      return {
+        summaries: matches.slice(offset, offset + limit),
+        total: matches.length
+      };
+    }
+
+    const [countSnapshot, pageSnapshot] = await Promise.all([
+      ref.count().get(),
+      ref.offset(offset).limit(limit).get()
+    ]);
+
+    return {
+      summaries: pageSnapshot.docs.map(doc => FirestoreSummaryRepository.fromDocument(doc.data())),
+      total: countSnapshot.data().count
+    };
+  }
+
+  private collection() {
+    return admin.firestore().collection(this.collectionName);
+  }
+
+  private static fromDocument(data: admin.firestore.DocumentData): Summary {
+    return reviveSummary({
+      ...data,
+      createdAt: data.createdAt instanceof admin.firestore.Timestamp ? data.createdAt.toDate() : data.createdAt,
+      updatedAt: data.updatedAt instanceof admin.firestore.Timestamp ? data.updatedAt.toDate() : data.updatedAt
+    } as Summary);
+  }
+}
+
+/**
+ * Create the summary repository configured for this deployment
+ */
+export function createSummaryRepository(): SummaryRepository {
+  switch (config.summaryStore.driver) {
+    case 'sqlite':
+      return new SqliteSummaryRepository(config.summaryStore.filePath);
+    case 'firestore':
+      return new FirestoreSummaryRepository();
+    default:
+      return new InMemorySummaryRepository();
+  }
+}
+
+/**
+ * Keeps a full-text index in step with a summary repository.
+ * Each user's summaries are loaded into the index on their first search;
+ * saves and deletes through this repository keep it current after that.
+ * Past `maxIndexedUsers`, the users who searched least recently are dropped
+ * from the index and loaded again on their next search.
+ */
+export class SearchableSummaryRepository implements SummaryRepository {
+  private index = new SearchIndex();
+  // Users in the index, least recently searched first
+  private warmed = new Set<string>();
+  private warming = new Map<string, Promise<void>>();
+
+  constructor(
+    private repository: SummaryRepository,
+    private maxIndexedUsers: number = config.search.maxIndexedUsers
+  ) {}
+
+  get(summaryId: string): Promise<Summary | undefined> {
+    return this.repository.get(summaryId);
+  }
+
+  async save(summary: Summary): Promise<void> {
+    await this.repository.save(summary);
+    // Users not in the index get theirs loaded on their next search
+    if (this.warmed.has(summary.userId) || this.warming.has(summary.userId)) {
+      this.index.add(summary);
+    }
+  }
+
+  async delete(summaryId: string): Promise<boolean> {
+    const deleted = await this.repository.delete(summaryId);
+    this.index.remove(summaryId);
+    return deleted;
+  }
+
+  list(userId: string, query: SummaryListQuery): Promise<SummaryListResult> {
+    return this.repository.list(userId, query);
+  }
+
+  /**
+   * Ranked full-text search over a user's summaries and transcripts
+   */
+  async search(userId: string, query: string, options: { page?: number; limit?: number } = {}): Promise<SearchPage> {
+    await this.warm(userId);
+    return this.index.search(userId, query, {
+      page: options.page || DEFAULT_PAGE,
+      limit: options.limit || DEFAULT_LIMIT
+    });
+  }
+
+  private async warm(userId: string): Promise<void> {
+    if (this.warmed.has(userId)) {
+      // Re-insert to mark the user most recently used
+      this.warmed.delete(userId);
+      this.warmed.add(userId);
+      return;
+    }
+
+    let pending = this.warming.get(userId);
+    if (!pending) {
+      pending = this.load(userId).finally(() => this.warming.delete(userId));
+      this.warming.set(userId, pending);
+    }
+    await pending;
+  }
+
+  private async load(userId: string): Promise<void> {
+    const startTime = Date.now();
+    const limit = 100;
+    let page = 1;
+    let loaded = 0;
+
+    for (;;) {
+      const { summaries, total } = await this.repository.list(userId, { page, limit });
+      summaries.forEach(summary => this.index.add(summary));
+      loaded += summaries.length;
+      if (summaries.length < limit || loaded >= total) break;
+      page++;
+    }
+
+    this.warmed.add(userId);
+    logger.logDatabase('Search index loaded', { userId, summaries: loaded, duration: Date.now() - startTime });
+
+    for (const oldest of this.warmed) {
+      if (this.warmed.size <= Math.max(this.maxIndexedUsers, 1)) break;
+      this.warmed.delete(oldest);
+      this.index.removeUser(oldest);
+    }
+  }
+}
+
+// Export singleton instance
+export const summaryRepository = new SearchableSummaryRepository(createSummaryRepository());
+export default summaryRepository;
@@ -0,0 +1,360 @@
+import {
+  SummarySection,
+  SummaryTemplate,
+  SummaryTemplateRequest,
+  TemplateField,
+  TemplateItem,
+  TemplateSection
+} from '../types';
+import { OutputValidationError, isObject } from './structuredOutput';
+
+export const TEMPLATE_LIMITS = {
+  name: 100,
+  description: 500,
+  sections: 20,
+  title: 100,
+  instructions: 1000,
+  fields: 10,
+  items: 50
+};
+
+// Every summary has these, whatever its template
+const RESERVED_KEYS = new Set(['overview', 'chapters', 'tags']);
+const KEY_PATTERN = /^[A-Za-z][A-Za-z0-9_]{0,39}$/;
+
+const SECTION_TYPES = ['text', 'list', 'items'];
+const FIELD_TYPES = ['string', 'number', 'boolean', 'timestamp'];
+
+const FIELD_EXAMPLES: Record<TemplateField['type'], string | number | boolean> = {
+  string: 'Text',
+  number: 0,
+  boolean: true,
+  timestamp: 123
+};
+
+/**
+ * Raised when a model response does not follow the template it was asked for
+ */
+export class TemplateOutputError extends OutputValidationError {
+  constructor(templateName: string, problems: string[]) {
+    super(`Response does not match template "${templateName}"`, problems);
+    this.name = 'TemplateOutputError';
+  }
+}
+
+/**
+ * Problems with a template's section definitions; empty when they are valid
+ */
+export function templateProblems(sections: unknown): string[] {
+  if (!Array.isArray(sections) || sections.length === 0) {
+    return ['sections must be a non-empty array'];
+  }
+  if (sections.length > TEMPLATE_LIMITS.sections) {
+    return [`A template can have at most ${TEMPLATE_LIMITS.sections} sections`];
+  }
+
+  const problems: string[] = [];
+  const keys = new Set<string>();
+
+  sections.forEach((section: unknown, i) => {
+    const at = `sections[${i}]`;
+    if (!isObject(section)) {
+      problems.push(`${at} must be an object`);
+      return;
+    }
+
+    if (typeof section.key !== 'string' || !KEY_PATTERN.test(section.key)) {
+      problems.push(`${at}.key must start with a letter and contain only letters, digits and underscores (at most 40)`);
+    } else if (RESERVED_KEYS.has(section.key)) {
+      problems.push(`${at}.key "${section.key}" is reserved`);
+    } else if (keys.has(section.key)) {
+      problems.push(`${at}.key "${section.key}" is used more than once`);
+    } else {
+      keys.add(section.key);
+    }
+
+    problems.push(
+      ...textProblems(section.title, `${at}.title`, TEMPLATE_LIMITS.title),
+      ...textProblems(section.instructions, `${at}.instructions`, TEMPLATE_LIMITS.instructions)
+    );
+
+    if (typeof section.type !== 'string' || !SECTION_TYPES.includes(section.type)) {
+      problems.push(`${at}.type must be one of: ${SECTION_TYPES.join(', ')}`);
+      return;
+    }
+
+    if (section.type === 'text') {
+      if (section.minItems !== undefined || section.maxItems !== undefined) {
+        problems.push(`${at}: item counts only apply to list and items sections`);
+      }
+    } else {
+      problems.push(...countProblems(section, at));
+    }
+
+    if (section.type === 'items') {
+      problems.push(...fieldProblems(section.fields, `${at}.fields`));
+    } else if (section.fields !== undefined) {
+      problems.push(`${at}.fields only apply to items sections`);
+    }
+  });
+
+  return problems;
+}
+
+function textProblems(value: unknown, at: string, maxLength: number): string[] {
+  if (typeof value !== 'string' || !value.trim()) {
+    return [`${at} is required`];
+  }
+  return value.length > maxLength ? [`${at} must be at most ${maxLength} characters`] : [];
+}
+
+function countProblems(section: Record<string, unknown>, at: string): string[] {
+  const problems: string[] = [];
+  const valid = (count: unknown, min: number) =>
+    count === undefined || (Number.isInteger(count) && (count as number) >= min && (count as number) <= TEMPLATE_LIMITS.items);
+
+  if (!valid(section.minItems, 0)) {
+    problems.push(`${at}.minItems must be a whole number from 0 to ${TEMPLATE_LIMITS.items}`);
+  }
+  if (!valid(section.maxItems, 1)) {
+    problems.push(`${at}.maxItems must be a whole number from 1 to ${TEMPLATE_LIMITS.items}`);
+  }
+  if (problems.length === 0 && section.minItems !== undefined && section.maxItems !== undefined &&
+    (section.minItems as number) > (section.maxItems as number)) {
+    problems.push(`${at}.minItems cannot be greater than maxItems`);
+  }
+
+  return problems;
+}
+
+function fieldProblems(fields: unknown, at: string): string[] {
+  if (!Array.isArray(fields) || fields.length === 0) {
+    return [`${at} must be a non-empty array for items sections`];
+  }
+  if (fields.length > TEMPLATE_LIMITS.fields) {
+    return [`${at} can have at most ${TEMPLATE_LIMITS.fields} fields`];
+  }
+
+  const problems: string[] = [];
+  const names = new Set<string>();
+
+  fields.forEach((field: unknown, i) => {
+    const fieldAt = `${at}[${i}]`;
+    if (!isObject(field)) {
+      problems.push(`${fieldAt} must be an object`);
+      return;
+    }
+
+    if (typeof field.name !== 'string' || !KEY_PATTERN.test(field.name)) {
+      problems.push(`${fieldAt}.name must start with a letter and contain only letters, digits and underscores (at most 40)`);
+    } else if (names.has(field.name)) {
+      problems.push(`${fieldAt}.name "${field.name}" is used more than once`);
+    } else {
+      names.add(field.name);
+    }
+
+    if (typeof field.type !== 'string' || !FIELD_TYPES.includes(field.type)) {
+      problems.push(`${fieldAt}.type must be one of: ${FIELD_TYPES.join(', ')}`);
+    }
+    if (field.description !== undefined && (typeof field.description !== 'string' || field.description.length > TEMPLATE_LIMITS.title)) {
+      problems.push(`${fieldAt}.description must be a string of at most ${TEMPLATE_LIMITS.title} characters`);
+    }
+    if (field.required !== undefined && typeof field.required !== 'boolean') {
+      problems.push(`${fieldAt}.required must be a boolean`);
+    }
+  });
+
+  return problems;
+}
+
+/**
+ * Keep only the known properties of a validated template request, trimmed
+ */
+export function normalizeTemplate(request: SummaryTemplateRequest): SummaryTemplateRequest {
+  return {
+    name: request.name.trim(),
+    description: request.description?.trim() || undefined,
+    sections: request.sections.map(section => ({
+      key: section.key,
+      title: section.title.trim(),
+      instructions: section.instructions.trim(),
+      type: section.type,
+      minItems: section.type === 'text' ? undefined : section.minItems,
+      maxItems: section.type === 'text' ? undefined : section.maxItems,
+      fields: section.type === 'items'
+        ? section.fields!.map(field => ({
+          name: field.name,
+          type: field.type,
+          description: field.description?.trim() || undefined,
+          required: field.required || undefined
+        }))
+        : undefined
+    }))
+  };
+}
+
+/**
+ * Response format and per-section instructions for a templated summary
+ */
+export function templatePrompt(template: SummaryTemplate, timestamps: boolean): string {
+  const properties = [
+    `  "overview": "A short overview of the podcast content"`,
+    ...template.sections.map(section => `  ${JSON.stringify(section.key)}: ${JSON.stringify(exampleValue(section))}`),
+    ...(timestamps
+      ? [`  "chapters": [{"title": "Chapter title", "start": 0, "end": 300, "summary": "Chapter summary", "keyPoints": ["key point 1", "key point 2"]}]`]
+      : []),
+    `  "tags": ["Array of relevant tags/topics"]`
+  ];
+
+  const sections = template.sections.map(section => {
+    let line = `- "${section.key}" (${section.title}): ${section.instructions}`;
+    const count = itemCount(section);
+    if (count) {
+      line += ` ${count}`;
+    }
+    if (section.type === 'items') {
+      const fields = section.fields!.map(field =>
+        `${field.name} (${field.type}${field.required ? ', required' : ''})${field.description ? `: ${field.description}` : ''}`
+      );
+      line += `\n  Each item has: ${fields.join('; ')}.`;
+    }
+    return line;
+  });
+
+  return `Response format: Return a valid JSON object with the following structure:
+{
+${properties.join(',\n')}
+}
+
+Fill in every section of the "${template.name}" template:
+${sections.join('\n')}
+
+Timestamp fields are seconds from the start of the episode; take them from the transcript and never invent them. Leave out optional fields you have no information for.`;
+}
+
+/**
+ * What the final summary will need, for the section notes of long transcripts
+ */
+export function templateNotesHint(template: SummaryTemplate): string {
+  const sections = template.sections.map(section => `- ${section.title}: ${section.instructions}`);
+  return `The final summary follows the "${template.name}" template. Note anything these sections will need:\n${sections.join('\n')}`;
+}
+
+/**
+ * Check a model response against a template and extract its sections.
+ * Lists longer than the template allows are cut to size; anything else that
+ * does not match the template is an error.
+ */
+export function parseTemplateSections(template: SummaryTemplate, data: unknown): SummarySection[] {
+  const problems: string[] = [];
+
+  const sections = template.sections.map(section => {
+    const value = isObject(data) ? data[section.key] : undefined;
+    const at = `"${section.key}"`;
+    let content: SummarySection['content'] = section.type === 'text' ? '' : [];
+
+    if (section.type === 'text') {
+      if (typeof value === 'string' && value.trim()) {
+        content = value.trim();
+      } else {
+        problems.push(`${at} must be a non-empty string`);
+      }
+    } else if (!Array.isArray(value)) {
+      problems.push(`${at} must be an array`);
+    } else if (section.type === 'list') {
+      if (value.some(item => typeof item !== 'string')) {
+        problems.push(`${at} must only contain strings`);
+      }
+      content = value.filter((item): item is string => typeof item === 'string' && !!item.trim()).map(item => item.trim());
+    } else {
+      content = value.flatMap((item, i) => {
+        const parsed = parseItem(section.fields!, item, `${at}[${i}]`, problems);
+        return parsed ? [parsed] : [];
+      });
+    }
+
+    if (Array.isArray(content)) {
+      if (section.minItems !== undefined && content.length < section.minItems) {
+        problems.push(`${at} needs at least ${section.minItems} items, got ${content.length}`);
+      }
+      if (section.maxItems !== undefined) {
+        content = content.slice(0, section.maxItems) as string[] | TemplateItem[];
+      }
+    }
+
+    return { key: section.key, title: section.title, type: section.type, content, fields: section.fields };
+  });
+
+  if (problems.length > 0) {
+    throw new TemplateOutputError(template.name, problems);
+  }
+
+  return sections;
+}
+
+function parseItem(fields: TemplateField[], item: unknown, at: string, problems: string[]): TemplateItem | undefined {
+  if (!isObject(item)) {
+    problems.push(`${at} must be an object`);
+    return undefined;
+  }
+
+  const parsed: TemplateItem = {};
+  for (const field of fields) {
+    const value = parseFieldValue(field, item[field.name]);
+
+    if (value === undefined) {
+      if (item[field.name] !== undefined && item[field.name] !== null && item[field.name] !== '') {
+        problems.push(`${at}.${field.name} must be a ${field.type}`);
+      } else if (field.required) {
+        problems.push(`${at}.${field.name} is required`);
+      }
+      continue;
+    }
+
+    parsed[field.name] = value;
+  }
+
+  return parsed;
+}
+
+function parseFieldValue(field: TemplateField, value: unknown): string | number | boolean | undefined {
+  switch (field.type) {
+    case 'string':
+      return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+    case 'boolean':
+      return typeof value === 'boolean' ? value : undefined;
+    case 'timestamp':
+      // Models sometimes copy the [mm:ss] markers instead of converting them
+      if (typeof value === 'string' && /^\d+(:\d{1,2}){1,2}$/.test(value.trim())) {
+        return value.trim().split(':').reduce((seconds, part) => seconds * 60 + Number(part), 0);
+      }
+      return typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : undefined;
+  }
+}
+
+function exampleValue(section: TemplateSection): string | string[] | TemplateItem[] {
+  switch (section.type) {
+    case 'text':
+      return `${section.title} as a paragraph`;
+    case 'list':
+      return [`${section.title} item`];
+    case 'items':
+      return [Object.fromEntries(section.fields!.map(field => [field.name, FIELD_EXAMPLES[field.type]]))];
+  }
+}
+
+function itemCount(section: TemplateSection): string | undefined {
+  const { minItems, maxItems } = section;
+  if (minItems !== undefined && maxItems !== undefined) {
+    return minItems === maxItems ? `Exactly ${minItems} items.` : `Between ${minItems} and ${maxItems} items.`;
+  }
+  if (minItems !== undefined) {
+    return `At least ${minItems} items.`;
+  }
+  if (maxItems !== undefined) {
+    return `At most ${maxItems} items.`;
+  }
+  return undefined;
+}
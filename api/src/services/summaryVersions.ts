@@ -0,0 +1,92 @@
+import { Summary, SummaryTemplateRef, SummaryVersion, SummarizationResponse, UploadOptions } from '../types';
+import { attributeQuotes } from './speakers';
+import config from '../utils/config';
+
+/**
+ * Capture the generated content of a summary as a version
+ */
+export function snapshotVersion(summary: Summary): SummaryVersion {
+  return {
+    version: summary.version || 1,
+    language: summary.language,
+    detailLevel: summary.detailLevel,
+    instructions: summary.instructions,
+    template: summary.template,
+    overview: summary.overview,
+    keyTakeaways: summary.keyTakeaways,
+    keyPoints: summary.keyPoints,
+    actionItems: summary.actionItems,
+    quotes: summary.quotes,
+    chapters: summary.chapters,
+    sections: summary.sections,
+    grounding: summary.grounding,
+    tags: summary.tags,
+    confidence: summary.confidence,
+    generatedAt: summary.generatedAt || summary.createdAt
+  };
+}
+
+/**
+ * Replace the generated content of a summary, keeping the current content
+ * as the newest entry in its version history
+ */
+export function withVersion(summary: Summary, version: SummaryVersion, maxVersions: number = config.summarization.maxVersions): Summary {
+  const versions = [snapshotVersion(summary), ...(summary.versions || [])]
+    .filter(previous => previous.version !== version.version)
+    .sort((a, b) => b.version - a.version)
+    .slice(0, Math.max(0, maxVersions));
+
+  return {
+    ...summary,
+    version: version.version,
+    language: version.language,
+    detailLevel: version.detailLevel,
+    instructions: version.instructions,
+    template: version.template,
+    overview: version.overview,
+    keyTakeaways: version.keyTakeaways,
+    keyPoints: version.keyPoints,
+    actionItems: version.actionItems,
+    quotes: version.quotes,
+    quoteAttributions: attributeQuotes(version.quotes, summary.timestamps),
+    chapters: version.chapters,
+    sections: version.sections,
+    grounding: version.grounding,
+    tags: version.tags,
+    confidence: version.confidence,
+    generatedAt: version.generatedAt,
+    versions,
+    updatedAt: new Date()
+  };
+}
+
+/**
+ * Build the next version of a summary from a fresh summarization
+ */
+export function nextVersion(
+  summary: Summary,
+  response: SummarizationResponse,
+  options: UploadOptions,
+  template?: SummaryTemplateRef
+): SummaryVersion {
+  const latest = Math.max(summary.version || 1, ...(summary.versions || []).map(previous => previous.version));
+
+  return {
+    version: latest + 1,
+    language: options.lang || summary.language,
+    detailLevel: options.detail,
+    instructions: options.instructions,
+    template: template && { id: template.id, name: template.name },
+    overview: response.overview,
+    keyTakeaways: response.keyTakeaways,
+    keyPoints: response.keyPoints,
+    actionItems: response.actionItems,
+    quotes: response.quotes,
+    chapters: response.chapters,
+    sections: response.sections,
+    grounding: response.grounding,
+    tags: response.tags,
+    confidence: response.confidence,
+    generatedAt: new Date()
+  };
+}
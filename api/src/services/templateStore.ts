@@ -0,0 +1,214 @@
+import fs from 'fs';
+import path from 'path';
+import admin from 'firebase-admin';
+import initSqlJs, { Database } from 'sql.js';
+import { SummaryTemplate } from '../types';
+import { logger } from '../utils/logger';
+import config from '../utils/config';
+
+/**
+ * Storage backend for users' summary templates
+ */
+export interface TemplateRepository {
+  get(templateId: string): Promise<SummaryTemplate | undefined>;
+  save(template: SummaryTemplate): Promise<void>;
+  delete(templateId: string): Promise<boolean>;
+  // A user's templates, by name
+  list(userId: string): Promise<SummaryTemplate[]>;
+}
+
+function reviveTemplate(template: SummaryTemplate): SummaryTemplate {
+  return {
+    ...template,
+    createdAt: new Date(template.createdAt),
+    updatedAt: new Date(template.updatedAt)
+  };
+}
+
+function byName(a: SummaryTemplate, b: SummaryTemplate): number {
+  return a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }) || a.createdAt.getTime() - b.createdAt.getTime();
+}
+
+/**
+ * In-memory template repository (used in tests)
+ */
+export class InMemoryTemplateRepository implements TemplateRepository {
+  private templates = new Map<string, SummaryTemplate>();
+
+  async get(templateId: string): Promise<SummaryTemplate | undefined> {
+    return this.templates.get(templateId);
+  }
+
+  async save(template: SummaryTemplate): Promise<void> {
+    this.templates.set(template.id, template);
+  }
+
+  async delete(templateId: string): Promise<boolean> {
+    return this.templates.delete(templateId);
+  }
+
+  async list(userId: string): Promise<SummaryTemplate[]> {
+    return Array.from(this.templates.values())
+      .filter(template => template.userId === userId)
+      .sort(byName);
+  }
+}
+
+/**
+ * Local SQLite template repository, in its own file next to the summary
+ * store. Like the summary store it flushes the file after every write.
+ */
+export class SqliteTemplateRepository implements TemplateRepository {
+  private db: Promise<Database>;
+
+  constructor(private filePath: string) {
+    this.db = this.open();
+  }
+
+  async get(templateId: string): Promise<SummaryTemplate | undefined> {
+    const db = await this.db;
+    const statement = db.prepare('SELECT data FROM templates WHERE id = ?');
+
+    try {
+      statement.bind([templateId]);
+      return statement.step() ? reviveTemplate(JSON.parse(String(statement.getAsObject().data))) : undefined;
+    } finally {
+      statement.free();
+    }
+  }
+
+  async save(template: SummaryTemplate): Promise<void> {
+    const db = await this.db;
+    db.run(
+      'INSERT OR REPLACE INTO templates (id, user_id, data) VALUES (?, ?, ?)',
+      [template.id, template.userId, JSON.stringify(template)]
+    );
+    this.flush(db);
+  }
+
+  async delete(templateId: string): Promise<boolean> {
+    const db = await this.db;
+    db.run('DELETE FROM templates WHERE id = ?', [templateId]);
+    const deleted = db.getRowsModified() > 0;
+
+    if (deleted) {
+      this.flush(db);
+    }
+    return deleted;
+  }
+
+  async list(userId: string): Promise<SummaryTemplate[]> {
+    const db = await this.db;
+    const statement = db.prepare('SELECT data FROM templates WHERE user_id = ?');
+    const templates: SummaryTemplate[] = [];
+
+    try {
+      statement.bind([userId]);
+      while (statement.step()) {
+        templates.push(reviveTemplate(JSON.parse(String(statement.getAsObject().data))));
+      }
+    } finally {
+      statement.free();
+    }
+
+    return templates.sort(byName);
+  }
+
+  private async open(): Promise<Database> {
+    const SQL = await initSqlJs();
+
+    const dir = path.dirname(this.filePath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    const db = fs.existsSync(this.filePath)
+      ? new SQL.Database(fs.readFileSync(this.filePath))
+      : new SQL.Database();
+
+    db.run(`
+      CREATE TABLE IF NOT EXISTS templates (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_templates_user ON templates (user_id);
+    `);
+
+    logger.logDatabase('SQLite template store opened', { filePath: this.filePath });
+    return db;
+  }
+
+  private flush(db: Database): void {
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, Buffer.from(db.export()));
+    fs.renameSync(tempPath, this.filePath);
+  }
+}
+
+/**
+ * Firestore template repository
+ */
+export class FirestoreTemplateRepository implements TemplateRepository {
+  constructor(private collectionName: string = 'summaryTemplates') {}
+
+  async get(templateId: string): Promise<SummaryTemplate | undefined> {
+    const snapshot = await this.collection().doc(templateId).get();
+    return snapshot.exists ? FirestoreTemplateRepository.fromDocument(snapshot.data()!) : undefined;
+  }
+
+  async save(template: SummaryTemplate): Promise<void> {
+    // Firestore rejects undefined values, so drop them via a JSON round trip
+    const data = JSON.parse(JSON.stringify(template));
+    await this.collection().doc(template.id).set({
+      ...data,
+      createdAt: admin.firestore.Timestamp.fromDate(template.createdAt),
+      updatedAt: admin.firestore.Timestamp.fromDate(template.updatedAt)
+    });
+  }
+
+  async delete(templateId: string): Promise<boolean> {
+    const ref = this.collection().doc(templateId);
+    const snapshot = await ref.get();
+    if (!snapshot.exists) {
+      return false;
+    }
+    await ref.delete();
+    return true;
+  }
+
+  async list(userId: string): Promise<SummaryTemplate[]> {
+    // Few templates per user, so sorting here saves a composite index
+    const snapshot = await this.collection().where('userId', '==', userId).get();
+    return snapshot.docs.map(doc => FirestoreTemplateRepository.fromDocument(doc.data())).sort(byName);
+  }
+
+  private collection() {
+    return admin.firestore().collection(this.collectionName);
+  }
+
+  private static fromDocument(data: admin.firestore.DocumentData): SummaryTemplate {
+    return reviveTemplate({
+      ...data,
+      createdAt: data.createdAt instanceof admin.firestore.Timestamp ? data.createdAt.toDate() : data.createdAt,
+      updatedAt: data.updatedAt instanceof admin.firestore.Timestamp ? data.updatedAt.toDate() : data.updatedAt
+    } as SummaryTemplate);
+  }
+}
+
+/**
+ * Create the template repository configured for this deployment
+ */
+export function createTemplateRepository(): TemplateRepository {
+  switch (config.templateStore.driver) {
+    case 'sqlite':
+      return new SqliteTemplateRepository(config.templateStore.filePath);
+    case 'firestore':
+      return new FirestoreTemplateRepository();
+    default:
+      return new InMemoryTemplateRepository();
+  }
+}
+
+export const templateRepository = createTemplateRepository();
+export default templateRepository;
@@ -0,0 +1,156 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { UploadSessionError, UploadSessionService } from './uploadSessions';
+
+const HOUR = 60 * 60 * 1000;
+
+function checksum(chunk: Buffer): string {
+  return `sha256 ${crypto.createHash('sha256').update(chunk).digest('base64')}`;
+}
+
+function rejection(action: () => unknown): UploadSessionError {
+  try {
+    action();
+  } catch (error) {
+    if (error instanceof UploadSessionError) return error;
+    throw error;
+  }
+  throw new Error('Expected an UploadSessionError');
+}
+
+describe('UploadSessionService', () => {
+  let dir: string;
+  let service: UploadSessionService;
+  const file = Buffer.from('0123456789abcdef');
+  const request = { fileName: 'episode.mp3', fileSize: file.length, mimeType: 'audio/mpeg' };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'upload-sessions-'));
+    service = new UploadSessionService(dir, { maxFileSize: 1024, chunkSize: 8, sessionTtlMs: HOUR });
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('rejects files over the size limit', () => {
+    expect(rejection(() => service.create('user-1', { ...request, fileSize: 2048 })).statusCode).toBe(413);
+  });
+
+  it('leaves the declared type to the content check', () => {
+    const session = service.create('user-1', { ...request, mimeType: 'application/octet-stream' });
+
+    expect(session.mimeType).toBe('application/octet-stream');
+  });
+
+  it('appends chunks with a matching checksum', () => {
+    const session = service.create('user-1', request);
+    const chunk = file.subarray(0, 8);
+
+    const updated = service.append(session, 0, chunk, checksum(chunk));
+
+    expect(updated.offset).toBe(8);
+    expect(fs.readFileSync(path.join(dir, `${session.id}.part`))).toEqual(chunk);
+  });
+
+  it('rejects a chunk at the wrong offset with the current offset', () => {
+    const session = service.create('user-1', request);
+    const chunk = file.subarray(8);
+
+    const error = rejection(() => service.append(session, 8, chunk, checksum(chunk)));
+
+    expect(error.statusCode).toBe(409);
+    expect(error.offset).toBe(0);
+  });
+
+  it('rejects a chunk whose checksum does not match', () => {
+    const session = service.create('user-1', request);
+
+    const error = rejection(() => service.append(session, 0, file.subarray(0, 8), checksum(Buffer.from('other'))));
+
+    expect(error.statusCode).toBe(460);
+  });
+
+  it('rejects a missing or malformed checksum', () => {
+    const session = service.create('user-1', request);
+
+    expect(rejection(() => service.append(session, 0, file.subarray(0, 8))).statusCode).toBe(400);
+    expect(rejection(() => service.append(session, 0, file.subarray(0, 8), 'md5 abc')).statusCode).toBe(400);
+  });
+
+  it('resumes from the stored offset', () => {
+    const session = service.create('user-1', request);
+    const first = file.subarray(0, 8);
+    service.append(session, 0, first, checksum(first));
+
+    const resumed = service.get(session.id);
+    const rest = file.subarray(8);
+    const finished = service.append(resumed!, resumed!.offset, rest, checksum(rest));
+
+    expect(resumed?.offset).toBe(8);
+    expect(finished.offset).toBe(file.length);
+  });
+
+  it('moves a complete upload into the upload directory', () => {
+    let session = service.create('user-1', request);
+    for (let offset = 0; offset < file.length; offset += 8) {
+      const chunk = file.subarray(offset, offset + 8);
+      session = service.append(session, offset, chunk, checksum(chunk));
+    }
+
+    const uploaded = service.complete(session);
+
+    expect(fs.readFileSync(uploaded.path)).toEqual(file);
+    expect(uploaded.originalname).toBe('episode.mp3');
+    expect(service.get(session.id)).toBeUndefined();
+    fs.rmSync(uploaded.path);
+  });
+
+  it('refuses to complete an upload that is missing bytes', () => {
+    const session = service.create('user-1', request);
+
+    expect(rejection(() => service.complete(session)).statusCode).toBe(409);
+  });
+
+  it('ignores ids it did not hand out', () => {
+    expect(service.get('../../etc/passwd')).toBeUndefined();
+  });
+
+  describe('expireSessions', () => {
+    const age = (filePath: string, ms: number) => {
+      const time = new Date(Date.now() - ms);
+      fs.utimesSync(filePath, time, time);
+    };
+
+    it('removes sessions idle past their TTL', () => {
+      const session = service.create('user-1', request);
+      const stored = JSON.parse(fs.readFileSync(path.join(dir, `${session.id}.json`), 'utf8'));
+      fs.writeFileSync(
+        path.join(dir, `${session.id}.json`),
+        JSON.stringify({ ...stored, updatedAt: new Date(Date.now() - 2 * HOUR) })
+      );
+
+      expect(service.expireSessions()).toBe(1);
+      expect(fs.readdirSync(dir)).toEqual([]);
+    });
+
+    it('removes old files whose session is gone', () => {
+      const live = service.create('user-1', request);
+      const orphanPart = path.join(dir, 'upload_1_abc.part');
+      const orphanTemp = path.join(dir, 'upload_2_def.json.tmp');
+      const recentPart = path.join(dir, 'upload_3_0123.part');
+      for (const filePath of [orphanPart, orphanTemp, recentPart]) {
+        fs.writeFileSync(filePath, 'partial');
+      }
+      age(orphanPart, 2 * HOUR);
+      age(orphanTemp, 2 * HOUR);
+      age(path.join(dir, `${live.id}.part`), 2 * HOUR);
+
+      expect(service.expireSessions()).toBe(2);
+      expect(fs.readdirSync(dir).sort()).toEqual([`${live.id}.json`, `${live.id}.part`, 'upload_3_0123.part'].sort());
+    });
+  });
+});
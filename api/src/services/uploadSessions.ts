@@ -0,0 +1,284 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { CreateUploadSessionRequest } from '../types';
+import { logger } from '../utils/logger';
+import config from '../utils/config';
+
+export interface UploadSession {
+  id: string;
+  userId: string;
+  fileName: string;
+  fileSize: number;
+  mimeType: string;
+  // Bytes written so far
+  offset: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface UploadSessionOptions {
+  maxFileSize: number;
+  chunkSize: number;
+  sessionTtlMs: number;
+}
+
+/**
+ * Raised for requests the upload protocol cannot accept. `offset` is the
+ * session's current offset when the client has to resume from elsewhere.
+ */
+export class UploadSessionError extends Error {
+  constructor(message: string, public statusCode: number = 400, public offset?: number) {
+    super(message);
+    this.name = 'UploadSessionError';
+  }
+}
+
+/**
+ * Resumable uploads. A session records how many bytes of a file arrived;
+ * chunks are appended at that offset after their SHA-256 checksum is
+ * verified, so a client whose connection drops asks for the offset and
+ * carries on from there. Sessions are kept on disk next to the uploads and
+ * survive a restart; ones left idle past their TTL are removed by the
+ * upload cleanup.
+ */
+export class UploadSessionService {
+  constructor(
+    private dir: string = path.join(config.uploadDir, '.sessions'),
+    private options: UploadSessionOptions = config.resumableUpload
+  ) {}
+
+  get chunkSize(): number {
+    return this.options.chunkSize;
+  }
+
+  /**
+   * Start a session for a file of known size. The declared type is only
+   * recorded; the completed file is checked by its content.
+   */
+  create(userId: string, request: CreateUploadSessionRequest): UploadSession {
+    if (request.fileSize <= 0) {
+      throw new UploadSessionError('File is empty');
+    }
+    if (request.fileSize > this.options.maxFileSize) {
+      throw new UploadSessionError(
+        `File too large. Maximum size is ${Math.round(this.options.maxFileSize / 1024 / 1024)}MB`,
+        413
+      );
+    }
+
+    const session: UploadSession = {
+      id: `upload_${Date.now()}_${crypto.randomBytes(8).toString('hex')}`,
+      userId,
+      fileName: path.basename(request.fileName),
+      fileSize: request.fileSize,
+      mimeType: request.mimeType,
+      offset: 0,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+
+    this.ensureDir();
+    fs.writeFileSync(this.partPath(session.id), '');
+    this.save(session);
+
+    logger.logUpload('Upload session created', {
+      uploadId: session.id,
+      userId,
+      fileName: session.fileName,
+      fileSize: session.fileSize
+    });
+
+    return session;
+  }
+
+  /**
+   * A live session; expired ones are removed and treated as missing
+   */
+  get(uploadId: string): UploadSession | undefined {
+    // Ids become file names, so only accept the ones create() hands out
+    if (!/^upload_\d+_[0-9a-f]+$/.test(uploadId)) {
+      return undefined;
+    }
+
+    const filePath = this.sessionPath(uploadId);
+    if (!fs.existsSync(filePath)) {
+      return undefined;
+    }
+
+    try {
+      const stored = JSON.parse(fs.readFileSync(filePath, 'utf8')) as UploadSession;
+      const session = { ...stored, createdAt: new Date(stored.createdAt), updatedAt: new Date(stored.updatedAt) };
+
+      if (this.isExpired(session)) {
+        this.delete(uploadId);
+        return undefined;
+      }
+      return session;
+    } catch (error) {
+      logger.warn('Discarding unreadable upload session', {
+        uploadId,
+        error: error instanceof Error ? error.message : 'Unknown'
+      });
+      this.delete(uploadId);
+      return undefined;
+    }
+  }
+
+  expiresAt(session: UploadSession): Date {
+    return new Date(session.updatedAt.getTime() + this.options.sessionTtlMs);
+  }
+
+  /**
+   * Write one chunk at `offset`. `checksum` is the Upload-Checksum header,
+   * `sha256 <base64 digest>`; a chunk that does not match it is rejected so
+   * the client sends it again.
+   */
+  append(session: UploadSession, offset: number, chunk: Buffer, checksum?: string): UploadSession {
+    if (offset !== session.offset) {
+      throw new UploadSessionError(
+        `Upload offset is ${session.offset}, not ${offset}`,
+        409,
+        session.offset
+      );
+    }
+    if (chunk.length === 0) {
+      throw new UploadSessionError('Chunk is empty', 400, session.offset);
+    }
+    if (chunk.length > this.options.chunkSize) {
+      throw new UploadSessionError(`Chunks can be at most ${this.options.chunkSize} bytes`, 413, session.offset);
+    }
+    if (offset + chunk.length > session.fileSize) {
+      throw new UploadSessionError('Chunk runs past the end of the file', 400, session.offset);
+    }
+
+    const [algorithm, digest] = (checksum || '').trim().split(/\s+/);
+    if (algorithm?.toLowerCase() !== 'sha256' || !digest) {
+      throw new UploadSessionError('Upload-Checksum must be "sha256 <base64 digest>"', 400, session.offset);
+    }
+    if (crypto.createHash('sha256').update(chunk).digest('base64') !== digest) {
+      throw new UploadSessionError('Chunk checksum does not match', 460, session.offset);
+    }
+
+    // Drop bytes from a write that was interrupted before the offset was saved
+    const partPath = this.partPath(session.id);
+    fs.truncateSync(partPath, session.offset);
+    fs.appendFileSync(partPath, chunk);
+
+    const updated = { ...session, offset: session.offset + chunk.length, updatedAt: new Date() };
+    this.save(updated);
+    return updated;
+  }
+
+  /**
+   * Move a fully received file into the upload directory, named like
+   * multipart uploads, and close the session
+   */
+  complete(session: UploadSession): Express.Multer.File {
+    if (session.offset !== session.fileSize) {
+      throw new UploadSessionError(
+        `Upload is incomplete: ${session.offset} of ${session.fileSize} bytes received`,
+        409,
+        session.offset
+      );
+    }
+
+    const ext = path.extname(session.fileName);
+    const filename = `${session.userId}_${Date.now()}_${Math.round(Math.random() * 1E9)}${ext}`;
+    const destination = path.join(config.uploadDir, filename);
+
+    fs.renameSync(this.partPath(session.id), destination);
+    fs.rmSync(this.sessionPath(session.id), { force: true });
+
+    logger.logUpload('Upload session completed', {
+      uploadId: session.id,
+      userId: session.userId,
+      filename,
+      size: session.fileSize
+    });
+
+    return {
+      fieldname: 'file',
+      originalname: session.fileName,
+      encoding: '7bit',
+      mimetype: session.mimeType,
+      size: session.fileSize,
+      destination: config.uploadDir,
+      filename,
+      path: destination
+    } as Express.Multer.File;
+  }
+
+  delete(uploadId: string): void {
+    fs.rmSync(this.partPath(uploadId), { force: true });
+    fs.rmSync(this.sessionPath(uploadId), { force: true });
+  }
+
+  /**
+   * Remove sessions idle past their TTL, and their partial files. Partial
+   * and temporary files whose session file is gone (say, after a crash
+   * while one was written) are removed once they are as old as the TTL.
+   */
+  expireSessions(): number {
+    if (!fs.existsSync(this.dir)) {
+      return 0;
+    }
+
+    let expired = 0;
+    let orphaned = 0;
+    for (const file of fs.readdirSync(this.dir)) {
+      if (path.extname(file) === '.json') {
+        // get() removes the session when it has expired
+        if (!this.get(path.basename(file, '.json'))) {
+          expired++;
+        }
+        continue;
+      }
+
+      const uploadId = file.split('.')[0]!;
+      const filePath = path.join(this.dir, file);
+      if (fs.existsSync(this.sessionPath(uploadId))) continue;
+
+      try {
+        if (Date.now() - fs.statSync(filePath).mtime.getTime() > this.options.sessionTtlMs) {
+          fs.rmSync(filePath, { force: true });
+          orphaned++;
+        }
+      } catch {
+        // Removed while we looked
+      }
+    }
+
+    if (expired > 0 || orphaned > 0) {
+      logger.logUpload('Expired upload sessions removed', { expired, orphaned });
+    }
+    return expired + orphaned;
+  }
+
+  private isExpired(session: UploadSession): boolean {
+    return Date.now() > this.expiresAt(session).getTime();
+  }
+
+  private save(session: UploadSession): void {
+    const filePath = this.sessionPath(session.id);
+    fs.writeFileSync(`${filePath}.tmp`, JSON.stringify(session));
+    fs.renameSync(`${filePath}.tmp`, filePath);
+  }
+
+  private ensureDir(): void {
+    if (!fs.existsSync(this.dir)) {
+      fs.mkdirSync(this.dir, { recursive: true });
+    }
+  }
+
+  private sessionPath(uploadId: string): string {
+    return path.join(this.dir, `${uploadId}.json`);
+  }
+
+  private partPath(uploadId: string): string {
+    return path.join(this.dir, `${uploadId}.part`);
+  }
+}
+
+export const uploadSessionService = new UploadSessionService();
+export default uploadSessionService;
@@ -0,0 +1,210 @@
+import crypto from 'crypto';
+import { EmbeddingProvider, KeyPoint, Summary, Timestamp } from '../types';
+import { embeddingProvider } from './providers';
+import { logger } from '../utils/logger';
+import { dot } from '../utils/vectors';
+import config from '../utils/config';
+
+// Neighbouring segments are embedded together so each passage has enough context
+const PASSAGE_MAX_WORDS = 80;
+const PASSAGE_MAX_SECONDS = 60;
+
+const EMBEDDING_BATCH_SIZE = 64;
+
+/**
+ * A stretch of transcript from one speaker, or a timed key point; the unit
+ * of retrieval
+ */
+export interface Passage {
+  source: 'transcript' | 'keyPoint';
+  start: number;
+  end: number;
+  text: string;
+  speaker?: string;
+}
+
+export interface PassageMatch {
+  passage: Passage;
+  score: number;
+}
+
+interface IndexedEpisode {
+  fingerprint: string;
+  passages: Passage[];
+  vectors: number[][];
+}
+
+/**
+ * Group transcript segments into passages, starting a new one when the
+ * speaker changes or the passage grows too long
+ */
+export function buildPassages(segments: Timestamp[]): Passage[] {
+  const passages: Passage[] = [];
+  let words = 0;
+
+  for (const segment of segments) {
+    const text = segment.text.trim();
+    if (!text) continue;
+
+    const current = passages[passages.length - 1];
+    const segmentWords = text.split(/\s+/).length;
+
+    if (
+      current &&
+      current.speaker === segment.speaker &&
+      words + segmentWords <= PASSAGE_MAX_WORDS &&
+      segment.end - current.start <= PASSAGE_MAX_SECONDS
+    ) {
+      current.end = segment.end;
+      current.text = `${current.text} ${text}`;
+      words += segmentWords;
+    } else {
+      passages.push({ source: 'transcript', start: segment.start, end: segment.end, text, speaker: segment.speaker });
+      words = segmentWords;
+    }
+  }
+
+  return passages;
+}
+
+/**
+ * Key points that carry a timestamp, spanning the segment they point into
+ */
+export function keyPointPassages(keyPoints: KeyPoint[], segments: Timestamp[]): Passage[] {
+  return keyPoints
+    .filter(point => point.timestamp !== undefined)
+    .map(point => {
+      const start = point.timestamp!;
+      const segment = segments.find(candidate => start >= candidate.start && start < candidate.end);
+      return {
+        source: 'keyPoint' as const,
+        start,
+        end: segment?.end ?? start,
+        text: `${point.title}. ${point.description}`
+      };
+    });
+}
+
+/**
+ * In-memory vector index over episode transcripts and key points. Episodes
+ * are embedded on their first question and re-embedded only when their
+ * content changes; the least recently used episodes are dropped past the
+ * configured limit.
+ */
+export class VectorIndex {
+  private episodes = new Map<string, IndexedEpisode>();
+  private pending = new Map<string, Promise<IndexedEpisode>>();
+
+  constructor(
+    private provider: EmbeddingProvider = embeddingProvider,
+    private maxEpisodes: number = config.qa.maxIndexedEpisodes
+  ) {}
+
+  /**
+   * The passages of an episode closest in meaning to a query, best first
+   */
+  async search(summary: Summary, query: string, topK: number, source?: Passage['source']): Promise<PassageMatch[]> {
+    const [vector] = await Promise.all([this.embedQuery(query), this.episode(summary)]);
+    return this.nearest(summary, vector, topK, source);
+  }
+
+  /**
+   * Embed a query once, to compare against many episodes
+   */
+  async embedQuery(query: string): Promise<number[]> {
+    const [vector] = await this.provider.embed([query]);
+    if (!vector) {
+      throw new Error(`No embedding returned by ${this.provider.name}`);
+    }
+    return vector;
+  }
+
+  /**
+   * The passages of an episode closest to an embedded query, best first
+   */
+  async nearest(summary: Summary, vector: number[], topK: number, source?: Passage['source']): Promise<PassageMatch[]> {
+    const episode = await this.episode(summary);
+
+    return episode.passages
+      .map((passage, i) => ({ passage, score: dot(vector, episode.vectors[i]!) }))
+      .filter(match => !source || match.passage.source === source)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+  }
+
+  /**
+   * Forget an episode, e.g. after its summary is deleted
+   */
+  remove(summaryId: string): void {
+    this.episodes.delete(summaryId);
+  }
+
+  private async episode(summary: Summary): Promise<IndexedEpisode> {
+    const fingerprint = VectorIndex.fingerprint(summary);
+    const cached = this.episodes.get(summary.id);
+
+    if (cached && cached.fingerprint === fingerprint) {
+      // Re-insert to mark it most recently used
+      this.episodes.delete(summary.id);
+      this.episodes.set(summary.id, cached);
+      return cached;
+    }
+
+    const key = `${summary.id}:${fingerprint}`;
+    let pending = this.pending.get(key);
+    if (!pending) {
+      pending = this.build(summary, fingerprint).finally(() => this.pending.delete(key));
+      this.pending.set(key, pending);
+    }
+    return pending;
+  }
+
+  private async build(summary: Summary, fingerprint: string): Promise<IndexedEpisode> {
+    const startTime = Date.now();
+    const passages = [
+      ...buildPassages(summary.timestamps),
+      ...keyPointPassages(summary.keyPoints, summary.timestamps)
+    ];
+    const vectors: number[][] = [];
+
+    for (let i = 0; i < passages.length; i += EMBEDDING_BATCH_SIZE) {
+      const batch = passages.slice(i, i + EMBEDDING_BATCH_SIZE);
+      vectors.push(...await this.provider.embed(batch.map(passage => passage.text)));
+    }
+
+    const episode = { fingerprint, passages, vectors };
+    this.episodes.delete(summary.id);
+    this.episodes.set(summary.id, episode);
+
+    while (this.episodes.size > this.maxEpisodes) {
+      const oldest = this.episodes.keys().next().value;
+      if (oldest === undefined) break;
+      this.episodes.delete(oldest);
+    }
+
+    logger.logProcessing('Episode embedded for Q&A', summary.jobId, {
+      summaryId: summary.id,
+      provider: this.provider.name,
+      passages: passages.length,
+      duration: Date.now() - startTime
+    });
+
+    return episode;
+  }
+
+  private static fingerprint(summary: Summary): string {
+    const hash = crypto.createHash('sha1');
+    for (const segment of summary.timestamps) {
+      hash.update(`${segment.start}|${segment.speaker || ''}|${segment.text}\n`);
+    }
+    // Regeneration changes key points without touching the transcript
+    for (const point of summary.keyPoints) {
+      hash.update(`${point.timestamp ?? ''}|${point.title}|${point.description}\n`);
+    }
+    return hash.digest('hex');
+  }
+}
+
+// Export singleton instance
+export const vectorIndex = new VectorIndex();
+export default vectorIndex;
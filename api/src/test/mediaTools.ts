@@ -0,0 +1,47 @@
+import { spawnSync } from 'child_process';
+import ffmpegStatic from 'ffmpeg-static';
+import { afterAll, beforeAll } from '@jest/globals';
+import config from '../utils/config';
+
+// The real ffmpeg and ffprobe, for tests of what the tools make of our
+// arguments and what we make of their output. setup.ts points the app at
+// the stand-ins in fixtures/bin; TEST_FFMPEG_PATH and TEST_FFPROBE_PATH
+// override the bundled ffmpeg and the ffprobe on PATH.
+export const realFfmpegPath = process.env.TEST_FFMPEG_PATH || ffmpegStatic || 'ffmpeg';
+export const realFfprobePath = process.env.TEST_FFPROBE_PATH || 'ffprobe';
+
+const runs = (binary: string) => spawnSync(binary, ['-version'], { stdio: 'ignore', timeout: 10000 }).status === 0;
+
+// Tests needing a tool that is not installed are skipped
+export const hasFfmpeg = runs(realFfmpegPath);
+export const hasFfprobe = runs(realFfprobePath);
+
+/**
+ * Point the app at the real tools for the tests of the enclosing describe
+ */
+export function useRealMediaTools(): void {
+  const { ffmpegPath, ffprobePath } = config.media;
+
+  beforeAll(() => {
+    config.media.ffmpegPath = realFfmpegPath;
+    config.media.ffprobePath = realFfprobePath;
+  });
+
+  afterAll(() => {
+    Object.assign(config.media, { ffmpegPath, ffprobePath });
+  });
+}
+
+/**
+ * Write audio from an ffmpeg lavfi source, such as `sine=d=1`, to a file
+ */
+export function generateAudio(filePath: string, source: string, args: string[] = []): void {
+  const result = spawnSync(
+    realFfmpegPath,
+    ['-v', 'error', '-y', '-f', 'lavfi', '-i', source, ...args, filePath],
+    { encoding: 'utf8', timeout: 30000 }
+  );
+  if (result.status !== 0) {
+    throw new Error(`Could not generate ${filePath}: ${result.stderr || result.error?.message}`);
+  }
+}
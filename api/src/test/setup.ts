@@ -0,0 +1,31 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll } from '@jest/globals';
+
+// Tests run offline: local providers, in-memory stores, a throwaway upload
+// directory and stand-in ffmpeg/ffprobe scripts (see fixtures/bin)
+const uploadDir = fs.mkdtempSync(path.join(os.tmpdir(), 'podsum-test-'));
+afterAll(() => fs.rmSync(uploadDir, { recursive: true, force: true }));
+
+const bin = path.join(__dirname, 'fixtures', 'bin');
+
+Object.assign(process.env, {
+  NODE_ENV: 'test',
+  TZ: 'UTC',
+  FIREBASE_PROJECT_ID: 'test',
+  FIREBASE_CLIENT_EMAIL: 'test@example.com',
+  FIREBASE_PRIVATE_KEY: 'test',
+  JWT_SECRET: 'test',
+  OPENAI_API_KEY: 'test',
+  TRANSCRIPTION_PROVIDER: 'local',
+  SUMMARIZATION_PROVIDER: 'local',
+  EMBEDDING_PROVIDER: 'local',
+  JOB_STORE_DRIVER: 'memory',
+  SUMMARY_STORE_DRIVER: 'memory',
+  TEMPLATE_STORE_DRIVER: 'memory',
+  UPLOAD_DIR: uploadDir,
+  JOB_CHECKPOINT_DIR: path.join(uploadDir, '.checkpoints'),
+  FFMPEG_PATH: path.join(bin, 'ffmpeg'),
+  FFPROBE_PATH: path.join(bin, 'ffprobe')
+});
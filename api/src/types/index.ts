@@ -1,4 +1,23 @@
 import { Request } from 'express';
+import {
+  UploadType,
+  UploadOptions,
+  DetailLevel,
+  JobStatus,
+  JobStage,
+  Timestamp,
+  KeyPoint,
+  Chapter,
+  Speaker,
+  Summary,
+  SummaryGrounding,
+  SummarySection,
+  SummaryTemplate,
+  AudioPreprocessingOptions,
+  AudioPreprocessingReport
+} from './shared';
+
+export * from './shared';
 
 // User types
 export interface User {
@@ -23,163 +42,63 @@ export interface JWTPayload {
 }
 
 // Upload types
-export type UploadType = 'file' | 'url';
-export type DetailLevel = 'brief' | 'standard' | 'deep';
-
-export interface UploadOptions {
-  lang?: string;
-  detail: DetailLevel;
-  timestamps: boolean;
-}
-
 export interface UploadRequest {
   type: UploadType;
   file?: Express.Multer.File;
   url?: string;
   options: UploadOptions;
-}
-
-export interface UploadResponse {
-  jobId: string;
-  status: 'queued' | 'processing' | 'completed' | 'failed';
-  message: string;
-  estimatedTime?: number;
+  // Probed when the upload was validated
+  metadata?: AudioMetadata;
 }
 
 // Processing job types
-export type JobStatus = 'queued' | 'processing' | 'completed' | 'failed';
+// 'regenerate' jobs re-summarize a stored transcript and skip download and transcription
+export type JobType = UploadType | 'regenerate';
 
 export interface ProcessingJob {
   id: string;
   userId: string;
-  type: UploadType;
+  type: JobType;
   status: JobStatus;
+  stage?: JobStage;
   progress: number;
   originalFile?: string;
   url?: string;
   options: UploadOptions;
   error?: string;
+  summaryId?: string;
+  sourceSummaryId?: string; // Summary being regenerated
+  retryable?: boolean; // Failed on a provider outage and can be retried
+  retries?: number;
+  preprocessing?: AudioPreprocessingReport;
   createdAt: Date;
   updatedAt: Date;
   completedAt?: Date;
 }
 
-export interface JobStatusResponse {
-  jobId: string;
-  status: JobStatus;
-  progress: number;
-  message?: string;
-  error?: string;
-  result?: Summary;
-}
-
-// Summary types
-export interface Timestamp {
-  start: number;
-  end: number;
-  text: string;
-  confidence?: number;
-}
-
-export interface KeyPoint {
-  title: string;
-  description: string;
-  timestamp?: number;
-  importance: 'high' | 'medium' | 'low';
-}
-
-export interface Speaker {
-  id: string;
-  name?: string;
-  speakingTime: number;
-  segments: Timestamp[];
-}
-
-export interface Chapter {
-  title: string;
-  start: number;
-  end: number;
-  summary: string;
-  keyPoints: string[];
-}
-
-export interface Summary {
-  id: string;
-  userId: string;
-  jobId: string;
-  title: string;
-  description?: string;
-  originalUrl?: string;
-  originalFileName?: string;
-  duration: number;
-  language: string;
-  detailLevel: DetailLevel;
-  
-  // Summary content
-  overview: string;
-  keyTakeaways: string[];
-  keyPoints: KeyPoint[];
-  actionItems: string[];
-  quotes: string[];
-  
-  // Transcription data
-  transcript: string;
-  timestamps: Timestamp[];
-  speakers?: Speaker[];
-  chapters?: Chapter[];
-  
-  // Metadata
-  processingTime: number;
-  wordCount: number;
-  confidence: number;
-  tags: string[];
-  
-  // Timestamps
-  createdAt: Date;
-  updatedAt: Date;
-}
-
-export interface CreateSummaryRequest {
-  title: string;
-  description?: string;
-  tags?: string[];
+export interface WorkerState {
+  id: number;
+  status: 'idle' | 'busy';
+  jobId?: string;
+  userId?: string;
+  startedAt?: Date;
 }
 
-export interface UpdateSummaryRequest {
-  title?: string;
-  description?: string;
-  tags?: string[];
-}
-
-// API Response types
-export interface ApiResponse<T = any> {
-  success: boolean;
-  data?: T;
-  error?: string;
-  message?: string;
-  timestamp: string;
-}
-
-export interface PaginatedResponse<T> extends ApiResponse<T[]> {
-  pagination: {
-    page: number;
-    limit: number;
-    total: number;
-    totalPages: number;
-    hasNext: boolean;
-    hasPrev: boolean;
-  };
-}
-
-export interface SummaryListQuery {
-  page?: number;
-  limit?: number;
-  search?: string;
-  sort?: 'createdAt' | 'updatedAt' | 'title' | 'duration';
-  order?: 'asc' | 'desc';
-  tags?: string[];
-  language?: string;
-  detailLevel?: DetailLevel;
+export interface QueueStatus {
+  queueLength: number;
+  totalJobs: number;
+  isProcessing: boolean;
+  concurrency: number;
+  perUserLimit: number;
+  // The job id is only there for the caller's own jobs
+  workers: Omit<WorkerState, 'userId'>[];
+  jobs: {
+    id: string;
+    status: JobStatus;
+    progress: number;
+    position?: number;
+    createdAt: Date;
+  }[];
 }
 
 // Error types
@@ -189,25 +108,16 @@ export interface ApiError extends Error {
   details?: any;
 }
 
-export interface ValidationError {
-  field: string;
-  message: string;
-  value?: any;
-}
-
-export interface ErrorResponse {
-  error: string;
-  message: string;
-  statusCode: number;
-  timestamp: string;
-  path?: string;
-  validation?: ValidationError[];
-}
-
 // OpenAI types
 export interface OpenAIConfig {
   apiKey: string;
+  // Transcription model
   model: string;
+  summaryModel: string;
+  embeddingModel: string;
+  contextTokens: number;
+  // Most tokens the summary model can write in one reply
+  outputTokens: number;
   maxTokens: number;
   temperature: number;
 }
@@ -216,6 +126,8 @@ export interface TranscriptionRequest {
   audioFile: Buffer;
   language?: string;
   prompt?: string;
+  // Aborts the HTTP request
+  signal?: AbortSignal;
 }
 
 export interface TranscriptionResponse {
@@ -228,13 +140,20 @@ export interface TranscriptionResponse {
 
 export interface SummarizationRequest {
   transcript: string;
+  segments?: Timestamp[];
+  // 'sectionNotes' when the transcript field holds map-reduce section notes
+  mode?: 'transcript' | 'sectionNotes';
   detailLevel: DetailLevel;
   options: UploadOptions;
+  // Replaces the default output format when options.templateId is set
+  template?: SummaryTemplate;
   metadata?: {
     title?: string;
     duration?: number;
     language?: string;
   };
+  // Aborts the HTTP requests
+  signal?: AbortSignal;
 }
 
 export interface SummarizationResponse {
@@ -244,8 +163,82 @@ export interface SummarizationResponse {
   actionItems: string[];
   quotes: string[];
   chapters?: Chapter[];
+  sections?: SummarySection[];
   tags: string[];
   confidence: number;
+  // Set by the grounding stage, not by providers
+  grounding?: SummaryGrounding;
+}
+
+// AI provider types
+export type ProviderKind = 'openai' | 'compatible' | 'local';
+
+export interface JsonCompletion<T = unknown> {
+  data: T;
+  finishReason?: string;
+  tokensUsed?: number;
+}
+
+export interface JsonCompletionOptions {
+  maxTokens?: number;
+  signal?: AbortSignal;
+  // Names the request in logs and errors
+  context?: string;
+}
+
+export interface TokenLimitCheck {
+  valid: boolean;
+  estimatedTokens: number;
+  maxTokens: number;
+}
+
+export interface TranscriptionProvider {
+  readonly name: string;
+  transcribeAudio(request: TranscriptionRequest): Promise<TranscriptionResponse>;
+  testConnection(): Promise<boolean>;
+}
+
+export interface SummarizationProvider {
+  readonly name: string;
+  generateSummary(request: SummarizationRequest): Promise<SummarizationResponse>;
+  // Completion that must return a JSON object `parse` accepts. Invalid replies
+  // are sent back for repair and truncated ones retried, as for summaries.
+  completeJson<T>(
+    systemPrompt: string,
+    userPrompt: string,
+    parse: (data: unknown) => T,
+    options?: JsonCompletionOptions
+  ): Promise<JsonCompletion<T>>;
+  estimateTokenCount(text: string): number;
+  validateTokenLimits(transcript: string): TokenLimitCheck;
+  testConnection(): Promise<boolean>;
+}
+
+export interface EmbeddingProvider {
+  readonly name: string;
+  // One unit-length vector per text, in order
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+// Speaker diarization types
+export type DiarizationProviderKind = 'local' | 'none';
+
+export interface DiarizationRequest {
+  audioFile: string;
+  segments: Timestamp[];
+  maxSpeakers: number;
+  // Aborting stops the work at the next step
+  signal?: AbortSignal;
+}
+
+export interface DiarizationResponse {
+  segments: Timestamp[];
+  speakers: Speaker[];
+}
+
+export interface DiarizationProvider {
+  readonly name: string;
+  diarize(request: DiarizationRequest): Promise<DiarizationResponse>;
 }
 
 // File processing types
@@ -256,12 +249,13 @@ export interface AudioMetadata {
   sampleRate?: number;
   channels?: number;
   size: number;
+  // Whether the file also has a video stream (cover art does not count)
+  video?: boolean;
 }
 
-export interface ProcessingOptions {
+export interface ProcessingOptions extends AudioPreprocessingOptions {
   convertToWav?: boolean;
   normalizeAudio?: boolean;
-  removeNoise?: boolean;
   maxSize?: number;
 }
 
@@ -273,6 +267,8 @@ export interface HealthStatus {
   uptime: number;
   services: {
     database: 'connected' | 'disconnected' | 'error';
+    ai: 'available' | 'unavailable' | 'error';
+    // Same as ai; kept for clients written when OpenAI was the only provider
     openai: 'available' | 'unavailable' | 'error';
     storage: 'accessible' | 'inaccessible' | 'error';
   };
@@ -291,6 +287,18 @@ export interface HealthStatus {
       percentage: number;
     };
   };
+  // Circuit breakers around AI providers
+  circuits?: CircuitStatus[];
+}
+
+export interface CircuitStatus {
+  name: string;
+  state: 'closed' | 'open' | 'half-open';
+  // Consecutive failures so far
+  failures: number;
+  openedAt?: string;
+  // When an open circuit lets a trial call through
+  retryAt?: string;
 }
 
 // Configuration types
@@ -302,9 +310,52 @@ export interface Config {
   maxFileSize: number;
   maxFileSizeMB: number;
   allowedFileTypes: string[];
+
+  // Resumable uploads, sent in chunks
+  resumableUpload: {
+    maxFileSize: number;
+    chunkSize: number;
+    // Sessions idle for longer are removed by the upload cleanup
+    sessionTtlMs: number;
+  };
+
+  media: {
+    ffmpegPath: string;
+    ffprobePath: string;
+    // Longer uploads are rejected before they are queued
+    maxDurationSeconds: number;
+    // ffmpeg and ffprobe runs are killed after these
+    ffmpegTimeoutMs: number;
+    probeTimeoutMs: number;
+  };
+
+  preprocessing: {
+    // Long pauses are shortened to this many seconds
+    maxPauseSeconds: number;
+    noiseFloorDb: number;
+  };
   
   // OpenAI configuration
   openai: OpenAIConfig;
+
+  // AI providers, chosen per deployment
+  providers: {
+    transcription: ProviderKind;
+    summarization: ProviderKind;
+    embeddings: ProviderKind;
+    // Any server speaking the OpenAI API (whisper.cpp, Ollama, LocalAI, ...)
+    compatible: {
+      transcriptionUrl: string;
+      summarizationUrl: string;
+      apiKey: string;
+      transcriptionModel: string;
+      summaryModel: string;
+      embeddingModel: string;
+      contextTokens: number;
+      outputTokens: number;
+      jsonMode: boolean;
+    };
+  };
   
   // Firebase configuration
   firebase: {
@@ -326,36 +377,99 @@ export interface Config {
     windowMs: number;
     max: number;
   };
-}
 
-export default {
-  User,
-  AuthRequest,
-  JWTPayload,
-  UploadType,
-  DetailLevel,
-  UploadOptions,
-  UploadRequest,
-  UploadResponse,
-  ProcessingJob,
-  JobStatus,
-  JobStatusResponse,
-  Summary,
-  CreateSummaryRequest,
-  UpdateSummaryRequest,
-  ApiResponse,
-  PaginatedResponse,
-  SummaryListQuery,
-  ApiError,
-  ValidationError,
-  ErrorResponse,
-  OpenAIConfig,
-  TranscriptionRequest,
-  TranscriptionResponse,
-  SummarizationRequest,
-  SummarizationResponse,
-  AudioMetadata,
-  ProcessingOptions,
-  HealthStatus,
-  Config
-};
+  // Processing queue
+  processing: {
+    concurrency: number;
+    perUserConcurrency: number;
+  };
+
+  // Long-audio transcription
+  transcription: {
+    chunkSeconds: number;
+    maxChunkSeconds: number;
+    overlapSeconds: number;
+    concurrency: number;
+    maxRetries: number;
+    noiseDb: number;
+    minSilenceSeconds: number;
+  };
+
+  // Speaker diarization
+  diarization: {
+    provider: DiarizationProviderKind;
+    maxSpeakers: number;
+  };
+
+  // Questions about episodes
+  qa: {
+    topK: number;
+    maxIndexedEpisodes: number;
+    libraryTopK: number;
+    libraryMaxEpisodes: number;
+  };
+
+  // Retries and circuit breakers around AI provider calls
+  resilience: {
+    maxRetries: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+    circuitBreaker: {
+      failureThreshold: number;
+      resetTimeoutMs: number;
+    };
+  };
+
+  // Checking summaries against their transcripts
+  grounding: {
+    minScore: number;
+    quoteMinScore: number;
+  };
+
+  // Long-transcript summarization
+  summarization: {
+    chunkTokens: number;
+    concurrency: number;
+    maxRetries: number;
+    // Requests asking the model to fix a summary that fails validation
+    repairAttempts: number;
+    // Largest output budget a truncated summary is retried with
+    maxOutputTokens: number;
+    maxVersions: number;
+  };
+
+  // Remote audio downloads
+  download: {
+    maxBytes: number;
+    timeoutMs: number;
+  };
+
+  // Job persistence
+  jobStore: {
+    driver: 'memory' | 'file';
+    filePath: string;
+    // Stage results kept so failed jobs can resume
+    checkpointDir: string;
+  };
+
+  // Summary persistence
+  summaryStore: {
+    driver: 'memory' | 'sqlite' | 'firestore';
+    filePath: string;
+    // Longest a SQLite write waits before the file is rewritten
+    flushDelayMs: number;
+  };
+
+  // Full-text search
+  search: {
+    // Users whose summaries are kept in the in-memory index
+    maxIndexedUsers: number;
+  };
+
+  // Summary template persistence
+  templateStore: {
+    driver: 'memory' | 'sqlite' | 'firestore';
+    filePath: string;
+    maxPerUser: number;
+  };
+}
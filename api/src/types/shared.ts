@@ -0,0 +1,483 @@
+// Request and response types shared with the web client (src/lib/api.ts).
+// Keep this file free of server-only imports so the client can type-check
+// against it. Dates arrive as ISO strings over the wire.
+
+// Upload types
+export type UploadType = 'file' | 'url';
+export type DetailLevel = 'brief' | 'standard' | 'deep';
+
+export interface UploadOptions {
+  lang?: string;
+  detail: DetailLevel;
+  timestamps: boolean;
+  episode?: string; // GUID or title when the URL is an RSS/Atom feed
+  instructions?: string; // Extra guidance for the summarizer
+  templateId?: string; // Summary template to follow instead of the default format
+  audio?: AudioPreprocessingOptions; // Clean-up before transcription
+}
+
+// Which channel of stereo audio is transcribed; mono files report 'mono'
+export type AudioChannel = 'mix' | 'left' | 'right';
+
+// Audio clean-up steps, all off by default. The audio track is always taken
+// out of video files, and timestamps always refer to the original audio.
+export interface AudioPreprocessingOptions {
+  removeNoise?: boolean; // Reduce steady background noise
+  trimSilence?: boolean; // Cut silence before the first and after the last sound
+  shortenPauses?: boolean; // Shorten long pauses inside the audio
+  channel?: AudioChannel;
+}
+
+export type AudioPreprocessingStep =
+  | 'extractAudio'
+  | 'trimSilence'
+  | 'shortenPauses'
+  | 'selectChannel'
+  | 'removeNoise'
+  | 'normalize'
+  | 'resample';
+
+// What preprocessing did to a job's audio; durations are in seconds
+export interface AudioPreprocessingReport {
+  steps: AudioPreprocessingStep[];
+  originalDuration: number;
+  processedDuration: number;
+  silenceTrimmed: number;
+  pausesShortened: number;
+  pauseTimeRemoved: number;
+  channel: AudioChannel | 'mono';
+  videoRemoved: boolean;
+}
+
+export interface UploadResponse {
+  jobId: string;
+  status: JobStatus;
+  message: string;
+  estimatedTime?: number;
+}
+
+// Resumable uploads: create a session, PATCH chunks from its offset, then
+// complete it with the upload options to start processing
+export interface CreateUploadSessionRequest {
+  fileName: string;
+  fileSize: number;
+  mimeType: string;
+}
+
+export interface UploadSessionResponse {
+  uploadId: string;
+  fileName: string;
+  fileSize: number;
+  offset: number; // Bytes received so far; the next chunk starts here
+  chunkSize: number; // Largest chunk the server accepts
+  expiresAt: Date;
+}
+
+// Processing job types
+// Completed, failed and cancelled jobs are finished and never change again
+export type JobStatus = 'queued' | 'processing' | 'completed' | 'failed' | 'cancelled';
+
+export type JobStage =
+  | 'queued'
+  | 'downloading'
+  | 'analyzing'
+  | 'preprocessing'
+  | 'transcribing'
+  | 'diarizing'
+  | 'summarizing'
+  | 'saving'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+export interface JobStatusResponse {
+  jobId: string;
+  status: JobStatus;
+  stage?: JobStage;
+  progress: number;
+  message?: string;
+  error?: string;
+  // A failed job that POST /api/upload/retry/:jobId can resume
+  retryable?: boolean;
+  preprocessing?: AudioPreprocessingReport;
+  queuePosition?: number;
+  result?: Summary;
+}
+
+// Pushed to GET /api/upload/status/:jobId/stream subscribers
+export type JobEventType = 'progress' | 'transcript' | 'completed' | 'failed' | 'cancelled';
+
+export interface JobEvent {
+  type: JobEventType;
+  jobId: string;
+  status: JobStatus;
+  stage?: JobStage;
+  progress: number;
+  message?: string;
+  // Newly transcribed segments, on the episode timeline
+  segments?: Timestamp[];
+  summaryId?: string;
+  error?: string;
+  retryable?: boolean;
+  timestamp: string;
+}
+
+// Summary types
+export interface Timestamp {
+  start: number;
+  end: number;
+  text: string;
+  confidence?: number;
+  speaker?: string; // Speaker id, once diarized
+}
+
+export interface KeyPoint {
+  title: string;
+  description: string;
+  timestamp?: number;
+  importance: 'high' | 'medium' | 'low';
+  // 0-1 support for the point in the transcript, set once it has been checked
+  grounding?: number;
+}
+
+export interface Speaker {
+  id: string;
+  name?: string;
+  speakingTime: number;
+  segments: Timestamp[];
+}
+
+// Who said a quote and where it appears in the transcript
+export interface QuoteAttribution {
+  quote: string;
+  speakerId?: string;
+  start?: number;
+  // 0-1 similarity to the transcript passage it was matched to
+  grounding?: number;
+}
+
+export interface EpisodeMetadata {
+  showTitle?: string;
+  episodeTitle?: string;
+  description?: string;
+  artworkUrl?: string;
+  publishedAt?: Date;
+  guid?: string;
+  feedUrl?: string;
+  audioUrl?: string;
+}
+
+export interface Chapter {
+  title: string;
+  start: number;
+  end: number;
+  summary: string;
+  keyPoints: string[];
+  // 0-1 support for the chapter in the transcript between its start and end
+  grounding?: number;
+}
+
+// How well a summary's key points, quotes and chapters are supported by its
+// transcript. Items below the threshold are flagged; made-up quotes are dropped.
+export interface SummaryGrounding {
+  score: number;
+  flagged: number;
+  droppedQuotes: string[];
+}
+
+export interface Summary {
+  id: string;
+  userId: string;
+  jobId: string;
+  title: string;
+  description?: string;
+  originalUrl?: string;
+  originalFileName?: string;
+  episode?: EpisodeMetadata;
+  duration: number;
+  language: string;
+  // Language the episode was transcribed in; `language` is the summary's,
+  // which a regeneration can change
+  transcriptLanguage?: string;
+  detailLevel: DetailLevel;
+  
+  // Summary content
+  overview: string;
+  keyTakeaways: string[];
+  keyPoints: KeyPoint[];
+  actionItems: string[];
+  quotes: string[];
+  
+  // Transcription data
+  transcript: string;
+  timestamps: Timestamp[];
+  speakers?: Speaker[];
+  quoteAttributions?: QuoteAttribution[];
+  chapters?: Chapter[];
+  
+  // Metadata
+  processingTime: number;
+  wordCount: number;
+  confidence: number;
+  tags: string[];
+
+  // Set when the summary follows a user-defined template
+  template?: SummaryTemplateRef;
+  sections?: SummarySection[];
+  grounding?: SummaryGrounding;
+
+  // Regeneration history; `versions` holds earlier versions, newest first
+  version?: number;
+  instructions?: string;
+  generatedAt?: Date;
+  versions?: SummaryVersion[];
+  
+  // Timestamps
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// A previously generated summary, kept for comparison and rollback
+export interface SummaryVersion {
+  version: number;
+  language: string;
+  detailLevel: DetailLevel;
+  instructions?: string;
+  template?: SummaryTemplateRef;
+  overview: string;
+  keyTakeaways: string[];
+  keyPoints: KeyPoint[];
+  actionItems: string[];
+  quotes: string[];
+  chapters?: Chapter[];
+  sections?: SummarySection[];
+  grounding?: SummaryGrounding;
+  tags: string[];
+  confidence: number;
+  generatedAt: Date;
+}
+
+export interface CreateSummaryRequest {
+  title: string;
+  description?: string;
+  tags?: string[];
+}
+
+export interface UpdateSummaryRequest {
+  title?: string;
+  description?: string;
+  tags?: string[];
+}
+
+export interface RegenerateSummaryRequest {
+  detailLevel?: DetailLevel;
+  timestamps?: boolean;
+  language?: string;
+  instructions?: string;
+  // Defaults to the summary's current template; null switches back to the default format
+  templateId?: string | null;
+}
+
+export interface RenameSpeakerRequest {
+  name: string;
+}
+
+// Summary templates: user-defined output formats such as "sales call debrief"
+export type TemplateSectionType = 'text' | 'list' | 'items';
+export type TemplateFieldType = 'string' | 'number' | 'boolean' | 'timestamp';
+
+// One property of each entry in an 'items' section; timestamps are seconds into the episode
+export interface TemplateField {
+  name: string;
+  type: TemplateFieldType;
+  description?: string;
+  required?: boolean;
+}
+
+export interface TemplateSection {
+  key: string; // Property name in the model's JSON output, e.g. "objections"
+  title: string;
+  instructions: string;
+  type: TemplateSectionType;
+  // Item counts for 'list' and 'items' sections
+  minItems?: number;
+  maxItems?: number;
+  fields?: TemplateField[]; // Required for 'items' sections
+}
+
+export interface SummaryTemplate {
+  id: string;
+  userId: string;
+  name: string;
+  description?: string;
+  sections: TemplateSection[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface SummaryTemplateRequest {
+  name: string;
+  description?: string;
+  sections: TemplateSection[];
+}
+
+// The template a summary was generated with, kept even if the template changes later
+export interface SummaryTemplateRef {
+  id: string;
+  name: string;
+}
+
+export type TemplateItem = Record<string, string | number | boolean>;
+
+// A generated template section: text for 'text', strings for 'list', objects for 'items'
+export interface SummarySection {
+  key: string;
+  title: string;
+  type: TemplateSectionType;
+  content: string | string[] | TemplateItem[];
+  fields?: TemplateField[]; // How to read each item of an 'items' section
+}
+
+// Questions answered from an episode's transcript
+export interface AskRequest {
+  question: string;
+}
+
+// A transcript passage or key point an answer draws on; `index` matches the [n] markers in the answer
+export interface AnswerCitation {
+  index: number;
+  source: 'transcript' | 'keyPoint';
+  start: number;
+  end: number;
+  text: string;
+  speaker?: string; // Display name, once diarized
+}
+
+export interface AskResponse {
+  question: string;
+  answer: string;
+  citations: AnswerCitation[];
+}
+
+// Questions answered across every summary matching the filters
+export interface LibraryAskRequest extends AskRequest {
+  tags?: string[];
+  language?: string;
+  detailLevel?: DetailLevel;
+  from?: string;
+  to?: string;
+}
+
+// Citations from one episode; indexes run across the whole answer
+export interface EpisodeCitations {
+  summaryId: string;
+  title: string;
+  showTitle?: string;
+  audioUrl?: string;
+  citations: AnswerCitation[];
+}
+
+export interface LibraryAskResponse {
+  question: string;
+  answer: string;
+  episodes: EpisodeCitations[];
+  // Summaries that matched the filters and were searched
+  searchedEpisodes: number;
+}
+
+export type ExportFormat = 'json' | 'markdown' | 'text' | 'pdf' | 'docx' | 'html' | 'srt' | 'vtt';
+
+export type ExportSection =
+  | 'metadata'
+  | 'overview'
+  | 'takeaways'
+  | 'keyPoints'
+  | 'actionItems'
+  | 'quotes'
+  | 'chapters'
+  | 'template'
+  | 'transcript';
+
+// API Response types
+export interface ApiResponse<T = unknown> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  message?: string;
+  timestamp: string;
+}
+
+export interface PaginatedResponse<T> extends ApiResponse<T[]> {
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+    hasNext: boolean;
+    hasPrev: boolean;
+  };
+}
+
+export interface SummaryListQuery {
+  page?: number;
+  limit?: number;
+  search?: string;
+  sort?: 'createdAt' | 'updatedAt' | 'title' | 'duration';
+  order?: 'asc' | 'desc';
+  tags?: string[];
+  language?: string;
+  detailLevel?: DetailLevel;
+  // ISO 8601 dates bounding createdAt, both inclusive
+  from?: string;
+  to?: string;
+}
+
+// Full-text search over a user's library
+export interface SummarySearchQuery {
+  q: string;
+  page?: number;
+  limit?: number;
+}
+
+export type SearchField = 'title' | 'overview' | 'keyPoint' | 'quote' | 'transcript';
+
+// Character range of a match within a snippet
+export interface SearchHighlight {
+  start: number;
+  end: number;
+}
+
+export interface SearchHit {
+  field: SearchField;
+  snippet: string;
+  highlights: SearchHighlight[];
+  score: number;
+  // Transcript segment to jump to, when the hit has a place in the episode
+  segment?: Timestamp;
+}
+
+export interface SummarySearchResult {
+  summaryId: string;
+  title: string;
+  showTitle?: string;
+  audioUrl?: string;
+  createdAt: Date;
+  score: number;
+  hits: SearchHit[];
+}
+
+// Error types
+export interface ValidationError {
+  field: string;
+  message: string;
+  value?: unknown;
+}
+
+export interface ErrorResponse {
+  error: string;
+  message: string;
+  statusCode: number;
+  timestamp: string;
+  path?: string;
+  validation?: ValidationError[];
+}
@@ -0,0 +1,134 @@
+import { CircuitStatus } from '../types';
+import { logger } from './logger';
+import config from './config';
+
+export interface CircuitBreakerOptions {
+  // Consecutive failures that open the circuit
+  failureThreshold: number;
+  // How long the circuit stays open before a trial call is let through
+  resetTimeoutMs: number;
+}
+
+/**
+ * Raised instead of calling a dependency whose circuit is open
+ */
+export class CircuitOpenError extends Error {
+  constructor(name: string, public retryAt: Date) {
+    super(`${name} is unavailable after repeated failures; calls resume at ${retryAt.toISOString()}`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * Stops calling a failing dependency for a while. After `failureThreshold`
+ * consecutive failures the circuit opens and calls fail fast; once
+ * `resetTimeoutMs` has passed one trial call goes through (half-open), and
+ * its outcome closes or reopens the circuit.
+ */
+export class CircuitBreaker {
+  private state: CircuitStatus['state'] = 'closed';
+  private failures = 0;
+  private openedAt?: Date;
+  private trialInFlight = false;
+
+  constructor(readonly name: string, private options: CircuitBreakerOptions) {}
+
+  /**
+   * Run an operation through the breaker. Only errors `isFailure` accepts
+   * count against the dependency; others pass through untouched.
+   */
+  async execute<T>(operation: () => Promise<T>, isFailure: (error: unknown) => boolean = () => true): Promise<T> {
+    this.beforeCall();
+    const trial = this.state === 'half-open';
+
+    try {
+      const result = await operation();
+      this.onSuccess();
+      return result;
+    } catch (error) {
+      if (isFailure(error)) {
+        this.onFailure();
+      } else if (trial) {
+        // The dependency answered, so it is up
+        this.onSuccess();
+      }
+      throw error;
+    } finally {
+      if (trial) this.trialInFlight = false;
+    }
+  }
+
+  status(): CircuitStatus {
+    return {
+      name: this.name,
+      state: this.currentState(),
+      failures: this.failures,
+      openedAt: this.openedAt?.toISOString(),
+      retryAt: this.openedAt && this.state !== 'closed' ? this.retryAt().toISOString() : undefined
+    };
+  }
+
+  private currentState(): CircuitStatus['state'] {
+    if (this.state === 'open' && Date.now() >= this.retryAt().getTime()) {
+      return 'half-open';
+    }
+    return this.state;
+  }
+
+  private beforeCall(): void {
+    this.state = this.currentState();
+
+    if (this.state === 'open' || (this.state === 'half-open' && this.trialInFlight)) {
+      throw new CircuitOpenError(this.name, this.retryAt());
+    }
+    if (this.state === 'half-open') {
+      this.trialInFlight = true;
+    }
+  }
+
+  private onSuccess(): void {
+    if (this.state !== 'closed') {
+      logger.info(`Circuit closed: ${this.name}`);
+    }
+    this.state = 'closed';
+    this.failures = 0;
+    this.openedAt = undefined;
+  }
+
+  private onFailure(): void {
+    this.failures++;
+
+    if (this.state === 'half-open' || this.failures >= this.options.failureThreshold) {
+      if (this.state !== 'open') {
+        logger.warn(`Circuit opened: ${this.name}`, { failures: this.failures, resetTimeoutMs: this.options.resetTimeoutMs });
+      }
+      this.state = 'open';
+      this.openedAt = new Date();
+    }
+  }
+
+  private retryAt(): Date {
+    return new Date((this.openedAt?.getTime() || Date.now()) + this.options.resetTimeoutMs);
+  }
+}
+
+const breakers = new Map<string, CircuitBreaker>();
+
+/**
+ * The shared breaker for a dependency, created on first use
+ */
+export function circuitBreaker(name: string, options: CircuitBreakerOptions = config.resilience.circuitBreaker): CircuitBreaker {
+  let breaker = breakers.get(name);
+  if (!breaker) {
+    breaker = new CircuitBreaker(name, options);
+    breakers.set(name, breaker);
+  }
+  return breaker;
+}
+
+/**
+ * State of every breaker created so far, for health checks
+ */
+export function circuitStatuses(): CircuitStatus[] {
+  return [...breakers.values()].map(breaker => breaker.status());
+}
@@ -1,6 +1,7 @@
 import dotenv from 'dotenv';
 import path from 'path';
-import { Config } from '../types';
+import ffmpegStatic from 'ffmpeg-static';
+import { Config, ProviderKind } from '../types';
 
 // Load environment variables
 dotenv.config();
@@ -38,10 +39,29 @@ const getEnvArray = (name: string, defaultValue: string[] = []): string[] => {
   return value.split(',').map(item => item.trim());
 };
 
+const getEnvProvider = (name: string): ProviderKind => {
+  const value = getEnvVar(name, 'openai');
+  if (!['openai', 'compatible', 'local'].includes(value)) {
+    throw new Error(`Environment variable ${name} must be one of openai, compatible, local`);
+  }
+  return value as ProviderKind;
+};
+
+// Most tokens a model can write in one reply. Unknown models get 4096, the
+// limit of gpt-4-turbo and gpt-3.5-turbo.
+const modelOutputTokens = (model: string): number => {
+  if (model.startsWith('gpt-4.1')) return 32768;
+  if (model.startsWith('gpt-4o')) return 16384;
+  return 4096;
+};
+
 // Validate required environment variables
 const validateConfig = (): void => {
+  const usesOpenAI = [process.env.TRANSCRIPTION_PROVIDER, process.env.SUMMARIZATION_PROVIDER, process.env.EMBEDDING_PROVIDER]
+    .some(provider => !provider || provider === 'openai');
+
   const required = [
-    'OPENAI_API_KEY',
+    ...(usesOpenAI ? ['OPENAI_API_KEY'] : []),
     'FIREBASE_PROJECT_ID',
     'FIREBASE_CLIENT_EMAIL',
     'FIREBASE_PRIVATE_KEY',
@@ -87,15 +107,59 @@ const config: Config = {
     'video/webm',
     'video/quicktime'
   ]),
+
+  // Resumable upload configuration
+  resumableUpload: {
+    maxFileSize: getEnvNumber('RESUMABLE_UPLOAD_MAX_SIZE', 2 * 1024 * 1024 * 1024), // 2GB in bytes
+    chunkSize: getEnvNumber('RESUMABLE_UPLOAD_CHUNK_SIZE', 8 * 1024 * 1024),
+    sessionTtlMs: getEnvNumber('RESUMABLE_UPLOAD_TTL_MS', 24 * 60 * 60 * 1000)
+  },
+
+  // ffmpeg/ffprobe and uploaded media validation configuration
+  media: {
+    ffmpegPath: getEnvVar('FFMPEG_PATH', ffmpegStatic || 'ffmpeg'),
+    ffprobePath: getEnvVar('FFPROBE_PATH', 'ffprobe'),
+    maxDurationSeconds: getEnvNumber('MAX_AUDIO_DURATION_SECONDS', 6 * 60 * 60), // 6 hours
+    ffmpegTimeoutMs: getEnvNumber('FFMPEG_TIMEOUT_MS', 60 * 60 * 1000), // 1 hour
+    probeTimeoutMs: getEnvNumber('FFPROBE_TIMEOUT_MS', 30000)
+  },
+
+  // Audio preprocessing configuration
+  preprocessing: {
+    maxPauseSeconds: parseFloat(getEnvVar('PREPROCESS_MAX_PAUSE_SECONDS', '1')),
+    noiseFloorDb: getEnvNumber('PREPROCESS_NOISE_FLOOR_DB', -25)
+  },
   
   // OpenAI configuration
   openai: {
-    apiKey: getEnvVar('OPENAI_API_KEY'),
+    apiKey: process.env.OPENAI_API_KEY || '',
     model: getEnvVar('OPENAI_MODEL', 'whisper-1'),
+    summaryModel: getEnvVar('OPENAI_SUMMARY_MODEL', 'gpt-4-turbo-preview'),
+    embeddingModel: getEnvVar('OPENAI_EMBEDDING_MODEL', 'text-embedding-3-small'),
+    contextTokens: getEnvNumber('OPENAI_CONTEXT_TOKENS', 32000),
+    outputTokens: getEnvNumber('OPENAI_OUTPUT_TOKENS', modelOutputTokens(getEnvVar('OPENAI_SUMMARY_MODEL', 'gpt-4-turbo-preview'))),
     maxTokens: getEnvNumber('OPENAI_MAX_TOKENS', 4000),
     temperature: parseFloat(getEnvVar('OPENAI_TEMPERATURE', '0.3'))
   },
   
+  // AI provider configuration
+  providers: {
+    transcription: getEnvProvider('TRANSCRIPTION_PROVIDER'),
+    summarization: getEnvProvider('SUMMARIZATION_PROVIDER'),
+    embeddings: getEnvProvider('EMBEDDING_PROVIDER'),
+    compatible: {
+      transcriptionUrl: getEnvVar('COMPATIBLE_TRANSCRIPTION_URL', 'http://localhost:8080/v1'),
+      summarizationUrl: getEnvVar('COMPATIBLE_SUMMARIZATION_URL', 'http://localhost:11434/v1'),
+      apiKey: getEnvVar('COMPATIBLE_API_KEY', 'local'),
+      transcriptionModel: getEnvVar('COMPATIBLE_TRANSCRIPTION_MODEL', 'whisper-1'),
+      summaryModel: getEnvVar('COMPATIBLE_SUMMARY_MODEL', 'llama3.1'),
+      embeddingModel: getEnvVar('COMPATIBLE_EMBEDDING_MODEL', 'nomic-embed-text'),
+      contextTokens: getEnvNumber('COMPATIBLE_CONTEXT_TOKENS', 8192),
+      outputTokens: getEnvNumber('COMPATIBLE_OUTPUT_TOKENS', 4096),
+      jsonMode: getEnvBoolean('COMPATIBLE_JSON_MODE', true)
+    }
+  },
+
   // Firebase configuration
   firebase: {
     projectId: getEnvVar('FIREBASE_PROJECT_ID'),
@@ -115,6 +179,96 @@ const config: Config = {
   rateLimit: {
     windowMs: getEnvNumber('RATE_LIMIT_WINDOW_MS', 15 * 60 * 1000), // 15 minutes
     max: getEnvNumber('RATE_LIMIT_MAX', 100) // 100 requests per window
+  },
+
+  // Processing queue configuration
+  processing: {
+    concurrency: getEnvNumber('MAX_CONCURRENT_JOBS', 2),
+    perUserConcurrency: getEnvNumber('MAX_JOBS_PER_USER', 1)
+  },
+
+  // Long-audio transcription configuration
+  transcription: {
+    chunkSeconds: getEnvNumber('TRANSCRIPTION_CHUNK_SECONDS', 600), // 10 minutes
+    maxChunkSeconds: getEnvNumber('TRANSCRIPTION_MAX_CHUNK_SECONDS', 720), // ~23MB of 16 kHz mono WAV
+    overlapSeconds: getEnvNumber('TRANSCRIPTION_OVERLAP_SECONDS', 5),
+    concurrency: getEnvNumber('TRANSCRIPTION_CONCURRENCY', 3),
+    maxRetries: getEnvNumber('TRANSCRIPTION_MAX_RETRIES', 2),
+    noiseDb: getEnvNumber('SILENCE_NOISE_DB', -35),
+    minSilenceSeconds: parseFloat(getEnvVar('SILENCE_MIN_SECONDS', '0.5'))
+  },
+
+  // Speaker diarization configuration
+  diarization: {
+    provider: getEnvVar('DIARIZATION_PROVIDER', 'local') === 'none' ? 'none' : 'local',
+    maxSpeakers: getEnvNumber('DIARIZATION_MAX_SPEAKERS', 4)
+  },
+
+  // Episode Q&A configuration
+  qa: {
+    topK: getEnvNumber('QA_TOP_K', 6),
+    maxIndexedEpisodes: getEnvNumber('QA_MAX_INDEXED_EPISODES', 50),
+    libraryTopK: getEnvNumber('QA_LIBRARY_TOP_K', 12),
+    libraryMaxEpisodes: getEnvNumber('QA_LIBRARY_MAX_EPISODES', 25)
+  },
+
+  // AI provider retry and circuit breaker configuration
+  resilience: {
+    maxRetries: getEnvNumber('PROVIDER_MAX_RETRIES', 4),
+    baseDelayMs: getEnvNumber('PROVIDER_RETRY_BASE_MS', 1000),
+    maxDelayMs: getEnvNumber('PROVIDER_RETRY_MAX_MS', 30000),
+    circuitBreaker: {
+      failureThreshold: getEnvNumber('CIRCUIT_BREAKER_THRESHOLD', 5),
+      resetTimeoutMs: getEnvNumber('CIRCUIT_BREAKER_RESET_MS', 30000)
+    }
+  },
+
+  // Summary grounding configuration
+  grounding: {
+    minScore: parseFloat(getEnvVar('GROUNDING_MIN_SCORE', '0.5')),
+    quoteMinScore: parseFloat(getEnvVar('GROUNDING_QUOTE_MIN_SCORE', '0.8'))
+  },
+
+  // Long-transcript summarization configuration
+  summarization: {
+    chunkTokens: getEnvNumber('SUMMARIZATION_CHUNK_TOKENS', 8000),
+    concurrency: getEnvNumber('SUMMARIZATION_CONCURRENCY', 3),
+    maxRetries: getEnvNumber('SUMMARIZATION_MAX_RETRIES', 2),
+    repairAttempts: getEnvNumber('SUMMARIZATION_REPAIR_ATTEMPTS', 2),
+    maxOutputTokens: getEnvNumber('SUMMARIZATION_MAX_OUTPUT_TOKENS', 16000),
+    maxVersions: getEnvNumber('SUMMARY_MAX_VERSIONS', 10)
+  },
+
+  // Remote audio download configuration
+  download: {
+    maxBytes: getEnvNumber('DOWNLOAD_MAX_SIZE', getEnvNumber('MAX_FILE_SIZE', 100 * 1024 * 1024)),
+    timeoutMs: getEnvNumber('DOWNLOAD_TIMEOUT_MS', 10 * 60 * 1000) // 10 minutes
+  },
+
+  // Job persistence configuration
+  jobStore: {
+    driver: getEnvVar('JOB_STORE_DRIVER', process.env.NODE_ENV === 'test' ? 'memory' : 'file') as 'memory' | 'file',
+    filePath: getEnvVar('JOB_STORE_PATH', path.join(process.cwd(), 'data', 'jobs.log')),
+    checkpointDir: getEnvVar('JOB_CHECKPOINT_DIR', path.join(process.cwd(), 'data', 'checkpoints'))
+  },
+
+  // Summary persistence configuration
+  summaryStore: {
+    driver: getEnvVar('SUMMARY_STORE_DRIVER', process.env.NODE_ENV === 'test' ? 'memory' : 'sqlite') as 'memory' | 'sqlite' | 'firestore',
+    filePath: getEnvVar('SUMMARY_STORE_PATH', path.join(process.cwd(), 'data', 'summaries.sqlite')),
+    flushDelayMs: getEnvNumber('SUMMARY_STORE_FLUSH_MS', 1000)
+  },
+
+  // Full-text search configuration
+  search: {
+    maxIndexedUsers: getEnvNumber('SEARCH_MAX_INDEXED_USERS', 100)
+  },
+
+  // Summary template persistence configuration
+  templateStore: {
+    driver: getEnvVar('TEMPLATE_STORE_DRIVER', process.env.NODE_ENV === 'test' ? 'memory' : getEnvVar('SUMMARY_STORE_DRIVER', 'sqlite')) as 'memory' | 'sqlite' | 'firestore',
+    filePath: getEnvVar('TEMPLATE_STORE_PATH', path.join(process.cwd(), 'data', 'templates.sqlite')),
+    maxPerUser: getEnvNumber('TEMPLATE_MAX_PER_USER', 50)
   }
 };
 
@@ -127,8 +281,13 @@ if (config.nodeEnv === 'development') {
     uploadDir: config.uploadDir,
     maxFileSizeMB: config.maxFileSizeMB,
     openaiModel: config.openai.model,
+    transcriptionProvider: config.providers.transcription,
+    summarizationProvider: config.providers.summarization,
     firebaseProjectId: config.firebase.projectId,
-    jwtExpiresIn: config.jwt.expiresIn
+    jwtExpiresIn: config.jwt.expiresIn,
+    jobStoreDriver: config.jobStore.driver,
+    summaryStoreDriver: config.summaryStore.driver,
+    templateStoreDriver: config.templateStore.driver
   });
 }
 
@@ -0,0 +1,169 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, afterEach, beforeAll, describe, expect, it } from '@jest/globals';
+import { generateAudio, hasFfmpeg, hasFfprobe, useRealMediaTools } from '../test/mediaTools';
+import config from './config';
+import {
+  FfmpegProgress,
+  MediaCommandError,
+  ProgressParser,
+  checkMediaTools,
+  detectSilences,
+  ffmpeg,
+  probe,
+  runMediaTool
+} from './media';
+
+function rejection(promise: Promise<unknown>): Promise<MediaCommandError> {
+  return promise.then(
+    () => {
+      throw new Error('Expected the command to fail');
+    },
+    (error: unknown) => {
+      if (error instanceof MediaCommandError) return error;
+      throw error;
+    }
+  );
+}
+
+describe('ProgressParser', () => {
+  it('reports each block, even when split across chunks', () => {
+    const updates: FfmpegProgress[] = [];
+    const parser = new ProgressParser(progress => updates.push(progress), 10);
+
+    parser.push('out_time_us=2500000\nspeed=1.5x\nprogr');
+    parser.push('ess=continue\nout_time_us=10000000\nprogress=end\n');
+
+    expect(updates).toEqual([
+      { time: 2.5, fraction: 0.25, speed: 1.5, done: false },
+      { time: 10, fraction: 1, speed: undefined, done: true }
+    ]);
+  });
+
+  it('reads out_time_ms as microseconds and leaves the fraction out without a duration', () => {
+    const updates: FfmpegProgress[] = [];
+    const parser = new ProgressParser(progress => updates.push(progress));
+
+    parser.push('out_time_ms=4000000\nspeed=N/A\nprogress=continue\n');
+
+    expect(updates).toEqual([{ time: 4, fraction: undefined, speed: undefined, done: false }]);
+  });
+
+  it('treats a missing or negative time as the start', () => {
+    const updates: FfmpegProgress[] = [];
+    const parser = new ProgressParser(progress => updates.push(progress), 10);
+
+    parser.push('out_time_us=-9223372036854775807\nprogress=continue\n');
+
+    expect(updates[0]).toMatchObject({ time: 0, fraction: 0 });
+  });
+});
+
+describe('runMediaTool with stand-in tools', () => {
+  const ffmpegPath = config.media.ffmpegPath;
+
+  afterEach(() => {
+    config.media.ffmpegPath = ffmpegPath;
+  });
+
+  it('finds both tools at startup', async () => {
+    await expect(checkMediaTools()).resolves.toBeUndefined();
+  });
+
+  it('kills a command that runs past its timeout', async () => {
+    const error = await rejection(runMediaTool('ffmpeg', ['-i', 'fake-hang.mp3', '/dev/null'], { timeoutMs: 200 }));
+
+    expect(error.reason).toBe('timeout');
+  });
+
+  it('does not start a command whose signal already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    expect((await rejection(runMediaTool('ffmpeg', ['-version'], { signal: controller.signal }))).reason).toBe('aborted');
+  });
+
+  it('kills a command that writes too much', async () => {
+    const error = await rejection(runMediaTool('ffmpeg', ['-i', 'fake-noisy.mp3'], { maxOutputBytes: 1024 * 1024 }));
+
+    expect(error.reason).toBe('output-limit');
+  });
+
+  it('reports a missing binary', async () => {
+    config.media.ffmpegPath = '/nonexistent/ffmpeg';
+
+    const error = await rejection(runMediaTool('ffmpeg', ['-version']));
+
+    expect(error.reason).toBe('not-found');
+  });
+});
+
+(hasFfmpeg ? describe : describe.skip)('ffmpeg', () => {
+  let dir: string;
+  let tone: string;
+
+  useRealMediaTools();
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'media-'));
+    tone = path.join(dir, 'tone.wav');
+    generateAudio(tone, 'sine=frequency=440:duration=1');
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reports progress through to the end', async () => {
+    const updates: FfmpegProgress[] = [];
+    const output = path.join(dir, 'progress.wav');
+
+    await ffmpeg(['-y', '-i', tone, '-ar', '8000', output], {
+      duration: 1,
+      onProgress: progress => updates.push(progress)
+    });
+
+    const last = updates[updates.length - 1];
+    expect(last?.done).toBe(true);
+    expect(last?.time).toBeCloseTo(1, 1);
+    expect(last?.fraction).toBeCloseTo(1, 1);
+    expect(updates.every(update => update.time >= 0)).toBe(true);
+  });
+
+  it('finds silences between sounds', async () => {
+    const gap = path.join(dir, 'gap.wav');
+    generateAudio(gap, "aevalsrc='if(between(t,1,2),0,sin(440*2*PI*t))':d=3");
+
+    const silences = await detectSilences(gap, { noiseDb: -40, minSilenceSeconds: 0.5 });
+
+    expect(silences).toHaveLength(1);
+    expect(silences[0]!.start).toBeCloseTo(1, 1);
+    expect(silences[0]!.end).toBeCloseTo(2, 1);
+  });
+
+  it('reports a failed command with its last line of output', async () => {
+    const error = await rejection(ffmpeg(['-i', path.join(dir, 'missing.wav'), '-f', 'null', '-']));
+
+    expect(error.reason).toBe('failed');
+    expect(error.exitCode).not.toBe(0);
+    expect(error.message).toContain('No such file or directory');
+  });
+
+  it('kills a command when its signal aborts', async () => {
+    const controller = new AbortController();
+    // -re reads the input in real time, so this runs for 30 seconds
+    const running = ffmpeg(['-re', '-f', 'lavfi', '-i', 'sine=duration=30', '-f', 'null', '-'], { signal: controller.signal });
+    setTimeout(() => controller.abort(), 200);
+
+    expect((await rejection(running)).reason).toBe('aborted');
+  });
+
+  (hasFfprobe ? it : it.skip)('reads ffprobe output', async () => {
+    const output = await probe(tone);
+    const audio = output.streams?.find(stream => stream.codec_type === 'audio');
+
+    expect(Number(output.format?.duration)).toBeCloseTo(1, 1);
+    expect(audio).toMatchObject({ sample_rate: '44100', channels: 1 });
+  });
+});
@@ -0,0 +1,328 @@
+import { spawn } from 'child_process';
+import config from './config';
+
+export type MediaTool = 'ffmpeg' | 'ffprobe';
+
+export interface MediaRunOptions {
+  // The process is killed after this long; defaults to the tool's configured timeout
+  timeoutMs?: number;
+  // Aborting kills the process
+  signal?: AbortSignal;
+  // Most bytes kept of stdout and of stderr; the process is killed past it
+  maxOutputBytes?: number;
+}
+
+export interface FfmpegRunOptions extends MediaRunOptions {
+  // Length of the output in seconds, for progress fractions
+  duration?: number;
+  onProgress?: (progress: FfmpegProgress) => void;
+}
+
+export interface FfmpegProgress {
+  // Seconds of output written so far
+  time: number;
+  // 0-1, when the duration is known
+  fraction?: number;
+  // Processing speed as a multiple of real time
+  speed?: number;
+  done: boolean;
+}
+
+export interface MediaResult {
+  stdout: string;
+  stderr: string;
+}
+
+export interface Silence {
+  start: number;
+  end: number;
+}
+
+// The subset of `ffprobe -print_format json` output that is read
+export interface ProbeOutput {
+  format?: {
+    duration?: string;
+    bit_rate?: string;
+  };
+  streams?: {
+    codec_type?: string;
+    sample_rate?: string;
+    channels?: number;
+    bit_rate?: string;
+    duration?: string;
+    disposition?: { attached_pic?: number };
+  }[];
+}
+
+export type MediaErrorReason = 'failed' | 'timeout' | 'aborted' | 'output-limit' | 'not-found';
+
+const DEFAULT_MAX_OUTPUT_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Raised when ffmpeg or ffprobe could not be run, failed, or was stopped.
+ * `reason` says which; `stderr` holds the tool's output when it ran.
+ */
+export class MediaCommandError extends Error {
+  constructor(
+    message: string,
+    public tool: MediaTool,
+    public reason: MediaErrorReason,
+    public exitCode?: number | null,
+    public stderr?: string
+  ) {
+    super(message);
+    this.name = 'MediaCommandError';
+  }
+}
+
+/**
+ * Reads the key=value blocks ffmpeg writes with `-progress`. Each block
+ * ends with a `progress=continue` or `progress=end` line.
+ */
+export class ProgressParser {
+  private pending = '';
+  private fields: Record<string, string> = {};
+
+  constructor(private onProgress: (progress: FfmpegProgress) => void, private duration?: number) {}
+
+  push(text: string): void {
+    const lines = (this.pending + text).split('\n');
+    this.pending = lines.pop() ?? '';
+
+    for (const line of lines) {
+      const separator = line.indexOf('=');
+      if (separator <= 0) continue;
+
+      const key = line.slice(0, separator).trim();
+      const value = line.slice(separator + 1).trim();
+      if (key !== 'progress') {
+        this.fields[key] = value;
+        continue;
+      }
+
+      this.onProgress(this.toProgress(value === 'end'));
+      this.fields = {};
+    }
+  }
+
+  private toProgress(done: boolean): FfmpegProgress {
+    // out_time_ms is in microseconds too, despite its name
+    const microseconds = Number(this.fields.out_time_us ?? this.fields.out_time_ms);
+    const time = Number.isFinite(microseconds) && microseconds > 0 ? microseconds / 1e6 : 0;
+    const speed = parseFloat(this.fields.speed ?? '');
+
+    return {
+      time,
+      fraction: this.duration && this.duration > 0 ? (done ? 1 : Math.min(1, time / this.duration)) : undefined,
+      speed: Number.isFinite(speed) ? speed : undefined,
+      done
+    };
+  }
+}
+
+/**
+ * Keeps a process's output up to a size limit
+ */
+class OutputBuffer {
+  private chunks: Buffer[] = [];
+  private size = 0;
+
+  constructor(private limit: number) {}
+
+  // False once the limit has been passed
+  append(chunk: Buffer): boolean {
+    this.size += chunk.length;
+    if (this.size > this.limit) {
+      return false;
+    }
+    this.chunks.push(chunk);
+    return true;
+  }
+
+  toString(): string {
+    return Buffer.concat(this.chunks).toString('utf8');
+  }
+}
+
+const stopMessages: { [reason in MediaErrorReason]: string } = {
+  failed: 'failed',
+  timeout: 'timed out',
+  aborted: 'was cancelled',
+  'output-limit': 'produced too much output',
+  'not-found': 'was not found'
+};
+
+const lastLine = (text: string): string => text.trim().split('\n').pop() || '';
+
+/**
+ * Run ffmpeg or ffprobe with an argument list. Nothing goes through a
+ * shell, so file names are passed as they are. The process is killed when
+ * it runs past its timeout, when `signal` aborts, or when it writes more
+ * than `maxOutputBytes` to stdout or stderr.
+ */
+export function runMediaTool(
+  tool: MediaTool,
+  args: string[],
+  options: MediaRunOptions & { onStdout?: (text: string) => void } = {}
+): Promise<MediaResult> {
+  const binary = tool === 'ffmpeg' ? config.media.ffmpegPath : config.media.ffprobePath;
+  const {
+    timeoutMs = tool === 'ffmpeg' ? config.media.ffmpegTimeoutMs : config.media.probeTimeoutMs,
+    signal,
+    maxOutputBytes = DEFAULT_MAX_OUTPUT_BYTES,
+    onStdout
+  } = options;
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new MediaCommandError(`${tool} ${stopMessages.aborted}`, tool, 'aborted'));
+      return;
+    }
+
+    const child = spawn(binary, args, { stdio: ['ignore', 'pipe', 'pipe'], windowsHide: true });
+    // Progress output is handed on rather than kept
+    const stdout = new OutputBuffer(onStdout ? 0 : maxOutputBytes);
+    const stderr = new OutputBuffer(maxOutputBytes);
+    let stopped: MediaErrorReason | undefined;
+    let settled = false;
+
+    const stop = (reason: MediaErrorReason) => {
+      if (stopped) return;
+      stopped = reason;
+      child.kill('SIGKILL');
+    };
+    const onAbort = () => stop('aborted');
+    const timer = setTimeout(() => stop('timeout'), timeoutMs);
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    const settle = (error?: MediaCommandError) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+
+      if (error) {
+        reject(error);
+      } else {
+        resolve({ stdout: stdout.toString(), stderr: stderr.toString() });
+      }
+    };
+
+    child.stdout.on('data', (chunk: Buffer) => {
+      if (onStdout) {
+        onStdout(chunk.toString('utf8'));
+      } else if (!stdout.append(chunk)) {
+        stop('output-limit');
+      }
+    });
+    child.stderr.on('data', (chunk: Buffer) => {
+      if (!stderr.append(chunk)) {
+        stop('output-limit');
+      }
+    });
+
+    child.on('error', (error: NodeJS.ErrnoException) => {
+      const reason = error.code === 'ENOENT' ? 'not-found' : 'failed';
+      settle(new MediaCommandError(`${tool} ${stopMessages[reason]}: ${error.message}`, tool, reason));
+    });
+
+    // A killed process may leave its pipes open (say, through a child of its
+    // own), so do not wait for them to close
+    child.on('exit', code => {
+      if (!stopped) return;
+      child.stdout.destroy();
+      child.stderr.destroy();
+      settle(new MediaCommandError(`${tool} ${stopMessages[stopped]}`, tool, stopped, code, stderr.toString()));
+    });
+
+    child.on('close', code => {
+      const output = stderr.toString();
+      if (stopped) {
+        settle(new MediaCommandError(`${tool} ${stopMessages[stopped]}`, tool, stopped, code, output));
+      } else if (code !== 0) {
+        settle(new MediaCommandError(`${tool} exited with code ${code}: ${lastLine(output)}`, tool, 'failed', code, output));
+      } else {
+        settle();
+      }
+    });
+  });
+}
+
+/**
+ * Run ffmpeg. With `onProgress`, ffmpeg reports through `-progress` and the
+ * callback gets each update.
+ */
+export function ffmpeg(args: string[], options: FfmpegRunOptions = {}): Promise<MediaResult> {
+  const { onProgress, duration, ...runOptions } = options;
+  if (!onProgress) {
+    return runMediaTool('ffmpeg', ['-hide_banner', '-nostdin', ...args], runOptions);
+  }
+
+  const parser = new ProgressParser(onProgress, duration);
+  return runMediaTool('ffmpeg', ['-hide_banner', '-nostdin', '-nostats', '-progress', 'pipe:1', ...args], {
+    ...runOptions,
+    onStdout: text => parser.push(text)
+  });
+}
+
+/**
+ * Make sure ffmpeg and ffprobe can be run, so a missing binary is found at
+ * startup rather than on the first upload
+ */
+export async function checkMediaTools(): Promise<void> {
+  for (const tool of ['ffmpeg', 'ffprobe'] as const) {
+    await runMediaTool(tool, ['-version'], { timeoutMs: 10000 });
+  }
+}
+
+/**
+ * Read a file's format and streams with ffprobe
+ */
+export async function probe(filePath: string, options: MediaRunOptions = {}): Promise<ProbeOutput> {
+  const { stdout } = await runMediaTool(
+    'ffprobe',
+    ['-v', 'error', '-print_format', 'json', '-show_format', '-show_streams', filePath],
+    options
+  );
+  return JSON.parse(stdout) as ProbeOutput;
+}
+
+/**
+ * Find silent stretches with ffmpeg's silencedetect filter
+ */
+export async function detectSilences(
+  filePath: string,
+  settings: { noiseDb: number; minSilenceSeconds: number },
+  options: MediaRunOptions = {}
+): Promise<Silence[]> {
+  const { stderr } = await ffmpeg(
+    ['-nostats', '-i', filePath, '-af', `silencedetect=noise=${settings.noiseDb}dB:d=${settings.minSilenceSeconds}`, '-f', 'null', '-'],
+    { maxOutputBytes: 50 * 1024 * 1024, ...options }
+  );
+
+  const silences: Silence[] = [];
+  let start: number | undefined;
+
+  for (const line of stderr.split('\n')) {
+    const startMatch = line.match(/silence_start: (-?[\d.]+)/);
+    if (startMatch) {
+      start = Math.max(0, parseFloat(startMatch[1]!));
+      continue;
+    }
+
+    const endMatch = line.match(/silence_end: ([\d.]+)/);
+    if (endMatch && start !== undefined) {
+      silences.push({ start, end: parseFloat(endMatch[1]!) });
+      start = undefined;
+    }
+  }
+
+  return silences;
+}
+
+/**
+ * Whether an error came from a media command stopped through its signal
+ */
+export function isMediaAbort(error: unknown): boolean {
+  return error instanceof MediaCommandError && error.reason === 'aborted';
+}
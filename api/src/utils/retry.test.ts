@@ -0,0 +1,64 @@
+import { describe, expect, it } from '@jest/globals';
+import { mapWithConcurrency, withRetry } from './retry';
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 5));
+
+describe('mapWithConcurrency', () => {
+  it('keeps results in input order and at most `limit` in flight', async () => {
+    let inFlight = 0;
+    let peak = 0;
+
+    const results = await mapWithConcurrency([5, 1, 4, 2, 3], 2, async (value, index) => {
+      peak = Math.max(peak, ++inFlight);
+      await new Promise(resolve => setTimeout(resolve, value));
+      inFlight--;
+      return value * 10 + index;
+    });
+
+    expect(results).toEqual([50, 11, 42, 23, 34]);
+    expect(peak).toBe(2);
+  });
+
+  it('stops starting items after the first rejection', async () => {
+    const started: number[] = [];
+
+    const mapping = mapWithConcurrency([0, 1, 2, 3, 4, 5, 6, 7], 2, async index => {
+      started.push(index);
+      await tick();
+      if (index === 1) throw new Error('chunk 1 failed');
+      return index;
+    });
+
+    await expect(mapping).rejects.toThrow('chunk 1 failed');
+    // Give the other worker time to pick up more work if it were going to
+    await tick();
+    await tick();
+    expect(started).toEqual([0, 1, 2]);
+  });
+});
+
+describe('withRetry', () => {
+  it('retries until the operation succeeds', async () => {
+    let attempts = 0;
+
+    const result = await withRetry(async () => {
+      if (++attempts < 3) throw new Error('flaky');
+      return 'done';
+    }, { retries: 3, baseDelayMs: 1, maxDelayMs: 1 });
+
+    expect(result).toBe('done');
+    expect(attempts).toBe(3);
+  });
+
+  it('gives up on errors it should not retry', async () => {
+    let attempts = 0;
+
+    const attempt = withRetry(async () => {
+      attempts++;
+      throw new Error('bad request');
+    }, { retries: 3, baseDelayMs: 1, shouldRetry: () => false });
+
+    await expect(attempt).rejects.toThrow('bad request');
+    expect(attempts).toBe(1);
+  });
+});
@@ -0,0 +1,95 @@
+import { logger } from './logger';
+
+export interface RetryOptions {
+  retries: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  context?: string;
+  // Errors this returns false for are thrown straight away
+  shouldRetry?: (error: unknown) => boolean;
+  // A wait the failure asked for, such as a Retry-After header
+  retryAfterMs?: (error: unknown) => number | undefined;
+  // Once aborted, the last error is thrown instead of retrying
+  signal?: AbortSignal;
+}
+
+// Resolves early when `signal` aborts
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>(resolve => {
+  const done = () => {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', done);
+    resolve();
+  };
+  const timer = setTimeout(done, ms);
+  signal?.addEventListener('abort', done, { once: true });
+});
+
+/**
+ * Run an async operation, retrying with exponential backoff on failure.
+ * Delays are jittered so callers that failed together do not retry
+ * together; a wait the failure asked for is honoured, unless it is longer
+ * than `maxDelayMs`, in which case the error is thrown. Aborting `signal`
+ * cuts a wait short and ends the retries.
+ */
+export async function withRetry<T>(operation: (attempt: number) => Promise<T>, options: RetryOptions): Promise<T> {
+  const { retries, baseDelayMs = 1000, maxDelayMs = 30000, context = 'Operation', shouldRetry, retryAfterMs, signal } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (attempt >= retries || signal?.aborted || (shouldRetry && !shouldRetry(error))) {
+        throw error;
+      }
+
+      const requested = retryAfterMs?.(error);
+      if (requested !== undefined && requested > maxDelayMs) {
+        throw error;
+      }
+
+      const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+      const delay = requested ?? Math.round(backoff / 2 + Math.random() * backoff / 2);
+      logger.warn(`${context} failed, retrying`, {
+        attempt: attempt + 1,
+        retries,
+        delayMs: delay,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      await sleep(delay, signal);
+      if (signal?.aborted) {
+        throw error;
+      }
+    }
+  }
+}
+
+/**
+ * Map over items with at most `limit` operations in flight. The first
+ * rejection is thrown straight away and no further items are started.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  mapper: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+  let failed = false;
+
+  const worker = async () => {
+    while (!failed && nextIndex < items.length) {
+      const index = nextIndex++;
+      try {
+        results[index] = await mapper(items[index]!, index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  return results;
+}
+
+export default withRetry;
@@ -0,0 +1,69 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it } from '@jest/globals';
+import { BlockedAddressError, isPublicAddress, safeFetch } from './safeFetch';
+
+describe('isPublicAddress', () => {
+  it.each(['93.184.216.34', '8.8.8.8', '2606:4700:4700::1111'])('allows %s', address => {
+    expect(isPublicAddress(address)).toBe(true);
+  });
+
+  it.each([
+    '127.0.0.1',
+    '10.1.2.3',
+    '172.16.0.1',
+    '192.168.1.1',
+    '169.254.169.254',
+    '100.64.0.1',
+    '0.0.0.0',
+    '::1',
+    'fd00::1',
+    'fe80::1',
+    '::ffff:127.0.0.1',
+    'not an address'
+  ])('blocks %s', address => {
+    expect(isPublicAddress(address)).toBe(false);
+  });
+});
+
+describe('safeFetch', () => {
+  let server: http.Server;
+  let port: number;
+  const loopback = { isAllowedAddress: (address: string) => address === '127.0.0.1' };
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const hops = Number(req.url?.slice(1));
+      if (hops > 0) {
+        res.writeHead(302, { Location: `/${hops - 1}` });
+        res.end();
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'text/plain' });
+      res.end('arrived');
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('blocks private IP literals and hosts resolving to them by default', async () => {
+    await expect(safeFetch(new URL(`http://127.0.0.1:${port}/0`))).rejects.toThrow(BlockedAddressError);
+    await expect(safeFetch(new URL(`http://localhost:${port}/0`))).rejects.toThrow(BlockedAddressError);
+  });
+
+  it('fetches addresses the caller allows, following redirects', async () => {
+    const response = await safeFetch(new URL(`http://127.0.0.1:${port}/3`), loopback);
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe('arrived');
+  });
+
+  it('gives up after too many redirects', async () => {
+    await expect(safeFetch(new URL(`http://127.0.0.1:${port}/3`), { ...loopback, maxRedirects: 2 }))
+      .rejects.toThrow('Too many redirects (more than 2)');
+  });
+});
@@ -0,0 +1,165 @@
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import { Readable } from 'stream';
+
+export interface SafeFetchOptions {
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+  maxRedirects?: number;
+  // Which resolved addresses may be connected to; defaults to public ones only
+  isAllowedAddress?: (address: string) => boolean;
+}
+
+export class BlockedAddressError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BlockedAddressError';
+  }
+}
+
+// Loopback, private, link-local (including the 169.254.169.254 metadata
+// service), carrier-grade NAT, multicast, documentation and reserved ranges
+const BLOCKED_RANGES: Array<[string, number, 'ipv4' | 'ipv6']> = [
+  ['0.0.0.0', 8, 'ipv4'],
+  ['10.0.0.0', 8, 'ipv4'],
+  ['100.64.0.0', 10, 'ipv4'],
+  ['127.0.0.0', 8, 'ipv4'],
+  ['169.254.0.0', 16, 'ipv4'],
+  ['172.16.0.0', 12, 'ipv4'],
+  ['192.0.0.0', 24, 'ipv4'],
+  ['192.0.2.0', 24, 'ipv4'],
+  ['192.88.99.0', 24, 'ipv4'],
+  ['192.168.0.0', 16, 'ipv4'],
+  ['198.18.0.0', 15, 'ipv4'],
+  ['198.51.100.0', 24, 'ipv4'],
+  ['203.0.113.0', 24, 'ipv4'],
+  ['224.0.0.0', 4, 'ipv4'],
+  ['240.0.0.0', 4, 'ipv4'],
+  ['::', 128, 'ipv6'],
+  ['::1', 128, 'ipv6'],
+  ['64:ff9b::', 96, 'ipv6'],
+  ['100::', 64, 'ipv6'],
+  ['2001::', 23, 'ipv6'],
+  ['2001:db8::', 32, 'ipv6'],
+  ['2002::', 16, 'ipv6'],
+  ['fc00::', 7, 'ipv6'],
+  ['fe80::', 10, 'ipv6'],
+  ['ff00::', 8, 'ipv6']
+];
+
+const blockList = new net.BlockList();
+for (const [network, prefix, family] of BLOCKED_RANGES) {
+  blockList.addSubnet(network, prefix, family);
+}
+
+const DEFAULT_MAX_REDIRECTS = 5;
+
+/**
+ * Whether an IP address is publicly routable. IPv4-mapped IPv6 addresses are
+ * checked against the IPv4 ranges.
+ */
+export function isPublicAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) return false;
+  return !blockList.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * dns.lookup that refuses hosts resolving to any address `isAllowed` rejects.
+ * Used as the socket's lookup, so the address checked is the address
+ * connected to.
+ */
+function checkedLookup(isAllowed: (address: string) => boolean): net.LookupFunction {
+  return (hostname, options, callback) => {
+    dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+      if (error) {
+        callback(error, '', 0);
+        return;
+      }
+
+      const blocked = addresses.find(entry => !isAllowed(entry.address));
+      const first = addresses[0];
+      if (blocked || !first) {
+        callback(new BlockedAddressError(`${hostname} resolves to a private or reserved address`), '', 0);
+        return;
+      }
+
+      if (options.all) {
+        callback(null, addresses);
+      } else {
+        callback(null, first.address, first.family);
+      }
+    });
+  };
+}
+
+/**
+ * GET a URL on the public internet. Redirects are followed by hand so every
+ * hop goes through the same address checks.
+ */
+export async function safeFetch(url: URL, options: SafeFetchOptions = {}): Promise<Response> {
+  const maxRedirects = options.maxRedirects ?? DEFAULT_MAX_REDIRECTS;
+  let current = url;
+
+  for (let redirects = 0; ; redirects++) {
+    const message = await request(current, options);
+    const status = message.statusCode ?? 0;
+    const location = message.headers.location;
+
+    if (status < 300 || status >= 400 || !location) {
+      return toResponse(message);
+    }
+
+    message.resume();
+    if (redirects >= maxRedirects) {
+      throw new Error(`Too many redirects (more than ${maxRedirects})`);
+    }
+
+    current = new URL(location, current);
+    if (current.protocol !== 'http:' && current.protocol !== 'https:') {
+      throw new BlockedAddressError(`Redirect to unsupported protocol ${current.protocol}`);
+    }
+  }
+}
+
+function request(url: URL, options: SafeFetchOptions): Promise<http.IncomingMessage> {
+  const isAllowed = options.isAllowedAddress ?? isPublicAddress;
+
+  // IP literals never reach the lookup, so check them here
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  if (net.isIP(hostname) && !isAllowed(hostname)) {
+    return Promise.reject(new BlockedAddressError(`${hostname} is a private or reserved address`));
+  }
+
+  const client = url.protocol === 'https:' ? https : http;
+  return new Promise((resolve, reject) => {
+    const req = client.get(url, {
+      headers: options.headers,
+      signal: options.signal,
+      lookup: checkedLookup(isAllowed)
+    }, resolve);
+    req.on('error', reject);
+  });
+}
+
+function toResponse(message: http.IncomingMessage): Response {
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(message.headers)) {
+    if (value === undefined) continue;
+    for (const entry of Array.isArray(value) ? value : [value]) {
+      headers.append(name, entry);
+    }
+  }
+
+  const status = message.statusCode ?? 502;
+  const hasBody = ![204, 205, 304].includes(status);
+  if (!hasBody) message.resume();
+
+  return new Response(hasBody ? Readable.toWeb(message) as ReadableStream<Uint8Array> : null, {
+    status,
+    statusText: message.statusMessage,
+    headers
+  });
+}
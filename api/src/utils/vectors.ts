@@ -0,0 +1,18 @@
+/**
+ * Scale a vector to unit length, so a dot product is its cosine similarity
+ */
+export function normalizeVector(vector: number[]): number[] {
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return length > 0 ? vector.map(value => value / length) : vector;
+}
+
+/**
+ * Dot product of two vectors of the same length
+ */
+export function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i]! * (b[i] ?? 0);
+  }
+  return sum;
+}
@@ -0,0 +1,138 @@
+import { Fragment, useState, type FormEvent } from "react";
+import { MessageCircle, Send } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { secondsToTimeString } from "@/lib/formatting";
+import type { AnswerCitation, AskResponse } from "@/lib/api";
+import { useAskSummary } from "@/hooks/use-summaries";
+import Button from "./Button";
+import LoadingSpinner from "./LoadingSpinner";
+
+interface EpisodeChatProps {
+  summaryId: string;
+  audioUrl?: string;
+  className?: string;
+}
+
+interface ChatMessage {
+  question: string;
+  response?: AskResponse;
+  error?: string;
+}
+
+const EpisodeChat = ({ summaryId, audioUrl, className }: EpisodeChatProps) => {
+  const ask = useAskSummary(summaryId);
+  const [question, setQuestion] = useState("");
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+
+  const handleAsk = (event: FormEvent) => {
+    event.preventDefault();
+    const asked = question.trim();
+    if (!asked || ask.isPending) return;
+
+    // One question at a time, so the new message's position is stable
+    const position = messages.length;
+    const settle = (update: Partial<ChatMessage>) =>
+      setMessages(prev => prev.map((message, index) => (index === position ? { ...message, ...update } : message)));
+
+    setQuestion("");
+    setMessages(prev => [...prev, { question: asked }]);
+    ask.mutate(asked, {
+      onSuccess: (response) => settle({ response }),
+      onError: (error) => settle({ error: error.message }),
+    });
+  };
+
+  // Media fragments let the browser start playback at the cited moment
+  const timeLink = (citation: AnswerCitation) => {
+    const label = secondsToTimeString(Math.floor(citation.start));
+    return audioUrl ? (
+      <a
+        href={`${audioUrl}#t=${Math.floor(citation.start)}`}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="font-mono text-brand-400 hover:text-brand-300"
+      >
+        {label}
+      </a>
+    ) : (
+      <span className="font-mono text-ink-400">{label}</span>
+    );
+  };
+
+  // Turn [n] markers into superscript references to the citation list
+  const renderAnswer = (response: AskResponse) =>
+    response.answer.split(/(\[\d+\])/).map((part, index) => {
+      const citation = response.citations.find(candidate => `[${candidate.index}]` === part);
+      return citation ? (
+        <sup key={index} className="ml-0.5 text-brand-400" title={secondsToTimeString(Math.floor(citation.start))}>
+          {citation.index}
+        </sup>
+      ) : (
+        <Fragment key={index}>{part}</Fragment>
+      );
+    });
+
+  return (
+    <div className={cn("glass-panel rounded-xl p-6", className)}>
+      <h2 className="flex items-center gap-2 text-xl font-semibold text-ink-100 mb-2">
+        <MessageCircle className="w-5 h-5" />
+        Ask This Episode
+      </h2>
+      <p className="text-ink-400 mb-4">
+        Answers come from the transcript, with links to the moments they are based on.
+      </p>
+
+      {messages.length > 0 && (
+        <div className="space-y-4 mb-4" aria-live="polite">
+          {messages.map((message, index) => (
+            <div key={index} className="space-y-2">
+              <p className="ml-auto w-fit max-w-[85%] rounded-lg bg-brand-600/20 px-3 py-2 text-sm text-ink-100">
+                {message.question}
+              </p>
+              {message.response ? (
+                <div className="max-w-[85%] rounded-lg bg-ink-800/50 px-3 py-2 text-sm text-ink-200">
+                  <p className="leading-relaxed">{renderAnswer(message.response)}</p>
+                  {message.response.citations.length > 0 && (
+                    <ol className="mt-3 space-y-2 border-t border-ink-700 pt-2 text-xs">
+                      {message.response.citations.map(citation => (
+                        <li key={citation.index} className="flex gap-2">
+                          <span className="text-brand-400">{citation.index}.</span>
+                          <div className="min-w-0">
+                            {timeLink(citation)}
+                            {citation.speaker && <span className="ml-2 text-ink-300">{citation.speaker}</span>}
+                            <p className="line-clamp-2 text-ink-400">{citation.text}</p>
+                          </div>
+                        </li>
+                      ))}
+                    </ol>
+                  )}
+                </div>
+              ) : message.error ? (
+                <p className="text-sm text-error">{message.error}</p>
+              ) : (
+                <LoadingSpinner size="sm" />
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={handleAsk} className="flex gap-2">
+        <input
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          placeholder="e.g. What did they recommend for getting started?"
+          maxLength={500}
+          aria-label="Question about this episode"
+          className="min-w-0 flex-1 rounded-lg border border-ink-600 bg-ink-800/50 px-3 py-2 text-sm text-ink-100 placeholder:text-ink-500 focus-ring"
+        />
+        <Button type="submit" variant="secondary" disabled={!question.trim()} loading={ask.isPending}>
+          <Send className="w-4 h-4" />
+          Ask
+        </Button>
+      </form>
+    </div>
+  );
+};
+
+export default EpisodeChat;
@@ -2,8 +2,10 @@
 
 import { useCallback, useState } from "react";
 import { motion } from "framer-motion";
-import { Upload, File, X, CheckCircle, AlertCircle } from "lucide-react";
+import { Upload, File, X, CheckCircle, AlertCircle, RefreshCw } from "lucide-react";
+import ProgressBar from "@/components/ProgressBar";
 import { cn } from "@/lib/utils";
+import { type UploadProgress } from "@/lib/api";
 
 interface FileDropzoneProps {
   onFileSelect: (file: File) => void;
@@ -11,14 +13,16 @@ interface FileDropzoneProps {
   maxSize?: number; // in bytes
   className?: string;
   disabled?: boolean;
+  progress?: UploadProgress; // Set while the selected file is being sent
 }
 
 const FileDropzone = ({
   onFileSelect,
   accept = ".mp3,.m4a,.wav,.mp4",
-  maxSize = 100 * 1024 * 1024, // 100MB
+  maxSize = 2 * 1024 * 1024 * 1024, // 2GB, sent in resumable chunks
   className,
   disabled = false,
+  progress,
 }: FileDropzoneProps) => {
   const [isDragOver, setIsDragOver] = useState(false);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
@@ -26,7 +30,7 @@ const FileDropzone = ({
 
   const validateFile = (file: File): string | null => {
     if (file.size > maxSize) {
-      return `File size must be less than ${Math.round(maxSize / (1024 * 1024))}MB`;
+      return `File size must be less than ${formatFileSize(maxSize)}`;
     }
     
     const allowedTypes = accept.split(",").map(type => type.trim());
@@ -129,14 +133,34 @@ const FileDropzone = ({
               <p className="text-lg font-medium text-ink-100">{selectedFile.name}</p>
               <p className="text-sm text-ink-400">{formatFileSize(selectedFile.size)}</p>
             </div>
-            <button
-              type="button"
-              onClick={clearFile}
-              className="inline-flex items-center gap-2 px-4 py-2 text-sm text-ink-300 hover:text-ink-100 focus-ring rounded-lg"
-            >
-              <X className="h-4 w-4" />
-              Remove file
-            </button>
+            {progress ? (
+              <div className="space-y-2 text-left" aria-live="polite">
+                <ProgressBar
+                  value={progress.total > 0 ? (progress.loaded / progress.total) * 100 : 0}
+                  variant={progress.retrying ? "warning" : "brand"}
+                />
+                <p className="flex items-center justify-between text-sm text-ink-400">
+                  <span>
+                    {formatFileSize(progress.loaded)} of {formatFileSize(progress.total)}
+                  </span>
+                  {progress.retrying && (
+                    <span className="inline-flex items-center gap-1 text-warning">
+                      <RefreshCw className="h-3 w-3 animate-spin" />
+                      Connection interrupted, retrying
+                    </span>
+                  )}
+                </p>
+              </div>
+            ) : (
+              <button
+                type="button"
+                onClick={clearFile}
+                className="inline-flex items-center gap-2 px-4 py-2 text-sm text-ink-300 hover:text-ink-100 focus-ring rounded-lg"
+              >
+                <X className="h-4 w-4" />
+                Remove file
+              </button>
+            )}
           </div>
         ) : (
           <div className="space-y-4">
@@ -156,7 +180,7 @@ const FileDropzone = ({
                 {error ? "Upload failed" : "Drop your audio file here"}
               </p>
               <p className="text-sm text-ink-400">
-                {error ? error : `or click to browse • ${accept} • max ${Math.round(maxSize / (1024 * 1024))}MB`}
+                {error ? error : `or click to browse • ${accept} • max ${formatFileSize(maxSize)}`}
               </p>
             </div>
 
@@ -0,0 +1,104 @@
+import { Fragment } from "react";
+import { motion } from "framer-motion";
+import { Play } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { secondsToTimeString } from "@/lib/formatting";
+import type { SearchField, SearchHit, SearchResultData } from "@/lib/api";
+import Badge from "./Badge";
+
+interface SearchResultCardProps {
+  result: SearchResultData;
+  className?: string;
+  onClick?: () => void;
+}
+
+const FIELD_LABELS: Record<SearchField, string> = {
+  title: "Title",
+  overview: "Overview",
+  keyPoint: "Key point",
+  quote: "Quote",
+  transcript: "Transcript",
+};
+
+const HighlightedSnippet = ({ hit }: { hit: SearchHit }) => {
+  const parts: { text: string; match: boolean }[] = [];
+  let cursor = 0;
+
+  for (const { start, end } of hit.highlights) {
+    if (start < cursor) continue;
+    parts.push({ text: hit.snippet.slice(cursor, start), match: false });
+    parts.push({ text: hit.snippet.slice(start, end), match: true });
+    cursor = end;
+  }
+  parts.push({ text: hit.snippet.slice(cursor), match: false });
+
+  return (
+    <>
+      {parts.map((part, index) =>
+        part.match ? (
+          <mark key={index} className="bg-brand-500/30 text-ink-100 rounded px-0.5">
+            {part.text}
+          </mark>
+        ) : (
+          <Fragment key={index}>{part.text}</Fragment>
+        )
+      )}
+    </>
+  );
+};
+
+const SearchResultCard = ({ result, className, onClick }: SearchResultCardProps) => {
+  // Media fragments let the browser start playback at the matching moment
+  const playAt = (seconds: number) => {
+    if (result.audioUrl) {
+      window.open(`${result.audioUrl}#t=${Math.floor(seconds)}`, "_blank", "noopener");
+    } else {
+      onClick?.();
+    }
+  };
+
+  return (
+    <motion.div
+      className={cn(
+        "glass-panel rounded-xl p-6 cursor-pointer hover:border-ink-600 transition-all duration-200",
+        className
+      )}
+      whileHover={{ y: -2 }}
+      onClick={onClick}
+    >
+      <div className="mb-3">
+        <h3 className="text-lg font-semibold text-ink-100">{result.title}</h3>
+        {result.showTitle && <p className="text-sm text-ink-400">{result.showTitle}</p>}
+      </div>
+
+      <ul className="space-y-2">
+        {result.hits.map((hit, index) => (
+          <li key={index} className="flex items-start gap-3 text-sm text-ink-300">
+            <Badge variant="outline" className="flex-shrink-0">
+              {FIELD_LABELS[hit.field]}
+            </Badge>
+            <p className="flex-1 leading-relaxed">
+              <HighlightedSnippet hit={hit} />
+            </p>
+            {hit.segment && (
+              <button
+                type="button"
+                className="flex items-center gap-1 flex-shrink-0 font-mono text-xs text-brand-400 hover:text-brand-300"
+                title={result.audioUrl ? "Play from here" : "Open summary"}
+                onClick={(event) => {
+                  event.stopPropagation();
+                  playAt(hit.segment!.start);
+                }}
+              >
+                <Play className="w-3 h-3" />
+                {secondsToTimeString(Math.floor(hit.segment.start))}
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </motion.div>
+  );
+};
+
+export default SearchResultCard;
@@ -0,0 +1,95 @@
+import { motion } from "framer-motion";
+import { cn } from "@/lib/utils";
+import { secondsToTimeString } from "@/lib/formatting";
+import type { SummarySection, TemplateField, TemplateItem } from "@/lib/api";
+import Badge from "./Badge";
+
+interface TemplateSectionsProps {
+  sections: SummarySection[];
+  audioUrl?: string;
+  className?: string;
+}
+
+// "nextStep" and "next_step" both read as "Next step"
+const fieldLabel = (name: string) => {
+  const label = name.replace(/_/g, " ").replace(/([a-z])([A-Z])/g, "$1 $2").toLowerCase();
+  return label.charAt(0).toUpperCase() + label.slice(1);
+};
+
+const fieldValue = (field: TemplateField, value: string | number | boolean) => {
+  if (field.type === "timestamp") return secondsToTimeString(Math.floor(Number(value)));
+  if (field.type === "boolean") return value ? "Yes" : "No";
+  return String(value);
+};
+
+const TemplateSections = ({ sections, audioUrl, className }: TemplateSectionsProps) => {
+  // Media fragments let the browser start playback at the item's moment
+  const timeBadge = (seconds: number) => {
+    const label = secondsToTimeString(Math.floor(seconds));
+    return audioUrl ? (
+      <a href={`${audioUrl}#t=${Math.floor(seconds)}`} target="_blank" rel="noopener noreferrer">
+        <Badge variant="outline" className="font-mono hover:border-brand-400">{label}</Badge>
+      </a>
+    ) : (
+      <Badge variant="outline" className="font-mono">{label}</Badge>
+    );
+  };
+
+  const renderItem = (item: TemplateItem, fields: TemplateField[]) => {
+    const stampField = fields.find(field => field.type === "timestamp" && item[field.name] !== undefined);
+    const rest = fields.filter(field => field !== stampField && item[field.name] !== undefined);
+    const lead = rest[0]?.type === "string" ? rest.shift() : undefined;
+
+    return (
+      <div className="flex items-start gap-3">
+        {stampField && timeBadge(Number(item[stampField.name]))}
+        <div className="min-w-0 space-y-1">
+          {lead && <p className="text-ink-200 leading-relaxed">{String(item[lead.name])}</p>}
+          {rest.map(field => (
+            <p key={field.name} className="text-sm text-ink-400">
+              <span className="text-ink-300">{fieldLabel(field.name)}:</span> {fieldValue(field, item[field.name]!)}
+            </p>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <>
+      {sections.map((section) => (
+        <motion.section
+          key={section.key}
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.25 }}
+          className={cn("glass-panel rounded-xl p-6", className)}
+        >
+          <h2 className="text-xl font-semibold text-ink-100 mb-4">{section.title}</h2>
+          {typeof section.content === "string" ? (
+            <p className="text-ink-200 leading-relaxed">{section.content}</p>
+          ) : section.content.length === 0 ? (
+            <p className="text-ink-400">Nothing to note here.</p>
+          ) : (
+            <ul className="space-y-3">
+              {section.content.map((entry, index) => (
+                <li key={index} className={cn(typeof entry === "string" && "flex items-start gap-3")}>
+                  {typeof entry === "string" ? (
+                    <>
+                      <span className="mt-2 h-1.5 w-1.5 flex-shrink-0 rounded-full bg-brand-400" />
+                      <span className="text-ink-200 leading-relaxed">{entry}</span>
+                    </>
+                  ) : (
+                    renderItem(entry, section.fields ?? [])
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </motion.section>
+      ))}
+    </>
+  );
+};
+
+export default TemplateSections;
@@ -0,0 +1,211 @@
+import { useEffect, useState } from "react";
+import { keepPreviousData, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  askSummary,
+  deleteSummary,
+  getJobStatus,
+  getSummaries,
+  getSummary,
+  getTemplates,
+  regenerateSummary,
+  renameSpeaker,
+  restoreSummaryVersion,
+  retryJob,
+  searchSummaries,
+  streamJobStatus,
+  uploadPodcast,
+  type JobStage,
+  type JobStatus,
+  type RegenerateSummaryRequest,
+  type SummaryListQuery,
+  type SummarySearchQuery,
+  type TranscriptSegment,
+} from "@/lib/api";
+
+const POLL_INTERVAL_MS = 2000;
+
+export const summaryKeys = {
+  all: ["summaries"] as const,
+  lists: () => [...summaryKeys.all, "list"] as const,
+  list: (query: SummaryListQuery) => [...summaryKeys.lists(), query] as const,
+  // Under lists() so anything that refreshes the library refreshes search too
+  search: (query: SummarySearchQuery) => [...summaryKeys.lists(), "search", query] as const,
+  detail: (id: string) => [...summaryKeys.all, "detail", id] as const,
+  job: (jobId: string) => ["jobs", jobId] as const,
+  templates: ["templates"] as const,
+};
+
+export const useSummaries = (query: SummaryListQuery = {}) =>
+  useQuery({
+    queryKey: summaryKeys.list(query),
+    queryFn: () => getSummaries(query),
+    placeholderData: keepPreviousData,
+  });
+
+export const useSummarySearch = (query: SummarySearchQuery) =>
+  useQuery({
+    queryKey: summaryKeys.search(query),
+    queryFn: () => searchSummaries(query),
+    enabled: query.q.trim().length > 0,
+    placeholderData: keepPreviousData,
+  });
+
+export const useSummary = (id?: string) =>
+  useQuery({
+    queryKey: summaryKeys.detail(id ?? ""),
+    queryFn: () => getSummary(id!),
+    enabled: !!id,
+  });
+
+export const useDeleteSummary = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: deleteSummary,
+    onSuccess: (_, id) => {
+      queryClient.removeQueries({ queryKey: summaryKeys.detail(id) });
+      queryClient.invalidateQueries({ queryKey: summaryKeys.lists() });
+    },
+  });
+};
+
+export const useUploadPodcast = () => useMutation({ mutationFn: uploadPodcast });
+
+export const useRetryJob = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: retryJob,
+    // Drop the failed status so polling starts over
+    onSuccess: (_data, jobId) => queryClient.removeQueries({ queryKey: summaryKeys.job(jobId) }),
+  });
+};
+
+export const useRegenerateSummary = (id: string) =>
+  useMutation({ mutationFn: (request: RegenerateSummaryRequest) => regenerateSummary(id, request) });
+
+export const useRestoreSummaryVersion = (id: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (version: number) => restoreSummaryVersion(id, version),
+    onSuccess: (summary) => {
+      queryClient.setQueryData(summaryKeys.detail(id), summary);
+      queryClient.invalidateQueries({ queryKey: summaryKeys.lists() });
+    },
+  });
+};
+
+export const useRenameSpeaker = (id: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ speakerId, name }: { speakerId: string; name: string }) => renameSpeaker(id, speakerId, name),
+    onSuccess: (summary) => {
+      queryClient.setQueryData(summaryKeys.detail(id), summary);
+    },
+  });
+};
+
+export const useAskSummary = (id: string) =>
+  useMutation({ mutationFn: (question: string) => askSummary(id, question) });
+
+export const useTemplates = () =>
+  useQuery({
+    queryKey: summaryKeys.templates,
+    queryFn: getTemplates,
+    staleTime: 60_000,
+  });
+
+export interface JobProgress {
+  status: JobStatus;
+  stage?: JobStage;
+  progress: number;
+  message?: string;
+  error?: string;
+  // Failed on a provider outage; the job can be resumed
+  retryable?: boolean;
+  summaryId?: string;
+  transcript: TranscriptSegment[];
+}
+
+const initialProgress: JobProgress = { status: "queued", progress: 0, transcript: [] };
+
+/**
+ * Follow a job over the progress stream, falling back to polling the status
+ * endpoint when the stream cannot be opened or drops. Changing `attempt`
+ * follows the job again from the start, as after a retry.
+ */
+export const useJobProgress = (jobId?: string, attempt = 0) => {
+  const queryClient = useQueryClient();
+  const [progress, setProgress] = useState<JobProgress>(initialProgress);
+  const [polling, setPolling] = useState(false);
+
+  useEffect(() => {
+    setProgress(initialProgress);
+    setPolling(false);
+    if (!jobId) return;
+
+    const controller = new AbortController();
+
+    streamJobStatus(jobId, (event) => {
+      setProgress(prev => ({
+        status: event.status,
+        stage: event.stage ?? prev.stage,
+        progress: event.progress,
+        message: event.message ?? prev.message,
+        error: event.error ?? prev.error,
+        retryable: event.retryable,
+        summaryId: event.summaryId ?? prev.summaryId,
+        transcript: event.segments ? [...prev.transcript, ...event.segments] : prev.transcript,
+      }));
+    }, controller.signal).catch((error) => {
+      if (controller.signal.aborted) return;
+      console.warn("Progress stream unavailable, polling instead", error);
+      setPolling(true);
+    });
+
+    return () => controller.abort();
+  }, [jobId, attempt]);
+
+  const { data: polled, error: pollError } = useQuery({
+    queryKey: summaryKeys.job(jobId ?? ""),
+    queryFn: () => getJobStatus(jobId!),
+    enabled: !!jobId && polling,
+    refetchInterval: (query) => {
+      const status = query.state.data?.status;
+      return status === "completed" || status === "failed" || status === "cancelled" ? false : POLL_INTERVAL_MS;
+    },
+  });
+
+  useEffect(() => {
+    if (!polled) return;
+    setProgress(prev => ({
+      ...prev,
+      status: polled.status,
+      stage: polled.stage ?? prev.stage,
+      progress: polled.progress,
+      message: polled.message ?? prev.message,
+      error: polled.error ?? prev.error,
+      retryable: polled.retryable,
+      summaryId: polled.result?.id ?? prev.summaryId,
+    }));
+  }, [polled]);
+
+  // New and regenerated summaries show up as soon as the job finishes
+  useEffect(() => {
+    if (progress.status !== "completed") return;
+    queryClient.invalidateQueries({ queryKey: summaryKeys.lists() });
+    if (progress.summaryId) {
+      queryClient.invalidateQueries({ queryKey: summaryKeys.detail(progress.summaryId) });
+    }
+  }, [progress.status, progress.summaryId, queryClient]);
+
+  // A cancelled job has no error of its own; its status message says what happened
+  const cancelled = progress.status === "cancelled";
+  return {
+    ...progress,
+    error: progress.error ?? (cancelled ? progress.message : undefined) ?? (pollError instanceof Error ? pollError.message : undefined),
+    failed: progress.status === "failed" || cancelled || !!pollError,
+  };
+};
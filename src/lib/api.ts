@@ -1,193 +1,556 @@
-// Mock API client functions
-// TODO: Replace with actual API calls
+// API client for the PodSum backend
+// Request/response shapes come from the backend's shared types so the two
+// sides cannot drift apart. Set VITE_USE_MOCK_API=true to work without a backend.
+import type {
+  AskRequest,
+  AskResponse,
+  AudioPreprocessingOptions,
+  CreateUploadSessionRequest,
+  DetailLevel,
+  ErrorResponse,
+  ExportFormat,
+  ExportSection,
+  JobEvent,
+  JobStatusResponse,
+  RegenerateSummaryRequest,
+  RenameSpeakerRequest,
+  Summary,
+  SummaryListQuery,
+  SummarySearchQuery,
+  SummarySearchResult,
+  SummaryTemplate,
+  SummaryTemplateRequest,
+  UploadResponse,
+  UploadSessionResponse,
+  ValidationError,
+} from "@api/types/shared";
+import { auth } from "./firebase";
+import * as mockApi from "./mockApi";
+
+export type {
+  AnswerCitation,
+  AskResponse,
+  AudioChannel,
+  AudioPreprocessingReport,
+  DetailLevel,
+  JobEvent,
+  JobStage,
+  JobStatus,
+  KeyPoint,
+  Chapter,
+  EpisodeMetadata,
+  ExportFormat,
+  ExportSection,
+  QuoteAttribution,
+  RegenerateSummaryRequest,
+  SearchField,
+  SearchHit,
+  Speaker,
+  SummaryListQuery,
+  SummarySearchQuery,
+  SummarySection,
+  SummaryTemplateRequest,
+  TemplateField,
+  TemplateItem,
+  TemplateSection,
+  Timestamp as TranscriptSegment,
+} from "@api/types/shared";
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || "http://localhost:3000/api";
+
+export const isMockApi = import.meta.env.VITE_USE_MOCK_API === "true";
+
+// JSON turns Dates into ISO strings
+export type Wire<T> = T extends Date
+  ? string
+  : T extends (infer U)[]
+    ? Wire<U>[]
+    : T extends object
+      ? { [K in keyof T]: Wire<T[K]> }
+      : T;
+
+export type SummaryData = Wire<Summary>;
+export type SummaryVersionData = NonNullable<SummaryData["versions"]>[number];
+export type JobStatusData = Wire<JobStatusResponse>;
+export type SearchResultData = Wire<SummarySearchResult>;
+export type SummaryTemplateData = Wire<SummaryTemplate>;
+export type UploadSessionData = Wire<UploadSessionResponse>;
+
+export interface UploadProgress {
+  loaded: number;
+  total: number;
+  // Set while a failed chunk waits to be sent again
+  retrying?: boolean;
+}
 
 export interface UploadRequest {
-  type: 'file' | 'url';
+  type: "file" | "url";
   file?: File;
   url?: string;
   options?: {
     lang?: string;
-    detail?: 'brief' | 'standard' | 'deep';
+    detail?: DetailLevel;
     timestamps?: boolean;
+    episode?: string;
+    templateId?: string;
+    audio?: AudioPreprocessingOptions;
   };
+  // Bytes of the file sent so far
+  onProgress?: (progress: UploadProgress) => void;
 }
 
-export interface UploadResponse {
-  jobId: string;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
-  progress?: number;
-  message?: string;
-}
-
-export interface SummaryResponse {
-  id: string;
-  title: string;
-  show: string;
-  episode: string;
-  duration: number;
-  date: string;
-  source: string;
-  coverUrl?: string;
-  summary: {
-    keyTakeaways: string[];
-    paragraphs: string[];
-    timestamps: { time: string; topic: string }[];
-    topics: string[];
-    people: string[];
-    chapters: { title: string; start: string }[];
-  };
-  metadata: {
-    transcriptLength: number;
-    processingTime: string;
-    model: string;
+export interface SummaryPage {
+  summaries: SummaryData[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+    hasNext: boolean;
+    hasPrev: boolean;
   };
 }
 
-export interface SummariesResponse {
-  summaries: SummaryResponse[];
-  total: number;
-  page: number;
-  limit: number;
+export type ApiErrorKind =
+  | "network"
+  | "unauthorized"
+  | "forbidden"
+  | "not_found"
+  | "validation"
+  | "rate_limited"
+  | "server";
+
+/**
+ * Error thrown for failed requests, built from the backend's ErrorResponse
+ */
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly statusCode: number;
+  readonly error: string;
+  readonly validation?: ValidationError[];
+
+  constructor(response: Partial<ErrorResponse> & { statusCode: number }) {
+    super(response.message || response.error || "Request failed");
+    this.name = "ApiError";
+    this.statusCode = response.statusCode;
+    this.error = response.error || "Error";
+    this.validation = response.validation;
+    this.kind = ApiError.kindFor(response.statusCode);
+  }
+
+  static kindFor(statusCode: number): ApiErrorKind {
+    if (statusCode === 0) return "network";
+    if (statusCode === 401) return "unauthorized";
+    if (statusCode === 403) return "forbidden";
+    if (statusCode === 404) return "not_found";
+    if (statusCode === 400 || statusCode === 413 || statusCode === 422) return "validation";
+    if (statusCode === 429) return "rate_limited";
+    return "server";
+  }
 }
 
-// Mock API functions
-export const uploadPodcast = async (request: UploadRequest): Promise<UploadResponse> => {
-  // TODO: Implement actual API call to /api/upload
-  console.log("uploadPodcast - TODO: Implement API call", request);
-  
-  // Simulate API call
-  await new Promise(resolve => setTimeout(resolve, 1000));
-  
-  return {
-    jobId: `job_${Date.now()}`,
-    status: 'pending',
-    progress: 0,
-    message: 'Upload initiated'
+export const isApiError = (error: unknown): error is ApiError => error instanceof ApiError;
+
+// Firebase ID token for the signed-in user
+const getAuthHeaders = async (): Promise<Record<string, string>> => {
+  await auth.authStateReady();
+  const token = await auth.currentUser?.getIdToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+};
+
+/**
+ * Send an authenticated request and unwrap the `{ success, data }` envelope
+ */
+export const apiRequest = async <T>(path: string, options: RequestInit = {}): Promise<T> => {
+  const headers: Record<string, string> = {
+    ...(typeof options.body === "string" ? { "Content-Type": "application/json" } : {}),
+    ...(await getAuthHeaders()),
+    ...(options.headers as Record<string, string>),
   };
+
+  let response: Response;
+  try {
+    response = await fetch(`${API_BASE_URL}${path}`, { ...options, headers });
+  } catch (error) {
+    throw new ApiError({
+      statusCode: 0,
+      error: "Network Error",
+      message: error instanceof Error ? error.message : "Unable to reach the server",
+    });
+  }
+
+  const payload = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new ApiError({
+      error: response.statusText,
+      ...payload,
+      statusCode: response.status,
+    });
+  }
+
+  return payload as T;
 };
 
-export const getJobStatus = async (jobId: string): Promise<UploadResponse> => {
-  // TODO: Implement actual API call to /api/jobs/:id
-  console.log("getJobStatus - TODO: Implement API call", jobId);
-  
-  // Simulate job progression
-  const progress = Math.min(100, (Date.now() % 10000) / 100);
-  const status = progress >= 100 ? 'completed' : 'processing';
-  
+/**
+ * Fetch a file from the API, returning it with the server-suggested filename
+ */
+export const apiDownload = async (path: string): Promise<{ blob: Blob; filename?: string }> => {
+  let response: Response;
+  try {
+    response = await fetch(`${API_BASE_URL}${path}`, { headers: await getAuthHeaders() });
+  } catch (error) {
+    throw new ApiError({
+      statusCode: 0,
+      error: "Network Error",
+      message: error instanceof Error ? error.message : "Unable to reach the server",
+    });
+  }
+
+  if (!response.ok) {
+    const payload = await response.json().catch(() => ({}));
+    throw new ApiError({ error: response.statusText, ...payload, statusCode: response.status });
+  }
+
+  const disposition = response.headers.get("Content-Disposition") || "";
   return {
-    jobId,
-    status,
-    progress,
-    message: status === 'completed' ? 'Summary ready' : 'Processing audio...'
+    blob: await response.blob(),
+    filename: disposition.match(/filename="?([^";]+)"?/)?.[1],
   };
 };
 
-export const getSummary = async (id: string): Promise<SummaryResponse> => {
-  // TODO: Implement actual API call to /api/summaries/:id
-  console.log("getSummary - TODO: Implement API call", id);
-  
-  // Mock summary data
-  return {
-    id,
-    title: "Building Systems for Success",
-    show: "The Tim Ferriss Show",
-    episode: "Derek Sivers on The Power of Systems",
-    duration: 4020,
-    date: "2024-01-15",
-    source: "spotify",
-    coverUrl: "",
-    summary: {
-      keyTakeaways: [
-        "Focus on systems over goals - goals have an end point, systems create lasting change",
-        "The importance of saying no to preserve energy for what truly matters",
-        "Building wealth through ownership and solving real problems for people"
-      ],
-      paragraphs: [
-        "Derek Sivers emphasizes the transformative power of thinking in systems rather than goals.",
-        "The discussion reveals how successful entrepreneurs maintain focus by saying no."
-      ],
-      timestamps: [
-        { time: "00:05:30", topic: "Introduction to systems thinking" },
-        { time: "00:18:45", topic: "The art of saying no" }
-      ],
-      topics: ["entrepreneurship", "systems thinking", "productivity"],
-      people: ["Derek Sivers", "Tim Ferriss"],
-      chapters: [
-        { title: "Systems vs Goals", start: "00:00:00" },
-        { title: "The Power of No", start: "00:15:30" }
-      ]
-    },
-    metadata: {
-      transcriptLength: 15420,
-      processingTime: "2.3 seconds",
-      model: "GPT-4 Turbo"
+const CHUNK_RETRIES = 5;
+const MAX_RETRY_DELAY_MS = 15000;
+
+// Remembers the session of an unfinished upload so a reload resumes it
+const sessionKey = (file: File) => `podsum:upload:${file.name}:${file.size}:${file.lastModified}`;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const sha256 = async (data: ArrayBuffer): Promise<string> => {
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", data));
+  return btoa(String.fromCharCode(...digest));
+};
+
+// Dropped connections, server errors and offset (409) or checksum (460)
+// mismatches are worth sending the chunk again for; validation, auth and
+// expired sessions will fail the same way
+const isRetryableChunkError = (error: unknown) =>
+  isApiError(error) && (error.kind === "network" || error.kind === "server" || error.kind === "rate_limited");
+
+const getUploadSession = async (uploadId: string): Promise<UploadSessionData> => {
+  const { data } = await apiRequest<{ data: UploadSessionData }>(`/upload/sessions/${uploadId}`);
+  return data;
+};
+
+/**
+ * Resume the file's unfinished upload session, or start a new one
+ */
+const openUploadSession = async (file: File): Promise<UploadSessionData> => {
+  const saved = localStorage.getItem(sessionKey(file));
+  if (saved) {
+    try {
+      return await getUploadSession(saved);
+    } catch (error) {
+      if (isApiError(error) && error.kind === "network") throw error;
+      // Expired or already completed
+      localStorage.removeItem(sessionKey(file));
     }
+  }
+
+  const request: CreateUploadSessionRequest = {
+    fileName: file.name,
+    fileSize: file.size,
+    mimeType: file.type || "application/octet-stream",
   };
+  const { data } = await apiRequest<{ data: UploadSessionData }>("/upload/sessions", {
+    method: "POST",
+    body: JSON.stringify(request),
+  });
+  localStorage.setItem(sessionKey(file), data.uploadId);
+  return data;
 };
 
-export const getSummaries = async (params?: {
-  search?: string;
-  page?: number;
-  limit?: number;
-}): Promise<SummariesResponse> => {
-  // TODO: Implement actual API call to /api/summaries
-  console.log("getSummaries - TODO: Implement API call", params);
-  
-  // Mock summaries data
-  const mockSummaries = [
-    {
-      id: "1",
-      title: "Building Systems for Success",
-      show: "The Tim Ferriss Show",
-      episode: "Derek Sivers Episode",
-      duration: 4020,
-      date: "2024-01-15",
-      source: "spotify",
-      summary: {
-        keyTakeaways: ["Systems over goals", "The power of no"],
-        paragraphs: ["Systems thinking discussion"],
-        timestamps: [],
-        topics: ["entrepreneurship"],
-        people: ["Derek Sivers"],
-        chapters: []
-      },
-      metadata: {
-        transcriptLength: 15420,
-        processingTime: "2.3s",
-        model: "GPT-4"
-      }
+/**
+ * Send a file in checksummed chunks, picking up from the server's offset
+ * after a failure. Resolves with the upload id once every byte has arrived.
+ */
+const uploadFileInChunks = async (file: File, onProgress?: (progress: UploadProgress) => void): Promise<string> => {
+  const session = await openUploadSession(file);
+  let offset = session.offset;
+  let failures = 0;
+  onProgress?.({ loaded: offset, total: file.size });
+
+  while (offset < file.size) {
+    const chunk = await file.slice(offset, offset + session.chunkSize).arrayBuffer();
+
+    try {
+      const { data } = await apiRequest<{ data: UploadSessionData }>(`/upload/sessions/${session.uploadId}`, {
+        method: "PATCH",
+        body: chunk,
+        headers: {
+          "Content-Type": "application/offset+octet-stream",
+          "Upload-Offset": String(offset),
+          "Upload-Checksum": `sha256 ${await sha256(chunk)}`,
+        },
+      });
+      offset = data.offset;
+      failures = 0;
+      onProgress?.({ loaded: offset, total: file.size });
+    } catch (error) {
+      if (!isRetryableChunkError(error) || ++failures > CHUNK_RETRIES) throw error;
+
+      onProgress?.({ loaded: offset, total: file.size, retrying: true });
+      await sleep(Math.min(1000 * 2 ** (failures - 1), MAX_RETRY_DELAY_MS));
+
+      // The chunk may have arrived even if the response did not
+      offset = await getUploadSession(session.uploadId).then(current => current.offset, () => offset);
     }
-  ];
-  
-  return {
-    summaries: mockSummaries,
-    total: mockSummaries.length,
-    page: params?.page || 1,
-    limit: params?.limit || 10
-  };
+  }
+
+  return session.uploadId;
 };
 
-// Error handling wrapper
-export const apiRequest = async <T>(
-  url: string,
-  options?: RequestInit
-): Promise<T> => {
-  try {
-    const response = await fetch(url, {
-      headers: {
-        'Content-Type': 'application/json',
-        ...options?.headers,
-      },
-      ...options,
+export const uploadPodcast = async (request: UploadRequest): Promise<Wire<UploadResponse>> => {
+  if (isMockApi) return mockApi.uploadPodcast(request);
+
+  if (request.type === "file" && request.file) {
+    const uploadId = await uploadFileInChunks(request.file, request.onProgress);
+    const { data } = await apiRequest<{ data: Wire<UploadResponse> }>(`/upload/sessions/${uploadId}/complete`, {
+      method: "POST",
+      body: JSON.stringify({ options: request.options }),
     });
+    localStorage.removeItem(sessionKey(request.file));
+    return data;
+  }
+
+  const { data } = await apiRequest<{ data: Wire<UploadResponse> }>("/upload", {
+    method: "POST",
+    body: JSON.stringify({ type: "url", url: request.url, options: request.options }),
+  });
+  return data;
+};
+
+export const getJobStatus = async (jobId: string): Promise<JobStatusData> => {
+  if (isMockApi) return mockApi.getJobStatus(jobId);
+
+  const { data } = await apiRequest<{ data: JobStatusData }>(`/upload/status/${jobId}`);
+  return data;
+};
+
+export const cancelJob = async (jobId: string): Promise<void> => {
+  if (isMockApi) return;
+
+  await apiRequest(`/upload/cancel/${jobId}`, { method: "DELETE" });
+};
+
+/**
+ * Resume a job that failed because the AI provider was unavailable
+ */
+export const retryJob = async (jobId: string): Promise<Wire<UploadResponse>> => {
+  if (isMockApi) return mockApi.retryJob(jobId);
+
+  const { data } = await apiRequest<{ data: Wire<UploadResponse> }>(`/upload/retry/${jobId}`, { method: "POST" });
+  return data;
+};
+
+/**
+ * Follow a job over Server-Sent Events until it completes, fails or is
+ * cancelled. Resolves with the final event; rejects if the stream cannot
+ * be opened or drops before the job finishes.
+ */
+export const streamJobStatus = async (
+  jobId: string,
+  onEvent: (event: Wire<JobEvent>) => void,
+  signal?: AbortSignal
+): Promise<Wire<JobEvent>> => {
+  if (isMockApi) return mockApi.streamJobStatus(jobId, onEvent, signal);
+
+  const response = await fetch(`${API_BASE_URL}/upload/status/${jobId}/stream`, {
+    headers: { Accept: "text/event-stream", ...(await getAuthHeaders()) },
+    signal,
+  });
 
-    if (!response.ok) {
-      throw new Error(`API Error: ${response.status} ${response.statusText}`);
+  if (!response.ok || !response.body) {
+    const payload = await response.json().catch(() => ({}));
+    throw new ApiError({ error: response.statusText, ...payload, statusCode: response.status });
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    let boundary: number;
+    while ((boundary = buffer.indexOf("\n\n")) !== -1) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      const data = block
+        .split("\n")
+        .filter(line => line.startsWith("data:"))
+        .map(line => line.slice(5).trim())
+        .join("\n");
+      if (!data) continue; // keep-alive comment
+
+      const event = JSON.parse(data) as Wire<JobEvent>;
+      onEvent(event);
+      if (event.type === "completed" || event.type === "failed" || event.type === "cancelled") {
+        await reader.cancel();
+        return event;
+      }
     }
+  }
 
-    return await response.json();
-  } catch (error) {
-    console.error('API request failed:', error);
-    throw error;
+  throw new Error("Progress stream closed before the job finished");
+};
+
+export const getSummary = async (id: string): Promise<SummaryData> => {
+  if (isMockApi) return mockApi.getSummary(id);
+
+  const { data } = await apiRequest<{ data: SummaryData }>(`/summaries/${id}`);
+  return data;
+};
+
+export const getSummaries = async (query: SummaryListQuery = {}): Promise<SummaryPage> => {
+  if (isMockApi) return mockApi.getSummaries(query);
+
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value === undefined || value === "") continue;
+    params.set(key, Array.isArray(value) ? value.join(",") : String(value));
   }
-};
\ No newline at end of file
+
+  const { data, pagination } = await apiRequest<{ data: SummaryData[]; pagination: SummaryPage["pagination"] }>(
+    `/summaries${params.size > 0 ? `?${params}` : ""}`
+  );
+  return { summaries: data, pagination };
+};
+
+export interface SearchPage {
+  results: SearchResultData[];
+  pagination: SummaryPage["pagination"];
+}
+
+export const searchSummaries = async (query: SummarySearchQuery): Promise<SearchPage> => {
+  if (isMockApi) return mockApi.searchSummaries(query);
+
+  const params = new URLSearchParams({ q: query.q });
+  if (query.page) params.set("page", String(query.page));
+  if (query.limit) params.set("limit", String(query.limit));
+
+  const { data, pagination } = await apiRequest<{ data: SearchResultData[]; pagination: SearchPage["pagination"] }>(
+    `/summaries/search?${params}`
+  );
+  return { results: data, pagination };
+};
+
+export const deleteSummary = async (id: string): Promise<void> => {
+  if (isMockApi) return mockApi.deleteSummary(id);
+
+  await apiRequest(`/summaries/${id}`, { method: "DELETE" });
+};
+
+/**
+ * Start a summarize-only job on the stored transcript; follow it with streamJobStatus
+ */
+export const regenerateSummary = async (id: string, request: RegenerateSummaryRequest): Promise<Wire<UploadResponse>> => {
+  if (isMockApi) return mockApi.regenerateSummary(id, request);
+
+  const { data } = await apiRequest<{ data: Wire<UploadResponse> }>(`/summaries/${id}/regenerate`, {
+    method: "POST",
+    body: JSON.stringify(request),
+  });
+  return data;
+};
+
+export const restoreSummaryVersion = async (id: string, version: number): Promise<SummaryData> => {
+  if (isMockApi) return mockApi.restoreSummaryVersion(id, version);
+
+  const { data } = await apiRequest<{ data: SummaryData }>(`/summaries/${id}/versions/${version}/restore`, { method: "POST" });
+  return data;
+};
+
+export const renameSpeaker = async (id: string, speakerId: string, name: string): Promise<SummaryData> => {
+  if (isMockApi) return mockApi.renameSpeaker(id, speakerId, name);
+
+  const body: RenameSpeakerRequest = { name };
+  const { data } = await apiRequest<{ data: SummaryData }>(`/summaries/${id}/speakers/${encodeURIComponent(speakerId)}`, {
+    method: "PATCH",
+    body: JSON.stringify(body),
+  });
+  return data;
+};
+
+/**
+ * Ask a question about the episode; the answer cites transcript passages
+ */
+export const askSummary = async (id: string, question: string): Promise<AskResponse> => {
+  if (isMockApi) return mockApi.askSummary(id, question);
+
+  const body: AskRequest = { question };
+  const { data } = await apiRequest<{ data: AskResponse }>(`/summaries/${id}/ask`, {
+    method: "POST",
+    body: JSON.stringify(body),
+  });
+  return data;
+};
+
+export const getTemplates = async (): Promise<SummaryTemplateData[]> => {
+  if (isMockApi) return mockApi.getTemplates();
+
+  const { data } = await apiRequest<{ data: SummaryTemplateData[] }>("/templates");
+  return data;
+};
+
+export const createTemplate = async (request: SummaryTemplateRequest): Promise<SummaryTemplateData> => {
+  if (isMockApi) return mockApi.createTemplate(request);
+
+  const { data } = await apiRequest<{ data: SummaryTemplateData }>("/templates", {
+    method: "POST",
+    body: JSON.stringify(request),
+  });
+  return data;
+};
+
+export const updateTemplate = async (id: string, request: SummaryTemplateRequest): Promise<SummaryTemplateData> => {
+  if (isMockApi) return mockApi.updateTemplate(id, request);
+
+  const { data } = await apiRequest<{ data: SummaryTemplateData }>(`/templates/${id}`, {
+    method: "PUT",
+    body: JSON.stringify(request),
+  });
+  return data;
+};
+
+export const deleteTemplate = async (id: string): Promise<void> => {
+  if (isMockApi) return mockApi.deleteTemplate(id);
+
+  await apiRequest(`/templates/${id}`, { method: "DELETE" });
+};
+
+export interface ExportRequest {
+  include?: ExportSection[];
+  exclude?: ExportSection[];
+  transcript?: boolean;
+  speakers?: boolean;
+}
+
+export const exportSummary = async (
+  id: string,
+  format: ExportFormat,
+  options: ExportRequest = {}
+): Promise<{ blob: Blob; filename?: string }> => {
+  if (isMockApi) return mockApi.exportSummary(id, format);
+
+  const params = new URLSearchParams({ format });
+  if (options.include?.length) params.set("include", options.include.join(","));
+  if (options.exclude?.length) params.set("exclude", options.exclude.join(","));
+  if (options.transcript) params.set("transcript", "true");
+  if (options.speakers === false) params.set("speakers", "false");
+
+  return apiDownload(`/summaries/${id}/export?${params}`);
+};
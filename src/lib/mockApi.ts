@@ -0,0 +1,500 @@
+// Canned responses used when VITE_USE_MOCK_API=true
+import type {
+  AskResponse,
+  JobEvent,
+  JobStage,
+  RegenerateSummaryRequest,
+  SearchField,
+  SearchHit,
+  SummaryListQuery,
+  SummarySection,
+  SummarySearchQuery,
+  SummaryTemplateRequest,
+  UploadResponse,
+} from "@api/types/shared";
+import type {
+  ExportFormat,
+  JobStatusData,
+  SearchPage,
+  SearchResultData,
+  SummaryData,
+  SummaryPage,
+  SummaryTemplateData,
+  SummaryVersionData,
+  UploadRequest,
+  Wire,
+} from "./api";
+
+const JOB_DURATION_MS = 8000;
+
+const mockSummaries: SummaryData[] = [
+  {
+    id: "1",
+    userId: "mock-user",
+    jobId: "job_mock_1",
+    title: "Derek Sivers on The Power of Systems",
+    description: "Derek Sivers shares insights on building systems over goals, the power of saying no, and creating sustainable wealth.",
+    originalUrl: "https://example.com/feeds/tim-ferriss.xml",
+    episode: {
+      showTitle: "The Tim Ferriss Show",
+      episodeTitle: "Derek Sivers on The Power of Systems",
+      publishedAt: "2024-01-15T08:00:00.000Z",
+    },
+    duration: 4020,
+    language: "en",
+    detailLevel: "standard",
+    overview:
+      "Derek Sivers emphasizes the transformative power of thinking in systems rather than goals. While goals provide direction, systems provide the sustainable framework for continuous improvement and long-term success. Building real wealth comes from creating genuine value for others through ownership of assets, intellectual property, or businesses that solve meaningful problems.",
+    keyTakeaways: [
+      "Focus on systems over goals - goals have an end point, systems create lasting change",
+      "The importance of saying no to preserve energy for what truly matters",
+      "Building wealth through ownership and solving real problems for people",
+      "Start with extreme constraints to force creative solutions",
+      "Question assumptions and conventional wisdom regularly",
+    ],
+    keyPoints: [
+      { title: "Introduction to systems thinking", description: "Why systems outlast goals.", timestamp: 330, importance: "high" },
+      { title: "The art of saying no", description: "Protecting focus by declining good opportunities.", timestamp: 1125, importance: "high" },
+      { title: "Building sustainable wealth", description: "Ownership and solving real problems.", timestamp: 1930, importance: "medium" },
+      { title: "Creative constraints", description: "Using limits to force better ideas.", timestamp: 2720, importance: "medium" },
+      { title: "Questioning assumptions", description: "Revisiting conventional wisdom.", timestamp: 3495, importance: "low" },
+    ],
+    actionItems: [
+      "Write down one system that replaces a current goal",
+      "Say no to one commitment this week",
+    ],
+    quotes: ["If it's not a hell yes, it's a no."],
+    transcript: "",
+    timestamps: [],
+    speakers: [
+      { id: "speaker-1", name: "Tim Ferriss", speakingTime: 1210, segments: [] },
+      { id: "speaker-2", name: "Speaker 2", speakingTime: 2810, segments: [] },
+    ],
+    quoteAttributions: [{ quote: "If it's not a hell yes, it's a no.", speakerId: "speaker-2", start: 1190 }],
+    chapters: [
+      { title: "Systems vs Goals", start: 0, end: 930, summary: "", keyPoints: [] },
+      { title: "The Power of No", start: 930, end: 1800, summary: "", keyPoints: [] },
+      { title: "Creating Value", start: 1800, end: 2520, summary: "", keyPoints: [] },
+      { title: "Constraints and Creativity", start: 2520, end: 3300, summary: "", keyPoints: [] },
+      { title: "Final Thoughts", start: 3300, end: 4020, summary: "", keyPoints: [] },
+    ],
+    processingTime: 2300,
+    wordCount: 11200,
+    confidence: 0.92,
+    tags: ["entrepreneurship", "systems thinking", "productivity"],
+    createdAt: "2024-01-15T10:00:00.000Z",
+    updatedAt: "2024-01-15T10:00:00.000Z",
+  },
+  {
+    id: "2",
+    userId: "mock-user",
+    jobId: "job_mock_2",
+    title: "The Future of AI in Healthcare",
+    originalUrl: "https://example.com/a16z/ai-healthcare.mp3",
+    episode: { showTitle: "a16z Podcast", episodeTitle: "The Future of AI in Healthcare" },
+    duration: 2700,
+    language: "en",
+    detailLevel: "brief",
+    overview:
+      "Discussion on how artificial intelligence is transforming healthcare, from diagnostic tools to personalized treatment plans and drug discovery.",
+    keyTakeaways: ["Diagnostics are the first area AI changes", "Data access is the main bottleneck"],
+    keyPoints: [],
+    actionItems: [],
+    quotes: [],
+    transcript: "",
+    timestamps: [],
+    processingTime: 1800,
+    wordCount: 7400,
+    confidence: 0.9,
+    tags: ["AI", "healthcare", "technology"],
+    createdAt: "2024-01-12T10:00:00.000Z",
+    updatedAt: "2024-01-12T10:00:00.000Z",
+  },
+  {
+    id: "3",
+    userId: "mock-user",
+    jobId: "job_mock_3",
+    title: "Scaling Engineering Teams",
+    originalFileName: "se-daily-scaling.mp3",
+    episode: { showTitle: "Software Engineering Daily" },
+    duration: 1980,
+    language: "en",
+    detailLevel: "standard",
+    overview:
+      "Best practices for growing engineering organizations, managing technical debt, and maintaining code quality at scale.",
+    keyTakeaways: ["Hire for the team you need in a year", "Make technical debt visible"],
+    keyPoints: [],
+    actionItems: [],
+    quotes: [],
+    transcript: "",
+    timestamps: [],
+    processingTime: 1500,
+    wordCount: 5100,
+    confidence: 0.88,
+    tags: ["engineering", "leadership", "scaling"],
+    createdAt: "2024-01-10T10:00:00.000Z",
+    updatedAt: "2024-01-10T10:00:00.000Z",
+  },
+];
+
+const mockTemplates: SummaryTemplateData[] = [
+  {
+    id: "template_sales_debrief",
+    userId: "mock-user",
+    name: "Sales call debrief",
+    description: "What the customer needs, what worried them and what happens next",
+    sections: [
+      { key: "needs", title: "Customer needs", instructions: "What the customer is trying to achieve.", type: "list", maxItems: 5 },
+      {
+        key: "objections",
+        title: "Objections",
+        instructions: "Concerns the customer raised and how they were handled.",
+        type: "items",
+        fields: [
+          { name: "objection", type: "string", required: true },
+          { name: "response", type: "string" },
+          { name: "at", type: "timestamp" },
+        ],
+      },
+      { key: "nextSteps", title: "Next steps", instructions: "Agreed follow-ups with owners.", type: "list", minItems: 1 },
+    ],
+    createdAt: "2024-01-10T09:00:00Z",
+    updatedAt: "2024-01-10T09:00:00Z",
+  },
+];
+
+const jobStarts = new Map<string, number>();
+// Regeneration jobs finish by applying these options to the summary
+const regenerations = new Map<string, { summaryId: string; request: RegenerateSummaryRequest }>();
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const stageFor = (progress: number): JobStage => {
+  if (progress >= 100) return "completed";
+  if (progress >= 90) return "saving";
+  if (progress >= 70) return "summarizing";
+  if (progress >= 50) return "transcribing";
+  if (progress >= 30) return "preprocessing";
+  return "analyzing";
+};
+
+const snapshot = (summary: SummaryData): SummaryVersionData => ({
+  version: summary.version ?? 1,
+  language: summary.language,
+  detailLevel: summary.detailLevel,
+  instructions: summary.instructions,
+  template: summary.template,
+  overview: summary.overview,
+  keyTakeaways: summary.keyTakeaways,
+  keyPoints: summary.keyPoints,
+  actionItems: summary.actionItems,
+  quotes: summary.quotes,
+  chapters: summary.chapters,
+  sections: summary.sections,
+  grounding: summary.grounding,
+  tags: summary.tags,
+  confidence: summary.confidence,
+  generatedAt: summary.generatedAt ?? summary.createdAt,
+});
+
+const applyVersion = (summary: SummaryData, version: SummaryVersionData) => {
+  const versions = [snapshot(summary), ...(summary.versions ?? [])]
+    .filter(previous => previous.version !== version.version)
+    .sort((a, b) => b.version - a.version);
+  Object.assign(summary, version, { versions, updatedAt: new Date().toISOString() });
+};
+
+// Placeholder content in the shape each template section asks for
+const mockSections = (template: SummaryTemplateData): SummarySection[] =>
+  template.sections.map(section => ({
+    key: section.key,
+    title: section.title,
+    type: section.type,
+    fields: section.fields,
+    content: section.type === "text"
+      ? section.instructions
+      : section.type === "list"
+        ? [section.instructions]
+        : [Object.fromEntries((section.fields ?? []).map(field => [
+          field.name,
+          field.type === "string" ? section.instructions : field.type === "boolean" ? true : 330,
+        ]))],
+  }));
+
+const finishRegeneration = (jobId: string) => {
+  const regeneration = regenerations.get(jobId);
+  const summary = mockSummaries.find(item => item.id === regeneration?.summaryId);
+  if (!regeneration || !summary) return;
+  regenerations.delete(jobId);
+
+  const { request } = regeneration;
+  const template = request.templateId === null
+    ? undefined
+    : mockTemplates.find(candidate => candidate.id === request.templateId) ?? mockTemplates.find(candidate => candidate.id === summary.template?.id);
+  const latest = Math.max(summary.version ?? 1, ...(summary.versions ?? []).map(previous => previous.version));
+  applyVersion(summary, {
+    ...snapshot(summary),
+    version: latest + 1,
+    detailLevel: request.detailLevel ?? summary.detailLevel,
+    language: request.language ?? summary.language,
+    instructions: request.instructions,
+    template: template && { id: template.id, name: template.name },
+    sections: template && mockSections(template),
+    overview: `${summary.overview.split(". ")[0]}. (Regenerated at ${request.detailLevel ?? summary.detailLevel} detail.)`,
+    generatedAt: new Date().toISOString(),
+  });
+};
+
+const eventFor = (jobId: string): Wire<JobEvent> => {
+  const elapsed = Date.now() - (jobStarts.get(jobId) ?? Date.now());
+  const progress = Math.min(100, Math.round((elapsed / JOB_DURATION_MS) * 100));
+  const completed = progress >= 100;
+  if (completed) finishRegeneration(jobId);
+
+  return {
+    type: completed ? "completed" : "progress",
+    jobId,
+    status: completed ? "completed" : "processing",
+    stage: stageFor(progress),
+    progress,
+    summaryId: completed ? regenerations.get(jobId)?.summaryId ?? mockSummaries[0].id : undefined,
+    timestamp: new Date().toISOString(),
+  };
+};
+
+export const uploadPodcast = async (request: UploadRequest): Promise<Wire<UploadResponse>> => {
+  if (request.file) {
+    const total = request.file.size;
+    for (let step = 0; step <= 10; step++) {
+      request.onProgress?.({ loaded: Math.round((total * step) / 10), total });
+      await delay(150);
+    }
+  } else {
+    await delay(500);
+  }
+  const jobId = `job_${Date.now()}`;
+  jobStarts.set(jobId, Date.now());
+
+  return {
+    jobId,
+    status: "queued",
+    message: `Upload received (${request.type})`,
+    estimatedTime: JOB_DURATION_MS / 1000,
+  };
+};
+
+export const retryJob = async (jobId: string): Promise<Wire<UploadResponse>> => {
+  await delay(300);
+  jobStarts.set(jobId, Date.now());
+
+  return { jobId, status: "queued", message: "Job queued to resume from its last completed stage" };
+};
+
+export const getJobStatus = async (jobId: string): Promise<JobStatusData> => {
+  const { status, stage, progress } = eventFor(jobId);
+  return { jobId, status, stage, progress, result: status === "completed" ? mockSummaries[0] : undefined };
+};
+
+export const streamJobStatus = async (
+  jobId: string,
+  onEvent: (event: Wire<JobEvent>) => void,
+  signal?: AbortSignal
+): Promise<Wire<JobEvent>> => {
+  let segment = 0;
+
+  while (!signal?.aborted) {
+    const event = eventFor(jobId);
+    if (event.stage === "transcribing") {
+      const start = segment++ * 15;
+      onEvent({ ...event, type: "transcript", segments: [{ start, end: start + 15, text: `Mock transcript segment ${segment}.` }] });
+    }
+    onEvent(event);
+    if (event.type === "completed") return event;
+    await delay(500);
+  }
+
+  throw new DOMException("Aborted", "AbortError");
+};
+
+export const getSummary = async (id: string): Promise<SummaryData> => {
+  await delay(300);
+  const summary = mockSummaries.find(item => item.id === id);
+  return summary ? { ...summary } : { ...mockSummaries[0], id };
+};
+
+export const getSummaries = async (query: SummaryListQuery = {}): Promise<SummaryPage> => {
+  await delay(300);
+  const page = query.page || 1;
+  const limit = query.limit || 20;
+  const search = query.search?.toLowerCase();
+
+  const matches = mockSummaries.filter(summary =>
+    !search ||
+    summary.title.toLowerCase().includes(search) ||
+    summary.episode?.showTitle?.toLowerCase().includes(search) ||
+    summary.tags.some(tag => tag.toLowerCase().includes(search))
+  );
+  const totalPages = Math.ceil(matches.length / limit);
+
+  return {
+    summaries: matches.slice((page - 1) * limit, page * limit),
+    pagination: {
+      page,
+      limit,
+      total: matches.length,
+      totalPages,
+      hasNext: page < totalPages,
+      hasPrev: page > 1,
+    },
+  };
+};
+
+// Plain substring matching; the backend ranks with a real index
+export const searchSummaries = async (query: SummarySearchQuery): Promise<SearchPage> => {
+  await delay(300);
+  const page = query.page || 1;
+  const limit = query.limit || 20;
+  const needle = query.q.replace(/"/g, "").trim().toLowerCase();
+
+  const hitFor = (field: SearchField, text: string, segment?: SearchHit["segment"]): SearchHit | undefined => {
+    const start = text.toLowerCase().indexOf(needle);
+    if (!needle || start === -1) return undefined;
+    return { field, snippet: text, highlights: [{ start, end: start + needle.length }], score: 1, segment };
+  };
+
+  const results: SearchResultData[] = mockSummaries
+    .map(summary => {
+      const hits = [
+        hitFor("title", summary.title),
+        hitFor("overview", summary.overview),
+        ...summary.timestamps.map(segment => hitFor("transcript", segment.text, segment)),
+      ].filter((hit): hit is SearchHit => !!hit);
+
+      return {
+        summaryId: summary.id,
+        title: summary.title,
+        showTitle: summary.episode?.showTitle,
+        audioUrl: summary.episode?.audioUrl,
+        createdAt: summary.createdAt,
+        score: hits.length,
+        hits: hits.slice(0, 5),
+      };
+    })
+    .filter(result => result.hits.length > 0)
+    .sort((a, b) => b.score - a.score);
+  const totalPages = Math.ceil(results.length / limit);
+
+  return {
+    results: results.slice((page - 1) * limit, page * limit),
+    pagination: {
+      page,
+      limit,
+      total: results.length,
+      totalPages,
+      hasNext: page < totalPages,
+      hasPrev: page > 1,
+    },
+  };
+};
+
+export const deleteSummary = async (id: string): Promise<void> => {
+  await delay(300);
+  const index = mockSummaries.findIndex(summary => summary.id === id);
+  if (index > -1) mockSummaries.splice(index, 1);
+};
+
+export const regenerateSummary = async (id: string, request: RegenerateSummaryRequest): Promise<Wire<UploadResponse>> => {
+  await delay(300);
+  const jobId = `job_${Date.now()}`;
+  jobStarts.set(jobId, Date.now());
+  regenerations.set(jobId, { summaryId: id, request });
+
+  return { jobId, status: "queued", message: "Summary regeneration started" };
+};
+
+export const restoreSummaryVersion = async (id: string, version: number): Promise<SummaryData> => {
+  await delay(300);
+  const summary = mockSummaries.find(item => item.id === id);
+  const target = summary?.versions?.find(previous => previous.version === version);
+  if (summary && target) applyVersion(summary, target);
+  return { ...(summary ?? mockSummaries[0]) };
+};
+
+export const renameSpeaker = async (id: string, speakerId: string, name: string): Promise<SummaryData> => {
+  await delay(200);
+  const summary = mockSummaries.find(item => item.id === id);
+  const speaker = summary?.speakers?.find(candidate => candidate.id === speakerId);
+  if (speaker) speaker.name = name.trim();
+  return { ...(summary ?? mockSummaries[0]) };
+};
+
+// Cites the segments sharing the most words with the question
+export const askSummary = async (id: string, question: string): Promise<AskResponse> => {
+  await delay(600);
+  const summary = await getSummary(id);
+  const words = new Set(question.toLowerCase().match(/[a-z]{4,}/g) ?? []);
+  const matches = summary.timestamps
+    .map(segment => ({ segment, overlap: (segment.text.toLowerCase().match(/[a-z]{4,}/g) ?? []).filter(word => words.has(word)).length }))
+    .filter(match => match.overlap > 0)
+    .sort((a, b) => b.overlap - a.overlap)
+    .slice(0, 2)
+    .sort((a, b) => a.segment.start - b.segment.start);
+
+  if (matches.length === 0) {
+    return { question, answer: "The episode does not seem to cover that.", citations: [] };
+  }
+
+  return {
+    question,
+    answer: matches.map(({ segment }, index) => `${segment.text.replace(/[.!?]+$/, "")} [${index + 1}].`).join(" "),
+    citations: matches.map(({ segment }, index) => ({
+      index: index + 1,
+      source: "transcript" as const,
+      start: segment.start,
+      end: segment.end,
+      text: segment.text,
+      speaker: summary.speakers?.find(speaker => speaker.id === segment.speaker)?.name,
+    })),
+  };
+};
+
+// Without a backend there is no renderer, so every format downloads as plain text
+export const exportSummary = async (id: string, format: ExportFormat): Promise<{ blob: Blob; filename?: string }> => {
+  const summary = await getSummary(id);
+  const text = [
+    summary.title,
+    "",
+    summary.overview,
+    "",
+    ...summary.keyTakeaways.map((takeaway, index) => `${index + 1}. ${takeaway}`),
+  ].join("\n");
+
+  return { blob: new Blob([text], { type: "text/plain" }), filename: `${summary.id}-${format}.txt` };
+};
+
+export const getTemplates = async (): Promise<SummaryTemplateData[]> => {
+  await delay(200);
+  return [...mockTemplates].sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const createTemplate = async (request: SummaryTemplateRequest): Promise<SummaryTemplateData> => {
+  await delay(300);
+  const now = new Date().toISOString();
+  const template = { ...request, id: `template_${Date.now()}`, userId: "mock-user", createdAt: now, updatedAt: now };
+  mockTemplates.push(template);
+  return template;
+};
+
+export const updateTemplate = async (id: string, request: SummaryTemplateRequest): Promise<SummaryTemplateData> => {
+  await delay(300);
+  const template = mockTemplates.find(item => item.id === id);
+  if (!template) throw new Error("Template not found");
+  Object.assign(template, request, { updatedAt: new Date().toISOString() });
+  return { ...template };
+};
+
+export const deleteTemplate = async (id: string): Promise<void> => {
+  await delay(200);
+  const index = mockTemplates.findIndex(template => template.id === id);
+  if (index > -1) mockTemplates.splice(index, 1);
+};
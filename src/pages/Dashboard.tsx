@@ -2,69 +2,67 @@
 
 import { useState } from "react";
 import { motion } from "framer-motion";
-import { Plus, Filter, Calendar, BarChart3, Mic, Clock } from "lucide-react";
-import { Link } from "react-router-dom";
+import { Plus, Filter, Calendar, BarChart3, Mic, Clock, AlertCircle } from "lucide-react";
+import { Link, useNavigate } from "react-router-dom";
 import Container from "@/components/Container";
 import Button from "@/components/Button";
 import SearchInput from "@/components/SearchInput";
 import SummaryCard from "@/components/SummaryCard";
+import SearchResultCard from "@/components/SearchResultCard";
 import EmptyState from "@/components/EmptyState";
 import Badge from "@/components/Badge";
+import Skeleton from "@/components/Skeleton";
+import Pagination from "@/components/Pagination";
+import { type SummaryData } from "@/lib/api";
+import { useSummaries, useSummarySearch } from "@/hooks/use-summaries";
 
-// Mock data
-const mockSummaries = [
-  {
-    id: "1",
-    title: "Building Systems for Success",
-    show: "The Tim Ferriss Show",
-    duration: 4020, // 67 minutes
-    date: "2024-01-15",
-    excerpt: "Derek Sivers shares insights on building systems over goals, the power of saying no, and creating sustainable wealth through ownership and problem-solving.",
-    tags: ["entrepreneurship", "systems", "productivity"],
-    source: "spotify" as const,
-    coverUrl: "",
-  },
-  {
-    id: "2", 
-    title: "The Future of AI in Healthcare",
-    show: "a16z Podcast",
-    duration: 2700, // 45 minutes
-    date: "2024-01-12",
-    excerpt: "Discussion on how artificial intelligence is transforming healthcare, from diagnostic tools to personalized treatment plans and drug discovery.",
-    tags: ["AI", "healthcare", "technology"],
-    source: "apple" as const,
-    coverUrl: "",
-  },
-  {
-    id: "3",
-    title: "Scaling Engineering Teams",
-    show: "Software Engineering Daily",
-    duration: 1980, // 33 minutes  
-    date: "2024-01-10",
-    excerpt: "Best practices for growing engineering organizations, managing technical debt, and maintaining code quality at scale.",
-    tags: ["engineering", "leadership", "scaling"],
-    source: "rss" as const,
-    coverUrl: "",
-  },
-];
+const PAGE_SIZE = 10;
+const TOPIC_FILTERS = ["technology", "business", "health"];
+
+const toCard = (summary: SummaryData) => ({
+  id: summary.id,
+  title: summary.title,
+  show: summary.episode?.showTitle || summary.originalFileName || "Upload",
+  duration: summary.duration,
+  date: summary.episode?.publishedAt || summary.createdAt,
+  excerpt: summary.description || summary.overview,
+  tags: summary.tags,
+  source: summary.originalUrl ? "rss" as const : "upload" as const,
+  coverUrl: summary.episode?.artworkUrl,
+});
 
 const Dashboard = () => {
+  const navigate = useNavigate();
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedFilter, setSelectedFilter] = useState("all");
+  const [page, setPage] = useState(1);
+
+  const { data, isPending, isError, error, refetch } = useSummaries({
+    page: searchQuery ? 1 : page,
+    limit: PAGE_SIZE,
+    sort: "createdAt",
+    order: "desc",
+    tags: TOPIC_FILTERS.includes(selectedFilter) ? [selectedFilter] : undefined,
+  });
+
+  // Searches go to the full-text index, which also covers transcripts
+  const search = useSummarySearch({ q: searchQuery, page, limit: PAGE_SIZE });
+  const searchResults = search.data?.results ?? [];
+
+  const summaries = data?.summaries ?? [];
+  const total = data?.pagination.total ?? 0;
+  const hoursListened = Math.round(summaries.reduce((sum, summary) => sum + summary.duration, 0) / 3600);
+  const showCount = new Set(summaries.map(summary => summary.episode?.showTitle).filter(Boolean)).size;
 
   const handleSearch = (query: string) => {
     setSearchQuery(query);
-    // TODO: Implement search logic
+    setPage(1);
   };
 
-  const filteredSummaries = mockSummaries.filter((summary) => {
-    const matchesSearch = summary.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                         summary.show.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                         summary.tags.some(tag => tag.toLowerCase().includes(searchQuery.toLowerCase()));
-    
-    // TODO: Add filter logic for selectedFilter
-    return matchesSearch;
-  });
+  const handleFilter = (filter: string) => {
+    setSelectedFilter(filter);
+    setPage(1);
+  };
 
   return (
     <div className="min-h-screen pt-24 pb-12">
@@ -80,7 +78,7 @@ const Dashboard = () => {
               Your Summaries
             </h1>
             <p className="text-lg text-ink-300">
-              {mockSummaries.length} podcasts summarized
+              {total} podcasts summarized
             </p>
           </div>
 
@@ -107,7 +105,7 @@ const Dashboard = () => {
                 <BarChart3 className="w-5 h-5 text-brand-400" />
               </div>
               <div>
-                <p className="text-2xl font-bold text-ink-100">{mockSummaries.length}</p>
+                <p className="text-2xl font-bold text-ink-100">{total}</p>
                 <p className="text-sm text-ink-400">Total Summaries</p>
               </div>
             </div>
@@ -119,7 +117,7 @@ const Dashboard = () => {
                 <Clock className="w-5 h-5 text-success" />
               </div>
               <div>
-                <p className="text-2xl font-bold text-ink-100">24h</p>
+                <p className="text-2xl font-bold text-ink-100">{hoursListened}h</p>
                 <p className="text-sm text-ink-400">Time Saved</p>
               </div>
             </div>
@@ -131,7 +129,7 @@ const Dashboard = () => {
                 <Mic className="w-5 h-5 text-warning" />
               </div>
               <div>
-                <p className="text-2xl font-bold text-ink-100">12</p>
+                <p className="text-2xl font-bold text-ink-100">{showCount}</p>
                 <p className="text-sm text-ink-400">Shows Tracked</p>
               </div>
             </div>
@@ -147,7 +145,7 @@ const Dashboard = () => {
         >
           <div className="flex-1">
             <SearchInput
-              placeholder="Search summaries..."
+              placeholder="Search summaries and transcripts..."
               onSearch={handleSearch}
             />
           </div>
@@ -184,7 +182,7 @@ const Dashboard = () => {
               key={filter}
               variant={selectedFilter === filter ? "primary" : "outline"}
               className="cursor-pointer hover:border-brand-500 transition-colors"
-              onClick={() => setSelectedFilter(filter)}
+              onClick={() => handleFilter(filter)}
             >
               {filter.charAt(0).toUpperCase() + filter.slice(1)}
             </Badge>
@@ -198,32 +196,97 @@ const Dashboard = () => {
           transition={{ delay: 0.4 }}
           className="space-y-4"
         >
-          {filteredSummaries.length > 0 ? (
-            filteredSummaries.map((summary, index) => (
-              <motion.div
-                key={summary.id}
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ delay: 0.1 * index }}
-              >
-                <SummaryCard
-                  {...summary}
-                  onClick={() => {
-                    // TODO: Navigate to summary detail page
-                    console.log("View summary:", summary.id);
-                  }}
-                />
-              </motion.div>
+          {searchQuery ? (
+            search.isPending ? (
+              Array.from({ length: 3 }, (_, index) => (
+                <Skeleton key={index} className="h-40 w-full rounded-xl" />
+              ))
+            ) : search.isError ? (
+              <EmptyState
+                icon={<AlertCircle className="w-8 h-8" />}
+                title="Search failed"
+                description={search.error.message}
+                action={
+                  <Button variant="secondary" onClick={() => search.refetch()}>
+                    Try Again
+                  </Button>
+                }
+              />
+            ) : searchResults.length > 0 ? (
+              <>
+                {searchResults.map((result, index) => (
+                  <motion.div
+                    key={result.summaryId}
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ delay: 0.1 * index }}
+                  >
+                    <SearchResultCard
+                      result={result}
+                      onClick={() => navigate(`/summary/${result.summaryId}`)}
+                    />
+                  </motion.div>
+                ))}
+                {search.data.pagination.totalPages > 1 && (
+                  <Pagination
+                    currentPage={page}
+                    totalPages={search.data.pagination.totalPages}
+                    onPageChange={setPage}
+                    className="pt-4"
+                  />
+                )}
+              </>
+            ) : (
+              <EmptyState
+                icon={<Mic className="w-8 h-8" />}
+                title="No matches found"
+                description={`Nothing in your summaries or transcripts matches "${searchQuery}". Use quotes to search for an exact phrase.`}
+              />
+            )
+          ) : isPending ? (
+            Array.from({ length: 3 }, (_, index) => (
+              <Skeleton key={index} className="h-40 w-full rounded-xl" />
             ))
+          ) : isError ? (
+            <EmptyState
+              icon={<AlertCircle className="w-8 h-8" />}
+              title="Couldn't load your summaries"
+              description={error.message}
+              action={
+                <Button variant="secondary" onClick={() => refetch()}>
+                  Try Again
+                </Button>
+              }
+            />
+          ) : summaries.length > 0 ? (
+            <>
+              {summaries.map((summary, index) => (
+                <motion.div
+                  key={summary.id}
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: 0.1 * index }}
+                >
+                  <SummaryCard
+                    {...toCard(summary)}
+                    onClick={() => navigate(`/summary/${summary.id}`)}
+                  />
+                </motion.div>
+              ))}
+              {data.pagination.totalPages > 1 && (
+                <Pagination
+                  currentPage={page}
+                  totalPages={data.pagination.totalPages}
+                  onPageChange={setPage}
+                  className="pt-4"
+                />
+              )}
+            </>
           ) : (
             <EmptyState
               icon={<Mic className="w-8 h-8" />}
               title="No summaries found"
-              description={
-                searchQuery
-                  ? `No summaries match "${searchQuery}". Try adjusting your search terms.`
-                  : "You haven't created any podcast summaries yet. Upload your first podcast to get started."
-              }
+              description="You haven't created any podcast summaries yet. Upload your first podcast to get started."
               action={
                 <Link to="/upload">
                   <Button variant="hero">
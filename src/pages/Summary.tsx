@@ -1,62 +1,64 @@
 "use client";
 
+import { useEffect, useState, type FormEvent } from "react";
 import { motion } from "framer-motion";
-import { ArrowLeft, Copy, Download, Share2, RotateCcw, Clock, Calendar, ExternalLink, CheckCircle } from "lucide-react";
+import { ArrowLeft, Copy, Download, Share2, RotateCcw, Clock, Calendar, ExternalLink, CheckCircle, AlertCircle, History, Pencil } from "lucide-react";
 import { Link, useParams } from "react-router-dom";
 import Container from "@/components/Container";
 import Button from "@/components/Button";
 import Badge from "@/components/Badge";
+import EmptyState from "@/components/EmptyState";
+import EpisodeChat from "@/components/EpisodeChat";
+import TemplateSections from "@/components/TemplateSections";
+import LoadingSpinner from "@/components/LoadingSpinner";
+import ProgressBar from "@/components/ProgressBar";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { useCopyShortcut, useDownloadShortcut } from "@/hooks/use-keyboard-shortcuts";
+import { useJobProgress, useRegenerateSummary, useRenameSpeaker, useRestoreSummaryVersion, useSummary, useTemplates } from "@/hooks/use-summaries";
 import { toast } from "@/hooks/use-toast";
+import { exportSummary, isApiError, type DetailLevel, type ExportFormat } from "@/lib/api";
+import { cn } from "@/lib/utils";
+import { secondsToTimeString } from "@/lib/formatting";
 
-// Mock data for a summary
-const mockSummary = {
-  id: "1",
-  title: "Building Systems for Success",
-  show: "The Tim Ferriss Show",
-  episode: "Derek Sivers on The Power of Systems",
-  duration: 4020, // 67 minutes
-  date: "2024-01-15",
-  source: "spotify",
-  coverUrl: "",
-  transcriptLength: 15420,
-  processingTime: "2.3 seconds",
-  model: "GPT-4 Turbo",
-  summary: {
-    keyTakeaways: [
-      "Focus on systems over goals - goals have an end point, systems create lasting change",
-      "The importance of saying no to preserve energy for what truly matters",
-      "Building wealth through ownership and solving real problems for people",
-      "Start with extreme constraints to force creative solutions",
-      "Question assumptions and conventional wisdom regularly"
-    ],
-    paragraphs: [
-      "Derek Sivers emphasizes the transformative power of thinking in systems rather than goals. While goals provide direction, systems provide the sustainable framework for continuous improvement and long-term success.",
-      "The discussion reveals how successful entrepreneurs and creators maintain focus by aggressively saying no to opportunities that don't align with their core mission. This selective approach preserves energy and resources for what matters most.",
-      "Building real wealth comes from creating genuine value for others through ownership of assets, intellectual property, or businesses that solve meaningful problems. The key is finding the intersection of personal passion and market demand."
-    ],
-    timestamps: [
-      { time: "00:05:30", topic: "Introduction to systems thinking" },
-      { time: "00:18:45", topic: "The art of saying no" },
-      { time: "00:32:10", topic: "Building sustainable wealth" },
-      { time: "00:45:20", topic: "Creative constraints" },
-      { time: "00:58:15", topic: "Questioning assumptions" }
-    ],
-    topics: ["entrepreneurship", "systems thinking", "wealth building", "productivity", "decision making"],
-    people: ["Derek Sivers", "Tim Ferriss"],
-    chapters: [
-      { title: "Systems vs Goals", start: "00:00:00" },
-      { title: "The Power of No", start: "00:15:30" },
-      { title: "Creating Value", start: "00:30:00" },
-      { title: "Constraints and Creativity", start: "00:42:00" },
-      { title: "Final Thoughts", start: "00:55:00" }
-    ]
-  }
+const WORDS_PER_MINUTE = 200;
+
+const DETAIL_LABELS: Record<DetailLevel, string> = {
+  brief: "Brief",
+  standard: "Standard",
+  deep: "Detailed",
+};
+
+const EXPORT_LABELS: Record<ExportFormat, string> = {
+  pdf: "PDF",
+  docx: "Word document",
+  html: "Web page",
+  markdown: "Markdown",
+  text: "Plain text",
+  srt: "Subtitles (SRT)",
+  vtt: "Subtitles (WebVTT)",
+  json: "JSON",
 };
 
 const Summary = () => {
   const { id } = useParams();
-  
+  const { data: summary, isPending, error, refetch } = useSummary(id);
+  const regenerate = useRegenerateSummary(id ?? "");
+  const regeneration = useJobProgress(regenerate.data?.jobId);
+  const restore = useRestoreSummaryVersion(id ?? "");
+  const rename = useRenameSpeaker(id ?? "");
+  const { data: templates } = useTemplates();
+  const [editingSpeaker, setEditingSpeaker] = useState<{ id: string; name: string } | null>(null);
+  const [regenerateOptions, setRegenerateOptions] = useState({
+    detailLevel: undefined as DetailLevel | undefined,
+    language: "",
+    instructions: "",
+    // "" keeps the current template, "none" switches to the standard format
+    templateId: "",
+  });
+  const [compareVersion, setCompareVersion] = useState<number | null>(null);
+  const isRegenerating = regenerate.isPending || (!!regenerate.data && regeneration.status !== "completed" && !regeneration.failed);
+  const comparedVersion = summary?.versions?.find(version => version.version === compareVersion);
+
   const formatDuration = (seconds: number) => {
     const hours = Math.floor(seconds / 3600);
     const minutes = Math.floor((seconds % 3600) / 60);
@@ -71,19 +73,48 @@ const Summary = () => {
     });
   };
 
+  const show = summary?.episode?.showTitle || summary?.originalFileName || "Upload";
+  const paragraphs = summary?.overview.split(/\n+/).filter(Boolean) ?? [];
+  const speakers = summary?.speakers ?? [];
+  const speakerNames = new Map(speakers.map(speaker => [speaker.id, speaker.name || speaker.id]));
+  const totalSpeakingTime = speakers.reduce((total, speaker) => total + speaker.speakingTime, 0);
+  const quotes = (summary?.quotes ?? []).map(quote => {
+    const attribution = summary?.quoteAttributions?.find(candidate => candidate.quote === quote);
+    return { quote, speaker: attribution?.speakerId ? speakerNames.get(attribution.speakerId) : undefined, start: attribution?.start };
+  });
+  const readMinutes = Math.max(1, Math.round(
+    [
+      summary?.overview,
+      ...(summary?.keyTakeaways ?? []),
+      ...(summary?.keyPoints ?? []).map(point => point.description),
+      ...(summary?.sections ?? []).map(section => JSON.stringify(section.content)),
+    ]
+      .join(" ")
+      .split(/\s+/).length / WORDS_PER_MINUTE
+  ));
+
   const handleCopy = async () => {
+    if (!summary) return;
+
     try {
       const summaryText = [
-        `# ${mockSummary.title}`,
-        `**Show**: ${mockSummary.show}`,
-        `**Episode**: ${mockSummary.episode}`,
-        `**Duration**: ${formatDuration(mockSummary.duration)}`,
-        '',
-        '## Key Takeaways',
-        ...mockSummary.summary.keyTakeaways.map(item => `• ${item}`),
+        `# ${summary.title}`,
+        `**Show**: ${show}`,
+        ...(summary.episode?.episodeTitle ? [`**Episode**: ${summary.episode.episodeTitle}`] : []),
+        `**Duration**: ${formatDuration(summary.duration)}`,
         '',
+        ...(summary.keyTakeaways.length > 0
+          ? ['## Key Takeaways', ...summary.keyTakeaways.map(item => `• ${item}`), '']
+          : []),
         '## Summary',
-        ...mockSummary.summary.paragraphs,
+        ...paragraphs,
+        ...(summary.sections ?? []).flatMap(section => [
+          '',
+          `## ${section.title}`,
+          ...(typeof section.content === 'string'
+            ? [section.content]
+            : section.content.map(entry => `• ${typeof entry === 'string' ? entry : Object.values(entry).join(' — ')}`)),
+        ]),
       ].join('\n');
       
       await navigator.clipboard.writeText(summaryText);
@@ -100,13 +131,29 @@ const Summary = () => {
     }
   };
 
-  const handleDownload = () => {
-    // TODO: Download as PDF
+  const handleDownload = async (format: ExportFormat = "pdf") => {
+    if (!summary) return;
+
     toast({
       title: "Download starting...",
-      description: "Your PDF will be ready shortly.",
+      description: `Your ${EXPORT_LABELS[format]} will be ready shortly.`,
     });
-    console.log("Download PDF");
+
+    try {
+      const { blob, filename } = await exportSummary(summary.id, format);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename || `${summary.title}.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      toast({
+        title: "Download failed",
+        description: err instanceof Error ? err.message : "Unable to export this summary.",
+        variant: "destructive",
+      });
+    }
   };
 
   const handleShare = () => {
@@ -115,13 +162,91 @@ const Summary = () => {
   };
 
   const handleRegenerate = () => {
-    // TODO: Regenerate summary
-    console.log("Regenerate summary");
+    if (!summary) return;
+
+    regenerate.mutate({
+      detailLevel: regenerateOptions.detailLevel ?? summary.detailLevel,
+      language: regenerateOptions.language || undefined,
+      instructions: regenerateOptions.instructions.trim() || undefined,
+      templateId: regenerateOptions.templateId === "none" ? null : regenerateOptions.templateId || undefined,
+    }, {
+      onError: (err) => {
+        toast({ title: "Regeneration failed", description: err.message, variant: "destructive" });
+      },
+    });
+  };
+
+  const handleRestore = (version: number) => {
+    restore.mutate(version, {
+      onSuccess: () => {
+        setCompareVersion(null);
+        toast({ title: `Restored version ${version}`, description: "The previous summary is kept in the version history." });
+      },
+      onError: (err) => {
+        toast({ title: "Restore failed", description: err.message, variant: "destructive" });
+      },
+    });
   };
 
+  const handleRenameSpeaker = (event: FormEvent) => {
+    event.preventDefault();
+    if (!editingSpeaker || !editingSpeaker.name.trim()) return;
+
+    rename.mutate({ speakerId: editingSpeaker.id, name: editingSpeaker.name }, {
+      onSuccess: () => setEditingSpeaker(null),
+      onError: (err) => {
+        toast({ title: "Rename failed", description: err.message, variant: "destructive" });
+      },
+    });
+  };
+
+  // Report the outcome of a regeneration once its job finishes
+  useEffect(() => {
+    if (regeneration.status === "completed") {
+      toast({ title: "Summary regenerated", description: "The previous version is still available in the history." });
+    } else if (regeneration.failed) {
+      toast({ title: "Regeneration failed", description: regeneration.error, variant: "destructive" });
+    }
+  }, [regeneration.status, regeneration.failed, regeneration.error]);
+
   // Add keyboard shortcuts
   useCopyShortcut(handleCopy);
-  useDownloadShortcut(handleDownload);
+  useDownloadShortcut(() => handleDownload());
+
+  if (isPending || error || !summary) {
+    return (
+      <div className="min-h-screen pt-24 pb-12">
+        <Container>
+          {isPending ? (
+            <div className="flex justify-center py-24">
+              <LoadingSpinner size="lg" />
+            </div>
+          ) : (
+            <EmptyState
+              icon={<AlertCircle className="w-8 h-8" />}
+              title={isApiError(error) && error.kind === "not_found" ? "Summary not found" : "Couldn't load this summary"}
+              description={
+                isApiError(error) && error.kind === "not_found"
+                  ? "It may have been deleted, or the link is wrong."
+                  : error?.message
+              }
+              action={
+                isApiError(error) && error.kind === "not_found" ? (
+                  <Link to="/dashboard">
+                    <Button variant="secondary">Back to Dashboard</Button>
+                  </Link>
+                ) : (
+                  <Button variant="secondary" onClick={() => refetch()}>
+                    Try Again
+                  </Button>
+                )
+              }
+            />
+          )}
+        </Container>
+      </div>
+    );
+  }
 
   return (
     <div className="min-h-screen pt-24 pb-12">
@@ -151,7 +276,7 @@ const Summary = () => {
             <div className="flex-shrink-0">
               <div className="w-24 h-24 bg-gradient-to-br from-brand-500 to-brand-700 rounded-xl flex items-center justify-center">
                 <span className="text-white text-2xl font-bold">
-                  {mockSummary.show.charAt(0)}
+                  {show.charAt(0)}
                 </span>
               </div>
             </div>
@@ -161,10 +286,12 @@ const Summary = () => {
               <div className="flex items-start justify-between gap-4 mb-4">
                 <div className="min-w-0 flex-1">
                   <h1 className="text-3xl font-bold text-ink-100 mb-2">
-                    {mockSummary.title}
+                    {summary.title}
                   </h1>
-                  <p className="text-lg text-ink-300 mb-2">{mockSummary.show}</p>
-                  <p className="text-ink-400">{mockSummary.episode}</p>
+                  <p className="text-lg text-ink-300 mb-2">{show}</p>
+                  {summary.episode?.episodeTitle && (
+                    <p className="text-ink-400">{summary.episode.episodeTitle}</p>
+                  )}
                 </div>
 
                 {/* Actions */}
@@ -173,10 +300,21 @@ const Summary = () => {
                     <Copy className="w-4 h-4" />
                     Copy
                   </Button>
-                  <Button variant="secondary" size="sm" onClick={handleDownload}>
-                    <Download className="w-4 h-4" />
-                    PDF
-                  </Button>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="secondary" size="sm">
+                        <Download className="w-4 h-4" />
+                        Export
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      {(Object.keys(EXPORT_LABELS) as ExportFormat[]).map((format) => (
+                        <DropdownMenuItem key={format} onSelect={() => handleDownload(format)}>
+                          {EXPORT_LABELS[format]}
+                        </DropdownMenuItem>
+                      ))}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
                   <Button variant="secondary" size="sm" onClick={handleShare}>
                     <Share2 className="w-4 h-4" />
                     Share
@@ -188,19 +326,29 @@ const Summary = () => {
               <div className="flex flex-wrap items-center gap-6 text-sm text-ink-400">
                 <div className="flex items-center gap-1">
                   <Clock className="w-4 h-4" />
-                  {formatDuration(mockSummary.duration)}
+                  {formatDuration(summary.duration)}
                 </div>
                 <div className="flex items-center gap-1">
                   <Calendar className="w-4 h-4" />
-                  {formatDate(mockSummary.date)}
-                </div>
-                <div className="flex items-center gap-1">
-                  <div className="w-4 h-4 bg-green-500 rounded-full" />
-                  Spotify
+                  {formatDate(summary.episode?.publishedAt || summary.createdAt)}
                 </div>
+                {summary.originalUrl && (
+                  <a
+                    href={summary.originalUrl}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="flex items-center gap-1 hover:text-ink-200"
+                  >
+                    <ExternalLink className="w-4 h-4" />
+                    Source
+                  </a>
+                )}
                 <Badge variant="primary">
-                  5 min read
+                  {readMinutes} min read
                 </Badge>
+                {summary.template && (
+                  <Badge variant="outline">{summary.template.name}</Badge>
+                )}
               </div>
             </div>
           </div>
@@ -210,24 +358,26 @@ const Summary = () => {
           {/* Main Content */}
           <div className="lg:col-span-2 space-y-8">
             {/* Key Takeaways */}
-            <motion.section
-              initial={{ opacity: 0, y: 20 }}
-              animate={{ opacity: 1, y: 0 }}
-              transition={{ delay: 0.1 }}
-              className="glass-panel rounded-xl p-6"
-            >
-              <h2 className="text-xl font-semibold text-ink-100 mb-4">
-                Key Takeaways
-              </h2>
-              <ul className="space-y-3">
-                {mockSummary.summary.keyTakeaways.map((takeaway, index) => (
-                  <li key={index} className="flex items-start gap-3">
-                    <CheckCircle className="w-5 h-5 text-brand-400 mt-0.5 flex-shrink-0" />
-                    <span className="text-ink-200 leading-relaxed">{takeaway}</span>
-                  </li>
-                ))}
-              </ul>
-            </motion.section>
+            {summary.keyTakeaways.length > 0 && (
+              <motion.section
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.1 }}
+                className="glass-panel rounded-xl p-6"
+              >
+                <h2 className="text-xl font-semibold text-ink-100 mb-4">
+                  Key Takeaways
+                </h2>
+                <ul className="space-y-3">
+                  {summary.keyTakeaways.map((takeaway, index) => (
+                    <li key={index} className="flex items-start gap-3">
+                      <CheckCircle className="w-5 h-5 text-brand-400 mt-0.5 flex-shrink-0" />
+                      <span className="text-ink-200 leading-relaxed">{takeaway}</span>
+                    </li>
+                  ))}
+                </ul>
+              </motion.section>
+            )}
 
             {/* Summary Paragraphs */}
             <motion.section
@@ -240,7 +390,7 @@ const Summary = () => {
                 Detailed Summary
               </h2>
               <div className="space-y-4">
-                {mockSummary.summary.paragraphs.map((paragraph, index) => (
+                {paragraphs.map((paragraph, index) => (
                   <p key={index} className="text-ink-200 leading-relaxed">
                     {paragraph}
                   </p>
@@ -248,28 +398,137 @@ const Summary = () => {
               </div>
             </motion.section>
 
+            {/* Template sections */}
+            {summary.sections && summary.sections.length > 0 && (
+              <TemplateSections sections={summary.sections} audioUrl={summary.episode?.audioUrl} />
+            )}
+
             {/* Timestamps */}
-            <motion.section
-              initial={{ opacity: 0, y: 20 }}
-              animate={{ opacity: 1, y: 0 }}
-              transition={{ delay: 0.3 }}
-              className="glass-panel rounded-xl p-6"
-            >
-              <h2 className="text-xl font-semibold text-ink-100 mb-4">
-                Key Timestamps
-              </h2>
-              <div className="space-y-3">
-                {mockSummary.summary.timestamps.map((timestamp, index) => (
-                  <div key={index} className="flex items-center gap-4 p-3 rounded-lg bg-ink-800/30 hover:bg-ink-700/30 transition-colors cursor-pointer">
-                    <Badge variant="outline" className="font-mono">
-                      {timestamp.time}
-                    </Badge>
-                    <span className="text-ink-200">{timestamp.topic}</span>
-                    <ExternalLink className="w-4 h-4 text-ink-400 ml-auto" />
+            {summary.keyPoints.length > 0 && (
+              <motion.section
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.3 }}
+                className="glass-panel rounded-xl p-6"
+              >
+                <h2 className="text-xl font-semibold text-ink-100 mb-4">
+                  Key Timestamps
+                </h2>
+                <div className="space-y-3">
+                  {summary.keyPoints.map((point, index) => (
+                    <div key={index} className="flex items-center gap-4 p-3 rounded-lg bg-ink-800/30 hover:bg-ink-700/30 transition-colors cursor-pointer">
+                      {point.timestamp !== undefined && (
+                        <Badge variant="outline" className="font-mono">
+                          {secondsToTimeString(Math.floor(point.timestamp))}
+                        </Badge>
+                      )}
+                      <span className="text-ink-200">{point.title}</span>
+                      {point.grounding !== undefined && point.timestamp === undefined && (
+                        <span className="flex items-center gap-1 text-xs text-ink-400" title="This point could not be matched to the transcript">
+                          <AlertCircle className="w-3.5 h-3.5" />
+                          Unverified
+                        </span>
+                      )}
+                      <ExternalLink className="w-4 h-4 text-ink-400 ml-auto" />
+                    </div>
+                  ))}
+                </div>
+              </motion.section>
+            )}
+
+            {/* Quotes */}
+            {quotes.length > 0 && (
+              <motion.section
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.35 }}
+                className="glass-panel rounded-xl p-6"
+              >
+                <h2 className="text-xl font-semibold text-ink-100 mb-4">
+                  Notable Quotes
+                </h2>
+                <div className="space-y-4">
+                  {quotes.map(({ quote, speaker, start }, index) => (
+                    <blockquote key={index} className="border-l-2 border-brand-400 pl-4">
+                      <p className="text-ink-200 italic leading-relaxed">“{quote}”</p>
+                      {(speaker || start !== undefined) && (
+                        <footer className="mt-1 text-sm text-ink-400">
+                          {speaker && <>— {speaker}</>}
+                          {start !== undefined && (
+                            <span className="font-mono ml-2">{secondsToTimeString(Math.floor(start))}</span>
+                          )}
+                        </footer>
+                      )}
+                    </blockquote>
+                  ))}
+                </div>
+              </motion.section>
+            )}
+
+            {/* Q&A */}
+            {summary.timestamps.length > 0 && (
+              <motion.section
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.38 }}
+              >
+                <EpisodeChat summaryId={summary.id} audioUrl={summary.episode?.audioUrl} />
+              </motion.section>
+            )}
+
+            {/* Version Comparison */}
+            {comparedVersion && (
+              <motion.section
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="glass-panel rounded-xl p-6"
+              >
+                <div className="flex items-center justify-between gap-4 mb-4">
+                  <h2 className="text-xl font-semibold text-ink-100">
+                    Version {comparedVersion.version} vs current
+                  </h2>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      loading={restore.isPending}
+                      onClick={() => handleRestore(comparedVersion.version)}
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                      Restore
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => setCompareVersion(null)}>
+                      Close
+                    </Button>
                   </div>
-                ))}
-              </div>
-            </motion.section>
+                </div>
+                <div className="grid md:grid-cols-2 gap-6 text-sm">
+                  {[
+                    { label: `Version ${comparedVersion.version}`, content: comparedVersion },
+                    { label: `Version ${summary.version ?? 1} (current)`, content: summary },
+                  ].map(({ label, content }) => (
+                    <div key={label} className="space-y-3">
+                      <div className="flex items-center gap-2">
+                        <h3 className="font-medium text-ink-100">{label}</h3>
+                        <Badge variant="outline">{DETAIL_LABELS[content.detailLevel]}</Badge>
+                      </div>
+                      {content.instructions && (
+                        <p className="text-ink-400 italic">“{content.instructions}”</p>
+                      )}
+                      <p className="text-ink-200 leading-relaxed">{content.overview}</p>
+                      <ul className="space-y-2">
+                        {content.keyTakeaways.map((takeaway, index) => (
+                          <li key={index} className="flex items-start gap-2 text-ink-300">
+                            <CheckCircle className="w-4 h-4 text-brand-400 mt-0.5 flex-shrink-0" />
+                            {takeaway}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  ))}
+                </div>
+              </motion.section>
+            )}
 
             {/* Regenerate Section */}
             <motion.section
@@ -283,16 +542,68 @@ const Summary = () => {
               </h2>
               <p className="text-ink-400 mb-4">
                 Want a different level of detail or focus? Regenerate with custom options.
+                The transcript is reused, so this only takes a moment.
               </p>
-              <div className="flex flex-wrap gap-3">
-                <Button variant="outline" size="sm">Brief</Button>
-                <Button variant="outline" size="sm">Standard</Button>
-                <Button variant="outline" size="sm">Detailed</Button>
-                <Button variant="secondary" onClick={handleRegenerate}>
-                  <RotateCcw className="w-4 h-4" />
-                  Regenerate
-                </Button>
-              </div>
+
+              {isRegenerating ? (
+                <div className="space-y-2">
+                  <p className="text-sm text-ink-300">{regeneration.message || "Regenerating summary..."}</p>
+                  <ProgressBar value={regeneration.progress} variant="brand" showLabel />
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  <div className="flex flex-wrap gap-3">
+                    {(Object.keys(DETAIL_LABELS) as DetailLevel[]).map((level) => (
+                      <Button
+                        key={level}
+                        variant={(regenerateOptions.detailLevel ?? summary.detailLevel) === level ? "primary" : "outline"}
+                        size="sm"
+                        onClick={() => setRegenerateOptions(prev => ({ ...prev, detailLevel: level }))}
+                      >
+                        {DETAIL_LABELS[level]}
+                      </Button>
+                    ))}
+                    <select
+                      value={regenerateOptions.language}
+                      onChange={(e) => setRegenerateOptions(prev => ({ ...prev, language: e.target.value }))}
+                      className="rounded-lg border border-ink-600 bg-ink-800/50 px-3 py-1.5 text-sm text-ink-100 focus-ring"
+                      aria-label="Summary language"
+                    >
+                      <option value="">Same language</option>
+                      <option value="en">English</option>
+                      <option value="es">Spanish</option>
+                      <option value="fr">French</option>
+                      <option value="de">German</option>
+                    </select>
+                    {(summary.template || (templates && templates.length > 0)) && (
+                      <select
+                        value={regenerateOptions.templateId}
+                        onChange={(e) => setRegenerateOptions(prev => ({ ...prev, templateId: e.target.value }))}
+                        className="rounded-lg border border-ink-600 bg-ink-800/50 px-3 py-1.5 text-sm text-ink-100 focus-ring"
+                        aria-label="Summary template"
+                      >
+                        <option value="">{summary.template ? "Same template" : "Standard summary"}</option>
+                        {summary.template && <option value="none">Standard summary</option>}
+                        {templates?.filter(template => template.id !== summary.template?.id).map(template => (
+                          <option key={template.id} value={template.id}>{template.name}</option>
+                        ))}
+                      </select>
+                    )}
+                  </div>
+                  <textarea
+                    value={regenerateOptions.instructions}
+                    onChange={(e) => setRegenerateOptions(prev => ({ ...prev, instructions: e.target.value }))}
+                    placeholder="Optional instructions, e.g. focus on the investing advice"
+                    maxLength={2000}
+                    rows={3}
+                    className="w-full rounded-lg border border-ink-600 bg-ink-800/50 px-3 py-2 text-sm text-ink-100 placeholder:text-ink-500 focus-ring"
+                  />
+                  <Button variant="secondary" onClick={handleRegenerate}>
+                    <RotateCcw className="w-4 h-4" />
+                    Regenerate
+                  </Button>
+                </div>
+              )}
             </motion.section>
           </div>
 
@@ -311,19 +622,33 @@ const Summary = () => {
               <div className="space-y-3 text-sm">
                 <div className="flex justify-between">
                   <span className="text-ink-400">Duration</span>
-                  <span className="text-ink-200">{formatDuration(mockSummary.duration)}</span>
+                  <span className="text-ink-200">{formatDuration(summary.duration)}</span>
                 </div>
                 <div className="flex justify-between">
                   <span className="text-ink-400">Transcript</span>
-                  <span className="text-ink-200">{mockSummary.transcriptLength.toLocaleString()} chars</span>
+                  <span className="text-ink-200">{summary.wordCount.toLocaleString()} words</span>
                 </div>
                 <div className="flex justify-between">
-                  <span className="text-ink-400">Model</span>
-                  <span className="text-ink-200">{mockSummary.model}</span>
+                  <span className="text-ink-400">Detail</span>
+                  <span className="text-ink-200 capitalize">{summary.detailLevel}</span>
                 </div>
+                {summary.grounding && (
+                  <div className="flex justify-between">
+                    <span className="text-ink-400">Grounding</span>
+                    <span
+                      className="text-ink-200"
+                      title={summary.grounding.droppedQuotes.length > 0
+                        ? `${summary.grounding.droppedQuotes.length} quote(s) not found in the transcript were removed`
+                        : undefined}
+                    >
+                      {Math.round(summary.grounding.score * 100)}%
+                      {summary.grounding.flagged > 0 && ` · ${summary.grounding.flagged} unverified`}
+                    </span>
+                  </div>
+                )}
                 <div className="flex justify-between">
                   <span className="text-ink-400">Processing</span>
-                  <span className="text-ink-200">{mockSummary.processingTime}</span>
+                  <span className="text-ink-200">{(summary.processingTime / 1000).toFixed(1)} seconds</span>
                 </div>
               </div>
             </motion.div>
@@ -339,7 +664,7 @@ const Summary = () => {
                 Topics
               </h3>
               <div className="flex flex-wrap gap-2">
-                {mockSummary.summary.topics.map((topic, index) => (
+                {summary.tags.map((topic, index) => (
                   <Badge key={index} variant="primary">
                     {topic}
                   </Badge>
@@ -347,22 +672,90 @@ const Summary = () => {
               </div>
             </motion.div>
 
-            {/* People Mentioned */}
-            <motion.div
-              initial={{ opacity: 0, y: 20 }}
-              animate={{ opacity: 1, y: 0 }}
-              transition={{ delay: 0.3 }}
-              className="glass-panel rounded-xl p-6"
-            >
-              <h3 className="text-lg font-semibold text-ink-100 mb-4">
-                People Mentioned
-              </h3>
-              <div className="space-y-2">
-                {mockSummary.summary.people.map((person, index) => (
-                  <div key={index} className="text-ink-200">{person}</div>
-                ))}
-              </div>
-            </motion.div>
+            {/* Speakers */}
+            {speakers.length > 0 && (
+              <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.3 }}
+                className="glass-panel rounded-xl p-6"
+              >
+                <h3 className="text-lg font-semibold text-ink-100 mb-4">
+                  Speakers
+                </h3>
+                <div className="space-y-3 text-sm">
+                  {speakers.map((speaker) => (
+                    <div key={speaker.id} className="space-y-1">
+                      {editingSpeaker?.id === speaker.id ? (
+                        <form onSubmit={handleRenameSpeaker} className="flex gap-2">
+                          <input
+                            autoFocus
+                            value={editingSpeaker.name}
+                            onChange={(e) => setEditingSpeaker({ id: speaker.id, name: e.target.value })}
+                            onKeyDown={(e) => e.key === "Escape" && setEditingSpeaker(null)}
+                            maxLength={100}
+                            aria-label="Speaker name"
+                            className="min-w-0 flex-1 rounded-lg border border-ink-600 bg-ink-800/50 px-2 py-1 text-ink-100 focus-ring"
+                          />
+                          <Button type="submit" size="sm" loading={rename.isPending}>
+                            Save
+                          </Button>
+                        </form>
+                      ) : (
+                        <div className="flex items-center justify-between gap-2">
+                          <button
+                            type="button"
+                            onClick={() => setEditingSpeaker({ id: speaker.id, name: speaker.name ?? "" })}
+                            className="group flex items-center gap-2 text-ink-200 hover:text-ink-100 focus-ring rounded"
+                            title="Rename speaker"
+                          >
+                            {speaker.name || speaker.id}
+                            <Pencil className="w-3 h-3 text-ink-500 group-hover:text-ink-300" />
+                          </button>
+                          <span className="text-ink-400">{formatDuration(speaker.speakingTime)}</span>
+                        </div>
+                      )}
+                      <ProgressBar size="sm" value={totalSpeakingTime > 0 ? (speaker.speakingTime / totalSpeakingTime) * 100 : 0} />
+                    </div>
+                  ))}
+                </div>
+              </motion.div>
+            )}
+
+            {/* Version History */}
+            {summary.versions && summary.versions.length > 0 && (
+              <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.35 }}
+                className="glass-panel rounded-xl p-6"
+              >
+                <h3 className="flex items-center gap-2 text-lg font-semibold text-ink-100 mb-4">
+                  <History className="w-5 h-5" />
+                  Versions
+                </h3>
+                <div className="space-y-2 text-sm">
+                  <div className="flex items-center justify-between p-2 rounded-lg bg-brand-600/10">
+                    <span className="text-ink-100">v{summary.version ?? 1} · {DETAIL_LABELS[summary.detailLevel]}</span>
+                    <Badge variant="primary">Current</Badge>
+                  </div>
+                  {summary.versions.map((version) => (
+                    <button
+                      key={version.version}
+                      type="button"
+                      onClick={() => setCompareVersion(version.version)}
+                      className={cn(
+                        "w-full flex items-center justify-between p-2 rounded-lg text-left transition-colors hover:bg-ink-700/30 focus-ring",
+                        compareVersion === version.version && "bg-ink-700/30"
+                      )}
+                    >
+                      <span className="text-ink-200">v{version.version} · {DETAIL_LABELS[version.detailLevel]}</span>
+                      <span className="text-ink-400">{formatDate(version.generatedAt)}</span>
+                    </button>
+                  ))}
+                </div>
+              </motion.div>
+            )}
 
             {/* Chapters */}
             <motion.div
@@ -375,11 +768,11 @@ const Summary = () => {
                 Chapters
               </h3>
               <div className="space-y-3">
-                {mockSummary.summary.chapters.map((chapter, index) => (
+                {(summary.chapters ?? []).map((chapter, index) => (
                   <div key={index} className="flex items-center justify-between text-sm">
                     <span className="text-ink-200">{chapter.title}</span>
                     <Badge variant="outline" className="font-mono text-xs">
-                      {chapter.start}
+                      {secondsToTimeString(Math.floor(chapter.start))}
                     </Badge>
                   </div>
                 ))}
@@ -1,60 +1,130 @@
 "use client";
 
 import { useState } from "react";
+import { Link } from "react-router-dom";
 import { motion } from "framer-motion";
-import { Link2, Upload as UploadIcon, Settings, ArrowRight, CheckCircle, Clock } from "lucide-react";
+import { Link2, Upload as UploadIcon, Settings, ArrowRight, CheckCircle, Clock, AlertCircle, RotateCcw } from "lucide-react";
 import Container from "@/components/Container";
 import Button from "@/components/Button";
 import Input from "@/components/Input";
 import FileDropzone from "@/components/FileDropzone";
 import ProgressBar from "@/components/ProgressBar";
 import { cn } from "@/lib/utils";
+import { type AudioChannel, type JobStage, type UploadProgress } from "@/lib/api";
+import { secondsToTimeString } from "@/lib/formatting";
+import { useJobProgress, useRetryJob, useTemplates, useUploadPodcast } from "@/hooks/use-summaries";
 
 type UploadMode = "file" | "url";
+type AudioCleanupOption = "removeNoise" | "trimSilence" | "shortenPauses";
+
+const audioCleanupOptions: { key: AudioCleanupOption; label: string }[] = [
+  { key: "removeNoise", label: "Reduce background noise" },
+  { key: "trimSilence", label: "Trim silence at the start and end" },
+  { key: "shortenPauses", label: "Shorten long pauses" },
+];
 type ProcessingState = "idle" | "uploading" | "transcribing" | "summarizing" | "complete" | "error";
 
+// Server job stages collapse onto the three steps shown in the stepper
+const stageToState = (stage?: JobStage): ProcessingState => {
+  switch (stage) {
+    case "transcribing":
+    case "diarizing":
+      return "transcribing";
+    case "summarizing":
+    case "saving":
+      return "summarizing";
+    case "completed":
+      return "complete";
+    case "failed":
+    case "cancelled":
+      return "error";
+    default:
+      return "uploading";
+  }
+};
+
 const Upload = () => {
   const [mode, setMode] = useState<UploadMode>("file");
   const [url, setUrl] = useState("");
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [processingState, setProcessingState] = useState<ProcessingState>("idle");
-  const [progress, setProgress] = useState(0);
+  const [uploadProgress, setUploadProgress] = useState<UploadProgress>();
   const [showOptions, setShowOptions] = useState(false);
   const [options, setOptions] = useState({
     language: "auto",
     detail: "standard" as "brief" | "standard" | "deep",
     timestamps: false,
+    templateId: "",
+    removeNoise: false,
+    trimSilence: false,
+    shortenPauses: false,
+    channel: "mix" as AudioChannel,
   });
 
+  const templates = useTemplates();
+  const upload = useUploadPodcast();
+  const retry = useRetryJob();
+  const [attempt, setAttempt] = useState(0);
+  const job = useJobProgress(upload.data?.jobId, attempt);
+  const { progress, transcript, summaryId } = job;
+  const statusMessage = job.message;
+  const error = upload.error?.message ?? retry.error?.message ?? job.error;
+
+  const processingState: ProcessingState = upload.isIdle
+    ? "idle"
+    : upload.isError || job.failed
+      ? "error"
+      : job.status === "completed"
+        ? "complete"
+        : stageToState(job.stage);
+
   const handleFileSelect = (file: File) => {
     setSelectedFile(file);
   };
 
-  const handleSubmit = async () => {
+  const handleSubmit = () => {
     if (mode === "file" && !selectedFile) return;
     if (mode === "url" && !url.trim()) return;
 
-    // Simulate processing flow
-    setProcessingState("uploading");
-    setProgress(10);
+    setUploadProgress(undefined);
+    upload.mutate({
+      type: mode,
+      file: mode === "file" ? selectedFile ?? undefined : undefined,
+      url: mode === "url" ? url.trim() : undefined,
+      options: {
+        lang: options.language === "auto" ? undefined : options.language,
+        detail: options.detail,
+        timestamps: options.timestamps,
+        templateId: options.templateId || undefined,
+        audio: {
+          removeNoise: options.removeNoise || undefined,
+          trimSilence: options.trimSilence || undefined,
+          shortenPauses: options.shortenPauses || undefined,
+          channel: options.channel === "mix" ? undefined : options.channel,
+        },
+      },
+      onProgress: setUploadProgress,
+    });
+  };
 
-    setTimeout(() => {
-      setProcessingState("transcribing");
-      setProgress(40);
-    }, 1000);
+  const handleReset = () => {
+    upload.reset();
+    setUploadProgress(undefined);
+    retry.reset();
+    setAttempt(0);
+  };
 
-    setTimeout(() => {
-      setProcessingState("summarizing");
-      setProgress(80);
-    }, 3000);
+  const handleRetry = () => {
+    const jobId = upload.data?.jobId;
+    if (!jobId) return;
 
-    setTimeout(() => {
-      setProcessingState("complete");
-      setProgress(100);
-    }, 5000);
+    retry.mutate(jobId, { onSuccess: () => setAttempt(n => n + 1) });
   };
 
   const getProcessingMessage = () => {
+    if (statusMessage && processingState !== "complete") {
+      return statusMessage;
+    }
+
     switch (processingState) {
       case "uploading":
         return "Uploading audio file...";
@@ -69,7 +139,9 @@ const Upload = () => {
     }
   };
 
-  const isProcessing = ["uploading", "transcribing", "summarizing"].includes(processingState);
+  // File uploads show their byte progress in the dropzone until the job starts
+  const isSendingFile = mode === "file" && upload.isPending;
+  const isProcessing = ["uploading", "transcribing", "summarizing"].includes(processingState) && !isSendingFile;
   const canSubmit = (mode === "file" && selectedFile) || (mode === "url" && url.trim());
 
   return (
@@ -110,6 +182,18 @@ const Upload = () => {
               </div>
               <ProgressBar value={progress} variant="brand" showLabel />
 
+              {/* Live transcript */}
+              {transcript.length > 0 && (
+                <div className="mt-4 max-h-32 overflow-y-auto rounded-lg bg-ink-800/50 p-3 text-sm text-ink-300 space-y-1" aria-live="polite">
+                  {transcript.slice(-5).map((segment) => (
+                    <p key={segment.start}>
+                      <span className="text-ink-500 mr-2">{secondsToTimeString(Math.floor(segment.start))}</span>
+                      {segment.text}
+                    </p>
+                  ))}
+                </div>
+              )}
+
               {/* Processing Steps */}
               <div className="mt-6 grid grid-cols-3 gap-4">
                 {[
@@ -169,160 +253,267 @@ const Upload = () => {
                   <p className="text-sm text-ink-400">Your podcast has been processed successfully</p>
                 </div>
               </div>
-              <Button variant="hero" className="w-full">
-                View Summary
-                <ArrowRight className="w-4 h-4" />
+              <Link to={summaryId ? `/summary/${summaryId}` : "/dashboard"}>
+                <Button variant="hero" className="w-full">
+                  View Summary
+                  <ArrowRight className="w-4 h-4" />
+                </Button>
+              </Link>
+            </motion.div>
+          )}
+
+          {processingState === "error" && (
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="glass-panel rounded-xl p-6 mb-8 border border-error/20 bg-error/5"
+              role="alert"
+            >
+              <div className="flex items-center gap-3 mb-4">
+                <AlertCircle className="w-8 h-8 text-error" />
+                <div>
+                  <h3 className="font-semibold text-ink-100">Processing Failed</h3>
+                  <p className="text-sm text-ink-400">{error || "Something went wrong while processing your podcast"}</p>
+                </div>
+              </div>
+              {job.retryable && (
+                <>
+                  <p className="text-sm text-ink-400 mb-4">
+                    The AI service was unavailable. Retrying picks up where processing stopped, without uploading again.
+                  </p>
+                  <Button
+                    variant="hero"
+                    className="w-full mb-3"
+                    onClick={handleRetry}
+                    loading={retry.isPending}
+                    leftIcon={<RotateCcw className="w-4 h-4" />}
+                  >
+                    Retry
+                  </Button>
+                </>
+              )}
+              <Button variant="secondary" className="w-full" onClick={handleReset}>
+                {job.retryable ? "Start Over" : "Try Again"}
               </Button>
             </motion.div>
           )}
 
           {/* Upload Form */}
-          {!isProcessing && processingState !== "complete" && (
+          {(processingState === "idle" || isSendingFile) && (
             <motion.div
               initial={{ opacity: 0, y: 20 }}
               animate={{ opacity: 1, y: 0 }}
               transition={{ delay: 0.1 }}
               className="glass-panel rounded-xl p-6 mb-6"
             >
-              {/* Mode Tabs */}
-              <div className="flex rounded-lg bg-ink-800/50 p-1 mb-6">
-                <button
-                  type="button"
-                  onClick={() => setMode("file")}
-                  className={cn(
-                    "flex-1 flex items-center justify-center gap-2 px-4 py-2 rounded-md text-sm font-medium transition-all",
-                    mode === "file"
-                      ? "bg-brand-600 text-white shadow-md"
-                      : "text-ink-400 hover:text-ink-200"
-                  )}
-                >
-                  <UploadIcon className="w-4 h-4" />
-                  Upload Audio
-                </button>
-                <button
-                  type="button"
-                  onClick={() => setMode("url")}
-                  className={cn(
-                    "flex-1 flex items-center justify-center gap-2 px-4 py-2 rounded-md text-sm font-medium transition-all",
-                    mode === "url"
-                      ? "bg-brand-600 text-white shadow-md"
-                      : "text-ink-400 hover:text-ink-200"
-                  )}
-                >
-                  <Link2 className="w-4 h-4" />
-                  Paste URL
-                </button>
-              </div>
-
-              {/* Upload Methods */}
-              {mode === "file" ? (
-                <FileDropzone onFileSelect={handleFileSelect} />
-              ) : (
-                <div className="space-y-4">
-                  <Input
-                    placeholder="https://open.spotify.com/episode/... or RSS feed URL"
-                    value={url}
-                    onChange={(e) => setUrl(e.target.value)}
-                    size="lg"
-                    leftIcon={<Link2 className="w-4 h-4" />}
-                    hint="Supports Spotify, Apple Podcasts, RSS feeds, and direct audio URLs"
-                  />
+              <fieldset disabled={isSendingFile} className="min-w-0">
+                {/* Mode Tabs */}
+                <div className="flex rounded-lg bg-ink-800/50 p-1 mb-6">
+                  <button
+                    type="button"
+                    onClick={() => setMode("file")}
+                    className={cn(
+                      "flex-1 flex items-center justify-center gap-2 px-4 py-2 rounded-md text-sm font-medium transition-all",
+                      mode === "file"
+                        ? "bg-brand-600 text-white shadow-md"
+                        : "text-ink-400 hover:text-ink-200"
+                    )}
+                  >
+                    <UploadIcon className="w-4 h-4" />
+                    Upload Audio
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setMode("url")}
+                    className={cn(
+                      "flex-1 flex items-center justify-center gap-2 px-4 py-2 rounded-md text-sm font-medium transition-all",
+                      mode === "url"
+                        ? "bg-brand-600 text-white shadow-md"
+                        : "text-ink-400 hover:text-ink-200"
+                    )}
+                  >
+                    <Link2 className="w-4 h-4" />
+                    Paste URL
+                  </button>
                 </div>
-              )}
 
-              {/* Options */}
-              <div className="mt-6">
-                <button
-                  type="button"
-                  onClick={() => setShowOptions(!showOptions)}
-                  className="flex items-center gap-2 text-sm text-ink-300 hover:text-ink-100 focus-ring rounded-lg p-2"
-                >
-                  <Settings className="w-4 h-4" />
-                  Advanced Options
-                  <motion.div
-                    animate={{ rotate: showOptions ? 180 : 0 }}
-                    transition={{ duration: 0.2 }}
-                  >
-                    <ArrowRight className="w-4 h-4" />
-                  </motion.div>
-                </button>
-
-                {showOptions && (
-                  <motion.div
-                    initial={{ opacity: 0, height: 0 }}
-                    animate={{ opacity: 1, height: "auto" }}
-                    exit={{ opacity: 0, height: 0 }}
-                    className="mt-4 space-y-4 pl-6 border-l border-ink-700"
+                {/* Upload Methods */}
+                {mode === "file" ? (
+                  <FileDropzone onFileSelect={handleFileSelect} disabled={isSendingFile} progress={uploadProgress} />
+                ) : (
+                  <div className="space-y-4">
+                    <Input
+                      placeholder="https://open.spotify.com/episode/... or RSS feed URL"
+                      value={url}
+                      onChange={(e) => setUrl(e.target.value)}
+                      size="lg"
+                      leftIcon={<Link2 className="w-4 h-4" />}
+                      hint="Supports Spotify, Apple Podcasts, RSS feeds, and direct audio URLs"
+                    />
+                  </div>
+                )}
+
+                {/* Options */}
+                <div className="mt-6">
+                  <button
+                    type="button"
+                    onClick={() => setShowOptions(!showOptions)}
+                    className="flex items-center gap-2 text-sm text-ink-300 hover:text-ink-100 focus-ring rounded-lg p-2"
                   >
-                    <div>
-                      <label className="block text-sm font-medium text-ink-200 mb-2">
-                        Language
-                      </label>
-                      <select
-                        value={options.language}
-                        onChange={(e) => setOptions(prev => ({ ...prev, language: e.target.value }))}
-                        className="w-full rounded-lg border border-ink-600 bg-ink-800/50 px-3 py-2 text-sm text-ink-100 focus-ring"
-                      >
-                        <option value="auto">Auto-detect</option>
-                        <option value="en">English</option>
-                        <option value="es">Spanish</option>
-                        <option value="fr">French</option>
-                        <option value="de">German</option>
-                      </select>
-                    </div>
+                    <Settings className="w-4 h-4" />
+                    Advanced Options
+                    <motion.div
+                      animate={{ rotate: showOptions ? 180 : 0 }}
+                      transition={{ duration: 0.2 }}
+                    >
+                      <ArrowRight className="w-4 h-4" />
+                    </motion.div>
+                  </button>
 
-                    <div>
-                      <label className="block text-sm font-medium text-ink-200 mb-2">
-                        Summary Detail Level
-                      </label>
-                      <div className="grid grid-cols-3 gap-2">
-                        {(["brief", "standard", "deep"] as const).map((level) => (
-                          <button
-                            key={level}
-                            type="button"
-                            onClick={() => setOptions(prev => ({ ...prev, detail: level }))}
-                            className={cn(
-                              "px-3 py-2 rounded-lg text-sm font-medium transition-all",
-                              options.detail === level
-                                ? "bg-brand-600 text-white"
-                                : "bg-ink-800 text-ink-300 hover:bg-ink-700"
-                            )}
+                  {showOptions && (
+                    <motion.div
+                      initial={{ opacity: 0, height: 0 }}
+                      animate={{ opacity: 1, height: "auto" }}
+                      exit={{ opacity: 0, height: 0 }}
+                      className="mt-4 space-y-4 pl-6 border-l border-ink-700"
+                    >
+                      <div>
+                        <label className="block text-sm font-medium text-ink-200 mb-2">
+                          Language
+                        </label>
+                        <select
+                          value={options.language}
+                          onChange={(e) => setOptions(prev => ({ ...prev, language: e.target.value }))}
+                          className="w-full rounded-lg border border-ink-600 bg-ink-800/50 px-3 py-2 text-sm text-ink-100 focus-ring"
+                        >
+                          <option value="auto">Auto-detect</option>
+                          <option value="en">English</option>
+                          <option value="es">Spanish</option>
+                          <option value="fr">French</option>
+                          <option value="de">German</option>
+                        </select>
+                      </div>
+
+                      {templates.data && templates.data.length > 0 && (
+                        <div>
+                          <label htmlFor="template" className="block text-sm font-medium text-ink-200 mb-2">
+                            Summary Template
+                          </label>
+                          <select
+                            id="template"
+                            value={options.templateId}
+                            onChange={(e) => setOptions(prev => ({ ...prev, templateId: e.target.value }))}
+                            className="w-full rounded-lg border border-ink-600 bg-ink-800/50 px-3 py-2 text-sm text-ink-100 focus-ring"
                           >
-                            {level.charAt(0).toUpperCase() + level.slice(1)}
-                          </button>
-                        ))}
+                            <option value="">Standard summary</option>
+                            {templates.data.map(template => (
+                              <option key={template.id} value={template.id}>{template.name}</option>
+                            ))}
+                          </select>
+                          {options.templateId && (
+                            <p className="mt-1 text-xs text-ink-400">
+                              {templates.data.find(template => template.id === options.templateId)?.description ||
+                                "The template decides the sections and how many items each has."}
+                            </p>
+                          )}
+                        </div>
+                      )}
+
+                      <div>
+                        <label className="block text-sm font-medium text-ink-200 mb-2">
+                          Summary Detail Level
+                        </label>
+                        <div className="grid grid-cols-3 gap-2">
+                          {(["brief", "standard", "deep"] as const).map((level) => (
+                            <button
+                              key={level}
+                              type="button"
+                              onClick={() => setOptions(prev => ({ ...prev, detail: level }))}
+                              className={cn(
+                                "px-3 py-2 rounded-lg text-sm font-medium transition-all",
+                                options.detail === level
+                                  ? "bg-brand-600 text-white"
+                                  : "bg-ink-800 text-ink-300 hover:bg-ink-700"
+                              )}
+                            >
+                              {level.charAt(0).toUpperCase() + level.slice(1)}
+                            </button>
+                          ))}
+                        </div>
                       </div>
-                    </div>
 
-                    <div className="flex items-center gap-3">
-                      <input
-                        type="checkbox"
-                        id="timestamps"
-                        checked={options.timestamps}
-                        onChange={(e) => setOptions(prev => ({ ...prev, timestamps: e.target.checked }))}
-                        className="w-4 h-4 text-brand-600 bg-ink-800 border-ink-600 rounded focus:ring-brand-500"
-                      />
-                      <label htmlFor="timestamps" className="text-sm text-ink-200">
-                        Include timestamps in summary
-                      </label>
-                    </div>
-                  </motion.div>
-                )}
-              </div>
+                      <div className="flex items-center gap-3">
+                        <input
+                          type="checkbox"
+                          id="timestamps"
+                          checked={options.timestamps}
+                          onChange={(e) => setOptions(prev => ({ ...prev, timestamps: e.target.checked }))}
+                          className="w-4 h-4 text-brand-600 bg-ink-800 border-ink-600 rounded focus:ring-brand-500"
+                        />
+                        <label htmlFor="timestamps" className="text-sm text-ink-200">
+                          Include timestamps in summary
+                        </label>
+                      </div>
 
-              {/* Submit Button */}
-              <div className="mt-8">
-                <Button
-                  variant="hero"
-                  size="lg"
-                  className="w-full"
-                  disabled={!canSubmit}
-                  onClick={handleSubmit}
-                >
-                  Generate Summary
-                  <ArrowRight className="w-4 h-4" />
-                </Button>
-              </div>
+                      <div>
+                        <label className="block text-sm font-medium text-ink-200 mb-2">
+                          Audio Cleanup
+                        </label>
+                        <div className="space-y-2">
+                          {audioCleanupOptions.map(({ key, label }) => (
+                            <div key={key} className="flex items-center gap-3">
+                              <input
+                                type="checkbox"
+                                id={key}
+                                checked={options[key]}
+                                onChange={(e) => setOptions(prev => ({ ...prev, [key]: e.target.checked }))}
+                                className="w-4 h-4 text-brand-600 bg-ink-800 border-ink-600 rounded focus:ring-brand-500"
+                              />
+                              <label htmlFor={key} className="text-sm text-ink-200">
+                                {label}
+                              </label>
+                            </div>
+                          ))}
+                        </div>
+                        <p className="mt-1 text-xs text-ink-400">
+                          Timestamps still match the original recording.
+                        </p>
+                      </div>
+
+                      <div>
+                        <label htmlFor="channel" className="block text-sm font-medium text-ink-200 mb-2">
+                          Stereo Channel
+                        </label>
+                        <select
+                          id="channel"
+                          value={options.channel}
+                          onChange={(e) => setOptions(prev => ({ ...prev, channel: e.target.value as AudioChannel }))}
+                          className="w-full rounded-lg border border-ink-600 bg-ink-800/50 px-3 py-2 text-sm text-ink-100 focus-ring"
+                        >
+                          <option value="mix">Mix both channels</option>
+                          <option value="left">Left channel only</option>
+                          <option value="right">Right channel only</option>
+                        </select>
+                      </div>
+                    </motion.div>
+                  )}
+                </div>
+
+                {/* Submit Button */}
+                <div className="mt-8">
+                  <Button
+                    variant="hero"
+                    size="lg"
+                    className="w-full"
+                    disabled={!canSubmit}
+                    loading={isSendingFile}
+                    onClick={handleSubmit}
+                  >
+                    Generate Summary
+                    <ArrowRight className="w-4 h-4" />
+                  </Button>
+                </div>
+              </fieldset>
             </motion.div>
           )}
         </div>